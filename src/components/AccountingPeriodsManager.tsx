@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { AccountingPeriod, useAccountingPeriods } from '@/hooks/useAccountingPeriods';
+import { Lock, LockOpen } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+// How far back months are offered for closing
+const CLOSABLE_MONTHS = 24;
+
+const formatPeriod = (periodMonth: string) => format(new Date(`${periodMonth}T00:00:00`), 'MMMM yyyy');
+
+export function AccountingPeriodsManager() {
+  const { periods, loading, closePeriod, reopenPeriod } = useAccountingPeriods();
+  const [monthToClose, setMonthToClose] = useState('');
+  const [closing, setClosing] = useState(false);
+  const [reopenTarget, setReopenTarget] = useState<AccountingPeriod | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+  const [reopening, setReopening] = useState(false);
+  const { toast } = useToast();
+
+  // Past months that are not closed right now, most recent first
+  const closableMonths = useMemo(() => {
+    const closed = new Set(periods.filter(p => p.is_closed).map(p => p.period_month));
+    return Array.from({ length: CLOSABLE_MONTHS }, (_, i) =>
+      format(startOfMonth(subMonths(new Date(), i + 1)), 'yyyy-MM-dd')
+    ).filter(month => !closed.has(month));
+  }, [periods]);
+
+  const handleClose = async () => {
+    if (!monthToClose) return;
+    setClosing(true);
+    try {
+      await closePeriod(monthToClose);
+      toast({
+        title: 'Success',
+        description: `${formatPeriod(monthToClose)} closed`,
+      });
+      setMonthToClose('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to close period',
+        variant: 'destructive',
+      });
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!reopenTarget || !reopenReason.trim()) return;
+    setReopening(true);
+    try {
+      await reopenPeriod(reopenTarget.period_month, reopenReason.trim());
+      toast({
+        title: 'Success',
+        description: `${formatPeriod(reopenTarget.period_month)} reopened`,
+      });
+      setReopenTarget(null);
+      setReopenReason('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reopen period',
+        variant: 'destructive',
+      });
+    } finally {
+      setReopening(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-primary" />
+          Accounting Periods
+        </CardTitle>
+        <CardDescription>
+          Close a month once its books are final. Expenses and fuel receipts dated in a closed month cannot be added, edited or deleted until it is reopened.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2">
+            <Label>Month to Close</Label>
+            <Select value={monthToClose} onValueChange={setMonthToClose}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select month" />
+              </SelectTrigger>
+              <SelectContent>
+                {closableMonths.map((month) => (
+                  <SelectItem key={month} value={month}>
+                    {formatPeriod(month)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button className="gap-2" disabled={!monthToClose || closing}>
+                <Lock className="h-4 w-4" />
+                {closing ? 'Closing...' : 'Close Period'}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Close {monthToClose && formatPeriod(monthToClose)}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Expenses and fuel receipts dated in this month will be locked against changes. Approvals and vendor links can still be recorded.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleClose}>
+                  Close Period
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : periods.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No periods have been closed yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Closed</TableHead>
+                  <TableHead>Last Reopened</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map((period) => (
+                  <TableRow key={period.id}>
+                    <TableCell className="font-medium">{formatPeriod(period.period_month)}</TableCell>
+                    <TableCell>
+                      <Badge variant={period.is_closed ? 'default' : 'secondary'}>
+                        {period.is_closed ? 'Closed' : 'Open'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {period.closed_at ? (
+                        <>
+                          {format(new Date(period.closed_at), 'MMM d, yyyy')}
+                          {period.closedByName && <div className="text-xs text-muted-foreground">{period.closedByName}</div>}
+                        </>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {period.reopened_at ? (
+                        <>
+                          {format(new Date(period.reopened_at), 'MMM d, yyyy')}
+                          {period.reopenedByName && <div className="text-xs text-muted-foreground">{period.reopenedByName}</div>}
+                          {period.reopen_reason && <div className="text-xs text-muted-foreground italic">{period.reopen_reason}</div>}
+                        </>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {period.is_closed && (
+                        <Button size="sm" variant="outline" className="gap-2" onClick={() => setReopenTarget(period)}>
+                          <LockOpen className="h-4 w-4" />
+                          Reopen
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!reopenTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReopenTarget(null);
+            setReopenReason('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reopen {reopenTarget && formatPeriod(reopenTarget.period_month)}</DialogTitle>
+            <DialogDescription>
+              Records dated in this month can be changed again until it is closed. The reason is kept in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopen-reason">Reason *</Label>
+            <Textarea
+              id="reopen-reason"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="Why does this period need to be reopened?"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setReopenTarget(null);
+                setReopenReason('');
+              }}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleReopen} disabled={!reopenReason.trim() || reopening}>
+              {reopening ? 'Reopening...' : 'Reopen Period'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -9,11 +9,24 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
-import { usePreapprovalRules } from '@/hooks/usePreapprovalRules';
 import { Receipt, Upload, X, Loader2, ChevronDown } from 'lucide-react';
 import { ReceiptVerificationDialog, ScannedReceiptData } from './ReceiptVerificationDialog';
 import { MultiExpenseVerificationDialog, ScannedMultiExpenseData } from './MultiExpenseVerificationDialog';
 import { AddVendorFromScanDialog } from './AddVendorFromScanDialog';
+import { DuplicateWarningDialog } from './DuplicateWarningDialog';
+import { emitExpensesChanged } from '@/utils/expensesEvents';
+import { DuplicateMatch, useDuplicateCheck } from '@/hooks/useDuplicateCheck';
+import { hashFile } from '@/utils/duplicateReceipts';
+import { TaxComponentFields } from './TaxComponentFields';
+import {
+  BRANCH_TAX_COLUMNS,
+  BranchTaxSettings,
+  TaxComponentValues,
+  getActiveTaxComponents,
+  getScanTaxContext,
+  scannedTaxToValues,
+  toTaxColumns,
+} from '@/utils/taxRegimes';
 
 interface Category {
   id: string;
@@ -21,7 +34,7 @@ interface Category {
   type: string;
 }
 
-interface Branch {
+interface Branch extends BranchTaxSettings {
   id: string;
   name: string;
 }
@@ -67,6 +80,9 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
   const [scannedMultiData, setScannedMultiData] = useState<ScannedMultiExpenseData | null>(null);
   const [addVendorOpen, setAddVendorOpen] = useState(false);
   const [pendingVendorData, setPendingVendorData] = useState<{ name: string; address?: string } | null>(null);
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  const [duplicateWarningOpen, setDuplicateWarningOpen] = useState(false);
+  const [pendingInvoice, setPendingInvoice] = useState<{ data: ScannedMultiExpenseData; itemMatches: DuplicateMatch[][] } | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
@@ -78,8 +94,8 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const { user } = useAuth();
-  const { shouldAutoApprove } = usePreapprovalRules();
   const { isAdminOrManager } = useUserRole();
+  const { findDuplicates, recordDuplicates } = useDuplicateCheck();
 
   const checkScrollability = useCallback(() => {
     const container = scrollContainerRef.current;
@@ -100,12 +116,16 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
     staffName: '',
     subtotal: '',
     taxAmount: '',
+    taxComponents: {} as TaxComponentValues,
+    usInvoice: false,
     amount: '',
     date: new Date().toISOString().split('T')[0],
     description: '',
     odometerReading: '',
   });
 
+  const selectedBranch = branches.find(b => b.id === formData.branchId);
+
   useEffect(() => {
     // Check scrollability when dialog opens or form data changes
     const timer = setTimeout(checkScrollability, 100);
@@ -130,7 +150,7 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
   const fetchData = async () => {
     const [categoriesRes, branchesRes, vehiclesRes, vendorsRes, managersRes, profileRes] = await Promise.all([
       supabase.from('expense_categories').select('*').order('name'),
-      supabase.from('branches').select('id, name').order('name'),
+      supabase.from('branches').select(`id, name, ${BRANCH_TAX_COLUMNS}`).order('name'),
       supabase.from('vehicles').select('id, plate, make, model').order('plate'),
       supabase.from('vendors').select('*').order('name'),
       supabase.from('manager_approvers').select('*').eq('is_active', true).order('name'),
@@ -232,7 +252,8 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
           fileBase64: base64, 
           mimeType: file.type,
           fileName: file.name,
-          textContent 
+          textContent,
+          tax: getScanTaxContext(selectedBranch),
         }
       });
 
@@ -260,6 +281,7 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
             date: data.date,
             subtotal: data.subtotal,
             tax_amount: data.tax_amount,
+            tax_components: data.tax_components,
             total: data.total,
             expense_items: expenseItems,
           });
@@ -271,6 +293,8 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
             vendor_address: data.vendor_address,
             subtotal: data.subtotal || expenseItems[0]?.subtotal,
             tax_amount: data.tax_amount || expenseItems[0]?.tax_amount,
+            tax_components: data.tax_components,
+            tax_warning: data.tax_warning,
             total: data.total || expenseItems[0]?.amount,
             date: data.date,
             description: expenseItems[0]?.description || data.description,
@@ -293,11 +317,13 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
 
   const handleVerificationConfirm = (data: ScannedReceiptData) => {
     // Apply verified data to form
+    const scannedTax = scannedTaxToValues(data.tax_amount, data.tax_components, selectedBranch);
     setFormData(prev => ({
       ...prev,
       vendorName: data.vendor_name || prev.vendorName,
       subtotal: data.subtotal?.toString() || prev.subtotal,
       taxAmount: data.tax_amount?.toString() || prev.taxAmount,
+      ...(data.tax_amount ? { taxComponents: scannedTax.values, usInvoice: scannedTax.usInvoice } : {}),
       amount: data.total?.toString() || prev.amount,
       date: data.date || prev.date,
       description: data.description || prev.description,
@@ -371,6 +397,34 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
     setMultiVerificationOpen(false);
     setLoading(true);
 
+    // Each item is checked like a single receipt; the invoice's files are shared by all of them
+    const fileHashes = await Promise.all(selectedFiles.map(hashFile));
+    const itemMatches = await Promise.all(data.expense_items.map(item => findDuplicates({
+      source: 'expense',
+      date: data.date || formData.date,
+      amount: item.amount,
+      vendor_name: data.vendor_name || null,
+      vehicle_id: formData.vehicleId,
+      fileHashes,
+    })));
+
+    if (itemMatches.some(matches => matches.length > 0)) {
+      setPendingInvoice({ data, itemMatches });
+      setDuplicateMatches(itemMatches.flat().filter((match, index, all) =>
+        all.findIndex(other => other.record.source === match.record.source && other.record.id === match.record.id) === index
+      ));
+      setDuplicateWarningOpen(true);
+      setLoading(false);
+      return;
+    }
+
+    await saveInvoiceExpenses(data, itemMatches);
+  };
+
+  const saveInvoiceExpenses = async (data: ScannedMultiExpenseData, itemMatches: DuplicateMatch[][]) => {
+    setPendingInvoice(null);
+    setLoading(true);
+
     try {
       // Match vendor
       let vendorId: string | null = null;
@@ -388,7 +442,7 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
 
       // Create expense for each item
       const createdExpenses: string[] = [];
-      for (const item of data.expense_items) {
+      for (const [index, item] of data.expense_items.entries()) {
         // Try to match category
         let categoryId: string | null = null;
         if (item.category_suggestion) {
@@ -409,9 +463,6 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
           }
         }
 
-        // Check if this category should be auto-approved using dynamic rules
-        const autoApprove = shouldAutoApprove(categoryId, item.amount, formData.branchId);
-
         const { data: expense, error: expenseError } = await supabase
           .from('expenses')
           .insert({
@@ -424,20 +475,30 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
             staff_name: formData.staffName || null,
             subtotal: item.subtotal || null,
             tax_amount: item.tax_amount || null,
+            // Items are split by the branch's regime unless the invoice carries US sales tax
+            ...(data.tax_components?.us_sales_tax
+              ? toTaxColumns({ us_sales_tax: item.tax_amount?.toFixed(2) }, ['us_sales_tax'])
+              : {}),
             amount: item.amount,
             date: data.date || formData.date,
             description: item.description || null,
             odometer_reading: formData.odometerReading ? parseInt(formData.odometerReading) : null,
             created_by: user?.id,
             receipt_scanned: selectedFiles.length > 0,
-            approval_status: autoApprove ? 'approved' : 'pending',
-            approved_at: autoApprove ? new Date().toISOString() : null,
+            approval_status: 'pending',
           })
           .select()
           .single();
 
         if (expenseError) throw expenseError;
-        if (expense) createdExpenses.push(expense.id);
+        if (expense) {
+          createdExpenses.push(expense.id);
+
+          // Saved past the duplicate warning: flag it for review
+          if (itemMatches[index].length > 0) {
+            await recordDuplicates({ id: expense.id, source: 'expense' }, itemMatches[index]);
+          }
+        }
       }
 
       // Upload files to the first expense (they're shared across all)
@@ -453,6 +514,7 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
       setOpen(false);
       resetForm();
       onExpenseAdded();
+      emitExpensesChanged();
 
       // If vendor wasn't matched, offer to add it
       if (data.vendor_name && !vendorMatched) {
@@ -489,6 +551,8 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
       staffName: '',
       subtotal: '',
       taxAmount: '',
+      taxComponents: {},
+      usInvoice: false,
       amount: '',
       date: new Date().toISOString().split('T')[0],
       description: '',
@@ -515,6 +579,7 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
         file_path: fileName,
         file_type: file.type,
         file_size: file.size,
+        file_hash: await hashFile(file),
         uploaded_by: user?.id,
       });
 
@@ -524,9 +589,6 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
     await Promise.all(uploadPromises);
   };
 
-  // No longer using hardcoded AUTO_APPROVE_CATEGORY_IDS
-  // Pre-approval is now handled dynamically via usePreapprovalRules hook
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -550,11 +612,31 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
 
     setLoading(true);
 
+    const matches = await findDuplicates({
+      source: 'expense',
+      date: formData.date,
+      amount: parseFloat(formData.amount),
+      vendor_name: formData.vendorName || null,
+      vehicle_id: formData.vehicleId,
+      fileHashes: await Promise.all(selectedFiles.map(hashFile)),
+    });
+
+    if (matches.length > 0) {
+      setDuplicateMatches(matches);
+      setDuplicateWarningOpen(true);
+      setLoading(false);
+      return;
+    }
+
+    await saveExpense([]);
+  };
+
+  const saveExpense = async (duplicates: DuplicateMatch[]) => {
+    setLoading(true);
+
     try {
-      // Check if this category should be auto-approved using dynamic rules
       const expenseAmount = parseFloat(formData.amount);
-      const autoApprove = shouldAutoApprove(formData.categoryId, expenseAmount, formData.branchId);
-      
+
       const { data: expense, error: expenseError } = await supabase
         .from('expenses')
         .insert({
@@ -567,24 +649,25 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
           staff_name: formData.staffName || null,
           subtotal: formData.subtotal ? parseFloat(formData.subtotal) : null,
           tax_amount: formData.taxAmount ? parseFloat(formData.taxAmount) : null,
+          ...toTaxColumns(formData.taxComponents, getActiveTaxComponents(selectedBranch, formData.usInvoice)),
           amount: expenseAmount,
           date: formData.date,
           description: formData.description || null,
           odometer_reading: formData.odometerReading ? parseInt(formData.odometerReading) : null,
           created_by: user?.id,
           receipt_scanned: selectedFiles.length > 0,
-          approval_status: autoApprove ? 'approved' : 'pending',
-          approved_at: autoApprove ? new Date().toISOString() : null,
+          approval_status: 'pending',
         })
         .select()
         .single();
 
       if (expenseError) throw expenseError;
 
-      // POST-SAVE VERIFICATION: Re-query to confirm record exists
+      // POST-SAVE VERIFICATION: Re-query to confirm record exists. Pre-approval rules are
+      // applied by the database, so the status is read back here.
       const { data: verifyRecord, error: verifyError } = await supabase
         .from('expenses')
-        .select('id, amount, branch_id')
+        .select('id, amount, branch_id, approval_status')
         .eq('id', expense.id)
         .maybeSingle();
 
@@ -598,10 +681,15 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
         await uploadFiles(expense.id, formData.vehicleId);
       }
 
+      // Saved past the duplicate warning: flag it for review
+      if (duplicates.length > 0) {
+        await recordDuplicates({ id: expense.id, source: 'expense' }, duplicates);
+      }
+
       const branchName = branches.find(b => b.id === formData.branchId)?.name;
       toast({
         title: 'Success',
-        description: autoApprove 
+        description: verifyRecord.approval_status === 'approved'
           ? `Expense ($${expenseAmount.toFixed(2)}) auto-approved${branchName ? ` for ${branchName}` : ''}.`
           : isAdminOrManager 
             ? `Expense ($${expenseAmount.toFixed(2)}) added${branchName ? ` for ${branchName}` : ''}.`
@@ -619,6 +707,8 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
         staffName: '',
         subtotal: '',
         taxAmount: '',
+        taxComponents: {},
+        usInvoice: false,
         amount: '',
         date: new Date().toISOString().split('T')[0],
         description: '',
@@ -626,6 +716,7 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
       });
       setSelectedFiles([]);
       onExpenseAdded();
+      emitExpensesChanged();
     } catch (error: any) {
       console.error('Expense save error:', error);
       toast({
@@ -855,7 +946,7 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
           </div>
 
           {/* Amounts */}
-          <div className="grid grid-cols-3 gap-4">
+          <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="subtotal">Subtotal ($)</Label>
               <Input
@@ -868,18 +959,6 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
                 placeholder="0.00"
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="tax">Tax ($)</Label>
-              <Input
-                id="tax"
-                type="number"
-                step="0.01"
-                min="0"
-                value={formData.taxAmount}
-                onChange={(e) => setFormData({ ...formData, taxAmount: e.target.value })}
-                placeholder="0.00"
-              />
-            </div>
             <div className="space-y-2">
               <Label htmlFor="amount">Total ($) *</Label>
               <Input
@@ -895,6 +974,17 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
               />
             </div>
           </div>
+          <TaxComponentFields
+            idPrefix="expense"
+            branch={selectedBranch}
+            subtotal={formData.subtotal}
+            taxAmount={formData.taxAmount}
+            onTaxAmountChange={(taxAmount) => setFormData(prev => ({ ...prev, taxAmount }))}
+            values={formData.taxComponents}
+            onValuesChange={(taxComponents) => setFormData(prev => ({ ...prev, taxComponents }))}
+            usInvoice={formData.usInvoice}
+            onUsInvoiceChange={(usInvoice) => setFormData(prev => ({ ...prev, usInvoice }))}
+          />
 
           {/* Date & Odometer */}
           <div className="grid grid-cols-2 gap-4">
@@ -967,6 +1057,18 @@ export function AddExpenseDialog({ vehicleId, onExpenseAdded, trigger }: AddExpe
         onCancel={handleVerificationCancel}
       />
 
+      <DuplicateWarningDialog
+        matches={duplicateMatches}
+        open={duplicateWarningOpen}
+        onOpenChange={(isOpen) => {
+          setDuplicateWarningOpen(isOpen);
+          if (!isOpen) setPendingInvoice(null);
+        }}
+        onConfirm={() => pendingInvoice
+          ? saveInvoiceExpenses(pendingInvoice.data, pendingInvoice.itemMatches)
+          : saveExpense(duplicateMatches)}
+      />
+
       <AddVendorFromScanDialog
         open={addVendorOpen}
         onOpenChange={setAddVendorOpen}
@@ -5,9 +5,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { VehicleStatusSelect } from '@/components/VehicleStatusSelect';
+import { VehicleTypeSelect } from '@/components/VehicleTypeSelect';
+import { NEW_VEHICLE_STATUSES, VehicleStatus } from '@/utils/vehicleStatus';
 import { Plus } from 'lucide-react';
 
 interface Branch {
@@ -23,7 +25,7 @@ export function AddVehicleDialog({ onVehicleAdded }: AddVehicleDialogProps) {
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [branches, setBranches] = useState<Branch[]>([]);
-  const [isActive, setIsActive] = useState(true);
+  const [status, setStatus] = useState<VehicleStatus>('active');
   const { toast } = useToast();
 
   const [formData, setFormData] = useState({
@@ -33,6 +35,7 @@ export function AddVehicleDialog({ onVehicleAdded }: AddVehicleDialogProps) {
     model: '',
     year: '',
     branchId: '',
+    vehicleType: '',
     odometerKm: '0',
     lastOilChangeKm: '',
     notes: '',
@@ -64,10 +67,11 @@ export function AddVehicleDialog({ onVehicleAdded }: AddVehicleDialogProps) {
       model: formData.model || null,
       year: formData.year ? parseInt(formData.year) : null,
       branch_id: formData.branchId || null,
+      vehicle_type: formData.vehicleType || null,
       odometer_km: parseInt(formData.odometerKm) || 0,
       last_oil_change_km: formData.lastOilChangeKm ? parseInt(formData.lastOilChangeKm) : null,
       notes: formData.notes || null,
-      status: isActive ? 'active' : 'retired',
+      status,
       transponder_407: formData.transponder407 || null,
     });
 
@@ -90,12 +94,13 @@ export function AddVehicleDialog({ onVehicleAdded }: AddVehicleDialogProps) {
         model: '',
         year: '',
         branchId: '',
+        vehicleType: '',
         odometerKm: '0',
         lastOilChangeKm: '',
         notes: '',
         transponder407: '',
       });
-      setIsActive(true);
+      setStatus('active');
       onVehicleAdded();
     }
 
@@ -213,30 +218,31 @@ export function AddVehicleDialog({ onVehicleAdded }: AddVehicleDialogProps) {
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="transponder407">407 Transponder</Label>
-            <Input
-              id="transponder407"
-              value={formData.transponder407}
-              onChange={(e) => setFormData({ ...formData, transponder407: e.target.value.slice(0, 10).toUpperCase() })}
-              placeholder="ABC123"
-              maxLength={10}
-              className="font-mono"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vehicleType">Vehicle Type</Label>
+              <VehicleTypeSelect
+                id="vehicleType"
+                value={formData.vehicleType}
+                onValueChange={(value) => setFormData({ ...formData, vehicleType: value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transponder407">407 Transponder</Label>
+              <Input
+                id="transponder407"
+                value={formData.transponder407}
+                onChange={(e) => setFormData({ ...formData, transponder407: e.target.value.slice(0, 10).toUpperCase() })}
+                placeholder="ABC123"
+                maxLength={10}
+                className="font-mono"
+              />
+            </div>
           </div>
 
-          <div className="flex items-center justify-between p-4 border rounded-lg bg-muted/50">
-            <div className="space-y-0.5">
-              <Label htmlFor="active-toggle">Vehicle Status</Label>
-              <p className="text-sm text-muted-foreground">
-                {isActive ? 'Active - In current use' : 'Inactive - Not in use'}
-              </p>
-            </div>
-            <Switch
-              id="active-toggle"
-              checked={isActive}
-              onCheckedChange={setIsActive}
-            />
+          <div className="space-y-2">
+            <Label htmlFor="status">Vehicle Status</Label>
+            <VehicleStatusSelect id="status" value={status} onValueChange={setStatus} statuses={NEW_VEHICLE_STATUSES} />
           </div>
 
           <div className="space-y-2">
@@ -5,7 +5,6 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Switch } from '@/components/ui/switch';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { useToast } from '@/hooks/use-toast';
@@ -13,6 +12,12 @@ import { supabase } from '@/integrations/supabase/client';
 import { ShoppingCart, CalendarIcon, Car, DollarSign, Upload, X, FileText } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { VehicleStatusSelect } from '@/components/VehicleStatusSelect';
+import { DuplicateWarningDialog } from '@/components/DuplicateWarningDialog';
+import { DuplicateMatch, useDuplicateCheck } from '@/hooks/useDuplicateCheck';
+import { hashFile } from '@/utils/duplicateReceipts';
+import { VehicleTypeSelect } from '@/components/VehicleTypeSelect';
+import { NEW_VEHICLE_STATUSES, VehicleStatus } from '@/utils/vehicleStatus';
 
 interface Branch {
   id: string;
@@ -41,9 +46,12 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
   const [branches, setBranches] = useState<Branch[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [isActive, setIsActive] = useState(true);
+  const [status, setStatus] = useState<VehicleStatus>('active');
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  const [duplicateWarningOpen, setDuplicateWarningOpen] = useState(false);
   const { toast } = useToast();
+  const { findDuplicates, recordDuplicates } = useDuplicateCheck();
 
   // Vehicle data
   const [vehicleData, setVehicleData] = useState({
@@ -53,6 +61,7 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
     model: '',
     year: '',
     branchId: '',
+    vehicleType: '',
     odometerKm: '0',
     notes: '',
     transponder407: '',
@@ -127,6 +136,7 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
         file_path: fileName,
         file_type: file.type,
         file_size: file.size,
+        file_hash: await hashFile(file),
         uploaded_by: userId,
       });
 
@@ -140,6 +150,29 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
     e.preventDefault();
     setLoading(true);
 
+    // The vehicle is new, so only the document, amount, date and vendor can match
+    const matches = await findDuplicates({
+      source: 'expense',
+      date: format(expenseData.date, 'yyyy-MM-dd'),
+      amount: parseFloat(expenseData.amount) || 0,
+      vendor_name: expenseData.vendorName || null,
+      vehicle_id: '',
+      fileHashes: await Promise.all(selectedFiles.map(hashFile)),
+    });
+
+    if (matches.length > 0) {
+      setDuplicateMatches(matches);
+      setDuplicateWarningOpen(true);
+      setLoading(false);
+      return;
+    }
+
+    await savePurchase([]);
+  };
+
+  const savePurchase = async (duplicates: DuplicateMatch[]) => {
+    setLoading(true);
+
     try {
       // Get the current user
       const { data: { user } } = await supabase.auth.getUser();
@@ -161,9 +194,12 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
         model: vehicleData.model || null,
         year: vehicleData.year ? parseInt(vehicleData.year) : null,
         branch_id: vehicleData.branchId || null,
+        vehicle_type: vehicleData.vehicleType || null,
         odometer_km: parseInt(vehicleData.odometerKm) || 0,
         notes: vehicleData.notes || null,
-        status: isActive ? 'active' : 'retired',
+        status,
+        // The vehicle's history starts on the purchase date
+        status_changed_on: format(expenseData.date, 'yyyy-MM-dd'),
         transponder_407: vehicleData.transponder407 || null,
       }).select('id').single();
 
@@ -202,6 +238,11 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
           variant: 'destructive',
         });
       } else {
+        // Saved past the duplicate warning: flag it for review
+        if (duplicates.length > 0) {
+          await recordDuplicates({ id: expenseResult.id, source: 'expense' }, duplicates);
+        }
+
         // Upload documents if any
         if (selectedFiles.length > 0 && expenseResult) {
           try {
@@ -243,6 +284,7 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
       model: '',
       year: '',
       branchId: '',
+      vehicleType: '',
       odometerKm: '0',
       notes: '',
       transponder407: '',
@@ -259,7 +301,7 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
       staffName: '',
     });
     setSelectedFiles([]);
-    setIsActive(true);
+    setStatus('active');
   };
 
   return (
@@ -566,30 +608,31 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
               </div>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="transponder407">407 Transponder</Label>
-              <Input
-                id="transponder407"
-                value={vehicleData.transponder407}
-                onChange={(e) => setVehicleData({ ...vehicleData, transponder407: e.target.value.slice(0, 10).toUpperCase() })}
-                placeholder="ABC123"
-                maxLength={10}
-                className="font-mono"
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vehicleType">Vehicle Type</Label>
+                <VehicleTypeSelect
+                  id="vehicleType"
+                  value={vehicleData.vehicleType}
+                  onValueChange={(value) => setVehicleData({ ...vehicleData, vehicleType: value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transponder407">407 Transponder</Label>
+                <Input
+                  id="transponder407"
+                  value={vehicleData.transponder407}
+                  onChange={(e) => setVehicleData({ ...vehicleData, transponder407: e.target.value.slice(0, 10).toUpperCase() })}
+                  placeholder="ABC123"
+                  maxLength={10}
+                  className="font-mono"
+                />
+              </div>
             </div>
 
-            <div className="flex items-center justify-between p-4 border rounded-lg bg-background">
-              <div className="space-y-0.5">
-                <Label htmlFor="active-toggle">Vehicle Status</Label>
-                <p className="text-sm text-muted-foreground">
-                  {isActive ? 'Active - Ready for use' : 'Inactive - Not in use'}
-                </p>
-              </div>
-              <Switch
-                id="active-toggle"
-                checked={isActive}
-                onCheckedChange={setIsActive}
-              />
+            <div className="space-y-2">
+              <Label htmlFor="status">Vehicle Status</Label>
+              <VehicleStatusSelect id="status" value={status} onValueChange={setStatus} statuses={NEW_VEHICLE_STATUSES} />
             </div>
 
             <div className="space-y-2">
@@ -615,6 +658,13 @@ export function AddVehiclePurchaseDialog({ onVehicleAdded, trigger }: AddVehicle
           </div>
         </form>
       </DialogContent>
+
+      <DuplicateWarningDialog
+        matches={duplicateMatches}
+        open={duplicateWarningOpen}
+        onOpenChange={setDuplicateWarningOpen}
+        onConfirm={() => savePurchase(duplicateMatches)}
+      />
     </Dialog>
   );
 }
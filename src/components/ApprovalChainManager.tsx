@@ -0,0 +1,555 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { Pencil, Trash2, Plus, GitBranch, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { APPROVER_ROLE_LABELS } from '@/utils/approvalChain';
+
+interface ChainStep {
+  step_order: number;
+  approver_role: string;
+  approver_user_id: string | null;
+}
+
+interface ApprovalChain {
+  id: string;
+  name: string;
+  branch_id: string | null;
+  min_amount: number;
+  max_amount: number | null;
+  is_active: boolean;
+  steps: ChainStep[];
+  branch_name?: string;
+}
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+interface Approver {
+  id: string;
+  name: string;
+  roles: string[];
+}
+
+const EMPTY_FORM = {
+  name: '',
+  branchId: 'all',
+  minAmount: '0',
+  maxAmount: '',
+  isActive: true,
+  steps: [{ approver_role: 'manager', approver_user_id: '' }],
+};
+
+export function ApprovalChainManager() {
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingChain, setEditingChain] = useState<ApprovalChain | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [chainsRes, stepsRes, branchesRes, rolesRes, profilesRes] = await Promise.all([
+        supabase.from('approval_chains').select('*').order('min_amount'),
+        supabase.from('approval_chain_steps').select('*').order('step_order'),
+        supabase.from('branches').select('id, name').order('name'),
+        supabase.from('user_roles').select('user_id, role').in('role', ['manager', 'admin']),
+        supabase.from('profiles').select('id, full_name, email'),
+      ]);
+
+      if (chainsRes.error) throw chainsRes.error;
+      if (stepsRes.error) throw stepsRes.error;
+      if (branchesRes.error) throw branchesRes.error;
+
+      setBranches(branchesRes.data || []);
+
+      // Only managers and admins can be named approvers
+      const approverMap = new Map<string, Approver>();
+      (rolesRes.data || []).forEach(r => {
+        const profile = profilesRes.data?.find(p => p.id === r.user_id);
+        const current = approverMap.get(r.user_id) || {
+          id: r.user_id,
+          name: profile?.full_name || profile?.email || 'Unknown user',
+          roles: [],
+        };
+        current.roles.push(r.role);
+        approverMap.set(r.user_id, current);
+      });
+      setApprovers(Array.from(approverMap.values()).sort((a, b) => a.name.localeCompare(b.name)));
+
+      setChains((chainsRes.data || []).map(chain => ({
+        ...chain,
+        steps: (stepsRes.data || []).filter(step => step.chain_id === chain.id),
+        branch_name: chain.branch_id
+          ? branchesRes.data?.find(b => b.id === chain.branch_id)?.name || 'Unknown'
+          : 'All Branches',
+      })));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load approval chains',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleOpenDialog = (chain?: ApprovalChain) => {
+    if (chain) {
+      setEditingChain(chain);
+      setFormData({
+        name: chain.name,
+        branchId: chain.branch_id || 'all',
+        minAmount: chain.min_amount.toString(),
+        maxAmount: chain.max_amount?.toString() || '',
+        isActive: chain.is_active,
+        steps: chain.steps.map(step => ({
+          approver_role: step.approver_role,
+          approver_user_id: step.approver_user_id || '',
+        })),
+      });
+    } else {
+      setEditingChain(null);
+      setFormData(EMPTY_FORM);
+    }
+    setDialogOpen(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<{ approver_role: string; approver_user_id: string }>) => {
+    setFormData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim() || formData.steps.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a name and at least one approval step',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const minAmount = parseFloat(formData.minAmount || '0');
+    const maxAmount = formData.maxAmount ? parseFloat(formData.maxAmount) : null;
+    if (isNaN(minAmount) || minAmount < 0 || (maxAmount !== null && (isNaN(maxAmount) || maxAmount <= minAmount))) {
+      toast({
+        title: 'Error',
+        description: 'The maximum amount must be greater than the minimum amount',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const payload = {
+        name: formData.name.trim(),
+        branch_id: formData.branchId === 'all' ? null : formData.branchId,
+        min_amount: minAmount,
+        max_amount: maxAmount,
+        is_active: formData.isActive,
+      };
+
+      let chainId = editingChain?.id;
+      if (editingChain) {
+        const { error } = await supabase
+          .from('approval_chains')
+          .update(payload)
+          .eq('id', editingChain.id);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from('approval_chain_steps')
+          .delete()
+          .eq('chain_id', editingChain.id);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('approval_chains')
+          .insert({ ...payload, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        chainId = data.id;
+      }
+
+      const { error: stepsError } = await supabase
+        .from('approval_chain_steps')
+        .insert(formData.steps.map((step, index) => ({
+          chain_id: chainId,
+          step_order: index + 1,
+          approver_role: step.approver_role,
+          approver_user_id: step.approver_user_id || null,
+        })));
+      if (stepsError) throw stepsError;
+
+      toast({ title: 'Success', description: `Approval chain ${editingChain ? 'updated' : 'created'}` });
+      setDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save approval chain',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (chainId: string) => {
+    try {
+      const { error } = await supabase
+        .from('approval_chains')
+        .delete()
+        .eq('id', chainId);
+
+      if (error) throw error;
+
+      toast({ title: 'Success', description: 'Approval chain deleted' });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete approval chain',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleActive = async (chain: ApprovalChain) => {
+    try {
+      const { error } = await supabase
+        .from('approval_chains')
+        .update({ is_active: !chain.is_active })
+        .eq('id', chain.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Chain ${chain.is_active ? 'disabled' : 'enabled'}`
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update approval chain',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const formatRange = (chain: ApprovalChain) =>
+    chain.max_amount !== null
+      ? `$${chain.min_amount.toLocaleString()} – $${chain.max_amount.toLocaleString()}`
+      : `$${chain.min_amount.toLocaleString()} and over`;
+
+  const describeStep = (step: { approver_role: string; approver_user_id: string | null }) =>
+    step.approver_user_id
+      ? approvers.find(a => a.id === step.approver_user_id)?.name || 'Named approver'
+      : APPROVER_ROLE_LABELS[step.approver_role] || step.approver_role;
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-center text-muted-foreground">Loading approval chains...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              Approval Chains
+            </CardTitle>
+            <CardDescription>
+              Route pending expenses through one or more approvers based on amount. Expenses outside every chain need a single manager or admin approval.
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Chain
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {chains.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No approval chains configured. Every pending expense needs one manager or admin approval.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Branch</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {chains.map((chain) => (
+                <TableRow key={chain.id}>
+                  <TableCell className="font-medium">{chain.name}</TableCell>
+                  <TableCell className="font-mono whitespace-nowrap">{formatRange(chain)}</TableCell>
+                  <TableCell>
+                    {chain.branch_id ? (
+                      chain.branch_name
+                    ) : (
+                      <Badge variant="secondary">All Branches</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {chain.steps.map(describeStep).join(' → ')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={chain.is_active}
+                        onCheckedChange={() => handleToggleActive(chain)}
+                      />
+                      <span className={chain.is_active ? 'text-green-600' : 'text-muted-foreground'}>
+                        {chain.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenDialog(chain)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Approval Chain</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete "{chain.name}"? New expenses in this range will
+                              need a single approval. Expenses already in progress keep their steps.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(chain.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingChain ? 'Edit Approval Chain' : 'Add Approval Chain'}
+            </DialogTitle>
+            <DialogDescription>
+              Pending expenses in this amount range are approved step by step, in order.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="chain-name">Name *</Label>
+              <Input
+                id="chain-name"
+                placeholder="e.g., $500 – $5,000"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="chain-min">From ($)</Label>
+                <Input
+                  id="chain-min"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.minAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, minAmount: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="chain-max">Up to ($)</Label>
+                <Input
+                  id="chain-max"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="No limit"
+                  value={formData.maxAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maxAmount: e.target.value }))}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Applies to amounts at or above "From" and below "Up to"
+            </p>
+
+            <div className="space-y-2">
+              <Label>Branch (optional)</Label>
+              <Select
+                value={formData.branchId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, branchId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Branches</SelectItem>
+                  {branches.map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>
+                      {branch.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Approval Steps *</Label>
+              {formData.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                  <Select
+                    value={step.approver_role}
+                    onValueChange={(value) => updateStep(index, { approver_role: value })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="manager">Branch Manager</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={step.approver_user_id || 'any'}
+                    onValueChange={(value) => updateStep(index, { approver_user_id: value === 'any' ? '' : value })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Anyone with this role</SelectItem>
+                      {approvers
+                        .filter(a => a.roles.includes(step.approver_role))
+                        .map((approver) => (
+                          <SelectItem key={approver.id} value={approver.id}>
+                            {approver.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={formData.steps.length === 1}
+                    onClick={() => setFormData(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setFormData(prev => ({
+                  ...prev,
+                  steps: [...prev.steps, { approver_role: 'admin', approver_user_id: '' }],
+                }))}
+              >
+                <Plus className="h-4 w-4" />
+                Add Step
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="chain-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="chain-active">Chain is active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingChain ? 'Update Chain' : 'Create Chain'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, Clock, Circle } from 'lucide-react';
+import { format } from 'date-fns';
+import { APPROVER_ROLE_LABELS, ExpenseApprovalStep, getCurrentStep } from '@/utils/approvalChain';
+
+interface ApprovalStepsTimelineProps {
+  steps: ExpenseApprovalStep[];
+  userNames: Record<string, string>;
+}
+
+export function ApprovalStepsTimeline({ steps, userNames }: ApprovalStepsTimelineProps) {
+  if (steps.length === 0) return null;
+
+  const current = getCurrentStep(steps);
+  const sortedSteps = [...steps].sort((a, b) => a.step_order - b.step_order);
+
+  const getStepIcon = (step: ExpenseApprovalStep) => {
+    if (step.status === 'approved') return <CheckCircle className="h-4 w-4 text-green-600" />;
+    if (step.status === 'rejected') return <XCircle className="h-4 w-4 text-destructive" />;
+    if (step.id === current?.id) return <Clock className="h-4 w-4 text-amber-600" />;
+    return <Circle className="h-4 w-4 text-muted-foreground" />;
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <p className="text-sm font-medium mb-2">
+        Approval Chain ({sortedSteps.filter(s => s.status === 'approved').length}/{sortedSteps.length} steps approved)
+      </p>
+      <div className="space-y-2">
+        {sortedSteps.map((step) => (
+          <div key={step.id} className="flex items-start gap-3 text-sm">
+            <div className="mt-0.5">{getStepIcon(step)}</div>
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">
+                  Step {step.step_order}: {step.approver_user_id
+                    ? userNames[step.approver_user_id] || 'Named approver'
+                    : APPROVER_ROLE_LABELS[step.approver_role] || step.approver_role}
+                </span>
+                {step.id === current?.id && (
+                  <Badge variant="secondary" className="text-xs">Waiting</Badge>
+                )}
+              </div>
+              {step.acted_at && (
+                <p className="text-xs text-muted-foreground">
+                  {step.status === 'approved' ? 'Approved' : 'Rejected'} by{' '}
+                  {(step.acted_by && userNames[step.acted_by]) || 'Unknown'} on{' '}
+                  {format(new Date(step.acted_at), 'MMM dd, yyyy h:mm a')}
+                </p>
+              )}
+              {step.comment && (
+                <p className="text-xs text-muted-foreground italic">"{step.comment}"</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { Json } from '@/integrations/supabase/types';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { diffAuditData, formatAuditValue, formatFieldName } from '@/utils/auditDiff';
+
+interface AuditDiffTableProps {
+  action: string;
+  oldData: Json | null;
+  newData: Json | null;
+}
+
+export function AuditDiffTable({ action, oldData, newData }: AuditDiffTableProps) {
+  const changes = diffAuditData(oldData, newData);
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-1/4">Field</TableHead>
+          {action !== 'INSERT' && <TableHead>Before</TableHead>}
+          {action !== 'DELETE' && <TableHead>After</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change) => (
+          <TableRow key={change.field}>
+            <TableCell className="font-medium">{formatFieldName(change.field)}</TableCell>
+            {action !== 'INSERT' && (
+              <TableCell className="break-all text-destructive line-through decoration-destructive/50">
+                {formatAuditValue(change.oldValue)}
+              </TableCell>
+            )}
+            {action !== 'DELETE' && (
+              <TableCell className="break-all text-green-700">
+                {formatAuditValue(change.newValue)}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
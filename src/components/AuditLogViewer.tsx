@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { History, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuditDiffTable } from '@/components/AuditDiffTable';
+import { ACTION_BADGE_VARIANTS, AUDITED_TABLES, diffAuditData, formatFieldName } from '@/utils/auditDiff';
+
+interface AuditLog {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: string;
+  old_data: Json | null;
+  new_data: Json | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+interface Profile {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+// Cap on rows fetched per search; narrow the filters to see older entries
+const PAGE_SIZE = 200;
+
+export function AuditLogViewer() {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
+  const [filters, setFilters] = useState({
+    tableName: 'all',
+    userId: 'all',
+    action: 'all',
+    startDate: '',
+    endDate: '',
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchLogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('audit_logs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (filters.tableName !== 'all') {
+        query = query.eq('table_name', filters.tableName);
+      }
+      if (filters.userId !== 'all') {
+        query = query.eq('user_id', filters.userId);
+      }
+      if (filters.action !== 'all') {
+        query = query.eq('action', filters.action);
+      }
+      if (filters.startDate) {
+        query = query.gte('created_at', `${filters.startDate}T00:00:00`);
+      }
+      if (filters.endDate) {
+        query = query.lte('created_at', `${filters.endDate}T23:59:59`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setLogs(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load audit log',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, toast]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  const fetchProfiles = async () => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, email, full_name')
+      .order('full_name');
+    setProfiles(data || []);
+  };
+
+  const resetFilters = () => {
+    setFilters({ tableName: 'all', userId: 'all', action: 'all', startDate: '', endDate: '' });
+  };
+
+  const getUserName = (userId: string | null) => {
+    if (!userId) return 'System';
+    const profile = profiles.find(p => p.id === userId);
+    return profile?.full_name || profile?.email || 'Unknown user';
+  };
+
+  const getChangedFieldsSummary = (log: AuditLog) => {
+    if (log.action !== 'UPDATE') return '-';
+    const changes = diffAuditData(log.old_data, log.new_data);
+    if (changes.length === 0) return '-';
+    const names = changes.slice(0, 3).map(c => formatFieldName(c.field)).join(', ');
+    return changes.length > 3 ? `${names} +${changes.length - 3} more` : names;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>
+          Every insert, update and delete on fleet and expense records. Click an entry to see what changed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6 items-end">
+          <div className="space-y-2">
+            <Label>Table</Label>
+            <Select value={filters.tableName} onValueChange={(value) => setFilters({ ...filters, tableName: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Tables</SelectItem>
+                {Object.entries(AUDITED_TABLES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={filters.userId} onValueChange={(value) => setFilters({ ...filters, userId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Users</SelectItem>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.full_name || profile.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={filters.action} onValueChange={(value) => setFilters({ ...filters, action: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                <SelectItem value="INSERT">Created</SelectItem>
+                <SelectItem value="UPDATE">Updated</SelectItem>
+                <SelectItem value="DELETE">Deleted</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-start-date">From</Label>
+            <Input
+              id="audit-start-date"
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-end-date">To</Label>
+            <Input
+              id="audit-end-date"
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+            />
+          </div>
+          <Button variant="outline" onClick={resetFilters} className="gap-2">
+            <RotateCcw className="h-4 w-4" />
+            Reset
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Loading...</p>
+        ) : logs.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No audit entries match these filters</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Changed Fields</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map((log) => (
+                  <TableRow
+                    key={log.id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedLog(log)}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(log.created_at), 'MMM d, yyyy h:mm a')}
+                    </TableCell>
+                    <TableCell>{AUDITED_TABLES[log.table_name] || log.table_name}</TableCell>
+                    <TableCell>
+                      <Badge variant={ACTION_BADGE_VARIANTS[log.action] || 'secondary'}>{log.action}</Badge>
+                    </TableCell>
+                    <TableCell>{getUserName(log.user_id)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{getChangedFieldsSummary(log)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {logs.length === PAGE_SIZE && (
+              <p className="text-xs text-muted-foreground text-center">
+                Showing the latest {PAGE_SIZE} entries. Narrow the filters to see older changes.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          {selectedLog && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Badge variant={ACTION_BADGE_VARIANTS[selectedLog.action] || 'secondary'}>{selectedLog.action}</Badge>
+                  {AUDITED_TABLES[selectedLog.table_name] || selectedLog.table_name}
+                </DialogTitle>
+                <DialogDescription>
+                  {getUserName(selectedLog.user_id)} on {format(new Date(selectedLog.created_at), 'MMM d, yyyy h:mm:ss a')}
+                  <span className="block font-mono text-xs mt-1">Record {selectedLog.record_id}</span>
+                </DialogDescription>
+              </DialogHeader>
+              <AuditDiffTable
+                action={selectedLog.action}
+                oldData={selectedLog.old_data}
+                newData={selectedLog.new_data}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFleetAvailability } from '@/hooks/useFleetAvailability';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { summarizeAvailabilityByBranch } from '@/utils/fleetAvailability';
+
+interface AvailabilityReportSectionProps {
+  branchId: string;
+  vehicleId: string;
+  startDate: Date | undefined;
+  endDate: Date | undefined;
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+
+const availabilityClass = (value: number | null) =>
+  value === null ? '' : value < 85 ? 'text-destructive font-medium' : value < 95 ? 'text-orange-600' : 'text-green-600';
+
+export function AvailabilityReportSection({ branchId, vehicleId, startDate, endDate }: AvailabilityReportSectionProps) {
+  const { fiscalYearStart } = useFiscalYear();
+  const rangeStart = format(startDate || fiscalYearStart, 'yyyy-MM-dd');
+  const rangeEnd = endDate ? format(endDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
+  const { items, loading } = useFleetAvailability(rangeStart, rangeEnd);
+
+  const visibleItems = useMemo(
+    () => items
+      .filter(item => branchId === 'all' || item.byBranch.some(days => days.branchId === branchId && days.fleetDays > 0))
+      .filter(item => vehicleId === 'all' || item.vehicle.id === vehicleId)
+      .sort((a, b) => b.downtimeDays - a.downtimeDays || a.vehicle.plate.localeCompare(b.vehicle.plate)),
+    [items, branchId, vehicleId]
+  );
+  const branches = useMemo(
+    () => summarizeAvailabilityByBranch(visibleItems).filter(branch => branchId === 'all' || branch.branchId === branchId),
+    [visibleItems, branchId]
+  );
+
+  if (loading) {
+    return <p className="text-center text-muted-foreground py-8">Loading fleet availability...</p>;
+  }
+
+  if (visibleItems.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No vehicles in service in this period</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-medium mb-2">By Branch</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Branch</TableHead>
+              <TableHead className="text-right">Vehicles</TableHead>
+              <TableHead className="text-right">Fleet Days</TableHead>
+              <TableHead className="text-right">Out of Service Days</TableHead>
+              <TableHead className="text-right">Shop Visits</TableHead>
+              <TableHead className="text-right">Availability</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {branches.map((branch) => (
+              <TableRow key={branch.branchId || 'unassigned'}>
+                <TableCell className="font-medium">{branch.branchName}</TableCell>
+                <TableCell className="text-right">{branch.vehicles}</TableCell>
+                <TableCell className="text-right">{branch.fleetDays.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{branch.downtimeDays.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{branch.shopVisits}</TableCell>
+                <TableCell className={`text-right ${availabilityClass(branch.availabilityPercent)}`}>
+                  {formatPercent(branch.availabilityPercent)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-2">By Vehicle</h4>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vehicle</TableHead>
+                <TableHead>Branch</TableHead>
+                <TableHead className="text-right">Fleet Days</TableHead>
+                <TableHead className="text-right">Out of Service Days</TableHead>
+                <TableHead className="text-right">Shop Visits</TableHead>
+                <TableHead className="text-right">Availability</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleItems.map((item) => (
+                <TableRow key={item.vehicle.id}>
+                  <TableCell>
+                    <Link to={`/vehicles/${item.vehicle.id}`} className="font-medium hover:underline">
+                      {item.vehicle.plate}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      {[item.vehicle.make, item.vehicle.model].filter(Boolean).join(' ')}
+                    </p>
+                  </TableCell>
+                  <TableCell>{item.vehicle.branchName || '—'}</TableCell>
+                  <TableCell className="text-right">{item.fleetDays}</TableCell>
+                  <TableCell className="text-right">{item.downtimeDays}</TableCell>
+                  <TableCell className="text-right">{item.shopVisits}</TableCell>
+                  <TableCell className={`text-right ${availabilityClass(item.availabilityPercent)}`}>
+                    {formatPercent(item.availabilityPercent)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
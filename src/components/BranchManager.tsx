@@ -6,19 +6,43 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserRole } from '@/hooks/useUserRole';
-import { Building2, Plus, MapPin, Pencil, Trash2, ChevronDown, ChevronRight, Car, Gauge } from 'lucide-react';
+import { useVehicleDefects } from '@/hooks/useVehicleDefects';
+import { getVehicleStatusColor, getVehicleStatusLabel } from '@/utils/vehicleStatus';
+import { getUnroadworthyVehicleIds } from '@/utils/vehicleDefects';
+import {
+  BranchTaxSettings,
+  REGIME_COMPONENTS,
+  TAX_COMPONENT_LABELS,
+  TAX_RATE_PRESETS,
+  TAX_REGIMES,
+  TAX_REGIME_LABELS,
+  TaxComponent,
+  TaxRegime,
+  describeTaxRegime,
+  getTaxRates,
+  getTaxRegime,
+} from '@/utils/taxRegimes';
+import { Building2, Plus, MapPin, Pencil, Trash2, ChevronDown, ChevronRight, Car, Gauge, Percent } from 'lucide-react';
 import { AddVehicleDialog } from './AddVehicleDialog';
 
-interface Branch {
+interface Branch extends BranchTaxSettings {
   id: string;
   name: string;
   location: string | null;
 }
 
+const EMPTY_FORM = {
+  name: '',
+  location: '',
+  taxRegime: 'hst' as TaxRegime,
+  taxRates: { gst: '0', pst: '0', hst: '13', qst: '0', us_sales_tax: '0' } as Record<TaxComponent, string>,
+};
+
 interface Vehicle {
   id: string;
   vin: string;
@@ -38,14 +62,13 @@ export function BranchManager() {
   const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
   const [expandedBranches, setExpandedBranches] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
+  const { defects } = useVehicleDefects();
+  const unroadworthyIds = getUnroadworthyVehicleIds(defects);
   const { toast } = useToast();
   const { isAdminOrManager } = useUserRole();
   const navigate = useNavigate();
 
-  const [formData, setFormData] = useState({
-    name: '',
-    location: '',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   useEffect(() => {
     fetchBranches();
@@ -90,30 +113,66 @@ export function BranchManager() {
 
   const openAddDialog = () => {
     setEditingBranch(null);
-    setFormData({ name: '', location: '' });
+    setFormData(EMPTY_FORM);
     setOpen(true);
   };
 
   const openEditDialog = (branch: Branch, e: React.MouseEvent) => {
     e.stopPropagation();
     setEditingBranch(branch);
+    const rates = getTaxRates(branch);
     setFormData({
       name: branch.name,
       location: branch.location || '',
+      taxRegime: getTaxRegime(branch),
+      taxRates: {
+        gst: rates.gst.toString(),
+        pst: rates.pst.toString(),
+        hst: rates.hst.toString(),
+        qst: rates.qst.toString(),
+        us_sales_tax: rates.us_sales_tax.toString(),
+      },
     });
     setOpen(true);
   };
 
+  const applyTaxPreset = (label: string) => {
+    const preset = TAX_RATE_PRESETS.find(p => p.label === label);
+    if (!preset) return;
+    setFormData(prev => ({
+      ...prev,
+      taxRegime: preset.regime,
+      taxRates: {
+        gst: (preset.rates.gst ?? 0).toString(),
+        pst: (preset.rates.pst ?? 0).toString(),
+        hst: (preset.rates.hst ?? 0).toString(),
+        qst: (preset.rates.qst ?? 0).toString(),
+        us_sales_tax: (preset.rates.us_sales_tax ?? 0).toString(),
+      },
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
+    const rate = (component: TaxComponent) => parseFloat(formData.taxRates[component]) || 0;
+    const taxSettings = {
+      tax_regime: formData.taxRegime,
+      gst_rate: rate('gst'),
+      pst_rate: rate('pst'),
+      hst_rate: rate('hst'),
+      qst_rate: rate('qst'),
+      us_sales_tax_rate: rate('us_sales_tax'),
+    };
+
     if (editingBranch) {
       const { error } = await supabase
         .from('branches')
         .update({
           name: formData.name,
           location: formData.location || null,
+          ...taxSettings,
         })
         .eq('id', editingBranch.id);
 
@@ -130,13 +189,14 @@ export function BranchManager() {
         });
         setOpen(false);
         setEditingBranch(null);
-        setFormData({ name: '', location: '' });
+        setFormData(EMPTY_FORM);
         fetchBranches();
       }
     } else {
       const { error } = await supabase.from('branches').insert({
         name: formData.name,
         location: formData.location || null,
+        ...taxSettings,
       });
 
       if (error) {
@@ -151,7 +211,7 @@ export function BranchManager() {
           description: 'Branch added successfully',
         });
         setOpen(false);
-        setFormData({ name: '', location: '' });
+        setFormData(EMPTY_FORM);
         fetchBranches();
       }
     }
@@ -185,18 +245,6 @@ export function BranchManager() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'active':
-        return 'bg-secondary text-secondary-foreground';
-      case 'maintenance':
-        return 'bg-accent text-accent-foreground';
-      case 'retired':
-        return 'bg-muted text-muted-foreground';
-      default:
-        return 'bg-muted';
-    }
-  };
 
   const VehicleRow = ({ vehicle }: { vehicle: Vehicle }) => (
     <div
@@ -221,8 +269,11 @@ export function BranchManager() {
           <Gauge className="h-3 w-3" />
           {vehicle.odometer_km.toLocaleString()} km
         </div>
-        <Badge className={`${getStatusColor(vehicle.status)} text-xs`}>
-          {vehicle.status}
+        {unroadworthyIds.has(vehicle.id) && (
+          <Badge variant="destructive" className="text-xs">Not Roadworthy</Badge>
+        )}
+        <Badge className={`${getVehicleStatusColor(vehicle.status)} text-xs`}>
+          {getVehicleStatusLabel(vehicle.status)}
         </Badge>
       </div>
     </div>
@@ -286,6 +337,10 @@ export function BranchManager() {
                               {branch.location}
                             </p>
                           )}
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Percent className="h-3 w-3" />
+                            {describeTaxRegime(branch)}
+                          </p>
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
@@ -397,6 +452,62 @@ export function BranchManager() {
                 placeholder="e.g., 123 Main St, Hamilton, ON"
               />
             </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Sales Tax</Label>
+                <Select value="" onValueChange={applyTaxPreset}>
+                  <SelectTrigger className="w-[220px] h-8">
+                    <SelectValue placeholder="Use rates for..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAX_RATE_PRESETS.map((preset) => (
+                      <SelectItem key={preset.label} value={preset.label}>
+                        {preset.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Select
+                value={formData.taxRegime}
+                onValueChange={(value) => setFormData({ ...formData, taxRegime: value as TaxRegime })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAX_REGIMES.map((regime) => (
+                    <SelectItem key={regime} value={regime}>
+                      {TAX_REGIME_LABELS[regime]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {REGIME_COMPONENTS[formData.taxRegime].map((component) => (
+                <div key={component} className="space-y-2">
+                  <Label htmlFor={`rate-${component}`}>{TAX_COMPONENT_LABELS[component]} Rate (%)</Label>
+                  <Input
+                    id={`rate-${component}`}
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={formData.taxRates[component]}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      taxRates: { ...formData.taxRates, [component]: e.target.value },
+                    })}
+                    required
+                  />
+                </div>
+              ))}
+            </div>
+            {formData.taxRegime === 'us_sales_tax' && (
+              <p className="text-xs text-muted-foreground">
+                US sales tax varies by state and city. Leave the rate at 0 to skip checking scanned receipts against it.
+              </p>
+            )}
             <div className="flex justify-end gap-2">
               <Button type="button" variant="outline" onClick={() => setOpen(false)}>
                 Cancel
@@ -0,0 +1,519 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Trash2, Plus, PiggyBank } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Budget, formatBudgetPeriod, formatBudgetScope } from '@/utils/budgets';
+
+interface BudgetRow extends Budget {
+  branchName: string | null;
+  categoryName: string | null;
+  vehiclePlate: string | null;
+}
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface Vehicle {
+  id: string;
+  plate: string;
+  branch_id: string | null;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => ({
+  value: (i + 1).toString(),
+  label: format(new Date(2000, i, 1), 'MMMM'),
+}));
+
+const EMPTY_FORM = {
+  periodType: 'annual',
+  year: new Date().getFullYear().toString(),
+  month: (new Date().getMonth() + 1).toString(),
+  branchId: 'all',
+  categoryId: 'all',
+  vehicleId: 'all',
+  amount: '',
+  warningThreshold: '80',
+  notes: '',
+};
+
+export function BudgetManager() {
+  const [budgets, setBudgets] = useState<BudgetRow[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterYear, setFilterYear] = useState(new Date().getFullYear().toString());
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<BudgetRow | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { startMonth } = useFiscalYear();
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [budgetsRes, branchesRes, categoriesRes, vehiclesRes] = await Promise.all([
+        supabase
+          .from('budgets')
+          .select('*')
+          .eq('year', parseInt(filterYear))
+          .order('period_type')
+          .order('month'),
+        supabase.from('branches').select('id, name').order('name'),
+        supabase.from('expense_categories').select('id, name').order('name'),
+        supabase.from('vehicles').select('id, plate, branch_id').order('plate'),
+      ]);
+
+      if (budgetsRes.error) throw budgetsRes.error;
+      if (branchesRes.error) throw branchesRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (vehiclesRes.error) throw vehiclesRes.error;
+
+      setBranches(branchesRes.data || []);
+      setCategories(categoriesRes.data || []);
+      setVehicles(vehiclesRes.data || []);
+
+      setBudgets((budgetsRes.data || []).map(budget => ({
+        ...budget,
+        branchName: branchesRes.data?.find(b => b.id === budget.branch_id)?.name || null,
+        categoryName: categoriesRes.data?.find(c => c.id === budget.category_id)?.name || null,
+        vehiclePlate: vehiclesRes.data?.find(v => v.id === budget.vehicle_id)?.plate || null,
+      })));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load budgets',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filterYear, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleOpenDialog = (budget?: BudgetRow) => {
+    if (budget) {
+      setEditingBudget(budget);
+      setFormData({
+        periodType: budget.period_type,
+        year: budget.year.toString(),
+        month: (budget.month || 1).toString(),
+        branchId: budget.branch_id || 'all',
+        categoryId: budget.category_id || 'all',
+        vehicleId: budget.vehicle_id || 'all',
+        amount: budget.amount.toString(),
+        warningThreshold: budget.warning_threshold_percent.toString(),
+        notes: budget.notes || '',
+      });
+    } else {
+      setEditingBudget(null);
+      setFormData({ ...EMPTY_FORM, year: filterYear });
+    }
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const amount = parseFloat(formData.amount);
+    const warningThreshold = parseFloat(formData.warningThreshold);
+    const year = parseInt(formData.year);
+
+    if (isNaN(amount) || amount <= 0 || isNaN(year)) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a year and a budget amount greater than zero',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (isNaN(warningThreshold) || warningThreshold <= 0 || warningThreshold > 100) {
+      toast({
+        title: 'Error',
+        description: 'The warning threshold must be between 1 and 100%',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const payload = {
+        period_type: formData.periodType,
+        year,
+        month: formData.periodType === 'monthly' ? parseInt(formData.month) : null,
+        branch_id: formData.branchId === 'all' ? null : formData.branchId,
+        category_id: formData.categoryId === 'all' ? null : formData.categoryId,
+        vehicle_id: formData.vehicleId === 'all' ? null : formData.vehicleId,
+        amount,
+        warning_threshold_percent: warningThreshold,
+        notes: formData.notes.trim() || null,
+      };
+
+      if (editingBudget) {
+        const { error } = await supabase
+          .from('budgets')
+          .update(payload)
+          .eq('id', editingBudget.id);
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Budget updated' });
+      } else {
+        const { error } = await supabase
+          .from('budgets')
+          .insert({ ...payload, created_by: user?.id });
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Budget created' });
+      }
+
+      setDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error
+          ? error.message.includes('idx_budgets_scope_period')
+            ? 'A budget for this scope and period already exists'
+            : error.message
+          : 'Failed to save budget',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (budgetId: string) => {
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', budgetId);
+
+      if (error) throw error;
+
+      toast({ title: 'Success', description: 'Budget deleted' });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete budget',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const currentYear = new Date().getFullYear();
+  const yearOptions = [currentYear - 2, currentYear - 1, currentYear, currentYear + 1].map(String);
+  const formVehicles = formData.branchId === 'all'
+    ? vehicles
+    : vehicles.filter(v => v.branch_id === formData.branchId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <PiggyBank className="h-5 w-5" />
+              Budgets
+            </CardTitle>
+            <CardDescription>
+              Annual or monthly spending budgets per branch, expense category or vehicle
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={filterYear} onValueChange={setFilterYear}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {yearOptions.map((year) => (
+                  <SelectItem key={year} value={year}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => handleOpenDialog()} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Budget
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Loading budgets...</p>
+        ) : budgets.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No budgets for {filterYear}. Add one to track spend against it in Reports.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scope</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Budget</TableHead>
+                <TableHead className="text-right">Warn At</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {budgets.map((budget) => (
+                <TableRow key={budget.id}>
+                  <TableCell className="font-medium">{formatBudgetScope(budget)}</TableCell>
+                  <TableCell>{formatBudgetPeriod(budget, startMonth)}</TableCell>
+                  <TableCell className="text-right font-mono">${Number(budget.amount).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{Number(budget.warning_threshold_percent)}%</TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-xs truncate">{budget.notes || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenDialog(budget)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Budget</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete the {formatBudgetPeriod(budget, startMonth)} budget for {formatBudgetScope(budget)}?
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(budget.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingBudget ? 'Edit Budget' : 'Add Budget'}
+            </DialogTitle>
+            <DialogDescription>
+              Leave branch, category and vehicle empty for a fleet-wide budget
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Period</Label>
+                <Select
+                  value={formData.periodType}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, periodType: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="annual">Annual</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budget-year">Year</Label>
+                <Input
+                  id="budget-year"
+                  type="number"
+                  value={formData.year}
+                  onChange={(e) => setFormData(prev => ({ ...prev, year: e.target.value }))}
+                />
+                {formData.periodType === 'annual' && startMonth !== 1 && formData.year && (
+                  <p className="text-xs text-muted-foreground">
+                    Covers {formatBudgetPeriod({ period_type: 'annual', year: parseInt(formData.year), month: null }, startMonth)}
+                  </p>
+                )}
+              </div>
+              {formData.periodType === 'monthly' && (
+                <div className="space-y-2">
+                  <Label>Month</Label>
+                  <Select
+                    value={formData.month}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, month: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MONTHS.map((month) => (
+                        <SelectItem key={month.value} value={month.value}>
+                          {month.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Branch</Label>
+              <Select
+                value={formData.branchId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, branchId: value, vehicleId: 'all' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Branches</SelectItem>
+                  {branches.map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>
+                      {branch.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.categoryId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, categoryId: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Vehicle (optional)</Label>
+                <Select
+                  value={formData.vehicleId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, vehicleId: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Vehicles</SelectItem>
+                    {formVehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>
+                        {vehicle.plate}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="budget-amount">Budget Amount ($) *</Label>
+                <Input
+                  id="budget-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="e.g., 25000"
+                  value={formData.amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budget-threshold">Warn At (% used)</Label>
+                <Input
+                  id="budget-threshold"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={formData.warningThreshold}
+                  onChange={(e) => setFormData(prev => ({ ...prev, warningThreshold: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="budget-notes">Notes</Label>
+              <Textarea
+                id="budget-notes"
+                rows={2}
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingBudget ? 'Update Budget' : 'Create Budget'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle } from 'lucide-react';
+import { useBudgetProgress } from '@/hooks/useBudgetProgress';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { BudgetStatusBadge } from '@/components/BudgetStatusList';
+import { formatBudgetPeriod, formatBudgetScope } from '@/utils/budgets';
+
+interface BudgetReportSectionProps {
+  branchId: string;
+  vehicleId: string;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatVariance = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+export function BudgetReportSection({ branchId, vehicleId }: BudgetReportSectionProps) {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const { startMonth, loading: fiscalYearLoading } = useFiscalYear();
+  const { items, loading } = useBudgetProgress([year], startMonth);
+
+  // Follow the report filters: keep budgets that cover the selected branch/vehicle
+  const visibleItems = items
+    .filter(item => branchId === 'all' || !item.budget.branch_id || item.budget.branch_id === branchId)
+    .filter(item => vehicleId === 'all' || !item.budget.vehicle_id || item.budget.vehicle_id === vehicleId)
+    .sort((a, b) =>
+      formatBudgetScope(a).localeCompare(formatBudgetScope(b)) ||
+      a.periodStart.getTime() - b.periodStart.getTime()
+    );
+
+  const branchAlerts = visibleItems.filter(item =>
+    item.budget.branch_id && !item.budget.category_id && !item.budget.vehicle_id && item.status !== 'ok'
+  );
+
+  const yearOptions = [currentYear - 2, currentYear - 1, currentYear, currentYear + 1];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Label>Year</Label>
+        <Select value={year.toString()} onValueChange={(value) => setYear(parseInt(value))}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {yearOptions.map((option) => (
+              <SelectItem key={option} value={option.toString()}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {branchAlerts.map((item) => (
+        <Alert key={item.budget.id} variant={item.status === 'over' ? 'destructive' : 'default'}>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {item.branchName} has used {item.usedPercent.toFixed(0)}% of its {formatBudgetPeriod(item.budget, startMonth)} budget
+            {item.status === 'over'
+              ? ` and is ${formatCurrency(Math.abs(item.remaining))} over.`
+              : ` (warning at ${Number(item.budget.warning_threshold_percent)}%). ${formatCurrency(item.remaining)} left.`}
+          </AlertDescription>
+        </Alert>
+      ))}
+
+      {loading || fiscalYearLoading ? (
+        <p className="text-center text-muted-foreground py-8">Loading budgets...</p>
+      ) : visibleItems.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          No budgets set for {year}. Admins can add budgets under Admin → Budgets.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scope</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead className="text-right">Budget</TableHead>
+              <TableHead className="text-right">Actual</TableHead>
+              <TableHead className="text-right">Remaining</TableHead>
+              <TableHead className="w-32">Used</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+              <TableHead className="text-right">Projected</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleItems.map((item) => (
+              <TableRow key={item.budget.id}>
+                <TableCell className="font-medium">{formatBudgetScope(item)}</TableCell>
+                <TableCell>{formatBudgetPeriod(item.budget, startMonth)}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(Number(item.budget.amount))}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(item.actual)}</TableCell>
+                <TableCell className={`text-right font-mono ${item.remaining < 0 ? 'text-destructive' : ''}`}>
+                  {formatCurrency(item.remaining)}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Progress value={Math.min(item.usedPercent, 100)} className="h-2" />
+                    <span className="text-xs text-muted-foreground w-10 text-right">{item.usedPercent.toFixed(0)}%</span>
+                  </div>
+                </TableCell>
+                <TableCell className={`text-right font-mono ${item.variancePercent > 0 ? 'text-destructive' : 'text-green-600'}`}>
+                  {formatVariance(item.variancePercent)}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="font-mono">{formatCurrency(item.projected)}</div>
+                  <div className={`text-xs ${item.projectedVariancePercent > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {formatVariance(item.projectedVariancePercent)}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <BudgetStatusBadge status={item.status} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
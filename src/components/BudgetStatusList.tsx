@@ -0,0 +1,75 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { PiggyBank } from 'lucide-react';
+import { useBudgetProgress } from '@/hooks/useBudgetProgress';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { BudgetStatus, formatBudgetPeriod, formatBudgetScope } from '@/utils/budgets';
+
+export function BudgetStatusBadge({ status }: { status: BudgetStatus }) {
+  switch (status) {
+    case 'over':
+      return <Badge variant="destructive">Over Budget</Badge>;
+    case 'warning':
+      return <Badge className="bg-amber-500/20 text-amber-700 border-amber-500/30">Near Limit</Badge>;
+    default:
+      return <Badge className="bg-green-500/20 text-green-700 border-green-500/30">On Track</Badge>;
+  }
+}
+
+export function BudgetStatusList() {
+  const now = new Date();
+  const { startMonth, fiscalYearStart, loading: fiscalYearLoading } = useFiscalYear();
+  // Annual budgets are filed under the year their fiscal year starts, monthly ones under the calendar year
+  const { items, loading } = useBudgetProgress([fiscalYearStart.getFullYear(), now.getFullYear()], startMonth);
+
+  // Only this fiscal year's annual budgets and this month's monthly budgets
+  const currentItems = items
+    .filter(item => item.periodStart <= now && now <= item.periodEnd)
+    .sort((a, b) => b.usedPercent - a.usedPercent);
+  const alertCount = currentItems.filter(item => item.status !== 'ok').length;
+
+  if (loading || fiscalYearLoading || currentItems.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PiggyBank className="h-5 w-5" />
+          Budget Remaining
+          {alertCount > 0 && (
+            <Badge variant="destructive" className="ml-1">{alertCount} need attention</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Spend against this fiscal year's and this month's budgets</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {currentItems.map((item) => (
+            <div key={item.budget.id} className="space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {formatBudgetScope(item)}
+                    <span className="text-muted-foreground font-normal"> · {formatBudgetPeriod(item.budget, startMonth)}</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {item.remaining >= 0
+                      ? `$${item.remaining.toLocaleString(undefined, { maximumFractionDigits: 0 })} left`
+                      : `$${Math.abs(item.remaining).toLocaleString(undefined, { maximumFractionDigits: 0 })} over`}
+                    {' '}of ${Number(item.budget.amount).toLocaleString()}
+                    {' '}· projected ${item.projected.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                  </p>
+                </div>
+                <BudgetStatusBadge status={item.status} />
+              </div>
+              <Progress value={Math.min(item.usedPercent, 100)} className="h-2" />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
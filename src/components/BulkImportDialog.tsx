@@ -6,17 +6,29 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Upload, FileSpreadsheet, FileText, CheckCircle, AlertCircle } from "lucide-react";
-import { parseCSVFile } from "@/utils/csvParser";
+import { ParsedExpenseRecord, readFileAsText } from "@/utils/csvParser";
 import { parsePDFWorkOrder } from "@/utils/pdfParser";
+import { isExcelFile, readWorkbook } from "@/utils/xlsxParser";
 import { supabase } from "@/integrations/supabase/client";
+import { useDuplicateCheck } from "@/hooks/useDuplicateCheck";
 import { Card } from "@/components/ui/card";
 import { ExpensePreviewDialog, PreviewExpenseEntry } from './ExpensePreviewDialog';
+import { ColumnMappingStep, ImportSource } from './ColumnMappingStep';
 
 interface ImportPreview {
   fileName: string;
   fileType: string;
   recordCount: number;
-  records: any[];
+  records: ParsedExpenseRecord[];
+  errors: string[];
+}
+
+// CSV and Excel files waiting for their columns to be mapped, plus what was parsed so far
+interface PendingMapping {
+  files: File[];
+  sources: { name: string; source: ImportSource }[];
+  index: number;
+  records: ParsedExpenseRecord[];
   errors: string[];
 }
 
@@ -26,6 +38,7 @@ interface BulkImportDialogProps {
 
 export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) => {
   const { toast } = useToast();
+  const { findDuplicates, recordDuplicates } = useDuplicateCheck();
   const [open, setOpen] = useState(false);
   const [files, setFiles] = useState<File[]>([]);
   const [importing, setImporting] = useState(false);
@@ -35,6 +48,7 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
   const [vehicles, setVehicles] = useState<any[]>([]);
   const [categories, setCategories] = useState<any[]>([]);
   const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
 
   const fetchReferenceData = async () => {
     const [branchesRes, vehiclesRes, categoriesRes] = await Promise.all([
@@ -60,14 +74,15 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
 
   const processFiles = async (filesToProcess: File[]) => {
     try {
-      const allRecords: any[] = [];
+      const allRecords: ParsedExpenseRecord[] = [];
       const allErrors: string[] = [];
+      const sources: PendingMapping['sources'] = [];
 
       for (const file of filesToProcess) {
         if (file.name.endsWith('.csv')) {
-          const result = await parseCSVFile(file);
-          allRecords.push(...result.records);
-          allErrors.push(...result.errors);
+          sources.push({ name: file.name, source: { type: 'csv', text: await readFileAsText(file) } });
+        } else if (isExcelFile(file.name)) {
+          sources.push({ name: file.name, source: { type: 'workbook', sheets: await readWorkbook(file) } });
         } else if (file.name.endsWith('.pdf')) {
           const result = await parsePDFWorkOrder(file);
           allRecords.push(...result.records);
@@ -75,37 +90,72 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
         }
       }
 
-      const previewData = {
-        fileName: filesToProcess.map(f => f.name).join(', '),
-        fileType: filesToProcess.length === 1 ? filesToProcess[0].type : 'Multiple files',
-        recordCount: allRecords.length,
-        records: allRecords,
-        errors: allErrors
-      };
-
-      setPreview(previewData);
-
-      if (allErrors.length > 0) {
-        toast({
-          title: "Parsing Issues",
-          description: `${allErrors.length} issues found. Review before importing.`,
-          variant: "destructive"
-        });
+      // Spreadsheet columns are mapped one file at a time before the preview
+      if (sources.length > 0) {
+        setPendingMapping({ files: filesToProcess, sources, index: 0, records: allRecords, errors: allErrors });
+        return;
       }
 
-      // Open the preview dialog
-      if (allRecords.length > 0) {
-        setPreviewDialogOpen(true);
-      }
+      showPreview(filesToProcess, allRecords, allErrors);
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to process files",
+        description: error instanceof Error ? error.message : "Failed to process files",
         variant: "destructive"
       });
     }
   };
 
+  const showPreview = (processedFiles: File[], allRecords: ParsedExpenseRecord[], allErrors: string[]) => {
+    const previewData = {
+      fileName: processedFiles.map(f => f.name).join(', '),
+      fileType: processedFiles.length === 1 ? processedFiles[0].type : 'Multiple files',
+      recordCount: allRecords.length,
+      records: allRecords,
+      errors: allErrors
+    };
+
+    setPreview(previewData);
+
+    if (allErrors.length > 0) {
+      toast({
+        title: "Parsing Issues",
+        description: `${allErrors.length} issues found. Review before importing.`,
+        variant: "destructive"
+      });
+    }
+
+    // Open the preview dialog
+    if (allRecords.length > 0) {
+      setPreviewDialogOpen(true);
+    }
+  };
+
+  const handleMappingConfirm = (result: { records: ParsedExpenseRecord[]; errors: string[] }) => {
+    if (!pendingMapping) return;
+
+    const fileName = pendingMapping.sources[pendingMapping.index].name;
+    const next = {
+      ...pendingMapping,
+      index: pendingMapping.index + 1,
+      records: [...pendingMapping.records, ...result.records],
+      errors: [...pendingMapping.errors, ...result.errors.map(error => `${fileName}: ${error}`)],
+    };
+
+    if (next.index < next.sources.length) {
+      setPendingMapping(next);
+      return;
+    }
+
+    setPendingMapping(null);
+    showPreview(next.files, next.records, next.errors);
+  };
+
+  const handleMappingCancel = () => {
+    setPendingMapping(null);
+    setFiles([]);
+  };
+
   const handlePreviewConfirm = async (editedEntries: PreviewExpenseEntry[]) => {
     setPreviewDialogOpen(false);
     setImporting(true);
@@ -117,10 +167,20 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
       const totalRecords = validEntries.length;
       let imported = 0;
       let failed = 0;
+      let flagged = 0;
 
       for (const entry of validEntries) {
         try {
-          const { error } = await supabase
+          const matches = await findDuplicates({
+            source: 'expense',
+            date: entry.date,
+            amount: entry.amount,
+            vendor_name: null,
+            vehicle_id: entry.matchedVehicle!.id,
+            fileHashes: [],
+          });
+
+          const { data: expense, error } = await supabase
             .from('expenses')
             .insert({
               vehicle_id: entry.matchedVehicle!.id,
@@ -130,10 +190,18 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
               date: entry.date,
               odometer_reading: entry.odometer,
               description: entry.description || `Imported from ${preview?.fileName || 'historical data'}`
-            });
+            })
+            .select('id')
+            .single();
 
           if (error) throw error;
           imported++;
+
+          // Rows that match a record already entered are imported but flagged for review
+          if (matches.length > 0) {
+            await recordDuplicates({ id: expense.id, source: 'expense' }, matches);
+            flagged++;
+          }
         } catch (error) {
           console.error('Import error:', error);
           failed++;
@@ -144,7 +212,7 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
 
       toast({
         title: "Import Complete",
-        description: `Imported ${imported} records. ${failed > 0 ? `${failed} failed.` : ''}`,
+        description: `Imported ${imported} records. ${flagged > 0 ? `${flagged} flagged as possible duplicates. ` : ''}${failed > 0 ? `${failed} failed.` : ''}`,
       });
 
       setOpen(false);
@@ -182,17 +250,30 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
           <DialogHeader>
             <DialogTitle>Bulk Import Historical Data</DialogTitle>
             <DialogDescription>
-              Upload CSV or PDF files containing work orders and expense data from your previous fleet management system.
+              Upload CSV, Excel or PDF files containing work orders and expense data from your previous fleet management system.
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-6">
-            {!importing && (
+            {!importing && pendingMapping && (
+              <ColumnMappingStep
+                key={pendingMapping.index}
+                fileName={pendingMapping.sources[pendingMapping.index].name}
+                source={pendingMapping.sources[pendingMapping.index].source}
+                stepLabel={pendingMapping.sources.length > 1
+                  ? `File ${pendingMapping.index + 1} of ${pendingMapping.sources.length}`
+                  : undefined}
+                onConfirm={handleMappingConfirm}
+                onCancel={handleMappingCancel}
+              />
+            )}
+
+            {!importing && !pendingMapping && (
               <div className="space-y-4">
                 <div className="border-2 border-dashed rounded-lg p-8 text-center">
                   <Input
                     type="file"
-                    accept=".csv,.pdf"
+                    accept=".csv,.xlsx,.xlsm,.xltx,.pdf"
                     multiple
                     onChange={handleFileSelect}
                     className="hidden"
@@ -203,7 +284,7 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
                       <Upload className="h-12 w-12 text-muted-foreground" />
                       <div>
                         <p className="font-medium">Click to upload files</p>
-                        <p className="text-sm text-muted-foreground">CSV or PDF files accepted</p>
+                        <p className="text-sm text-muted-foreground">CSV, Excel (.xlsx) or PDF files accepted</p>
                       </div>
                     </div>
                   </Label>
@@ -213,10 +294,11 @@ export const BulkImportDialog = ({ onImportComplete }: BulkImportDialogProps) =>
                   <Card className="p-4">
                     <div className="flex items-center gap-2 mb-2">
                       <FileSpreadsheet className="h-5 w-5 text-green-500" />
-                      <span className="font-medium">CSV Format</span>
+                      <span className="font-medium">CSV / Excel Format</span>
                     </div>
                     <p className="text-muted-foreground text-xs">
-                      Expected columns: Date, Vehicle (VIN/Plate), Branch, Category, Amount, Description, Odometer
+                      Any delimiter, sheet or column order. You'll match columns to Date, Vehicle (VIN/Plate), Amount and
+                      optional fields, and can save the mapping as a profile for next time
                     </p>
                   </Card>
                   <Card className="p-4">
@@ -0,0 +1,365 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useImportProfiles } from '@/hooks/useImportProfiles';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Columns, Save } from 'lucide-react';
+import {
+  CSV_DELIMITERS,
+  ColumnMapping,
+  CSVDelimiter,
+  IMPORT_FIELDS,
+  ImportField,
+  ParsedCSV,
+  ParsedExpenseRecord,
+  detectDelimiter,
+  mapCSVRecords,
+  parseCSV,
+  suggestColumnMapping,
+} from '@/utils/csvParser';
+import { WorkbookSheet, detectHeaderRow, nonEmptySheets, sheetToParsedCSV } from '@/utils/xlsxParser';
+
+interface Vendor {
+  id: string;
+  name: string;
+}
+
+export type ImportSource =
+  | { type: 'csv'; text: string }
+  | { type: 'workbook'; sheets: WorkbookSheet[] };
+
+interface ParseOptions {
+  delimiter: CSVDelimiter;
+  sheetIndex: number;
+  headerRow: number;
+}
+
+function parseSource(source: ImportSource, sheets: WorkbookSheet[], options: ParseOptions): ParsedCSV {
+  if (source.type === 'csv') {
+    return parseCSV(source.text, options.delimiter);
+  }
+  const sheet = sheets[options.sheetIndex];
+  return sheet ? sheetToParsedCSV(sheet, options.headerRow) : { headers: [], rows: [], delimiter: ',' };
+}
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  source: ImportSource;
+  /** e.g. "File 1 of 2" when several files are imported together */
+  stepLabel?: string;
+  onConfirm: (result: { records: ParsedExpenseRecord[]; errors: string[] }) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingStep({ fileName, source, stepLabel, onConfirm, onCancel }: ColumnMappingStepProps) {
+  const sheets = useMemo(() => (source.type === 'workbook' ? nonEmptySheets(source.sheets) : []), [source]);
+  const [delimiter, setDelimiter] = useState<CSVDelimiter>(() => (source.type === 'csv' ? detectDelimiter(source.text) : ','));
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(() => (sheets[0] ? detectHeaderRow(sheets[0].rows) : 0));
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [profileId, setProfileId] = useState('none');
+  const [profileName, setProfileName] = useState('');
+  const [profileVendorId, setProfileVendorId] = useState('none');
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [initialized, setInitialized] = useState(false);
+  const { profiles, loading: profilesLoading, saveProfile, findProfileForHeaders } = useImportProfiles();
+  const { toast } = useToast();
+
+  const parseWith = useCallback(
+    (options: Partial<ParseOptions>) => parseSource(source, sheets, { delimiter, sheetIndex, headerRow, ...options }),
+    [source, sheets, delimiter, sheetIndex, headerRow]
+  );
+
+  const parsed = useMemo(
+    () => parseSource(source, sheets, { delimiter, sheetIndex, headerRow }),
+    [source, sheets, delimiter, sheetIndex, headerRow]
+  );
+  const result = useMemo(() => mapCSVRecords(parsed, mapping), [parsed, mapping]);
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && !mapping[field.key]);
+
+  useEffect(() => {
+    supabase.from('vendors').select('id, name').order('name').then(({ data }) => {
+      if (data) setVendors(data);
+    });
+  }, []);
+
+  const applyProfile = useCallback((id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) {
+      setProfileName('');
+      setProfileVendorId('none');
+      setMapping(suggestColumnMapping(parsed.headers));
+      return;
+    }
+
+    let headers = parsed.headers;
+    if (source.type === 'csv') {
+      setDelimiter(profile.delimiter);
+      headers = parseWith({ delimiter: profile.delimiter }).headers;
+    }
+    // Drop columns this file does not have
+    setMapping(Object.fromEntries(
+      Object.entries(profile.column_mapping).filter(([, header]) => header && headers.includes(header))
+    ) as ColumnMapping);
+    setProfileName(profile.name);
+    setProfileVendorId(profile.vendor_id || 'none');
+  }, [profiles, parsed.headers, source.type, parseWith]);
+
+  // Start from a saved profile that fits this file, otherwise from the header names
+  useEffect(() => {
+    if (profilesLoading || initialized) return;
+
+    const profile = findProfileForHeaders(parsed.headers);
+    if (profile) {
+      applyProfile(profile.id);
+    } else {
+      setMapping(suggestColumnMapping(parsed.headers));
+    }
+    setInitialized(true);
+  }, [profilesLoading, initialized, parsed.headers, findProfileForHeaders, applyProfile]);
+
+  const handleDelimiterChange = (value: CSVDelimiter) => {
+    setDelimiter(value);
+    setMapping(suggestColumnMapping(parseWith({ delimiter: value }).headers));
+  };
+
+  const handleSheetChange = (value: string) => {
+    const index = Number(value);
+    const row = detectHeaderRow(sheets[index].rows);
+    setSheetIndex(index);
+    setHeaderRow(row);
+    setMapping(suggestColumnMapping(parseWith({ sheetIndex: index, headerRow: row }).headers));
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    const row = Number(value);
+    setHeaderRow(row);
+    setMapping(suggestColumnMapping(parseWith({ headerRow: row }).headers));
+  };
+
+  const handleColumnChange = (field: ImportField, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header === 'none') {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a name for the import profile',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const id = await saveProfile({
+        name: profileName.trim(),
+        vendorId: profileVendorId === 'none' ? null : profileVendorId,
+        delimiter,
+        mapping,
+      });
+      setProfileId(id);
+      toast({ title: 'Success', description: `Import profile "${profileName.trim()}" saved` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save import profile',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const firstRow = parsed.rows[0]?.values || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Columns className="h-5 w-5 text-primary" />
+        <div>
+          <p className="font-medium">Map columns for {fileName}</p>
+          <p className="text-sm text-muted-foreground">
+            {stepLabel ? `${stepLabel} · ` : ''}{parsed.rows.length} rows found. Choose which column holds each field.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Saved Profile</Label>
+          <Select value={profileId} onValueChange={applyProfile}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No profile</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}{profile.vendorName ? ` (${profile.vendorName})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {source.type === 'csv' ? (
+          <div className="space-y-2">
+            <Label>Delimiter</Label>
+            <Select value={delimiter} onValueChange={(value) => handleDelimiterChange(value as CSVDelimiter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_DELIMITERS.map((option) => (
+                  <SelectItem key={option.label} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Sheet</Label>
+              <Select value={String(sheetIndex)} onValueChange={handleSheetChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheets.map((sheet, index) => (
+                    <SelectItem key={sheet.name} value={String(index)}>
+                      {sheet.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Header Row</Label>
+              <Select value={String(headerRow)} onValueChange={handleHeaderRowChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(sheets[sheetIndex]?.rows || []).slice(0, 20).map((row, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      Row {index + 1}: {row.filter(Boolean).slice(0, 3).join(', ') || '(empty)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Source Column</TableHead>
+            <TableHead>First Row</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {IMPORT_FIELDS.map((field) => {
+            const header = mapping[field.key];
+            const sample = header ? firstRow[parsed.headers.indexOf(header)] : '';
+            return (
+              <TableRow key={field.key}>
+                <TableCell className="font-medium">
+                  {field.label}{field.required && <span className="text-destructive"> *</span>}
+                </TableCell>
+                <TableCell>
+                  <Select value={header || 'none'} onValueChange={(value) => handleColumnChange(field.key, value)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not in file</SelectItem>
+                      {parsed.headers.filter(Boolean).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground max-w-[12rem] truncate">
+                  {sample || '—'}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="rounded-lg border p-4 space-y-3">
+        <p className="text-sm font-medium">Save this mapping for next time</p>
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="import-profile-name">Profile Name</Label>
+            <Input
+              id="import-profile-name"
+              placeholder="e.g., Fleet Shop monthly export"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Vendor (optional)</Label>
+            <Select value={profileVendorId} onValueChange={setProfileVendorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No vendor</SelectItem>
+                {vendors.map((vendor) => (
+                  <SelectItem key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={handleSaveProfile} disabled={saving}>
+            <Save className="h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Profile'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {missingRequired.length > 0
+            ? `Map ${missingRequired.map(field => field.label).join(', ')} to continue`
+            : `${result.records.length} rows ready${result.errors.length > 0 ? `, ${result.errors.length} will be skipped` : ''}`}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(result)} disabled={missingRequired.length > 0}>
+            Continue
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useNavigate } from 'react-router-dom';
 import { Car, DollarSign, Calendar, TrendingUp, Clock } from 'lucide-react';
+import { FLEET_STATUSES } from '@/utils/vehicleStatus';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { formatFiscalYear } from '@/utils/fiscalYear';
 
 interface StatsData {
   totalVehicles: number;
@@ -23,43 +27,29 @@ export function DashboardStats() {
   });
   const { isAdminOrManager } = useUserRole();
   const navigate = useNavigate();
+  const { startMonth, fiscalYearStart, loading: fiscalYearLoading } = useFiscalYear();
 
-  useEffect(() => {
-    fetchStats();
-  }, []);
-
-  const fetchStats = async () => {
+  const fetchStats = useCallback(async () => {
     const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth() + 1;
 
     // Get total vehicles
     const { count: vehicleCount } = await supabase
       .from('vehicles')
       .select('*', { count: 'exact', head: true })
-      .eq('status', 'active');
-
-    // Get monthly expenses
-    const { data: monthlyData } = await supabase
-      .from('expenses')
-      .select('amount')
-      .is('deleted_at', null)
-      .gte('date', `${currentYear}-${String(currentMonth).padStart(2, '0')}-01`)
-      .lt('date', `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-01`);
-
-    // Get yearly expenses
-    const { data: yearlyData } = await supabase
-      .from('expenses')
-      .select('amount')
-      .is('deleted_at', null)
-      .gte('date', `${currentYear}-01-01`)
-      .lt('date', `${currentYear + 1}-01-01`);
+      .in('status', FLEET_STATUSES);
 
-    // Get total expenses
-    const { data: totalData } = await supabase
-      .from('expenses')
-      .select('amount')
-      .is('deleted_at', null);
+    // Sum expenses of every status in the database, so the totals are not cut off at the row limit
+    const [monthlyRes, yearlyRes, totalRes] = await Promise.all([
+      supabase.rpc('report_expenses_by_status', {
+        _date_from: format(startOfMonth(now), 'yyyy-MM-dd'),
+        _date_to: format(endOfMonth(now), 'yyyy-MM-dd'),
+      }),
+      supabase.rpc('report_expenses_by_status', {
+        _date_from: format(fiscalYearStart, 'yyyy-MM-dd'),
+        _date_to: format(now, 'yyyy-MM-dd'),
+      }),
+      supabase.rpc('report_expenses_by_status', {}),
+    ]);
 
     // Get pending approvals count (for managers/admins)
     const { count: pendingCount } = await supabase
@@ -68,18 +58,21 @@ export function DashboardStats() {
       .is('deleted_at', null)
       .eq('approval_status', 'pending');
 
-    const monthlySum = monthlyData?.reduce((sum, exp) => sum + Number(exp.amount), 0) || 0;
-    const yearlySum = yearlyData?.reduce((sum, exp) => sum + Number(exp.amount), 0) || 0;
-    const totalSum = totalData?.reduce((sum, exp) => sum + Number(exp.amount), 0) || 0;
+    const sumTotals = (rows: { total: number }[] | null) => rows?.reduce((sum, row) => sum + Number(row.total), 0) || 0;
 
     setStats({
       totalVehicles: vehicleCount || 0,
-      monthlyExpenses: monthlySum,
-      yearlyExpenses: yearlySum,
-      totalExpenses: totalSum,
+      monthlyExpenses: sumTotals(monthlyRes.data),
+      yearlyExpenses: sumTotals(yearlyRes.data),
+      totalExpenses: sumTotals(totalRes.data),
       pendingApprovals: pendingCount || 0,
     });
-  };
+  }, [fiscalYearStart]);
+
+  useEffect(() => {
+    if (fiscalYearLoading) return;
+    fetchStats();
+  }, [fiscalYearLoading, fetchStats]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -119,7 +112,7 @@ export function DashboardStats() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{formatCurrency(stats.yearlyExpenses)}</div>
-          <p className="text-xs text-muted-foreground">Year to date</p>
+          <p className="text-xs text-muted-foreground">{formatFiscalYear(new Date(), startMonth)} to date</p>
         </CardContent>
       </Card>
       
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, ExternalLink, FileText, GitMerge, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { DuplicateFlag, DuplicateRecord } from '@/hooks/useDuplicateFlags';
+import { DUPLICATE_REASON_LABELS, DuplicateReason, RECEIPT_SOURCE_LABELS } from '@/utils/duplicateReceipts';
+
+export function PossibleDuplicateBadge({ onClick }: { onClick?: () => void }) {
+  return (
+    <Badge
+      className="bg-orange-500/20 text-orange-700 border-orange-500/30 cursor-pointer gap-1"
+      onClick={onClick}
+      title="Review possible duplicate"
+    >
+      <Copy className="h-3 w-3" />
+      Possible Duplicate
+    </Badge>
+  );
+}
+
+interface DuplicateReviewDialogProps {
+  flags: DuplicateFlag[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDismiss: (flagId: string) => Promise<void>;
+  onMerge: (flagId: string, keepFlagged: boolean) => Promise<void>;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+// Rows of the side-by-side comparison, with the reason that marks them as matching
+const COMPARED_FIELDS: { label: string; reason?: DuplicateReason; value: (record: DuplicateRecord) => string }[] = [
+  { label: 'Date', reason: 'date', value: (record) => format(new Date(record.date), 'MMM d, yyyy') },
+  { label: 'Amount', reason: 'amount', value: (record) => formatCurrency(Number(record.amount)) },
+  { label: 'Vendor', reason: 'vendor', value: (record) => record.vendor_name || '-' },
+  { label: 'Vehicle', reason: 'vehicle', value: (record) => record.vehicles?.plate || '-' },
+  { label: 'Description', value: (record) => record.description || '-' },
+  { label: 'Status', value: (record) => record.approval_status || '-' },
+  { label: 'Entered', value: (record) => format(new Date(record.created_at), 'MMM d, yyyy h:mm a') },
+];
+
+export function DuplicateReviewDialog({ flags, open, onOpenChange, onDismiss, onMerge }: DuplicateReviewDialogProps) {
+  const [busyFlagId, setBusyFlagId] = useState<string | null>(null);
+  const { isAdminOrManager } = useUserRole();
+  const { toast } = useToast();
+
+  const handleViewDocument = async (filePath: string) => {
+    const { data, error } = await supabase.storage
+      .from('vehicle-documents')
+      .createSignedUrl(filePath, 3600); // 1 hour expiry
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to open document.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    window.open(data.signedUrl, '_blank');
+  };
+
+  const runAction = async (flagId: string, action: () => Promise<void>, successMessage: string) => {
+    setBusyFlagId(flagId);
+    try {
+      await action();
+      toast({ title: 'Success', description: successMessage });
+      if (flags.length <= 1) {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to resolve duplicate.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyFlagId(null);
+    }
+  };
+
+  const renderDocuments = (record: DuplicateRecord) => (
+    <div className="space-y-1 min-w-0">
+      {record.documents.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No documents</p>
+      ) : (
+        record.documents.map((doc) => (
+          <button
+            key={doc.id}
+            type="button"
+            onClick={() => handleViewDocument(doc.file_path)}
+            className="flex items-center gap-1 text-xs text-primary hover:underline max-w-full"
+          >
+            <FileText className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{doc.file_name}</span>
+            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+          </button>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicate</DialogTitle>
+          <DialogDescription>
+            Compare the records side by side. Merge keeps one record and deletes the other expense;
+            its documents move to the record that is kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {flags.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">This duplicate has been resolved.</p>
+        ) : (
+          <div className="space-y-6">
+            {flags.map((flag) => {
+              const { expense } = flag;
+              const match = flag.match_expense || flag.match_fuel_receipt;
+              if (!expense || !match) return null;
+
+              // The flagged expense is the later copy when both sides are expenses
+              const expenseTitle = flag.match_expense
+                ? `${RECEIPT_SOURCE_LABELS.expense} (newer)`
+                : RECEIPT_SOURCE_LABELS.expense;
+              const matchTitle = flag.match_expense
+                ? `${RECEIPT_SOURCE_LABELS.expense} (earlier)`
+                : RECEIPT_SOURCE_LABELS.fuel_receipt;
+              const busy = busyFlagId === flag.id;
+
+              return (
+                <div key={flag.id} className="rounded-lg border p-4 space-y-4">
+                  <div className="flex flex-wrap gap-1">
+                    {flag.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">{DUPLICATE_REASON_LABELS[reason] || reason}</Badge>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-[7rem_1fr_1fr] gap-x-4 gap-y-2 text-sm">
+                    <div />
+                    <p className="font-semibold">{expenseTitle}</p>
+                    <p className="font-semibold">{matchTitle}</p>
+                    {COMPARED_FIELDS.map((field) => {
+                      const matched = field.reason && flag.reasons.includes(field.reason);
+                      return (
+                        <div key={field.label} className="contents">
+                          <p className="text-muted-foreground">{field.label}</p>
+                          <p className={matched ? 'font-medium text-orange-700' : ''}>{field.value(expense)}</p>
+                          <p className={matched ? 'font-medium text-orange-700' : ''}>{field.value(match)}</p>
+                        </div>
+                      );
+                    })}
+                    <p className="text-muted-foreground">Documents</p>
+                    {renderDocuments(expense)}
+                    {renderDocuments(match)}
+                  </div>
+
+                  {isAdminOrManager && (
+                    <div className="flex flex-wrap justify-end gap-2 border-t pt-4">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        disabled={busy}
+                        onClick={() => runAction(flag.id, () => onDismiss(flag.id), 'Marked as not a duplicate.')}
+                      >
+                        <XCircle className="h-4 w-4" />
+                        Not a Duplicate
+                      </Button>
+                      {flag.match_expense ? (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            disabled={busy}
+                            onClick={() => runAction(flag.id, () => onMerge(flag.id, true), 'Duplicates merged into the newer expense.')}
+                          >
+                            <GitMerge className="h-4 w-4" />
+                            Keep Newer
+                          </Button>
+                          <Button
+                            size="sm"
+                            className="gap-2"
+                            disabled={busy}
+                            onClick={() => runAction(flag.id, () => onMerge(flag.id, false), 'Duplicates merged into the earlier expense.')}
+                          >
+                            <GitMerge className="h-4 w-4" />
+                            Keep Earlier
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          className="gap-2"
+                          disabled={busy}
+                          onClick={() => runAction(flag.id, () => onMerge(flag.id, false), 'Expense merged into the fuel receipt.')}
+                        >
+                          <GitMerge className="h-4 w-4" />
+                          Keep Fuel Receipt
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
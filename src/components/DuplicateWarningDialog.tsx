@@ -0,0 +1,70 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { DuplicateMatch } from '@/hooks/useDuplicateCheck';
+import { DUPLICATE_REASON_LABELS, RECEIPT_SOURCE_LABELS } from '@/utils/duplicateReceipts';
+
+interface DuplicateWarningDialogProps {
+  matches: DuplicateMatch[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+export function DuplicateWarningDialog({ matches, open, onOpenChange, onConfirm }: DuplicateWarningDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-600" />
+            Possible Duplicate Receipt
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            This receipt looks like one that has already been entered. If you save it anyway it will be
+            flagged for a manager to review.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {matches.map((match) => (
+            <div key={`${match.record.source}-${match.record.id}`} className="p-3 bg-muted rounded-md space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">
+                  {match.record.vendor_name || RECEIPT_SOURCE_LABELS[match.record.source]}
+                  {' · '}${Number(match.record.amount).toFixed(2)}
+                </p>
+                <Badge variant="outline">{RECEIPT_SOURCE_LABELS[match.record.source]}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {format(new Date(match.record.date), 'MMM d, yyyy')}
+                {match.vehiclePlate && ` · ${match.vehiclePlate}`}
+                {' · entered '}{format(new Date(match.record.created_at), 'MMM d, yyyy')}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {match.reasons.map((reason) => (
+                  <Badge key={reason} variant="secondary" className="text-xs">
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Go Back</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Save Anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
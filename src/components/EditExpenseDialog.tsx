@@ -10,9 +10,20 @@ import { Calendar } from '@/components/ui/calendar';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { CalendarIcon, AlertTriangle, RefreshCw, ChevronDown } from 'lucide-react';
+import { CalendarIcon, AlertTriangle, RefreshCw, ChevronDown, Lock } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { emitExpensesChanged } from '@/utils/expensesEvents';
+import { useAccountingPeriods } from '@/hooks/useAccountingPeriods';
+import { TaxComponentFields } from './TaxComponentFields';
+import {
+  BRANCH_TAX_COLUMNS,
+  BranchTaxSettings,
+  TaxComponentValues,
+  fromTaxColumns,
+  getActiveTaxComponents,
+  toTaxColumns,
+} from '@/utils/taxRegimes';
 
 interface Category {
   id: string;
@@ -20,7 +31,7 @@ interface Category {
   type: string;
 }
 
-interface Branch {
+interface Branch extends BranchTaxSettings {
   id: string;
   name: string;
 }
@@ -37,6 +48,11 @@ interface Expense {
   amount: number;
   subtotal: number | null;
   tax_amount: number | null;
+  gst_amount?: number | null;
+  pst_amount?: number | null;
+  hst_amount?: number | null;
+  qst_amount?: number | null;
+  us_sales_tax_amount?: number | null;
   date: string;
   description: string | null;
   vehicle_id: string;
@@ -63,6 +79,7 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
   const [canScrollMore, setCanScrollMore] = useState(false);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { isClosed } = useAccountingPeriods();
 
   const checkScrollability = useCallback(() => {
     const container = scrollContainerRef.current;
@@ -77,6 +94,8 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
     amount: '',
     subtotal: '',
     taxAmount: '',
+    taxComponents: {} as TaxComponentValues,
+    usInvoice: false,
     date: new Date(),
     description: '',
     vehicleId: '',
@@ -87,6 +106,8 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
     odometerReading: '',
   });
 
+  const selectedBranch = branches.find(b => b.id === formData.branchId);
+
   useEffect(() => {
     // Check scrollability when dialog opens or form data changes
     const timer = setTimeout(checkScrollability, 100);
@@ -100,6 +121,8 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
         amount: expense.amount?.toString() || '',
         subtotal: expense.subtotal?.toString() || '',
         taxAmount: expense.tax_amount?.toString() || '',
+        taxComponents: fromTaxColumns(expense),
+        usInvoice: !!expense.us_sales_tax_amount,
         date: expense.date ? new Date(expense.date) : new Date(),
         description: expense.description || '',
         vehicleId: expense.vehicle_id || '',
@@ -124,7 +147,7 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
   const fetchData = async () => {
     const [categoriesRes, branchesRes, vehiclesRes] = await Promise.all([
       supabase.from('expense_categories').select('id, name, type').order('type').order('name'),
-      supabase.from('branches').select('id, name').order('name'),
+      supabase.from('branches').select(`id, name, ${BRANCH_TAX_COLUMNS}`).order('name'),
       supabase.from('vehicles').select('id, plate, make, model').order('plate'),
     ]);
     
@@ -155,6 +178,7 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
           amount: parseFloat(formData.amount) || 0,
           subtotal: formData.subtotal ? parseFloat(formData.subtotal) : null,
           tax_amount: formData.taxAmount ? parseFloat(formData.taxAmount) : null,
+          ...toTaxColumns(formData.taxComponents, getActiveTaxComponents(selectedBranch, formData.usInvoice)),
           date: format(formData.date, 'yyyy-MM-dd'),
           description: formData.description || null,
           vehicle_id: formData.vehicleId,
@@ -181,6 +205,7 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
 
       onOpenChange(false);
       onExpenseUpdated();
+      emitExpensesChanged();
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -194,6 +219,10 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
 
   if (!expense) return null;
 
+  // The database rejects changes to expenses dated in a closed period, or moved into one
+  const periodLocked = isClosed(expense.date) || isClosed(formData.date);
+  const lockedMonth = format(isClosed(expense.date) ? new Date(`${expense.date}T00:00:00`) : formData.date, 'MMMM yyyy');
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
@@ -216,6 +245,15 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
           </Alert>
         )}
 
+        {periodLocked && (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              The accounting period for {lockedMonth} is closed. An admin must reopen it before this expense can be changed.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="relative flex-1 min-h-0 overflow-hidden">
           <div 
             ref={scrollContainerRef}
@@ -282,7 +320,7 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
             </div>
           </div>
 
-          <div className="grid grid-cols-3 gap-4">
+          <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="subtotal">Subtotal</Label>
               <Input
@@ -294,17 +332,6 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
                 placeholder="0.00"
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="tax">Tax Amount</Label>
-              <Input
-                id="tax"
-                type="number"
-                step="0.01"
-                value={formData.taxAmount}
-                onChange={(e) => setFormData({ ...formData, taxAmount: e.target.value })}
-                placeholder="0.00"
-              />
-            </div>
             <div className="space-y-2">
               <Label htmlFor="amount">Total Amount *</Label>
               <Input
@@ -319,6 +346,17 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
               />
             </div>
           </div>
+          <TaxComponentFields
+            idPrefix="edit-expense"
+            branch={selectedBranch}
+            subtotal={formData.subtotal}
+            taxAmount={formData.taxAmount}
+            onTaxAmountChange={(taxAmount) => setFormData(prev => ({ ...prev, taxAmount }))}
+            values={formData.taxComponents}
+            onValuesChange={(taxComponents) => setFormData(prev => ({ ...prev, taxComponents }))}
+            usInvoice={formData.usInvoice}
+            onUsInvoiceChange={(usInvoice) => setFormData(prev => ({ ...prev, usInvoice }))}
+          />
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -392,7 +430,7 @@ export function EditExpenseDialog({ expense, open, onOpenChange, onExpenseUpdate
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading} className="gap-2">
+            <Button type="submit" disabled={loading || periodLocked} className="gap-2">
               <RefreshCw className="h-4 w-4" />
               {loading ? 'Submitting...' : 'Re-submit for Approval'}
             </Button>
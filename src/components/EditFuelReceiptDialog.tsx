@@ -14,8 +14,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Loader2, Fuel } from 'lucide-react';
+import { Loader2, Fuel, Lock } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { emitExpensesChanged } from '@/utils/expensesEvents';
+import { useAccountingPeriods } from '@/hooks/useAccountingPeriods';
+import { format } from 'date-fns';
 
 interface Branch {
   id: string;
@@ -44,6 +47,9 @@ interface FuelReceipt {
   subtotal: number | null;
   tax_amount: number | null;
   amount: number;
+  litres: number | null;
+  price_per_litre: number | null;
+  odometer_km: number | null;
   date: string;
   description: string | null;
 }
@@ -66,6 +72,7 @@ export function EditFuelReceiptDialog({
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
   const { toast } = useToast();
+  const { isClosed } = useAccountingPeriods();
 
   const [formData, setFormData] = useState({
     vehicleId: '',
@@ -76,6 +83,9 @@ export function EditFuelReceiptDialog({
     subtotal: '',
     taxAmount: '',
     amount: '',
+    litres: '',
+    pricePerLitre: '',
+    odometerKm: '',
     date: '',
     description: '',
   });
@@ -97,6 +107,9 @@ export function EditFuelReceiptDialog({
         subtotal: fuelReceipt.subtotal?.toString() || '',
         taxAmount: fuelReceipt.tax_amount?.toString() || '',
         amount: fuelReceipt.amount?.toString() || '',
+        litres: fuelReceipt.litres?.toString() || '',
+        pricePerLitre: fuelReceipt.price_per_litre?.toString() || '',
+        odometerKm: fuelReceipt.odometer_km?.toString() || '',
         date: fuelReceipt.date || '',
         description: fuelReceipt.description || '',
       });
@@ -161,6 +174,9 @@ export function EditFuelReceiptDialog({
           subtotal: formData.subtotal ? parseFloat(formData.subtotal) : null,
           tax_amount: formData.taxAmount ? parseFloat(formData.taxAmount) : null,
           amount: parseFloat(formData.amount),
+          litres: formData.litres ? parseFloat(formData.litres) : null,
+          price_per_litre: formData.pricePerLitre ? parseFloat(formData.pricePerLitre) : null,
+          odometer_km: formData.odometerKm ? parseInt(formData.odometerKm) : null,
           date: formData.date,
           description: formData.description || null,
         })
@@ -187,6 +203,9 @@ export function EditFuelReceiptDialog({
     setLoading(false);
   };
 
+  // The database rejects changes to fuel receipts dated in a closed period, or moved into one
+  const lockedDate = [fuelReceipt?.date, formData.date].find(date => date && isClosed(date));
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
@@ -200,6 +219,15 @@ export function EditFuelReceiptDialog({
           </DialogDescription>
         </DialogHeader>
 
+        {lockedDate && (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              The accounting period for {format(new Date(`${lockedDate}T00:00:00`), 'MMMM yyyy')} is closed. An admin must reopen it before this fuel receipt can be changed.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -302,7 +330,7 @@ export function EditFuelReceiptDialog({
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="edit-fuel-tax">HST ($)</Label>
+              <Label htmlFor="edit-fuel-tax">Tax ($)</Label>
               <Input
                 id="edit-fuel-tax"
                 type="number"
@@ -326,6 +354,42 @@ export function EditFuelReceiptDialog({
             </div>
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-fuel-litres">Litres</Label>
+              <Input
+                id="edit-fuel-litres"
+                type="number"
+                step="0.001"
+                value={formData.litres}
+                onChange={(e) => setFormData({ ...formData, litres: e.target.value })}
+                placeholder="0.000"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-fuel-price-per-litre">$/Litre</Label>
+              <Input
+                id="edit-fuel-price-per-litre"
+                type="number"
+                step="0.001"
+                value={formData.pricePerLitre}
+                onChange={(e) => setFormData({ ...formData, pricePerLitre: e.target.value })}
+                placeholder="0.000"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-fuel-odometer">Odometer (km)</Label>
+              <Input
+                id="edit-fuel-odometer"
+                type="number"
+                step="1"
+                value={formData.odometerKm}
+                onChange={(e) => setFormData({ ...formData, odometerKm: e.target.value })}
+                placeholder="km"
+              />
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="edit-fuel-date">Date *</Label>
             <Input
@@ -352,7 +416,7 @@ export function EditFuelReceiptDialog({
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading}>
+            <Button type="submit" disabled={loading || !!lockedDate}>
               {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
               Save Changes
             </Button>
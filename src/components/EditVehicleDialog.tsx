@@ -5,11 +5,16 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Pencil } from 'lucide-react';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useAuth } from '@/hooks/useAuth';
+import { VehicleStatusSelect } from '@/components/VehicleStatusSelect';
+import { VehicleTypeSelect } from '@/components/VehicleTypeSelect';
+import { VehicleStatus, isDisposedStatus } from '@/utils/vehicleStatus';
+import { format } from 'date-fns';
+import { emitVehiclesChanged } from '@/utils/vehiclesEvents';
 
 interface Branch {
   id: string;
@@ -29,7 +34,13 @@ interface Vehicle {
   status: string;
   notes: string | null;
   branch_id?: string | null;
+  branch_changed_on?: string | null;
+  vehicle_type?: string | null;
   transponder_407?: string | null;
+  disposal_date?: string | null;
+  sale_price?: number | null;
+  buyer_name?: string | null;
+  final_odometer_km?: number | null;
 }
 
 interface EditVehicleDialogProps {
@@ -41,9 +52,18 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [branches, setBranches] = useState<Branch[]>([]);
-  const [isActive, setIsActive] = useState(vehicle.status === 'active');
+  const [status, setStatus] = useState(vehicle.status as VehicleStatus);
+  const [statusChangedOn, setStatusChangedOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [branchChangedOn, setBranchChangedOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [disposal, setDisposal] = useState({
+    date: vehicle.disposal_date || format(new Date(), 'yyyy-MM-dd'),
+    salePrice: vehicle.sale_price?.toString() || '',
+    buyerName: vehicle.buyer_name || '',
+    finalOdometerKm: vehicle.final_odometer_km?.toString() || '',
+  });
   const { toast } = useToast();
   const { isAdmin } = useUserRole();
+  const { user } = useAuth();
 
   const [formData, setFormData] = useState({
     vin: vehicle.vin,
@@ -52,6 +72,7 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
     model: vehicle.model || '',
     year: vehicle.year?.toString() || '',
     branchId: vehicle.branch_id || '',
+    vehicleType: vehicle.vehicle_type || '',
     odometerKm: vehicle.odometer_km.toString(),
     lastOilChangeKm: vehicle.last_oil_change_km?.toString() || '',
     lastTireChangeDate: vehicle.last_tire_change_date || '',
@@ -70,13 +91,22 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
         model: vehicle.model || '',
         year: vehicle.year?.toString() || '',
         branchId: vehicle.branch_id || '',
+        vehicleType: vehicle.vehicle_type || '',
         odometerKm: vehicle.odometer_km.toString(),
         lastOilChangeKm: vehicle.last_oil_change_km?.toString() || '',
         lastTireChangeDate: vehicle.last_tire_change_date || '',
         notes: vehicle.notes || '',
         transponder407: vehicle.transponder_407 || '',
       });
-      setIsActive(vehicle.status === 'active');
+      setStatus(vehicle.status as VehicleStatus);
+      setStatusChangedOn(format(new Date(), 'yyyy-MM-dd'));
+      setBranchChangedOn(format(new Date(), 'yyyy-MM-dd'));
+      setDisposal({
+        date: vehicle.disposal_date || format(new Date(), 'yyyy-MM-dd'),
+        salePrice: vehicle.sale_price?.toString() || '',
+        buyerName: vehicle.buyer_name || '',
+        finalOdometerKm: vehicle.final_odometer_km?.toString() || '',
+      });
     }
   }, [open, vehicle]);
 
@@ -92,7 +122,11 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
     e.preventDefault();
     setLoading(true);
 
-    const { error } = await supabase
+    const disposed = isDisposedStatus(status);
+    const statusChanged = status !== vehicle.status;
+    const branchChanged = (formData.branchId || null) !== (vehicle.branch_id || null);
+
+    let { error } = await supabase
       .from('vehicles')
       .update({
         vin: formData.vin,
@@ -101,15 +135,35 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
         model: formData.model || null,
         year: formData.year ? parseInt(formData.year) : null,
         branch_id: formData.branchId || null,
-        odometer_km: parseInt(formData.odometerKm) || 0,
+        // A transfer takes effect on its date; spend before it stays with the previous branch
+        ...(branchChanged && { branch_changed_on: branchChangedOn }),
+        vehicle_type: formData.vehicleType || null,
         last_oil_change_km: formData.lastOilChangeKm ? parseInt(formData.lastOilChangeKm) : null,
         last_tire_change_date: formData.lastTireChangeDate || null,
         notes: formData.notes || null,
-        status: isActive ? 'active' : 'retired',
+        status,
+        // A disposal takes effect on the disposal date
+        ...(statusChanged && { status_changed_on: disposed ? disposal.date : statusChangedOn }),
+        disposal_date: disposed ? disposal.date || null : null,
+        sale_price: status === 'sold' && disposal.salePrice ? parseFloat(disposal.salePrice) : null,
+        buyer_name: status === 'sold' ? disposal.buyerName || null : null,
+        final_odometer_km: disposed && disposal.finalOdometerKm ? parseInt(disposal.finalOdometerKm) : null,
         transponder_407: formData.transponder407 || null,
       })
       .eq('id', vehicle.id);
 
+    // The odometer is derived from the vehicle's readings, so a corrected value is logged as one
+    const odometerKm = parseInt(formData.odometerKm) || 0;
+    if (!error && odometerKm !== vehicle.odometer_km) {
+      ({ error } = await supabase.from('odometer_readings').insert({
+        vehicle_id: vehicle.id,
+        source: 'manual',
+        odometer_km: odometerKm,
+        notes: 'Corrected when editing the vehicle',
+        recorded_by: user?.id,
+      }));
+    }
+
     if (error) {
       toast({
         title: 'Error',
@@ -122,6 +176,7 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
         description: 'Vehicle updated successfully',
       });
       setOpen(false);
+      emitVehiclesChanged();
       onVehicleUpdated();
     }
 
@@ -231,22 +286,52 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
               </div>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="branch">Branch/Location</Label>
-              <Select value={formData.branchId} onValueChange={(value) => setFormData({ ...formData, branchId: value })}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a branch" />
-                </SelectTrigger>
-                <SelectContent>
-                  {branches.map((branch) => (
-                    <SelectItem key={branch.id} value={branch.id}>
-                      {branch.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="branch">Branch/Location</Label>
+                <Select value={formData.branchId} onValueChange={(value) => setFormData({ ...formData, branchId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>
+                        {branch.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vehicleType">Vehicle Type</Label>
+                <VehicleTypeSelect
+                  id="vehicleType"
+                  value={formData.vehicleType}
+                  onValueChange={(value) => setFormData({ ...formData, vehicleType: value })}
+                />
+              </div>
             </div>
 
+            {(formData.branchId || null) !== (vehicle.branch_id || null) && (
+              <div className="grid grid-cols-2 gap-4 p-4 border rounded-lg bg-muted/50">
+                <div className="space-y-2">
+                  <Label htmlFor="branchChangedOn">Transfer Date</Label>
+                  <Input
+                    id="branchChangedOn"
+                    type="date"
+                    value={branchChangedOn}
+                    onChange={(e) => setBranchChangedOn(e.target.value)}
+                    min={vehicle.branch_changed_on || undefined}
+                    required
+                  />
+                </div>
+                <p className="self-end pb-2 text-sm text-muted-foreground">
+                  Spend, fuel and kilometres before this date stay with{' '}
+                  {branches.find(b => b.id === vehicle.branch_id)?.name || 'no branch'}
+                </p>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="odometer">Current Odometer (km)</Label>
@@ -293,18 +378,78 @@ export function EditVehicleDialog({ vehicle, onVehicleUpdated }: EditVehicleDial
               </div>
             </div>
 
-            <div className="flex items-center justify-between p-4 border rounded-lg bg-muted/50">
-              <div className="space-y-0.5">
-                <Label htmlFor="active-toggle">Vehicle Status</Label>
-                <p className="text-sm text-muted-foreground">
-                  {isActive ? 'Active - In current use' : 'Inactive - Not in use'}
-                </p>
+            <div className="space-y-4 p-4 border rounded-lg bg-muted/50">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="status">Vehicle Status</Label>
+                  <VehicleStatusSelect id="status" value={status} onValueChange={setStatus} />
+                </div>
+                {status !== vehicle.status && !isDisposedStatus(status) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="statusChangedOn">Effective Date</Label>
+                    <Input
+                      id="statusChangedOn"
+                      type="date"
+                      value={statusChangedOn}
+                      onChange={(e) => setStatusChangedOn(e.target.value)}
+                      required
+                    />
+                  </div>
+                )}
+                {isDisposedStatus(status) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="disposalDate">Disposal Date</Label>
+                    <Input
+                      id="disposalDate"
+                      type="date"
+                      value={disposal.date}
+                      onChange={(e) => setDisposal({ ...disposal, date: e.target.value })}
+                      required
+                    />
+                  </div>
+                )}
               </div>
-              <Switch
-                id="active-toggle"
-                checked={isActive}
-                onCheckedChange={setIsActive}
-              />
+
+              {isDisposedStatus(status) && (
+                <div className="grid grid-cols-3 gap-4">
+                  {status === 'sold' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="salePrice">Sale Price ($)</Label>
+                        <Input
+                          id="salePrice"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={disposal.salePrice}
+                          onChange={(e) => setDisposal({ ...disposal, salePrice: e.target.value })}
+                          placeholder="0.00"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="buyerName">Buyer</Label>
+                        <Input
+                          id="buyerName"
+                          value={disposal.buyerName}
+                          onChange={(e) => setDisposal({ ...disposal, buyerName: e.target.value })}
+                          placeholder="e.g., ABC Auto Auctions"
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="finalOdometer">Final Odometer (km)</Label>
+                    <Input
+                      id="finalOdometer"
+                      type="number"
+                      min="0"
+                      value={disposal.finalOdometerKm}
+                      onChange={(e) => setDisposal({ ...disposal, finalOdometerKm: e.target.value })}
+                      placeholder={formData.odometerKm}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { formatFiscalYear, getFiscalYearEnd, getFiscalYearStart } from '@/utils/fiscalYear';
+import { CalendarRange } from 'lucide-react';
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => ({
+  value: (i + 1).toString(),
+  label: format(new Date(2000, i, 1), 'MMMM'),
+}));
+
+export function FiscalYearSettings() {
+  const { startMonth, loading, updateStartMonth } = useFiscalYear();
+  const [selectedMonth, setSelectedMonth] = useState(startMonth.toString());
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSelectedMonth(startMonth.toString());
+  }, [startMonth]);
+
+  const previewMonth = parseInt(selectedMonth);
+  const previewStart = getFiscalYearStart(new Date(), previewMonth);
+  const previewEnd = getFiscalYearEnd(new Date(), previewMonth);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateStartMonth(previewMonth);
+      toast({
+        title: 'Success',
+        description: 'Fiscal year start updated',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update fiscal year start',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5 text-primary" />
+          Fiscal Year
+        </CardTitle>
+        <CardDescription>
+          The month the fiscal year starts in. Year-to-date totals and the default report ranges follow it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label>Fiscal Year Starts In</Label>
+              <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTHS.map((month) => (
+                    <SelectItem key={month.value} value={month.value}>
+                      {month.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-muted-foreground sm:pb-2 flex-1">
+              Current fiscal year: {formatFiscalYear(new Date(), previewMonth)} ({format(previewStart, 'MMM d, yyyy')} – {format(previewEnd, 'MMM d, yyyy')})
+            </p>
+            <Button onClick={handleSave} disabled={saving || previewMonth === startMonth}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Wrench } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { useFleetDowntime } from '@/hooks/useFleetDowntime';
+
+const DOWNTIME_MONTHS = 6;
+
+export function FleetDowntimeCard() {
+  const navigate = useNavigate();
+  const { offRoad, monthly, loading } = useFleetDowntime(DOWNTIME_MONTHS);
+
+  const offRoadCount = offRoad.reduce((sum, branch) => sum + branch.vehicles.length, 0);
+  const hasDowntime = monthly.some(month => month.downtimeDays > 0);
+
+  if (!loading && offRoadCount === 0 && !hasDowntime) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wrench className="h-5 w-5" />
+          Fleet Downtime
+          {offRoadCount > 0 && (
+            <Badge variant="destructive" className="ml-1">{offRoadCount} off the road</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Vehicles in the shop now and shop days over the last {DOWNTIME_MONTHS} months</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Off the Road by Branch</h4>
+              {offRoad.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every vehicle is on the road</p>
+              ) : (
+                offRoad.map((branch) => (
+                  <div key={branch.branchId || 'unassigned'} className="p-3 rounded-lg border">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium">{branch.branchName}</p>
+                      <Badge variant="outline">{branch.vehicles.length}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {branch.vehicles.map((vehicle) => (
+                        <button
+                          key={vehicle.id}
+                          type="button"
+                          className="text-sm text-muted-foreground hover:underline"
+                          onClick={() => navigate(`/vehicles/${vehicle.id}`)}
+                        >
+                          {vehicle.plate}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-3">Downtime Days per Month</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart data={monthly}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => [`${value} days`, 'Downtime']} />
+                  <Bar dataKey="downtimeDays" fill="hsl(var(--primary))" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,8 +12,12 @@ import { useAuth } from '@/hooks/useAuth';
 import { Fuel, Upload, X, Loader2, ChevronDown } from 'lucide-react';
 import { ReceiptVerificationDialog, ScannedReceiptData } from './ReceiptVerificationDialog';
 import { AddVendorFromScanDialog } from './AddVendorFromScanDialog';
+import { DuplicateWarningDialog } from './DuplicateWarningDialog';
+import { DuplicateMatch, useDuplicateCheck } from '@/hooks/useDuplicateCheck';
+import { hashFile } from '@/utils/duplicateReceipts';
+import { BRANCH_TAX_COLUMNS, BranchTaxSettings, getScanTaxContext } from '@/utils/taxRegimes';
 
-interface Branch {
+interface Branch extends BranchTaxSettings {
   id: string;
   name: string;
 }
@@ -46,6 +50,8 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
   const [scannedData, setScannedData] = useState<ScannedReceiptData | null>(null);
   const [addVendorOpen, setAddVendorOpen] = useState(false);
   const [pendingVendorData, setPendingVendorData] = useState<{ name: string; address?: string } | null>(null);
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  const [duplicateWarningOpen, setDuplicateWarningOpen] = useState(false);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
@@ -54,6 +60,7 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { findDuplicates, recordDuplicates } = useDuplicateCheck();
 
   const [formData, setFormData] = useState({
     vehicleId: '',
@@ -64,6 +71,9 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
     subtotal: '',
     taxAmount: '',
     amount: '',
+    litres: '',
+    pricePerLitre: '',
+    odometerKm: '',
     date: new Date().toISOString().split('T')[0],
     description: '',
   });
@@ -91,7 +101,7 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
 
   const fetchData = async () => {
     const [branchesRes, vehiclesRes, vendorsRes, profileRes] = await Promise.all([
-      supabase.from('branches').select('id, name').order('name'),
+      supabase.from('branches').select(`id, name, ${BRANCH_TAX_COLUMNS}`).order('name'),
       supabase.from('vehicles').select('id, plate, make, model, branch_id').order('plate'),
       supabase.from('vendors').select('*').order('name'),
       supabase.from('profiles').select('id, email, full_name, default_branch_id').eq('is_approved', true).eq('id', user?.id || '').single()
@@ -179,7 +189,8 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
           fileBase64: base64, 
           mimeType: file.type,
           fileName: file.name,
-          textContent 
+          textContent,
+          tax: getScanTaxContext(branches.find(b => b.id === formData.branchId)),
         }
       });
 
@@ -200,9 +211,14 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
           vendor_address: data.vendor_address,
           subtotal: data.subtotal,
           tax_amount: data.tax_amount,
+          tax_components: data.tax_components,
+          tax_warning: data.tax_warning,
           total: data.total,
           date: data.date,
           description: data.description,
+          litres: data.fuel_litres,
+          price_per_litre: data.fuel_price_per_litre,
+          odometer_reading: data.odometer_reading,
         });
       } else {
         setScannedData({});
@@ -229,6 +245,9 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
       date: data.date || prev.date,
       description: data.description || prev.description,
       branchId: data.branch_id || prev.branchId,
+      litres: data.litres?.toString() || prev.litres,
+      pricePerLitre: data.price_per_litre?.toString() || prev.pricePerLitre,
+      odometerKm: data.odometer_reading?.toString() || prev.odometerKm,
     }));
 
     let vendorMatched = false;
@@ -293,6 +312,9 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
       subtotal: '',
       taxAmount: '',
       amount: '',
+      litres: '',
+      pricePerLitre: '',
+      odometerKm: '',
       date: new Date().toISOString().split('T')[0],
       description: '',
     });
@@ -312,10 +334,12 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
 
       const { error: dbError } = await supabase.from('documents').insert({
         vehicle_id: vehicleId,
+        fuel_receipt_id: fuelReceiptId,
         file_name: file.name,
         file_path: fileName,
         file_type: file.type,
         file_size: file.size,
+        file_hash: await hashFile(file),
         uploaded_by: user?.id,
       });
 
@@ -357,6 +381,28 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
 
     setLoading(true);
 
+    const matches = await findDuplicates({
+      source: 'fuel_receipt',
+      date: formData.date,
+      amount: parseFloat(formData.amount),
+      vendor_name: formData.vendorName || null,
+      vehicle_id: formData.vehicleId,
+      fileHashes: await Promise.all(selectedFiles.map(hashFile)),
+    });
+
+    if (matches.length > 0) {
+      setDuplicateMatches(matches);
+      setDuplicateWarningOpen(true);
+      setLoading(false);
+      return;
+    }
+
+    await saveReceipt([]);
+  };
+
+  const saveReceipt = async (duplicates: DuplicateMatch[]) => {
+    setLoading(true);
+
     try {
       const { data: fuelReceipt, error } = await supabase
         .from('fuel_receipts')
@@ -369,6 +415,9 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
           subtotal: formData.subtotal ? parseFloat(formData.subtotal) : null,
           tax_amount: formData.taxAmount ? parseFloat(formData.taxAmount) : null,
           amount: parseFloat(formData.amount),
+          litres: formData.litres ? parseFloat(formData.litres) : null,
+          price_per_litre: formData.pricePerLitre ? parseFloat(formData.pricePerLitre) : null,
+          odometer_km: formData.odometerKm ? parseInt(formData.odometerKm) : null,
           date: formData.date,
           description: formData.description || null,
           created_by: user?.id,
@@ -396,6 +445,11 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
         await uploadFiles(fuelReceipt.id, formData.vehicleId);
       }
 
+      // Saved past the duplicate warning: flag the matching expenses for review
+      if (duplicates.length > 0) {
+        await recordDuplicates({ id: fuelReceipt.id, source: 'fuel_receipt' }, duplicates);
+      }
+
       const branchName = branches.find(b => b.id === formData.branchId)?.name;
       toast({
         title: 'Success',
@@ -605,7 +659,7 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="fuel-tax">HST ($)</Label>
+                <Label htmlFor="fuel-tax">Tax ($)</Label>
                 <Input
                   id="fuel-tax"
                   type="number"
@@ -631,6 +685,49 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
               </div>
             </div>
 
+            {/* Litres, Price per Litre & Odometer */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="fuel-litres">Litres</Label>
+                <Input
+                  id="fuel-litres"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={formData.litres}
+                  onChange={(e) => setFormData({ ...formData, litres: e.target.value })}
+                  placeholder="0.000"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fuel-price-per-litre">$/Litre</Label>
+                <Input
+                  id="fuel-price-per-litre"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={formData.pricePerLitre}
+                  onChange={(e) => setFormData({ ...formData, pricePerLitre: e.target.value })}
+                  placeholder="0.000"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fuel-odometer">Odometer (km)</Label>
+                <Input
+                  id="fuel-odometer"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={formData.odometerKm}
+                  onChange={(e) => setFormData({ ...formData, odometerKm: e.target.value })}
+                  placeholder="e.g. 125000"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Litres and odometer are used to calculate fuel economy (L/100 km).
+            </p>
+
             {/* Date */}
             <div className="space-y-2">
               <Label htmlFor="fuel-date">Date *</Label>
@@ -702,6 +799,15 @@ export function FuelReceiptDialog({ trigger, onReceiptAdded }: FuelReceiptDialog
         onCancel={handleVerificationCancel}
         branches={branches}
         defaultBranchId={formData.branchId}
+        showFuelFields
+      />
+
+      {/* Duplicate Warning Dialog */}
+      <DuplicateWarningDialog
+        matches={duplicateMatches}
+        open={duplicateWarningOpen}
+        onOpenChange={setDuplicateWarningOpen}
+        onConfirm={() => saveReceipt(duplicateMatches)}
       />
 
       {/* Add Vendor Dialog */}
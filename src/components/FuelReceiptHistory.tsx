@@ -51,6 +51,9 @@ interface FuelReceipt {
   subtotal: number | null;
   tax_amount: number | null;
   amount: number;
+  litres: number | null;
+  price_per_litre: number | null;
+  odometer_km: number | null;
   date: string;
   description: string | null;
   receipt_scanned: boolean | null;
@@ -126,6 +129,9 @@ export function FuelReceiptHistory() {
         subtotal,
         tax_amount,
         amount,
+        litres,
+        price_per_litre,
+        odometer_km,
         date,
         description,
         receipt_scanned,
@@ -164,6 +170,9 @@ export function FuelReceiptHistory() {
         subtotal: receipt.subtotal,
         tax_amount: receipt.tax_amount,
         amount: receipt.amount,
+        litres: receipt.litres,
+        price_per_litre: receipt.price_per_litre,
+        odometer_km: receipt.odometer_km,
         date: receipt.date,
         description: receipt.description,
         receipt_scanned: receipt.receipt_scanned,
@@ -287,6 +296,7 @@ export function FuelReceiptHistory() {
                   <TableHead>Branch</TableHead>
                   <TableHead>Vendor</TableHead>
                   <TableHead>Staff</TableHead>
+                  <TableHead className="text-right">Litres</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
                   <TableHead>Receipt</TableHead>
                   <TableHead></TableHead>
@@ -304,6 +314,7 @@ export function FuelReceiptHistory() {
                     <TableCell>{receipt.branch?.name || 'N/A'}</TableCell>
                     <TableCell>{receipt.vendor_name || '-'}</TableCell>
                     <TableCell>{receipt.staff_name || '-'}</TableCell>
+                    <TableCell className="text-right">{receipt.litres ? `${Number(receipt.litres).toFixed(1)} L` : '-'}</TableCell>
                     <TableCell className="text-right font-medium">{formatCurrency(receipt.amount)}</TableCell>
                     <TableCell>
                       {receipt.receipt_scanned ? (
@@ -404,10 +415,28 @@ export function FuelReceiptHistory() {
                   )}
                   {selectedReceipt.tax_amount && (
                     <div>
-                      <p className="text-sm text-muted-foreground">HST</p>
+                      <p className="text-sm text-muted-foreground">Tax</p>
                       <p className="font-medium">{formatCurrency(selectedReceipt.tax_amount)}</p>
                     </div>
                   )}
+                  {selectedReceipt.litres && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">Litres</p>
+                      <p className="font-medium">{Number(selectedReceipt.litres).toFixed(3)} L</p>
+                    </div>
+                  )}
+                  {selectedReceipt.price_per_litre && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">Price per Litre</p>
+                      <p className="font-medium">${Number(selectedReceipt.price_per_litre).toFixed(3)}</p>
+                    </div>
+                  )}
+                  {selectedReceipt.odometer_km && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">Odometer</p>
+                      <p className="font-medium">{selectedReceipt.odometer_km.toLocaleString()} km</p>
+                    </div>
+                  )}
                 </div>
                 {selectedReceipt.description && (
                   <div>
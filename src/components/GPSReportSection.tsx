@@ -213,16 +213,7 @@ export function GPSReportSection() {
       
       const uploadsToDelete = uploads.filter(u => idsToDelete.includes(u.id));
       
-      // Group by vehicle_id for odometer updates
-      const vehicleKmMap = new Map<string, number>();
-      for (const upload of uploadsToDelete) {
-        if (upload.vehicle_id) {
-          const current = vehicleKmMap.get(upload.vehicle_id) || 0;
-          vehicleKmMap.set(upload.vehicle_id, current + upload.kilometers);
-        }
-      }
-      
-      // Delete GPS records
+      // Delete GPS records; their odometer readings go with them
       const { error } = await supabase
         .from('gps_uploads')
         .delete()
@@ -230,22 +221,6 @@ export function GPSReportSection() {
       
       if (error) throw error;
       
-      // Update vehicle odometers
-      for (const [vehicleId, kmToSubtract] of vehicleKmMap) {
-        const { data: vehicle } = await supabase
-          .from('vehicles')
-          .select('odometer_km')
-          .eq('id', vehicleId)
-          .single();
-        
-        if (vehicle) {
-          await supabase
-            .from('vehicles')
-            .update({ odometer_km: Math.max(0, (vehicle.odometer_km || 0) - kmToSubtract) })
-            .eq('id', vehicleId);
-        }
-      }
-      
       const totalKmDeleted = uploadsToDelete.reduce((sum, u) => sum + Number(u.kilometers), 0);
       
       toast({
@@ -614,13 +589,13 @@ export function GPSReportSection() {
             <AlertDialogDescription>
               {deleteType === 'all' ? (
                 <>
-                  This will permanently delete <strong>all {uploads.length} GPS entries</strong> and subtract the corresponding kilometers from vehicle odometers.
+                  This will permanently delete <strong>all {uploads.length} GPS entries</strong>; their kilometers will no longer count towards vehicle odometers.
                   <br /><br />
                   <strong className="text-destructive">This action cannot be undone.</strong>
                 </>
               ) : (
                 <>
-                  This will permanently delete <strong>{selectedIds.size} GPS entries</strong> ({selectedKilometers.toLocaleString()} km) and subtract the corresponding kilometers from vehicle odometers.
+                  This will permanently delete <strong>{selectedIds.size} GPS entries</strong> ({selectedKilometers.toLocaleString()} km); their kilometers will no longer count towards vehicle odometers.
                   <br /><br />
                   <strong className="text-destructive">This action cannot be undone.</strong>
                 </>
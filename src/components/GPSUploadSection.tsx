@@ -9,6 +9,10 @@ import { Upload, FileSpreadsheet, Trash2, Navigation, Check, AlertCircle } from
 import { format, parse } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { GPSPreviewDialog, PreviewEntry } from '@/components/GPSPreviewDialog';
+import { SheetSelectDialog } from '@/components/SheetSelectDialog';
+import { emitVehiclesChanged } from '@/utils/vehiclesEvents';
+import { CSVRow, detectDelimiter, parseCSVRows, readFileAsText } from '@/utils/csvParser';
+import { WorkbookSheet, detectHeaderRow, isExcelFile, nonEmptySheets, readWorkbook } from '@/utils/xlsxParser';
 
 interface GPSUpload {
   id: string;
@@ -62,6 +66,12 @@ interface PendingUpload {
   vehicles: Vehicle[];
 }
 
+interface PendingWorkbook {
+  file: File;
+  sheets: WorkbookSheet[];
+  vehicles: Vehicle[];
+}
+
 export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSectionProps) {
   const [uploads, setUploads] = useState<GPSUpload[]>([]);
   const [loading, setLoading] = useState(false);
@@ -69,6 +79,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
   const [selectedMonth, setSelectedMonth] = useState(format(new Date(), 'yyyy-MM'));
   const [previewOpen, setPreviewOpen] = useState(false);
   const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -96,155 +107,141 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
     setLoading(false);
   };
 
-  const parseGPSFile = async (file: File): Promise<ParsedGPSResult> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const lines = text.split('\n').filter(line => line.trim());
-          
-          if (lines.length < 4) {
-            reject(new Error('File appears to be empty or invalid'));
-            return;
-          }
+  const parseGPSRows = (rows: CSVRow[]): ParsedGPSResult => {
+    if (rows.length < 2) {
+      throw new Error('File appears to be empty or invalid');
+    }
 
-          const entries: ParsedVehicleEntry[] = [];
-          const warnings: ParseWarning[] = [];
-          let dateFrom: Date | null = null;
-          let dateTo: Date | null = null;
-          
-          // Parse date range from line 2 (format: "From:2025-10-01 00:00  To：2025-12-04 00:00")
-          if (lines.length >= 2) {
-            const dateLine = lines[1];
-            // Match patterns like "From:2025-10-01" or "From：2025-10-01" (both colon types)
-            const fromMatch = dateLine.match(/From[:：]\s*(\d{4}-\d{2}-\d{2})/i);
-            const toMatch = dateLine.match(/To[:：]\s*(\d{4}-\d{2}-\d{2})/i);
-            
-            if (fromMatch) {
-              dateFrom = parse(fromMatch[1], 'yyyy-MM-dd', new Date());
-            }
-            if (toMatch) {
-              dateTo = parse(toMatch[1], 'yyyy-MM-dd', new Date());
-            }
-          }
-          
-          // Find the header row (contains "Target Name" or "Mileage" or "No.")
-          let dataStartIndex = 0;
-          for (let i = 0; i < Math.min(lines.length, 10); i++) {
-            const lowerLine = lines[i].toLowerCase();
-            if (lowerLine.includes('target name') || lowerLine.includes('mileage') || 
-                (lowerLine.includes('no.') && lowerLine.includes(','))) {
-              dataStartIndex = i + 1;
-              break;
-            }
-          }
-          
-          // If no header found, skip first 3 rows (title, date range, headers)
-          if (dataStartIndex === 0) {
-            dataStartIndex = 3;
+    const entries: ParsedVehicleEntry[] = [];
+    const warnings: ParseWarning[] = [];
+    let dateFrom: Date | null = null;
+    let dateTo: Date | null = null;
+
+    // Find the header row (contains "Target Name" and "Mileage")
+    let headerIndex = detectHeaderRow(rows.map(row => row.values), ['target name', 'mileage']);
+    let headers = rows[headerIndex].values.map(value => value.toLowerCase());
+    const headerCells = headers.filter(header => header.trim() !== '');
+    // A single filled cell is a title or the From/To line, not the column headers
+    if (headerCells.length < 2 ||
+      !headers.some(header => header.includes('target name') || header.includes('mileage') || header === 'no.')) {
+      // No header found, assume title, date range and headers take the first 3 rows
+      headerIndex = Math.min(2, rows.length - 1);
+      headers = rows[headerIndex].values.map(value => value.toLowerCase());
+    }
+
+    // Parse date range above the header (format: "From:2025-10-01 00:00  To：2025-12-04 00:00")
+    const dateLine = rows.slice(0, headerIndex).map(row => row.values.join(' ')).join(' ');
+    // Match patterns like "From:2025-10-01" or "From：2025-10-01" (both colon types)
+    const fromMatch = dateLine.match(/From[:：]\s*(\d{4}-\d{2}-\d{2})/i);
+    const toMatch = dateLine.match(/To[:：]\s*(\d{4}-\d{2}-\d{2})/i);
+
+    if (fromMatch) {
+      dateFrom = parse(fromMatch[1], 'yyyy-MM-dd', new Date());
+    }
+    if (toMatch) {
+      dateTo = parse(toMatch[1], 'yyyy-MM-dd', new Date());
+    }
+
+    // Vehicle name and kilometers default to columns B and C
+    const nameColumn = headers.findIndex(header => header.includes('target name'));
+    const kmColumn = headers.findIndex(header => header.includes('mileage'));
+    const vehicleIndex = nameColumn >= 0 ? nameColumn : 1;
+    const kmIndex = kmColumn >= 0 ? kmColumn : 2;
+
+    for (const row of rows.slice(headerIndex + 1)) {
+      const rowNumber = row.line;
+      const values = row.values.map(v => v.trim());
+      const vehicleName = values[vehicleIndex];
+      const kmValue = values[kmIndex];
+      const rawKmValue = kmValue || '';
+
+      if (vehicleName) {
+        // Skip header-like rows
+        if (vehicleName.toLowerCase() === 'target name' || (kmValue && kmValue.toLowerCase().includes('mileage'))) {
+          continue;
+        }
+
+        // Parse kilometers - treat empty/invalid as 0 to record vehicles with no movement
+        // Handle both decimal (437.12) and non-decimal (437) formats
+        // Also handle thousand separators (1,234.56 or 1.234,56)
+        let cleanedKm = kmValue ? kmValue.trim() : '';
+        let hadParseIssue = false;
+        let issueDescription = '';
+        
+        if (!cleanedKm || cleanedKm === '') {
+          hadParseIssue = true;
+          issueDescription = 'Empty kilometer value - defaulted to 0';
+          cleanedKm = '0';
+        } else {
+          // Check for non-numeric characters before cleaning
+          const hasInvalidChars = /[^0-9.,\-\s]/.test(cleanedKm);
+          if (hasInvalidChars) {
+            hadParseIssue = true;
+            issueDescription = `Contains non-numeric characters: "${rawKmValue}"`;
           }
           
-          // Parse data rows
-          // Column B (index 1) = vehicle name, Column C (index 2) = kilometers
-          for (let i = dataStartIndex; i < lines.length; i++) {
-            const rowNumber = i + 1; // 1-indexed for user display
-            const values = lines[i].split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-            
-            // Column B is index 1, Column C is index 2
-            const vehicleName = values[1];
-            const kmValue = values[2];
-            const rawKmValue = kmValue || '';
-            
-            if (vehicleName) {
-              // Skip header-like rows
-              if (vehicleName.toLowerCase() === 'target name' || (kmValue && kmValue.toLowerCase().includes('mileage'))) {
-                continue;
-              }
-              
-              // Parse kilometers - treat empty/invalid as 0 to record vehicles with no movement
-              // Handle both decimal (437.12) and non-decimal (437) formats
-              // Also handle thousand separators (1,234.56 or 1.234,56)
-              let cleanedKm = kmValue ? kmValue.trim() : '';
-              let hadParseIssue = false;
-              let issueDescription = '';
-              
-              if (!cleanedKm || cleanedKm === '') {
-                hadParseIssue = true;
-                issueDescription = 'Empty kilometer value - defaulted to 0';
-                cleanedKm = '0';
-              } else {
-                // Check for non-numeric characters before cleaning
-                const hasInvalidChars = /[^0-9.,\-\s]/.test(cleanedKm);
-                if (hasInvalidChars) {
-                  hadParseIssue = true;
-                  issueDescription = `Contains non-numeric characters: "${rawKmValue}"`;
-                }
-                
-                // Remove any non-numeric characters except digits, dots, and commas
-                cleanedKm = cleanedKm.replace(/[^0-9.,]/g, '');
-                // If comma is used as decimal separator (European format), convert to period
-                // Check if there's a comma after the last period (e.g., "1.234,56")
-                if (cleanedKm.includes(',') && cleanedKm.indexOf(',') > cleanedKm.lastIndexOf('.')) {
-                  cleanedKm = cleanedKm.replace(/\./g, '').replace(',', '.');
-                } else {
-                  // Remove commas used as thousand separators (e.g., "1,234.56" or "1,234")
-                  cleanedKm = cleanedKm.replace(/,/g, '');
-                }
-              }
-              
-              const km = parseFloat(cleanedKm);
-              let finalKm = 0;
-              
-              if (isNaN(km)) {
-                hadParseIssue = true;
-                issueDescription = `Could not parse "${rawKmValue}" as a number - defaulted to 0`;
-                finalKm = 0;
-              } else if (km < 0) {
-                hadParseIssue = true;
-                issueDescription = `Negative value "${rawKmValue}" converted to 0`;
-                finalKm = 0;
-              } else {
-                finalKm = km;
-              }
-              
-              // Record warning if there was an issue
-              if (hadParseIssue) {
-                warnings.push({
-                  rowNumber,
-                  vehicleName: vehicleName.trim(),
-                  rawValue: rawKmValue,
-                  issue: issueDescription
-                });
-              }
-              
-              entries.push({
-                vehicleName: vehicleName.trim(),
-                kilometers: finalKm,
-                rowNumber,
-                hadParseIssue,
-                originalValue: hadParseIssue ? rawKmValue : undefined
-              });
-            }
+          // Remove any non-numeric characters except digits, dots, and commas
+          cleanedKm = cleanedKm.replace(/[^0-9.,]/g, '');
+          // If comma is used as decimal separator (European format), convert to period
+          // Check if there's a comma after the last period (e.g., "1.234,56")
+          if (cleanedKm.includes(',') && cleanedKm.indexOf(',') > cleanedKm.lastIndexOf('.')) {
+            cleanedKm = cleanedKm.replace(/\./g, '').replace(',', '.');
+          } else {
+            // Remove commas used as thousand separators (e.g., "1,234.56" or "1,234")
+            cleanedKm = cleanedKm.replace(/,/g, '');
           }
+        }
+        
+        const km = parseFloat(cleanedKm);
+        let finalKm = 0;
+        
+        if (isNaN(km)) {
+          hadParseIssue = true;
+          issueDescription = `Could not parse "${rawKmValue}" as a number - defaulted to 0`;
+          finalKm = 0;
+        } else if (km < 0) {
+          hadParseIssue = true;
+          issueDescription = `Negative value "${rawKmValue}" converted to 0`;
+          finalKm = 0;
+        } else {
+          finalKm = km;
+        }
+        
+        // Record warning if there was an issue
+        if (hadParseIssue) {
+          warnings.push({
+            rowNumber,
+            vehicleName: vehicleName.trim(),
+            rawValue: rawKmValue,
+            issue: issueDescription
+          });
+        }
+        
+        entries.push({
+          vehicleName: vehicleName.trim(),
+          kilometers: finalKm,
+          rowNumber,
+          hadParseIssue,
+          originalValue: hadParseIssue ? rawKmValue : undefined
+        });
+      }
+    }
 
-          if (entries.length === 0) {
-            reject(new Error('Could not find vehicle/kilometer data. Expected vehicle names in column B and kilometers in column C.'));
-            return;
-          }
+    if (entries.length === 0) {
+      throw new Error('Could not find vehicle/kilometer data. Expected vehicle names in column B and kilometers in column C.');
+    }
 
-          resolve({ entries, dateFrom, dateTo, warnings });
-        } catch (error) {
-          reject(new Error('Failed to parse file'));
-        }
-      };
+    return { entries, dateFrom, dateTo, warnings };
+  };
 
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+  const parseGPSFile = async (file: File): Promise<ParsedGPSResult> => {
+    const text = await readFileAsText(file);
+    return parseGPSRows(parseCSVRows(text, detectDelimiter(text)));
   };
 
+  const parseGPSSheet = (sheet: WorkbookSheet): ParsedGPSResult =>
+    parseGPSRows(sheet.rows.map((values, index) => ({ line: index + 1, values })).filter(row => row.values.some(Boolean)));
+
   const matchVehicle = useCallback((gpsName: string, vehicles: Vehicle[]): Vehicle | null => {
     const normalizedGpsName = gpsName.toLowerCase().replace(/[^a-z0-9]/g, '');
     
@@ -277,7 +274,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const validTypes = ['.csv', '.xls', '.xlsx', '.xltx'];
+    const validTypes = ['.csv', '.xls', '.xlsx', '.xlsm', '.xltx'];
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
     
     if (!validTypes.includes(fileExtension)) {
@@ -302,15 +299,20 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
       
       if (fileExtension === '.csv') {
         parsedResult = await parseGPSFile(file);
+      } else if (isExcelFile(file.name)) {
+        const sheets = nonEmptySheets(await readWorkbook(file));
+        if (sheets.length === 0) {
+          throw new Error('Workbook has no data');
+        }
+        // Ask which sheet to use when the workbook has several
+        if (sheets.length > 1) {
+          setPendingWorkbook({ file, sheets, vehicles: vehicles || [] });
+          setUploading(false);
+          return;
+        }
+        parsedResult = parseGPSSheet(sheets[0]);
       } else {
-        toast({
-          title: 'Excel File Detected',
-          description: 'Please save as CSV for automatic parsing',
-          variant: 'destructive',
-        });
-        setUploading(false);
-        event.target.value = '';
-        return;
+        throw new Error('Older .xls workbooks are not supported. Please save the file as .xlsx or CSV.');
       }
 
       // Store pending upload and show preview
@@ -334,6 +336,27 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
     }
   };
 
+  const handleSheetSelect = (sheet: WorkbookSheet) => {
+    if (!pendingWorkbook) return;
+
+    try {
+      setPendingUpload({
+        file: pendingWorkbook.file,
+        parsedResult: parseGPSSheet(sheet),
+        vehicles: pendingWorkbook.vehicles,
+      });
+      setPreviewOpen(true);
+    } catch (error) {
+      toast({
+        title: 'Upload Failed',
+        description: error instanceof Error ? error.message : 'Failed to parse GPS data',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingWorkbook(null);
+    }
+  };
+
   const handlePreviewConfirm = async (editedEntries: PreviewEntry[], uploadMonth?: Date) => {
     if (!pendingUpload) return;
 
@@ -388,23 +411,9 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
 
         totalKm += entry.kilometers;
 
-        // Update vehicle odometer if matched
+        // Matched uploads are added to the vehicle's odometer readings by the database
         if (entry.matchedVehicle) {
           matchedCount++;
-          const { data: vehicle } = await supabase
-            .from('vehicles')
-            .select('odometer_km')
-            .eq('id', entry.matchedVehicle.id)
-            .single();
-
-          if (vehicle) {
-            // Round to nearest integer since odometer_km is integer type
-            const newOdometer = Math.round((vehicle.odometer_km || 0) + entry.kilometers);
-            await supabase
-              .from('vehicles')
-              .update({ odometer_km: newOdometer })
-              .eq('id', entry.matchedVehicle.id);
-          }
         } else {
           unmatchedCount++;
         }
@@ -421,6 +430,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
 
       fetchUploads();
       onKilometersUpdated?.();
+      emitVehiclesChanged();
     } catch (error) {
       console.error('Upload error:', error);
       toast({
@@ -441,7 +451,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
 
   const handleDelete = async (upload: GPSUpload) => {
     const confirmMsg = upload.vehicle_id 
-      ? `Delete GPS data for ${upload.gps_vehicle_name || 'this vehicle'}? This will subtract ${upload.kilometers.toLocaleString()} km from the vehicle's odometer.`
+      ? `Delete GPS data for ${upload.gps_vehicle_name || 'this vehicle'}? Its ${upload.kilometers.toLocaleString()} km will no longer count towards the vehicle's odometer.`
       : `Delete GPS data for ${upload.gps_vehicle_name}?`;
     
     if (!confirm(confirmMsg)) {
@@ -457,24 +467,6 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
 
       if (dbError) throw dbError;
 
-      // Subtract kilometers from vehicle if matched
-      if (upload.vehicle_id) {
-        const { data: vehicle } = await supabase
-          .from('vehicles')
-          .select('odometer_km')
-          .eq('id', upload.vehicle_id)
-          .single();
-
-        if (vehicle) {
-          // Round to nearest integer since odometer_km is integer type
-          const newOdometer = Math.max(0, Math.round((vehicle.odometer_km || 0) - Number(upload.kilometers)));
-          await supabase
-            .from('vehicles')
-            .update({ odometer_km: newOdometer })
-            .eq('id', upload.vehicle_id);
-        }
-      }
-
       toast({
         title: 'Deleted',
         description: 'GPS data has been removed',
@@ -482,6 +474,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
 
       fetchUploads();
       onKilometersUpdated?.();
+      emitVehiclesChanged();
     } catch (error) {
       toast({
         title: 'Error',
@@ -544,7 +537,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
               <Input
                 id="gps-file"
                 type="file"
-                accept=".csv,.xls,.xlsx,.xltx"
+                accept=".csv,.xls,.xlsx,.xlsm,.xltx"
                 className="hidden"
                 onChange={handleFileUpload}
                 disabled={uploading}
@@ -554,7 +547,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
         </div>
 
         <p className="text-xs text-muted-foreground">
-          Upload a CSV with vehicle names in column B and kilometers in column C. 
+          Upload a CSV or Excel report with vehicle names in column B and kilometers in column C. 
           Vehicles will be automatically matched by plate, VIN, or make/model.
         </p>
 
@@ -564,7 +557,7 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
           <div className="text-center py-6 text-muted-foreground">
             <FileSpreadsheet className="h-10 w-10 mx-auto mb-2 opacity-50" />
             <p>No GPS files uploaded yet</p>
-            <p className="text-xs">Upload a CSV file with mileage data</p>
+            <p className="text-xs">Upload a CSV or Excel file with mileage data</p>
           </div>
         ) : (
           <div className="space-y-2">
@@ -627,6 +620,14 @@ export function GPSUploadSection({ vehicleId, onKilometersUpdated }: GPSUploadSe
           onCancel={handlePreviewCancel}
           matchVehicle={matchVehicle}
         />
+
+        <SheetSelectDialog
+          open={!!pendingWorkbook}
+          fileName={pendingWorkbook?.file.name || ''}
+          sheets={pendingWorkbook?.sheets || []}
+          onSelect={handleSheetSelect}
+          onCancel={() => setPendingWorkbook(null)}
+        />
       </CardContent>
     </Card>
   );
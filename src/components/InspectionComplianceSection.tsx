@@ -0,0 +1,162 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useInspectionCompliance } from '@/hooks/useInspectionCompliance';
+import { cn } from '@/lib/utils';
+import {
+  COMPLIANCE_STATUS_LABELS,
+  ComplianceStatus,
+  getComplianceStatusColor,
+  getOverdueVehicles,
+  summarizeComplianceByBranch,
+} from '@/utils/inspectionCompliance';
+
+interface InspectionComplianceSectionProps {
+  branchId: string;
+  vehicleId: string;
+  /** Last inspection month of the matrix (yyyy-MM-01) */
+  endMonth: string;
+}
+
+const MONTH_COUNT = 6;
+
+const LEGEND: ComplianceStatus[] = ['inspected', 'issues', 'missing', 'pending', 'not_due'];
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(0)}%`);
+
+const complianceClass = (value: number | null) =>
+  value === null ? '' : value < 80 ? 'text-destructive font-medium' : value < 95 ? 'text-orange-600' : 'text-green-600';
+
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export function InspectionComplianceSection({ branchId, vehicleId, endMonth }: InspectionComplianceSectionProps) {
+  const { items, months, loading } = useInspectionCompliance(endMonth, MONTH_COUNT);
+
+  const visibleItems = useMemo(
+    () => items
+      .filter(item => branchId === 'all' || item.vehicle.branch_id === branchId)
+      .filter(item => vehicleId === 'all' || item.vehicle.id === vehicleId),
+    [items, branchId, vehicleId]
+  );
+  const branches = useMemo(() => summarizeComplianceByBranch(visibleItems), [visibleItems]);
+  const overdue = useMemo(() => getOverdueVehicles(visibleItems), [visibleItems]);
+
+  if (loading) {
+    return <p className="text-center text-muted-foreground py-8">Loading inspection compliance...</p>;
+  }
+
+  if (visibleItems.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No vehicles in service in this period</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-medium mb-2">By Branch</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Branch</TableHead>
+              <TableHead className="text-right">Inspections Due</TableHead>
+              <TableHead className="text-right">Completed</TableHead>
+              <TableHead className="text-right">Missed</TableHead>
+              <TableHead className="text-right">Compliance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {branches.map((branch) => (
+              <TableRow key={branch.branchId || 'unassigned'}>
+                <TableCell className="font-medium">{branch.branchName}</TableCell>
+                <TableCell className="text-right">{branch.due}</TableCell>
+                <TableCell className="text-right">{branch.inspected}</TableCell>
+                <TableCell className="text-right">{branch.due - branch.inspected}</TableCell>
+                <TableCell className={`text-right ${complianceClass(branch.compliancePercent)}`}>
+                  {formatPercent(branch.compliancePercent)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {overdue.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Overdue Vehicles</h4>
+          <div className="space-y-2">
+            {overdue.map((item) => (
+              <div key={item.vehicle.id} className="flex items-center justify-between gap-4 p-2 rounded border border-destructive/50 bg-destructive/5 text-sm">
+                <div className="min-w-0">
+                  <Link to={`/vehicles/${item.vehicle.id}`} className="font-medium hover:underline">
+                    {item.vehicle.plate}
+                  </Link>
+                  <span className="text-muted-foreground">
+                    {' · '}{item.vehicle.branchName || 'Unassigned'}
+                    {' · '}
+                    {item.lastInspectionDate
+                      ? `last inspected ${format(toDate(item.lastInspectionDate), 'MMM d, yyyy')}`
+                      : `not inspected since ${format(toDate(months[0]), 'MMMM yyyy')}`}
+                  </span>
+                </div>
+                <Badge variant="destructive" className="shrink-0">
+                  {item.monthsMissed} month{item.monthsMissed === 1 ? '' : 's'} missed
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between gap-4 mb-2 flex-wrap">
+          <h4 className="font-medium">By Vehicle</h4>
+          <div className="flex items-center gap-3 flex-wrap text-xs text-muted-foreground">
+            {LEGEND.map((status) => (
+              <span key={status} className="flex items-center gap-1">
+                <span className={cn('inline-block h-3 w-3 rounded-sm', getComplianceStatusColor(status))} />
+                {COMPLIANCE_STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vehicle</TableHead>
+                <TableHead>Branch</TableHead>
+                {months.map((month) => (
+                  <TableHead key={month} className="text-center">{format(toDate(month), 'MMM yy')}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleItems.map((item) => (
+                <TableRow key={item.vehicle.id}>
+                  <TableCell>
+                    <Link to={`/vehicles/${item.vehicle.id}`} className="font-medium hover:underline">
+                      {item.vehicle.plate}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      {[item.vehicle.make, item.vehicle.model].filter(Boolean).join(' ')}
+                    </p>
+                  </TableCell>
+                  <TableCell>{item.vehicle.branchName || '—'}</TableCell>
+                  {item.months.map(({ month, status }) => (
+                    <TableCell key={month} className="text-center">
+                      <span
+                        className={cn('inline-block h-5 w-5 rounded-sm align-middle', getComplianceStatusColor(status))}
+                        title={`${format(toDate(month), 'MMMM yyyy')}: ${COMPLIANCE_STATUS_LABELS[status]}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,8 +8,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useInspectionTemplates } from '@/hooks/useInspectionTemplates';
 import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { InspectionPhotoCapture } from '@/components/InspectionPhotoCapture';
+import { AVAILABLE_STATUSES } from '@/utils/vehicleStatus';
+import { PendingPhoto, inspectionPhotoPath } from '@/utils/inspectionPhotos';
+import {
+  InspectionTemplateItem,
+  describeRange,
+  isReadingInRange,
+  templateForVehicle,
+} from '@/utils/inspectionTemplates';
 
 interface Vehicle {
   id: string;
@@ -17,6 +27,7 @@ interface Vehicle {
   make: string | null;
   model: string | null;
   branch_id: string | null;
+  vehicle_type: string | null;
 }
 
 interface Branch {
@@ -24,29 +35,31 @@ interface Branch {
   name: string;
 }
 
-interface InspectionItem {
-  key: string;
-  label: string;
+interface ChecklistEntry {
+  item: InspectionTemplateItem;
   pass: boolean;
   notes: string;
-  placeholder?: string;
+  /** Numeric reading as typed */
+  reading: string;
+  photos: PendingPhoto[];
 }
 
-const INSPECTION_ITEMS = [
-  { key: 'brakes', label: 'Brakes', placeholder: 'Please state if the front, rear or both are the issue and if you believe pads or pads and rotors are required.' },
-  { key: 'engine', label: 'Engine' },
-  { key: 'transmission', label: 'Transmission' },
-  { key: 'tires', label: 'Tires' },
-  { key: 'headlights', label: 'Headlights' },
-  { key: 'signal_lights', label: 'Signal Lights' },
-  { key: 'oil_level', label: 'Oil Level' },
-  { key: 'windshield_fluid', label: 'Windshield Fluid' },
-  { key: 'wipers', label: 'Wipers' },
-];
+const toChecklist = (items: InspectionTemplateItem[]): ChecklistEntry[] =>
+  items.map(item => ({ item, pass: true, notes: '', reading: '', photos: [] }));
+
+// A numeric item passes or fails on its reading; the others are marked by the inspector
+const entryPasses = (entry: ChecklistEntry) => {
+  if (entry.item.item_type !== 'numeric') return entry.pass;
+  return entry.reading === '' || isReadingInRange(entry.item, Number(entry.reading));
+};
+
+// Photos are taken for photo items and to show what is wrong with a failed item
+const showsPhotos = (entry: ChecklistEntry) => entry.item.item_type === 'photo' || !entryPasses(entry);
 
 export function InspectionForm() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { templates, loading: templatesLoading } = useInspectionTemplates();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [selectedVehicle, setSelectedVehicle] = useState<string>('');
@@ -55,10 +68,16 @@ export function InspectionForm() {
   const [generalNotes, setGeneralNotes] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
-  
-  const [inspectionItems, setInspectionItems] = useState<InspectionItem[]>(
-    INSPECTION_ITEMS.map(item => ({ ...item, pass: true, notes: '', placeholder: item.placeholder }))
-  );
+  const [checklist, setChecklist] = useState<ChecklistEntry[]>([]);
+  const [generalPhotos, setGeneralPhotos] = useState<PendingPhoto[]>([]);
+
+  // The checklist follows the vehicle's type and the location it is inspected at
+  const findTemplate = (vehicleId: string, branchId: string) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    return vehicle ? templateForVehicle(templates, { branch_id: branchId || null, vehicle_type: vehicle.vehicle_type }) : null;
+  };
+
+  const template = findTemplate(selectedVehicle, selectedBranch);
 
   useEffect(() => {
     fetchData();
@@ -68,7 +87,7 @@ export function InspectionForm() {
     setLoading(true);
     try {
       const [vehiclesRes, branchesRes] = await Promise.all([
-        supabase.from('vehicles').select('id, plate, make, model, branch_id').eq('status', 'active').order('plate'),
+        supabase.from('vehicles').select('id, plate, make, model, branch_id, vehicle_type').in('status', AVAILABLE_STATUSES).order('plate'),
         supabase.from('branches').select('id, name').order('name'),
       ]);
 
@@ -81,12 +100,19 @@ export function InspectionForm() {
     }
   };
 
-  const handleVehicleChange = async (vehicleId: string) => {
+  // Start a fresh checklist when the selection changes which template applies
+  const selectInspection = (vehicleId: string, branchId: string) => {
+    const next = findTemplate(vehicleId, branchId);
+    if (next?.id !== template?.id) {
+      setChecklist(toChecklist(next?.items || []));
+    }
     setSelectedVehicle(vehicleId);
+    setSelectedBranch(branchId);
+  };
+
+  const handleVehicleChange = async (vehicleId: string) => {
     const vehicle = vehicles.find(v => v.id === vehicleId);
-    if (vehicle?.branch_id) {
-      setSelectedBranch(vehicle.branch_id);
-    }
+    selectInspection(vehicleId, vehicle?.branch_id || selectedBranch);
     
     // Fetch current vehicle odometer as default
     const { data } = await supabase
@@ -102,18 +128,47 @@ export function InspectionForm() {
     }
   };
 
-  const toggleItem = (key: string) => {
-    setInspectionItems(items =>
-      items.map(item =>
-        item.key === key ? { ...item, pass: !item.pass, notes: item.pass ? item.notes : '' } : item
-      )
+  const updateEntry = (key: string, updates: Partial<ChecklistEntry>) => {
+    setChecklist(entries =>
+      entries.map(entry => (entry.item.item_key === key ? { ...entry, ...updates } : entry))
     );
   };
 
-  const updateNotes = (key: string, notes: string) => {
-    setInspectionItems(items =>
-      items.map(item => (item.key === key ? { ...item, notes } : item))
-    );
+  const toggleItem = (entry: ChecklistEntry) => {
+    updateEntry(entry.item.item_key, {
+      pass: !entry.pass,
+      notes: entry.pass ? entry.notes : '',
+      photos: entry.pass || entry.item.item_type === 'photo' ? entry.photos : [],
+    });
+  };
+
+  const uploadPhotos = async (inspectionId: string) => {
+    const photos = [
+      ...checklist.flatMap(entry => (showsPhotos(entry) ? entry.photos : []).map(photo => ({ photo, itemKey: entry.item.item_key }))),
+      ...generalPhotos.map(photo => ({ photo, itemKey: null })),
+    ];
+    if (photos.length === 0) return;
+
+    const rows = await Promise.all(photos.map(async ({ photo, itemKey }, index) => {
+      const filePath = inspectionPhotoPath(selectedVehicle, inspectionId, index);
+      const { error } = await supabase.storage
+        .from('vehicle-documents')
+        .upload(filePath, photo.blob, { contentType: 'image/jpeg' });
+
+      if (error) throw error;
+      return {
+        inspection_id: inspectionId,
+        item_key: itemKey,
+        file_path: filePath,
+        file_name: filePath.split('/').pop() as string,
+        file_size: photo.blob.size,
+        annotated: photo.annotated,
+        uploaded_by: user?.id,
+      };
+    }));
+
+    const { error } = await supabase.from('inspection_photos').insert(rows);
+    if (error) throw error;
   };
 
   const handleSubmit = async () => {
@@ -122,17 +177,42 @@ export function InspectionForm() {
       return;
     }
 
+    if (!template) {
+      toast({ title: 'No inspection checklist applies to this vehicle', variant: 'destructive' });
+      return;
+    }
+
     if (kilometers === null || kilometers <= 0) {
       toast({ title: 'Please enter a valid odometer reading', variant: 'destructive' });
       return;
     }
 
+    const missingReadings = checklist.filter(entry => entry.item.item_type === 'numeric' && entry.reading === '');
+    if (missingReadings.length > 0) {
+      toast({
+        title: 'Readings required',
+        description: `Please enter a reading for: ${missingReadings.map(e => e.item.label).join(', ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const missingPhotos = checklist.filter(entry => entry.item.item_type === 'photo' && entry.photos.length === 0);
+    if (missingPhotos.length > 0) {
+      toast({
+        title: 'Photos required',
+        description: `Please add a photo for: ${missingPhotos.map(e => e.item.label).join(', ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     // Check if any failed items are missing notes
-    const failedWithoutNotes = inspectionItems.filter(item => !item.pass && !item.notes.trim());
+    const failedWithoutNotes = checklist.filter(entry => !entryPasses(entry) && !entry.notes.trim());
     if (failedWithoutNotes.length > 0) {
       toast({
         title: 'Notes required for failed items',
-        description: `Please add notes for: ${failedWithoutNotes.map(i => i.label).join(', ')}`,
+        description: `Please add notes for: ${failedWithoutNotes.map(e => e.item.label).join(', ')}`,
         variant: 'destructive',
       });
       return;
@@ -140,52 +220,48 @@ export function InspectionForm() {
 
     setSubmitting(true);
     try {
-      const { error } = await supabase.from('vehicle_inspections').insert({
-        vehicle_id: selectedVehicle,
-        branch_id: selectedBranch,
-        kilometers,
-        completed_by: user?.id,
-        brakes_pass: inspectionItems.find(i => i.key === 'brakes')?.pass ?? true,
-        brakes_notes: inspectionItems.find(i => i.key === 'brakes')?.notes || null,
-        engine_pass: inspectionItems.find(i => i.key === 'engine')?.pass ?? true,
-        engine_notes: inspectionItems.find(i => i.key === 'engine')?.notes || null,
-        transmission_pass: inspectionItems.find(i => i.key === 'transmission')?.pass ?? true,
-        transmission_notes: inspectionItems.find(i => i.key === 'transmission')?.notes || null,
-        tires_pass: inspectionItems.find(i => i.key === 'tires')?.pass ?? true,
-        tires_notes: inspectionItems.find(i => i.key === 'tires')?.notes || null,
-        headlights_pass: inspectionItems.find(i => i.key === 'headlights')?.pass ?? true,
-        headlights_notes: inspectionItems.find(i => i.key === 'headlights')?.notes || null,
-        signal_lights_pass: inspectionItems.find(i => i.key === 'signal_lights')?.pass ?? true,
-        signal_lights_notes: inspectionItems.find(i => i.key === 'signal_lights')?.notes || null,
-        oil_level_pass: inspectionItems.find(i => i.key === 'oil_level')?.pass ?? true,
-        oil_level_notes: inspectionItems.find(i => i.key === 'oil_level')?.notes || null,
-        windshield_fluid_pass: inspectionItems.find(i => i.key === 'windshield_fluid')?.pass ?? true,
-        windshield_fluid_notes: inspectionItems.find(i => i.key === 'windshield_fluid')?.notes || null,
-        wipers_pass: inspectionItems.find(i => i.key === 'wipers')?.pass ?? true,
-        wipers_notes: inspectionItems.find(i => i.key === 'wipers')?.notes || null,
-        general_notes: generalNotes.trim() || null,
+      // Results copy the item's label and type so the inspection reads the same after the template changes
+      const results = checklist.map(entry => ({
+        template_item_id: entry.item.id,
+        position: entry.item.position,
+        item_key: entry.item.item_key,
+        label: entry.item.label,
+        item_type: entry.item.item_type,
+        passed: entryPasses(entry),
+        numeric_value: entry.item.item_type === 'numeric' ? Number(entry.reading) : null,
+        unit: entry.item.unit,
+        notes: entry.notes.trim() || null,
+      }));
+
+      // The inspection and its results are saved together or not at all
+      const { data: inspectionId, error } = await supabase.rpc('submit_inspection', {
+        _vehicle_id: selectedVehicle,
+        _branch_id: selectedBranch,
+        _kilometers: kilometers,
+        _template_id: template.id,
+        _general_notes: generalNotes.trim() || null,
+        _results: results,
       });
 
       if (error) throw error;
 
-      // Update the vehicle's odometer reading
-      const { error: updateError } = await supabase
-        .from('vehicles')
-        .update({ odometer_km: kilometers })
-        .eq('id', selectedVehicle);
+      await uploadPhotos(inspectionId);
 
-      if (updateError) {
-        console.error('Error updating vehicle odometer:', updateError);
-      }
-
-      toast({ title: 'Inspection submitted successfully' });
+      const failedCount = results.filter(result => !result.passed).length;
+      toast({
+        title: 'Inspection submitted successfully',
+        description: failedCount > 0
+          ? `${failedCount} failed item${failedCount === 1 ? '' : 's'} will be tracked as defects on the vehicle`
+          : undefined,
+      });
       
       // Reset form
       setSelectedVehicle('');
       setSelectedBranch('');
       setKilometers(null);
       setGeneralNotes('');
-      setInspectionItems(INSPECTION_ITEMS.map(item => ({ ...item, pass: true, notes: '' })));
+      setChecklist([]);
+      setGeneralPhotos([]);
     } catch (error: any) {
       toast({ title: 'Error submitting inspection', description: error.message, variant: 'destructive' });
     } finally {
@@ -193,9 +269,7 @@ export function InspectionForm() {
     }
   };
 
-  const selectedVehicleData = vehicles.find(v => v.id === selectedVehicle);
-
-  if (loading) {
+  if (loading || templatesLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -206,7 +280,8 @@ export function InspectionForm() {
   return (
     <Card className="max-w-2xl mx-auto print:shadow-none print:border-none">
       <CardHeader className="pb-4">
-        <CardTitle className="text-lg">Monthly Vehicle Inspection</CardTitle>
+        <CardTitle className="text-lg">{template?.name || 'Vehicle Inspection'}</CardTitle>
+        {template?.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Vehicle Selection */}
@@ -229,7 +304,7 @@ export function InspectionForm() {
 
           <div className="space-y-2">
             <Label>Location</Label>
-            <Select value={selectedBranch} onValueChange={setSelectedBranch}>
+            <Select value={selectedBranch} onValueChange={(branchId) => selectInspection(selectedVehicle, branchId)}>
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select location" />
               </SelectTrigger>
@@ -257,46 +332,93 @@ export function InspectionForm() {
         </div>
 
         {/* Inspection Items */}
-        <div className="space-y-3">
-          <Label className="text-base font-medium">Inspection Checklist</Label>
-          <div className="space-y-2">
-            {inspectionItems.map(item => (
-              <div key={item.key} className="space-y-2">
-                <button
-                  type="button"
-                  onClick={() => toggleItem(item.key)}
-                  className={cn(
-                    'w-full flex items-center justify-between p-3 rounded-lg border transition-colors',
-                    item.pass
-                      ? 'bg-green-50 border-green-200 dark:bg-green-950/20 dark:border-green-800'
-                      : 'bg-red-50 border-red-200 dark:bg-red-950/20 dark:border-red-800'
-                  )}
-                >
-                  <span className="font-medium">{item.label}</span>
-                  <div className="flex items-center gap-2">
-                    <span className={cn('text-sm', item.pass ? 'text-green-600' : 'text-red-600')}>
-                      {item.pass ? 'Pass' : 'Fail'}
-                    </span>
-                    {item.pass ? (
-                      <CheckCircle className="h-5 w-5 text-green-600" />
-                    ) : (
-                      <XCircle className="h-5 w-5 text-red-600" />
-                    )}
-                  </div>
-                </button>
-                {!item.pass && (
-                  <Textarea
-                    placeholder={item.placeholder || `What's wrong with ${item.label.toLowerCase()}?`}
-                    value={item.notes}
-                    onChange={e => updateNotes(item.key, e.target.value)}
-                    className="text-sm"
-                    rows={2}
-                  />
-                )}
+        {selectedVehicle && (
+          <div className="space-y-3">
+            <Label className="text-base font-medium">Inspection Checklist</Label>
+            {!template ? (
+              <p className="text-sm text-muted-foreground">
+                No inspection checklist applies to this vehicle at this location. Ask an admin to set one up.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {checklist.map(entry => {
+                  const { item } = entry;
+                  const pass = entryPasses(entry);
+                  const range = describeRange(item);
+
+                  return (
+                    <div key={item.item_key} className="space-y-2">
+                      {item.item_type === 'numeric' ? (
+                        <div
+                          className={cn(
+                            'flex items-center justify-between gap-4 p-3 rounded-lg border',
+                            pass
+                              ? 'bg-green-50 border-green-200 dark:bg-green-950/20 dark:border-green-800'
+                              : 'bg-red-50 border-red-200 dark:bg-red-950/20 dark:border-red-800'
+                          )}
+                        >
+                          <div className="min-w-0">
+                            <span className="font-medium">{item.label}</span>
+                            {range && <p className="text-xs text-muted-foreground">Expected {range}</p>}
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <Input
+                              type="number"
+                              step="any"
+                              className="w-28 bg-background"
+                              placeholder={item.unit || 'Reading'}
+                              value={entry.reading}
+                              onChange={e => updateEntry(item.item_key, { reading: e.target.value })}
+                            />
+                            {item.unit && <span className="text-sm text-muted-foreground">{item.unit}</span>}
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => toggleItem(entry)}
+                          className={cn(
+                            'w-full flex items-center justify-between p-3 rounded-lg border transition-colors',
+                            pass
+                              ? 'bg-green-50 border-green-200 dark:bg-green-950/20 dark:border-green-800'
+                              : 'bg-red-50 border-red-200 dark:bg-red-950/20 dark:border-red-800'
+                          )}
+                        >
+                          <span className="font-medium">{item.label}</span>
+                          <div className="flex items-center gap-2">
+                            <span className={cn('text-sm', pass ? 'text-green-600' : 'text-red-600')}>
+                              {pass ? 'Pass' : 'Fail'}
+                            </span>
+                            {pass ? (
+                              <CheckCircle className="h-5 w-5 text-green-600" />
+                            ) : (
+                              <XCircle className="h-5 w-5 text-red-600" />
+                            )}
+                          </div>
+                        </button>
+                      )}
+                      {!pass && (
+                        <Textarea
+                          placeholder={item.hint || `What's wrong with ${item.label.toLowerCase()}?`}
+                          value={entry.notes}
+                          onChange={e => updateEntry(item.item_key, { notes: e.target.value })}
+                          className="text-sm"
+                          rows={2}
+                        />
+                      )}
+                      {showsPhotos(entry) && (
+                        <InspectionPhotoCapture
+                          photos={entry.photos}
+                          onChange={photos => updateEntry(item.item_key, { photos })}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-            ))}
+            )}
           </div>
-        </div>
+        )}
 
         {/* General Notes */}
         <div className="space-y-2">
@@ -310,12 +432,13 @@ export function InspectionForm() {
             rows={3}
           />
           <p className="text-xs text-muted-foreground">Optional: Use this space for any other concerns or observations</p>
+          <InspectionPhotoCapture photos={generalPhotos} onChange={setGeneralPhotos} />
         </div>
 
         {/* Submit Button */}
         <Button
           onClick={handleSubmit}
-          disabled={submitting || !selectedVehicle || !selectedBranch || !kilometers}
+          disabled={submitting || !selectedVehicle || !selectedBranch || !kilometers || !template}
           className="w-full"
           size="lg"
         >
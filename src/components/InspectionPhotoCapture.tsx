@@ -0,0 +1,112 @@
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ImagePlus, Loader2, Pencil, X } from 'lucide-react';
+import { PhotoAnnotator } from '@/components/PhotoAnnotator';
+import { PendingPhoto, compressPhoto } from '@/utils/inspectionPhotos';
+
+interface InspectionPhotoCaptureProps {
+  photos: PendingPhoto[];
+  onChange: (photos: PendingPhoto[]) => void;
+}
+
+export function InspectionPhotoCapture({ photos, onChange }: InspectionPhotoCaptureProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [processing, setProcessing] = useState(false);
+  const [annotating, setAnnotating] = useState<PendingPhoto | null>(null);
+  const { toast } = useToast();
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setProcessing(true);
+    try {
+      const added = await Promise.all(Array.from(files).map(async (file) => {
+        const blob = await compressPhoto(file);
+        return { id: crypto.randomUUID(), blob, previewUrl: URL.createObjectURL(blob), annotated: false };
+      }));
+      onChange([...photos, ...added]);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to read photo',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const removePhoto = (photo: PendingPhoto) => {
+    URL.revokeObjectURL(photo.previewUrl);
+    onChange(photos.filter(p => p.id !== photo.id));
+  };
+
+  const saveAnnotation = (photo: PendingPhoto, blob: Blob) => {
+    URL.revokeObjectURL(photo.previewUrl);
+    onChange(photos.map(p =>
+      p.id === photo.id ? { ...p, blob, previewUrl: URL.createObjectURL(blob), annotated: true } : p
+    ));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {photos.map(photo => (
+        <div key={photo.id} className="relative h-16 w-16 rounded border overflow-hidden">
+          <img src={photo.previewUrl} alt="Inspection photo" className="h-full w-full object-cover" />
+          <div className="absolute inset-x-0 bottom-0 flex justify-between bg-black/50">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-white hover:text-white hover:bg-white/20"
+              onClick={() => setAnnotating(photo)}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-white hover:text-white hover:bg-white/20"
+              onClick={() => removePhoto(photo)}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={processing}
+        onClick={() => inputRef.current?.click()}
+      >
+        {processing ? (
+          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+        ) : (
+          <ImagePlus className="h-4 w-4 mr-1" />
+        )}
+        Add Photo
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+
+      <PhotoAnnotator
+        open={annotating !== null}
+        onOpenChange={(open) => !open && setAnnotating(null)}
+        photo={annotating?.blob || null}
+        onSave={(blob) => annotating && saveAnnotation(annotating, blob)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+
+export interface InspectionPhoto {
+  id: string;
+  item_key: string | null;
+  file_path: string;
+  file_name: string;
+  annotated: boolean;
+}
+
+interface InspectionPhotoThumbnailsProps {
+  photos: InspectionPhoto[];
+  className?: string;
+}
+
+export function InspectionPhotoThumbnails({ photos, className }: InspectionPhotoThumbnailsProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const pathsKey = photos.map(photo => photo.file_path).join('|');
+
+  useEffect(() => {
+    if (!pathsKey) return;
+
+    supabase.storage
+      .from('vehicle-documents')
+      .createSignedUrls(pathsKey.split('|'), 3600) // 1 hour expiry
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error getting signed URLs:', error);
+          return;
+        }
+        setUrls(Object.fromEntries(
+          (data || []).filter(entry => entry.signedUrl).map(entry => [entry.path, entry.signedUrl])
+        ));
+      });
+  }, [pathsKey]);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {photos.map(photo => {
+        const url = urls[photo.file_path];
+        return url ? (
+          <a key={photo.id} href={url} target="_blank" rel="noopener noreferrer" title={photo.file_name}>
+            {/* crossOrigin lets the PDF export capture the image */}
+            <img
+              src={url}
+              crossOrigin="anonymous"
+              alt={photo.annotated ? 'Marked-up inspection photo' : 'Inspection photo'}
+              className="h-16 w-16 rounded border object-cover print:h-24 print:w-24"
+            />
+          </a>
+        ) : (
+          <div key={photo.id} className="h-16 w-16 rounded border bg-muted animate-pulse print:h-24 print:w-24" />
+        );
+      })}
+    </div>
+  );
+}
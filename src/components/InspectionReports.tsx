@@ -6,9 +6,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { supabase } from '@/integrations/supabase/client';
-import { format, startOfMonth, subMonths } from 'date-fns';
-import { CheckCircle, XCircle, ChevronDown, ChevronRight, Loader2, AlertTriangle, Printer, Calendar, MessageSquare } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { CheckCircle, XCircle, ChevronDown, ChevronRight, Loader2, AlertTriangle, Printer, Calendar, MessageSquare, ShieldCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { InspectionPhoto, InspectionPhotoThumbnails } from '@/components/InspectionPhotoThumbnails';
+import { InspectionComplianceSection } from '@/components/InspectionComplianceSection';
+import { recentMonthOptions } from '@/utils/inspectionCompliance';
+
+interface InspectionResult {
+  id: string;
+  position: number;
+  item_key: string;
+  label: string;
+  item_type: string;
+  passed: boolean;
+  numeric_value: number | null;
+  unit: string | null;
+  notes: string | null;
+}
 
 interface Inspection {
   id: string;
@@ -17,28 +32,14 @@ interface Inspection {
   inspection_date: string;
   inspection_month: string;
   kilometers: number | null;
-  brakes_pass: boolean;
-  brakes_notes: string | null;
-  engine_pass: boolean;
-  engine_notes: string | null;
-  transmission_pass: boolean;
-  transmission_notes: string | null;
-  tires_pass: boolean;
-  tires_notes: string | null;
-  headlights_pass: boolean;
-  headlights_notes: string | null;
-  signal_lights_pass: boolean;
-  signal_lights_notes: string | null;
-  oil_level_pass: boolean;
-  oil_level_notes: string | null;
-  windshield_fluid_pass: boolean;
-  windshield_fluid_notes: string | null;
-  wipers_pass: boolean;
-  wipers_notes: string | null;
   general_notes: string | null;
   created_at: string;
   vehicles?: { plate: string; make: string | null; model: string | null };
   branches?: { name: string };
+  inspection_templates?: { name: string } | null;
+  inspection_results: InspectionResult[];
+  inspection_photos: InspectionPhoto[];
+  vehicle_defects?: { item_key: string; status: string }[];
 }
 
 interface Vehicle {
@@ -51,18 +52,6 @@ interface Branch {
   name: string;
 }
 
-const INSPECTION_FIELDS = [
-  { key: 'brakes', label: 'Brakes' },
-  { key: 'engine', label: 'Engine' },
-  { key: 'transmission', label: 'Transmission' },
-  { key: 'tires', label: 'Tires' },
-  { key: 'headlights', label: 'Headlights' },
-  { key: 'signal_lights', label: 'Signal Lights' },
-  { key: 'oil_level', label: 'Oil Level' },
-  { key: 'windshield_fluid', label: 'Windshield Fluid' },
-  { key: 'wipers', label: 'Wipers' },
-];
-
 export function InspectionReports() {
   const [inspections, setInspections] = useState<Inspection[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
@@ -75,14 +64,7 @@ export function InspectionReports() {
   const [selectedVehicle, setSelectedVehicle] = useState<string>('all');
   const [selectedBranch, setSelectedBranch] = useState<string>('all');
 
-  // Generate month options (last 12 months)
-  const monthOptions = Array.from({ length: 12 }, (_, i) => {
-    const date = subMonths(new Date(), i);
-    return {
-      value: format(startOfMonth(date), 'yyyy-MM-dd'),
-      label: format(date, 'MMMM yyyy'),
-    };
-  });
+  const monthOptions = recentMonthOptions(12);
 
   useEffect(() => {
     fetchFilters();
@@ -110,7 +92,11 @@ export function InspectionReports() {
         .select(`
           *,
           vehicles (plate, make, model),
-          branches (name)
+          branches (name),
+          inspection_templates (name),
+          inspection_results (*),
+          inspection_photos (id, item_key, file_path, file_name, annotated),
+          vehicle_defects!vehicle_defects_inspection_id_fkey (item_key, status)
         `)
         .eq('inspection_month', selectedMonth)
         .order('inspection_date', { ascending: false });
@@ -125,7 +111,10 @@ export function InspectionReports() {
       const { data, error } = await query;
 
       if (error) throw error;
-      setInspections(data || []);
+      setInspections((data || []).map(inspection => ({
+        ...inspection,
+        inspection_results: [...inspection.inspection_results].sort((a, b) => a.position - b.position),
+      })));
     } catch (error) {
       console.error('Error fetching inspections:', error);
     } finally {
@@ -134,22 +123,11 @@ export function InspectionReports() {
   };
 
   const getFailedItems = (inspection: Inspection) => {
-    const failed: { label: string; notes: string | null }[] = [];
-    INSPECTION_FIELDS.forEach(field => {
-      const passKey = `${field.key}_pass` as keyof Inspection;
-      const notesKey = `${field.key}_notes` as keyof Inspection;
-      if (!inspection[passKey]) {
-        failed.push({ label: field.label, notes: inspection[notesKey] as string | null });
-      }
-    });
-    return failed;
+    return inspection.inspection_results.filter(result => !result.passed);
   };
 
   const getPassCount = (inspection: Inspection) => {
-    return INSPECTION_FIELDS.filter(field => {
-      const passKey = `${field.key}_pass` as keyof Inspection;
-      return inspection[passKey];
-    }).length;
+    return inspection.inspection_results.filter(result => result.passed).length;
   };
 
   const handlePrint = () => {
@@ -232,6 +210,26 @@ export function InspectionReports() {
         </Card>
       </div>
 
+      {/* Compliance */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            Inspection Compliance
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Vehicles in service each month and whether they got their inspection, up to the selected month
+          </p>
+        </CardHeader>
+        <CardContent>
+          <InspectionComplianceSection
+            branchId={selectedBranch}
+            vehicleId={selectedVehicle}
+            endMonth={selectedMonth}
+          />
+        </CardContent>
+      </Card>
+
       {/* Print Button */}
       <div className="flex justify-end print:hidden">
         <Button variant="outline" size="sm" onClick={handlePrint}>
@@ -256,6 +254,7 @@ export function InspectionReports() {
           {inspections.map(inspection => {
             const failedItems = getFailedItems(inspection);
             const passCount = getPassCount(inspection);
+            const generalPhotos = inspection.inspection_photos.filter(photo => photo.item_key === null);
             const isExpanded = expandedId === inspection.id;
 
             return (
@@ -290,11 +289,17 @@ export function InspectionReports() {
                                 <span>{inspection.kilometers.toLocaleString()} km</span>
                               </>
                             )}
+                            {inspection.inspection_templates && (
+                              <>
+                                <span>•</span>
+                                <span>{inspection.inspection_templates.name}</span>
+                              </>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge variant={failedItems.length > 0 ? 'destructive' : 'secondary'}>
-                            {passCount}/{INSPECTION_FIELDS.length}
+                            {passCount}/{inspection.inspection_results.length}
                           </Badge>
                           {isExpanded ? (
                             <ChevronDown className="h-4 w-4 text-muted-foreground" />
@@ -311,21 +316,25 @@ export function InspectionReports() {
                           <span>Issues: {failedItems.map(f => f.label).join(', ')}</span>
                         </div>
                       )}
+
+                      {/* Collapsed rows still print their photos */}
+                      {!isExpanded && (
+                        <InspectionPhotoThumbnails photos={inspection.inspection_photos} className="hidden print:flex mt-2" />
+                      )}
                     </CardHeader>
                   </CollapsibleTrigger>
 
                   <CollapsibleContent>
                     <CardContent className="pt-0 border-t">
                       <div className="grid gap-2 pt-4">
-                        {INSPECTION_FIELDS.map(field => {
-                          const passKey = `${field.key}_pass` as keyof Inspection;
-                          const notesKey = `${field.key}_notes` as keyof Inspection;
-                          const passed = inspection[passKey];
-                          const notes = inspection[notesKey] as string | null;
+                        {inspection.inspection_results.map(result => {
+                          const { passed } = result;
+                          const photos = inspection.inspection_photos.filter(photo => photo.item_key === result.item_key);
+                          const defect = inspection.vehicle_defects?.find(d => d.item_key === result.item_key);
 
                           return (
                             <div
-                              key={field.key}
+                              key={result.id}
                               className={cn(
                                 'flex items-start justify-between p-2 rounded',
                                 passed ? 'bg-muted/50' : 'bg-destructive/10'
@@ -338,31 +347,47 @@ export function InspectionReports() {
                                   ) : (
                                     <XCircle className="h-4 w-4 text-destructive" />
                                   )}
-                                  <span className="font-medium text-sm">{field.label}</span>
+                                  <span className="font-medium text-sm">{result.label}</span>
+                                  {result.numeric_value !== null && (
+                                    <span className="text-sm text-muted-foreground">
+                                      {result.numeric_value}{result.unit ? ` ${result.unit}` : ''}
+                                    </span>
+                                  )}
                                 </div>
-                                {notes && (
+                                {result.notes && (
                                   <p className="text-sm text-muted-foreground mt-1 ml-6">
-                                    {notes}
+                                    {result.notes}
                                   </p>
                                 )}
+                                <InspectionPhotoThumbnails photos={photos} className="mt-2 ml-6" />
+                              </div>
+                              <div className="flex items-center gap-1">
+                                {!passed && defect && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {defect.status === 'open' ? 'Defect open' : 'Defect closed'}
+                                  </Badge>
+                                )}
+                                <Badge variant={passed ? 'secondary' : 'destructive'} className="text-xs">
+                                  {passed ? 'Pass' : 'Fail'}
+                                </Badge>
                               </div>
-                              <Badge variant={passed ? 'secondary' : 'destructive'} className="text-xs">
-                                {passed ? 'Pass' : 'Fail'}
-                              </Badge>
                             </div>
                           );
                         })}
 
                         {/* General Notes Section */}
-                        {inspection.general_notes && (
+                        {(inspection.general_notes || generalPhotos.length > 0) && (
                           <div className="mt-4 p-3 bg-muted/50 rounded-lg border border-border">
                             <div className="flex items-start gap-2">
                               <MessageSquare className="h-4 w-4 text-muted-foreground mt-0.5 shrink-0" />
                               <div>
                                 <span className="font-medium text-sm">General Notes / Concerns</span>
-                                <p className="text-sm text-muted-foreground mt-1">
-                                  {inspection.general_notes}
-                                </p>
+                                {inspection.general_notes && (
+                                  <p className="text-sm text-muted-foreground mt-1">
+                                    {inspection.general_notes}
+                                  </p>
+                                )}
+                                <InspectionPhotoThumbnails photos={generalPhotos} className="mt-2" />
                               </div>
                             </div>
                           </div>
@@ -0,0 +1,546 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { ArrowDown, ArrowUp, ClipboardCheck, Pencil, Plus, Trash2, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { InspectionTemplateItemInput, useInspectionTemplates } from '@/hooks/useInspectionTemplates';
+import {
+  INSPECTION_ITEM_TYPES,
+  INSPECTION_ITEM_TYPE_LABELS,
+  InspectionItemType,
+  InspectionTemplate,
+} from '@/utils/inspectionTemplates';
+import { DEFECT_SEVERITIES, DEFECT_SEVERITY_LABELS, DefectSeverity } from '@/utils/vehicleDefects';
+import { VEHICLE_TYPES, getVehicleTypeLabel } from '@/utils/vehicleTypes';
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+const ALL = 'all';
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  branchId: ALL,
+  vehicleType: ALL,
+  isActive: true,
+};
+
+const newItem = (): InspectionTemplateItemInput => ({
+  label: '',
+  item_type: 'pass_fail',
+  hint: null,
+  unit: null,
+  min_value: null,
+  max_value: null,
+  severity: 'medium',
+  due_days: 7,
+});
+
+const parseNumber = (value: string) => (value.trim() === '' ? null : parseFloat(value));
+
+export function InspectionTemplateManager() {
+  const { templates, loading, saveTemplate, setTemplateActive, deleteTemplate } = useInspectionTemplates();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<InspectionTemplate | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [items, setItems] = useState<InspectionTemplateItemInput[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase
+      .from('branches')
+      .select('id, name')
+      .order('name')
+      .then(({ data }) => setBranches(data || []));
+  }, []);
+
+  const describeScope = (template: InspectionTemplate) => {
+    const parts: string[] = [];
+    if (template.vehicle_type) parts.push(`${getVehicleTypeLabel(template.vehicle_type)}s`);
+    if (template.branch_id) parts.push(`at ${branches.find(b => b.id === template.branch_id)?.name || 'unknown branch'}`);
+    return parts.join(' ');
+  };
+
+  const handleOpenDialog = (template?: InspectionTemplate) => {
+    if (template) {
+      setEditingTemplate(template);
+      setFormData({
+        name: template.name,
+        description: template.description || '',
+        branchId: template.branch_id || ALL,
+        vehicleType: template.vehicle_type || ALL,
+        isActive: template.is_active,
+      });
+      setItems(template.items.map(({ template_id, position, ...item }) => item));
+    } else {
+      setEditingTemplate(null);
+      setFormData(EMPTY_FORM);
+      setItems([newItem()]);
+    }
+    setDialogOpen(true);
+  };
+
+  const updateItem = (index: number, updates: Partial<InspectionTemplateItemInput>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    setItems(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a template name',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (items.length === 0 || items.some(item => !item.label.trim())) {
+      toast({
+        title: 'Error',
+        description: 'Every checklist item needs a name, and a template needs at least one item',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (items.some(item => item.min_value !== null && item.max_value !== null && item.min_value > item.max_value)) {
+      toast({
+        title: 'Error',
+        description: 'A reading range has a minimum above its maximum',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTemplate(
+        {
+          name: formData.name.trim(),
+          description: formData.description.trim() || null,
+          branch_id: formData.branchId === ALL ? null : formData.branchId,
+          vehicle_type: formData.vehicleType === ALL ? null : formData.vehicleType,
+          is_active: formData.isActive,
+        },
+        items.map(item => ({
+          ...item,
+          label: item.label.trim(),
+          hint: item.hint?.trim() || null,
+          // Only numeric readings have a unit and range
+          unit: item.item_type === 'numeric' ? item.unit?.trim() || null : null,
+          min_value: item.item_type === 'numeric' ? item.min_value : null,
+          max_value: item.item_type === 'numeric' ? item.max_value : null,
+        })),
+        editingTemplate?.id
+      );
+
+      toast({ title: 'Success', description: editingTemplate ? 'Inspection template updated' : 'Inspection template created' });
+      setDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save template',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: InspectionTemplate) => {
+    try {
+      await setTemplateActive(template.id, !template.is_active);
+      toast({
+        title: 'Success',
+        description: `Template ${template.is_active ? 'disabled' : 'enabled'}`
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update template',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      await deleteTemplate(templateId);
+      toast({ title: 'Success', description: 'Inspection template deleted' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete template',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-center text-muted-foreground">Loading inspection templates...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Inspection Templates
+            </CardTitle>
+            <CardDescription>
+              Checklists used by the monthly inspection. A vehicle gets the most specific active template for its type and branch.
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {templates.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No inspection templates configured. Inspections cannot be recorded until one is added.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell>
+                    <p className="font-medium">{template.name}</p>
+                    {template.description && (
+                      <p className="text-xs text-muted-foreground">{template.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {template.branch_id || template.vehicle_type ? (
+                      describeScope(template)
+                    ) : (
+                      <Badge variant="secondary">All Vehicles</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{template.items.length}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={template.is_active}
+                        onCheckedChange={() => handleToggleActive(template)}
+                      />
+                      <span className={template.is_active ? 'text-green-600' : 'text-muted-foreground'}>
+                        {template.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenDialog(template)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Inspection Template</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete the "{template.name}" template?
+                              Past inspections keep their results; disable the template instead to keep it for later.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(template.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingTemplate ? 'Edit Inspection Template' : 'Add Inspection Template'}
+            </DialogTitle>
+            <DialogDescription>
+              Failing an item opens a defect on the vehicle with the item's severity, due the given number of days after the inspection.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Template Name *</Label>
+                <Input
+                  id="template-name"
+                  placeholder="e.g., Pickup Monthly Inspection"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Vehicle Type</Label>
+                <Select
+                  value={formData.vehicleType}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, vehicleType: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All Types</SelectItem>
+                    {VEHICLE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{getVehicleTypeLabel(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Branch</Label>
+                <Select
+                  value={formData.branchId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, branchId: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All Branches</SelectItem>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              More specific templates override general ones: type and branch, then type, then branch, then all vehicles.
+            </p>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-medium">Checklist Items</Label>
+                <Button variant="outline" size="sm" onClick={() => setItems(prev => [...prev, newItem()])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+              </div>
+
+              {items.map((item, index) => (
+                <div key={item.id || `new-${index}`} className="p-3 rounded-lg border space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                    <Input
+                      placeholder="e.g., Fire Extinguisher"
+                      value={item.label}
+                      onChange={(e) => updateItem(index, { label: e.target.value })}
+                    />
+                    <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveItem(index, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={index === items.length - 1} onClick={() => moveItem(index, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-3 pl-8">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Type</Label>
+                      <Select
+                        value={item.item_type}
+                        onValueChange={(value) => updateItem(index, { item_type: value as InspectionItemType })}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INSPECTION_ITEM_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{INSPECTION_ITEM_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Defect Severity</Label>
+                      <Select
+                        value={item.severity}
+                        onValueChange={(value) => updateItem(index, { severity: value as DefectSeverity })}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DEFECT_SEVERITIES.map((severity) => (
+                            <SelectItem key={severity} value={severity}>{DEFECT_SEVERITY_LABELS[severity]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Fix Within (days)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="h-8 text-sm"
+                        value={item.due_days}
+                        onChange={(e) => updateItem(index, { due_days: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+
+                  {item.item_type === 'numeric' && (
+                    <div className="grid grid-cols-3 gap-3 pl-8">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Unit</Label>
+                        <Input
+                          className="h-8 text-sm"
+                          placeholder="e.g., psi"
+                          value={item.unit || ''}
+                          onChange={(e) => updateItem(index, { unit: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Minimum</Label>
+                        <Input
+                          type="number"
+                          step="any"
+                          className="h-8 text-sm"
+                          value={item.min_value ?? ''}
+                          onChange={(e) => updateItem(index, { min_value: parseNumber(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Maximum</Label>
+                        <Input
+                          type="number"
+                          step="any"
+                          className="h-8 text-sm"
+                          value={item.max_value ?? ''}
+                          onChange={(e) => updateItem(index, { max_value: parseNumber(e.target.value) })}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="pl-8">
+                    <Textarea
+                      className="text-sm"
+                      rows={1}
+                      placeholder="Hint shown to the inspector (optional)"
+                      value={item.hint || ''}
+                      onChange={(e) => updateItem(index, { hint: e.target.value })}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="template-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="template-active">Template is active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {editingTemplate ? 'Update Template' : 'Create Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Wrench } from 'lucide-react';
+import { format } from 'date-fns';
+import { useMaintenanceDue } from '@/hooks/useMaintenanceDue';
+import { MaintenanceDueItem, MaintenanceStatus } from '@/utils/maintenanceSchedule';
+
+interface MaintenanceDueListProps {
+  vehicleId?: string;
+}
+
+const getStatusBadge = (status: MaintenanceStatus) => {
+  switch (status) {
+    case 'overdue':
+      return <Badge variant="destructive">Overdue</Badge>;
+    case 'due_soon':
+      return <Badge className="bg-amber-500/20 text-amber-700 border-amber-500/30">Due Soon</Badge>;
+    case 'no_history':
+      return <Badge variant="outline">No Service Recorded</Badge>;
+    default:
+      return <Badge className="bg-green-500/20 text-green-700 border-green-500/30">OK</Badge>;
+  }
+};
+
+const describeDue = (item: MaintenanceDueItem) => {
+  const parts: string[] = [];
+  if (item.kmRemaining !== null) {
+    parts.push(item.kmRemaining <= 0
+      ? `${Math.abs(item.kmRemaining).toLocaleString()} km overdue`
+      : `due in ${item.kmRemaining.toLocaleString()} km`);
+  }
+  if (item.daysRemaining !== null && item.nextDueDate) {
+    parts.push(item.daysRemaining <= 0
+      ? `${Math.abs(item.daysRemaining)} days overdue (${format(item.nextDueDate, 'MMM d, yyyy')})`
+      : `due ${format(item.nextDueDate, 'MMM d, yyyy')}`);
+  }
+  if (parts.length === 0) {
+    return 'Record a service expense in this category to start tracking';
+  }
+  return parts.join(' · ');
+};
+
+const describeInterval = (item: MaintenanceDueItem) => {
+  const parts: string[] = [];
+  if (item.schedule.interval_km) parts.push(`${item.schedule.interval_km.toLocaleString()} km`);
+  if (item.schedule.interval_months) parts.push(`${item.schedule.interval_months} months`);
+  return `Every ${parts.join(' or ')}`;
+};
+
+export function MaintenanceDueList({ vehicleId }: MaintenanceDueListProps) {
+  const navigate = useNavigate();
+  const { items, loading } = useMaintenanceDue(vehicleId);
+
+  // The fleet-wide list only shows what needs attention
+  const visibleItems = vehicleId
+    ? items
+    : items.filter(item => item.status === 'overdue' || item.status === 'due_soon');
+  const overdueCount = items.filter(item => item.status === 'overdue').length;
+
+  if (!vehicleId && !loading && visibleItems.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wrench className="h-5 w-5" />
+          {vehicleId ? 'Service Schedule' : 'Maintenance Due'}
+          {overdueCount > 0 && (
+            <Badge variant="destructive" className="ml-1">{overdueCount} overdue</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {vehicleId
+            ? 'Preventive maintenance based on odometer and time since the last service'
+            : 'Vehicles with services overdue or coming up soon'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : visibleItems.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No maintenance schedules apply to this vehicle</p>
+        ) : (
+          <div className="space-y-3">
+            {visibleItems.map((item) => (
+              <div
+                key={`${item.schedule.id}:${item.vehicle.id}`}
+                className={`flex items-start justify-between gap-4 p-3 rounded-lg border ${
+                  vehicleId ? '' : 'cursor-pointer hover:bg-muted/50'
+                }`}
+                onClick={vehicleId ? undefined : () => navigate(`/vehicles/${item.vehicle.id}`)}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {item.schedule.name}
+                    {!vehicleId && (
+                      <span className="text-muted-foreground font-normal">
+                        {' '}· {item.vehicle.make} {item.vehicle.model} ({item.vehicle.plate})
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{describeDue(item)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeInterval(item)}
+                    {item.lastServiceDate && ` · last done ${format(new Date(item.lastServiceDate), 'MMM d, yyyy')}`}
+                    {item.lastServiceKm !== null && ` at ${item.lastServiceKm.toLocaleString()} km`}
+                  </p>
+                </div>
+                {getStatusBadge(item.status)}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
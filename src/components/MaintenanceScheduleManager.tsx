@@ -0,0 +1,549 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
+import { Pencil, Trash2, Plus, Wrench } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface MaintenanceSchedule {
+  id: string;
+  name: string;
+  category_id: string;
+  vehicle_id: string | null;
+  make: string | null;
+  model: string | null;
+  interval_km: number | null;
+  interval_months: number | null;
+  is_active: boolean;
+  category_name?: string;
+  scope_label?: string;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface Vehicle {
+  id: string;
+  plate: string;
+  make: string | null;
+  model: string | null;
+}
+
+type Scope = 'fleet' | 'model' | 'vehicle';
+
+const EMPTY_FORM = {
+  name: '',
+  categoryId: '',
+  scope: 'fleet' as Scope,
+  vehicleId: '',
+  make: '',
+  model: '',
+  intervalKm: '',
+  intervalMonths: '',
+  isActive: true,
+};
+
+export function MaintenanceScheduleManager() {
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<MaintenanceSchedule | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [schedulesRes, categoriesRes, vehiclesRes] = await Promise.all([
+        supabase
+          .from('maintenance_schedules')
+          .select('*')
+          .order('name'),
+        supabase.from('expense_categories').select('*').order('name'),
+        supabase.from('vehicles').select('id, plate, make, model').order('plate'),
+      ]);
+
+      if (schedulesRes.error) throw schedulesRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (vehiclesRes.error) throw vehiclesRes.error;
+
+      setCategories(categoriesRes.data || []);
+      setVehicles(vehiclesRes.data || []);
+
+      // Enrich schedules with category name and a readable scope
+      const enrichedSchedules = (schedulesRes.data || []).map(schedule => {
+        const vehicle = vehiclesRes.data?.find(v => v.id === schedule.vehicle_id);
+        return {
+          ...schedule,
+          category_name: categoriesRes.data?.find(c => c.id === schedule.category_id)?.name || 'Unknown',
+          scope_label: schedule.vehicle_id
+            ? vehicle ? `${vehicle.plate}${vehicle.make ? ` (${vehicle.make} ${vehicle.model || ''})` : ''}` : 'Unknown vehicle'
+            : schedule.make || schedule.model
+              ? `${schedule.make || ''} ${schedule.model || ''}`.trim()
+              : 'All Vehicles',
+        };
+      });
+
+      setSchedules(enrichedSchedules);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load maintenance schedules',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleOpenDialog = (schedule?: MaintenanceSchedule) => {
+    if (schedule) {
+      setEditingSchedule(schedule);
+      setFormData({
+        name: schedule.name,
+        categoryId: schedule.category_id,
+        scope: schedule.vehicle_id ? 'vehicle' : schedule.make || schedule.model ? 'model' : 'fleet',
+        vehicleId: schedule.vehicle_id || '',
+        make: schedule.make || '',
+        model: schedule.model || '',
+        intervalKm: schedule.interval_km?.toString() || '',
+        intervalMonths: schedule.interval_months?.toString() || '',
+        isActive: schedule.is_active,
+      });
+    } else {
+      setEditingSchedule(null);
+      setFormData(EMPTY_FORM);
+    }
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim() || !formData.categoryId) {
+      toast({
+        title: 'Error',
+        description: 'Please fill in all required fields',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const intervalKm = formData.intervalKm ? parseInt(formData.intervalKm) : null;
+    const intervalMonths = formData.intervalMonths ? parseInt(formData.intervalMonths) : null;
+    if ((!intervalKm || intervalKm <= 0) && (!intervalMonths || intervalMonths <= 0)) {
+      toast({
+        title: 'Error',
+        description: 'Enter a km interval, a month interval, or both',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (formData.scope === 'vehicle' && !formData.vehicleId) {
+      toast({
+        title: 'Error',
+        description: 'Please select a vehicle',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (formData.scope === 'model' && !formData.make.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a make',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const payload = {
+        name: formData.name.trim(),
+        category_id: formData.categoryId,
+        vehicle_id: formData.scope === 'vehicle' ? formData.vehicleId : null,
+        make: formData.scope === 'model' ? formData.make.trim() : null,
+        model: formData.scope === 'model' && formData.model.trim() ? formData.model.trim() : null,
+        interval_km: intervalKm && intervalKm > 0 ? intervalKm : null,
+        interval_months: intervalMonths && intervalMonths > 0 ? intervalMonths : null,
+        is_active: formData.isActive,
+      };
+
+      if (editingSchedule) {
+        const { error } = await supabase
+          .from('maintenance_schedules')
+          .update(payload)
+          .eq('id', editingSchedule.id);
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Maintenance schedule updated' });
+      } else {
+        const { error } = await supabase
+          .from('maintenance_schedules')
+          .insert({ ...payload, created_by: user?.id });
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Maintenance schedule created' });
+      }
+
+      setDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save schedule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('maintenance_schedules')
+        .delete()
+        .eq('id', scheduleId);
+
+      if (error) throw error;
+
+      toast({ title: 'Success', description: 'Maintenance schedule deleted' });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete schedule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleActive = async (schedule: MaintenanceSchedule) => {
+    try {
+      const { error } = await supabase
+        .from('maintenance_schedules')
+        .update({ is_active: !schedule.is_active })
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Schedule ${schedule.is_active ? 'disabled' : 'enabled'}`
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update schedule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const formatInterval = (schedule: MaintenanceSchedule) => {
+    const parts: string[] = [];
+    if (schedule.interval_km) parts.push(`${schedule.interval_km.toLocaleString()} km`);
+    if (schedule.interval_months) parts.push(`${schedule.interval_months} months`);
+    return parts.join(' or ');
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-center text-muted-foreground">Loading maintenance schedules...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wrench className="h-5 w-5" />
+              Maintenance Schedules
+            </CardTitle>
+            <CardDescription>
+              Service intervals by km or time. A service resets when an expense in its category is recorded for the vehicle.
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {schedules.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No maintenance schedules configured. Add one, e.g. "Oil change every 8,000 km or 6 months".
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Interval</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell className="font-medium">{schedule.name}</TableCell>
+                  <TableCell>{schedule.category_name}</TableCell>
+                  <TableCell>
+                    {schedule.vehicle_id || schedule.make || schedule.model ? (
+                      schedule.scope_label
+                    ) : (
+                      <Badge variant="secondary">All Vehicles</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>Every {formatInterval(schedule)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={schedule.is_active}
+                        onCheckedChange={() => handleToggleActive(schedule)}
+                      />
+                      <span className={schedule.is_active ? 'text-green-600' : 'text-muted-foreground'}>
+                        {schedule.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenDialog(schedule)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Maintenance Schedule</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete the "{schedule.name}" schedule?
+                              Vehicles will no longer be flagged when this service is due.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(schedule.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingSchedule ? 'Edit Maintenance Schedule' : 'Add Maintenance Schedule'}
+            </DialogTitle>
+            <DialogDescription>
+              The service is due when either interval is reached, whichever comes first.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Service Name *</Label>
+              <Input
+                id="schedule-name"
+                placeholder="e.g., Oil Change"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expense Category *</Label>
+              <Select
+                value={formData.categoryId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, categoryId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      {cat.name} ({cat.type})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Recording an expense in this category marks the service as done
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select
+                value={formData.scope}
+                onValueChange={(value: Scope) => setFormData(prev => ({ ...prev, scope: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fleet">All Vehicles</SelectItem>
+                  <SelectItem value="model">A Make / Model</SelectItem>
+                  <SelectItem value="vehicle">A Single Vehicle</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.scope === 'model' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-make">Make *</Label>
+                  <Input
+                    id="schedule-make"
+                    placeholder="e.g., Ford"
+                    value={formData.make}
+                    onChange={(e) => setFormData(prev => ({ ...prev, make: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-model">Model (optional)</Label>
+                  <Input
+                    id="schedule-model"
+                    placeholder="e.g., Transit"
+                    value={formData.model}
+                    onChange={(e) => setFormData(prev => ({ ...prev, model: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            {formData.scope === 'vehicle' && (
+              <div className="space-y-2">
+                <Label>Vehicle *</Label>
+                <Select
+                  value={formData.vehicleId}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, vehicleId: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select vehicle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>
+                        {vehicle.make} {vehicle.model} ({vehicle.plate})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-interval-km">Every (km)</Label>
+                <Input
+                  id="schedule-interval-km"
+                  type="number"
+                  step="1"
+                  min="0"
+                  placeholder="e.g., 8000"
+                  value={formData.intervalKm}
+                  onChange={(e) => setFormData(prev => ({ ...prev, intervalKm: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-interval-months">Every (months)</Label>
+                <Input
+                  id="schedule-interval-months"
+                  type="number"
+                  step="1"
+                  min="0"
+                  placeholder="e.g., 6"
+                  value={formData.intervalMonths}
+                  onChange={(e) => setFormData(prev => ({ ...prev, intervalMonths: e.target.value }))}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              More specific schedules override general ones for the same category: vehicle, then make/model, then all vehicles.
+            </p>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="schedule-active">Schedule is active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingSchedule ? 'Update Schedule' : 'Create Schedule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -16,6 +16,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { CheckCircle2, AlertCircle, Loader2, ZoomIn, FileText, FileSpreadsheet, Plus, Trash2, Split } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { TaxComponent } from '@/utils/taxRegimes';
 
 export interface ExpenseItem {
   id: string;
@@ -32,6 +33,8 @@ export interface ScannedMultiExpenseData {
   date?: string;
   subtotal?: number;
   tax_amount?: number;
+  /** Tax per component as printed on the invoice */
+  tax_components?: Partial<Record<TaxComponent, number>>;
   total?: number;
   expense_items: ExpenseItem[];
 }
@@ -273,7 +276,7 @@ export function MultiExpenseVerificationDialog({
                   <span className="ml-1 font-medium">${editedData.subtotal?.toFixed(2) || '0.00'}</span>
                 </div>
                 <div>
-                  <span className="text-muted-foreground">HST (13%):</span>
+                  <span className="text-muted-foreground">Tax:</span>
                   <span className="ml-1 font-medium">${editedData.tax_amount?.toFixed(2) || '0.00'}</span>
                 </div>
                 <div>
@@ -376,7 +379,7 @@ export function MultiExpenseVerificationDialog({
                           </div>
 
                           <div className="space-y-1">
-                            <Label className="text-xs">HST ($)</Label>
+                            <Label className="text-xs">Tax ($)</Label>
                             <Input
                               type="number"
                               step="0.01"
@@ -0,0 +1,212 @@
+import { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Gauge } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useOdometerReadings } from '@/hooks/useOdometerReadings';
+import { cn } from '@/lib/utils';
+import {
+  ODOMETER_ANOMALY_LABELS,
+  ODOMETER_SOURCE_LABELS,
+  OdometerSource,
+  deriveOdometerHistory,
+  detectOdometerAnomalies,
+  getOdometerSourceColor,
+} from '@/utils/odometerLedger';
+
+interface OdometerHistoryCardProps {
+  vehicleId: string;
+}
+
+const RECENT_READING_COUNT = 15;
+
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export function OdometerHistoryCard({ vehicleId }: OdometerHistoryCardProps) {
+  const { readings, loading, addReading, setExcluded } = useOdometerReadings(vehicleId);
+  const { isAdminOrManager } = useUserRole();
+  const { toast } = useToast();
+  const [readingDate, setReadingDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [odometerKm, setOdometerKm] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const history = useMemo(() => deriveOdometerHistory(readings), [readings]);
+  const anomalies = useMemo(() => detectOdometerAnomalies(readings), [readings]);
+  const chartData = useMemo(
+    () => history.map(point => ({ date: point.reading.reading_date, km: point.odometerKm })),
+    [history]
+  );
+  const recentReadings = useMemo(() => [...readings].reverse().slice(0, RECENT_READING_COUNT), [readings]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const km = parseInt(odometerKm, 10);
+    if (isNaN(km) || km < 0) return;
+
+    setSaving(true);
+    try {
+      await addReading(readingDate, km, notes.trim() || null);
+      setOdometerKm('');
+      setNotes('');
+      toast({ title: 'Success', description: 'Odometer reading added' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add odometer reading',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleExcluded = async (readingId: string, excluded: boolean) => {
+    try {
+      await setExcluded(readingId, excluded);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update odometer reading',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-primary" />
+          Odometer History
+          {anomalies.length > 0 && (
+            <Badge variant="destructive" className="ml-1">
+              {anomalies.length} anomal{anomalies.length === 1 ? 'y' : 'ies'}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Readings from inspections, expenses, fuel receipts, GPS uploads and manual entries
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : readings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No odometer readings recorded yet</p>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-medium mb-3">Kilometers over Time</h4>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tickFormatter={(date: string) => format(toDate(date), 'MMM yy')} />
+                  <YAxis width={70} tickFormatter={(value: number) => value.toLocaleString()} />
+                  <Tooltip
+                    labelFormatter={(date: string) => format(toDate(date), 'MMM d, yyyy')}
+                    formatter={(value: number) => [`${value.toLocaleString()} km`, 'Odometer']}
+                  />
+                  <Line type="monotone" dataKey="km" stroke="hsl(var(--primary))" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Recent Readings</h4>
+              {recentReadings.map((reading) => {
+                const readingAnomalies = anomalies.filter(anomaly => anomaly.readingId === reading.id);
+                return (
+                  <div
+                    key={reading.id}
+                    className={cn(
+                      'p-2 rounded-lg text-sm',
+                      readingAnomalies.length > 0 ? 'border border-destructive/50 bg-destructive/5' : 'bg-muted/50',
+                      reading.excluded && 'opacity-60'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge className={getOdometerSourceColor(reading.source)}>
+                          {ODOMETER_SOURCE_LABELS[reading.source as OdometerSource] || reading.source}
+                        </Badge>
+                        <span>{format(toDate(reading.reading_date), 'MMM d, yyyy')}</span>
+                        {reading.excluded && <Badge variant="outline">Excluded</Badge>}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className={cn('font-medium', reading.excluded && 'line-through')}>
+                          {reading.odometer_km !== null
+                            ? `${reading.odometer_km.toLocaleString()} km`
+                            : `+${Math.round(Number(reading.distance_km)).toLocaleString()} km`}
+                        </span>
+                        {isAdminOrManager && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7"
+                            onClick={() => handleToggleExcluded(reading.id, !reading.excluded)}
+                          >
+                            {reading.excluded ? 'Include' : 'Exclude'}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {reading.notes && <p className="text-xs text-muted-foreground mt-1">{reading.notes}</p>}
+                    {readingAnomalies.map((anomaly) => (
+                      <p key={anomaly.type} className="flex items-center gap-1 text-xs text-destructive mt-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        {ODOMETER_ANOMALY_LABELS[anomaly.type]}: {anomaly.message}
+                      </p>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="grid sm:grid-cols-[10rem_10rem_1fr_auto] gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="odometer-reading-date" className="text-xs">Date</Label>
+            <Input
+              id="odometer-reading-date"
+              type="date"
+              value={readingDate}
+              onChange={(e) => setReadingDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="odometer-reading-km" className="text-xs">Odometer (km)</Label>
+            <Input
+              id="odometer-reading-km"
+              type="number"
+              min="0"
+              value={odometerKm}
+              onChange={(e) => setOdometerKm(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="odometer-reading-notes" className="text-xs">Notes</Label>
+            <Input
+              id="odometer-reading-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Read at tire change"
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Adding...' : 'Add Reading'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Circle, MoveUpRight, Undo2 } from 'lucide-react';
+import {
+  MarkupTool,
+  PhotoMark,
+  canvasToJpeg,
+  drawMark,
+  drawScaledImage,
+  loadImage,
+} from '@/utils/inspectionPhotos';
+
+interface PhotoAnnotatorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The photo to mark up */
+  photo: Blob | null;
+  /** Called with the photo and its marks flattened into a JPEG */
+  onSave: (annotated: Blob) => void;
+}
+
+export function PhotoAnnotator({ open, onOpenChange, photo, onSave }: PhotoAnnotatorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [tool, setTool] = useState<MarkupTool>('arrow');
+  const [marks, setMarks] = useState<PhotoMark[]>([]);
+  const [draft, setDraft] = useState<PhotoMark | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open || !photo) return;
+
+    setMarks([]);
+    setDraft(null);
+    setImage(null);
+    loadImage(photo).then(setImage);
+  }, [open, photo]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+
+    drawScaledImage(canvas, image);
+    [...marks, ...(draft ? [draft] : [])].forEach(mark => drawMark(ctx, mark));
+  }, [image, marks, draft]);
+
+  // Pointer position in canvas pixels; the canvas is displayed scaled to fit the dialog
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toCanvasPoint(e);
+    setDraft({ tool, x1: x, y1: y, x2: x, y2: y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const { x, y } = toCanvasPoint(e);
+    setDraft({ ...draft, x2: x, y2: y });
+  };
+
+  const handlePointerUp = () => {
+    // Ignore taps that did not drag out a shape
+    if (draft && Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) > 5) {
+      setMarks([...marks, draft]);
+    }
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!canvasRef.current) return;
+    setSaving(true);
+    try {
+      onSave(await canvasToJpeg(canvasRef.current));
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save photo',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Mark Up Photo</DialogTitle>
+          <DialogDescription>Drag on the photo to point out the damage</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant={tool === 'arrow' ? 'default' : 'outline'}
+            onClick={() => setTool('arrow')}
+          >
+            <MoveUpRight className="h-4 w-4 mr-1" />
+            Arrow
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={tool === 'circle' ? 'default' : 'outline'}
+            onClick={() => setTool('circle')}
+          >
+            <Circle className="h-4 w-4 mr-1" />
+            Circle
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="ml-auto"
+            disabled={marks.length === 0}
+            onClick={() => setMarks(marks.slice(0, -1))}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+        </div>
+
+        <div className="flex justify-center bg-muted rounded-lg overflow-hidden">
+          {image ? (
+            <canvas
+              ref={canvasRef}
+              className="max-h-[60vh] max-w-full touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDraft(null)}
+            />
+          ) : (
+            <p className="py-12 text-sm text-muted-foreground">Loading photo...</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving || !image || marks.length === 0}>
+            {saving ? 'Saving...' : 'Save Markup'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
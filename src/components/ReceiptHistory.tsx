@@ -27,6 +27,9 @@ import { EditExpenseDialog } from '@/components/EditExpenseDialog';
 import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
 import { useUserRole } from '@/hooks/useUserRole';
 import { useAuth } from '@/hooks/useAuth';
+import { RecordHistoryDrawer } from '@/components/RecordHistoryDrawer';
+import { DuplicateReviewDialog, PossibleDuplicateBadge } from '@/components/DuplicateReviewDialog';
+import { useDuplicateFlags } from '@/hooks/useDuplicateFlags';
 
 interface ExpenseDocument {
   id: string;
@@ -124,10 +127,12 @@ export function ReceiptHistory() {
   const [deleteExpense, setDeleteExpense] = useState<ReceiptExpense | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [duplicateReviewId, setDuplicateReviewId] = useState<string | null>(null);
 
   const { toast } = useToast();
   const { isAdmin } = useUserRole();
   const { user } = useAuth();
+  const { flagsByExpense, dismissFlag, mergeFlag } = useDuplicateFlags();
 
   useEffect(() => {
     fetchFilters();
@@ -615,7 +620,14 @@ export function ReceiptHistory() {
                       <Badge variant="secondary">No</Badge>
                     )}
                   </TableCell>
-                  <TableCell>{getStatusBadge(receipt.approval_status)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col items-start gap-1">
+                      {getStatusBadge(receipt.approval_status)}
+                      {flagsByExpense[receipt.id] && (
+                        <PossibleDuplicateBadge onClick={() => setDuplicateReviewId(receipt.id)} />
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell className="text-sm text-muted-foreground">
                     {receipt.created_by_profile?.full_name || receipt.created_by_profile?.email || '-'}
                   </TableCell>
@@ -640,6 +652,14 @@ export function ReceiptHistory() {
                       >
                         <Pencil className="h-4 w-4" />
                       </Button>
+                      {isAdmin && (
+                        <RecordHistoryDrawer
+                          tableName="expenses"
+                          recordId={receipt.id}
+                          title={`${receipt.vendor_name || 'Expense'} · ${formatCurrency(receipt.amount)} on ${format(new Date(receipt.date), 'MMM d, yyyy')}`}
+                          iconOnly
+                        />
+                      )}
                       {isAdmin && (
                         <Button
                           variant="ghost"
@@ -802,6 +822,14 @@ export function ReceiptHistory() {
         onExpenseUpdated={fetchReceipts}
       />
 
+      <DuplicateReviewDialog
+        flags={duplicateReviewId ? flagsByExpense[duplicateReviewId] || [] : []}
+        open={!!duplicateReviewId}
+        onOpenChange={(open) => !open && setDuplicateReviewId(null)}
+        onDismiss={dismissFlag}
+        onMerge={mergeFlag}
+      />
+
       {/* Delete Confirmation Dialog - Admin Only */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -15,17 +15,25 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CheckCircle2, AlertCircle, Loader2, ZoomIn, FileText, FileSpreadsheet, ChevronDown } from 'lucide-react';
+import { TaxComponent } from '@/utils/taxRegimes';
 
 export interface ScannedReceiptData {
   vendor_name?: string;
   vendor_address?: string;
   subtotal?: number;
   tax_amount?: number;
+  /** Tax per component as printed on the receipt */
+  tax_components?: Partial<Record<TaxComponent, number>>;
+  /** Set when the scanned tax does not match the branch's regime */
+  tax_warning?: string;
   total?: number;
   date?: string;
   description?: string;
   raw_text?: string;
   branch_id?: string;
+  litres?: number;
+  price_per_litre?: number;
+  odometer_reading?: number;
 }
 
 interface Branch {
@@ -43,6 +51,7 @@ interface ReceiptVerificationDialogProps {
   onCancel: () => void;
   branches?: Branch[];
   defaultBranchId?: string;
+  showFuelFields?: boolean;
 }
 
 export function ReceiptVerificationDialog({
@@ -55,6 +64,7 @@ export function ReceiptVerificationDialog({
   onCancel,
   branches = [],
   defaultBranchId,
+  showFuelFields = false,
 }: ReceiptVerificationDialogProps) {
   const [editedData, setEditedData] = useState<ScannedReceiptData>({});
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -263,7 +273,7 @@ export function ReceiptVerificationDialog({
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="verify-tax">HST ($)</Label>
+                <Label htmlFor="verify-tax">Tax ($)</Label>
                 <Input
                   id="verify-tax"
                   type="number"
@@ -304,6 +314,66 @@ export function ReceiptVerificationDialog({
               </div>
             </div>
 
+            {editedData.tax_warning && (
+              <p className="text-xs text-amber-600 flex items-center gap-1">
+                <AlertCircle className="h-3 w-3 shrink-0" />
+                {editedData.tax_warning}
+              </p>
+            )}
+
+            {showFuelFields && (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="verify-litres">Litres</Label>
+                  <Input
+                    id="verify-litres"
+                    type="number"
+                    step="0.001"
+                    value={editedData.litres || ''}
+                    onChange={(e) =>
+                      setEditedData({
+                        ...editedData,
+                        litres: e.target.value ? parseFloat(e.target.value) : undefined,
+                      })
+                    }
+                    placeholder="0.000"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="verify-price-per-litre">$/Litre</Label>
+                  <Input
+                    id="verify-price-per-litre"
+                    type="number"
+                    step="0.001"
+                    value={editedData.price_per_litre || ''}
+                    onChange={(e) =>
+                      setEditedData({
+                        ...editedData,
+                        price_per_litre: e.target.value ? parseFloat(e.target.value) : undefined,
+                      })
+                    }
+                    placeholder="0.000"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="verify-odometer">Odometer (km)</Label>
+                  <Input
+                    id="verify-odometer"
+                    type="number"
+                    step="1"
+                    value={editedData.odometer_reading || ''}
+                    onChange={(e) =>
+                      setEditedData({
+                        ...editedData,
+                        odometer_reading: e.target.value ? parseInt(e.target.value) : undefined,
+                      })
+                    }
+                    placeholder="km"
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="verify-date">
                 Date
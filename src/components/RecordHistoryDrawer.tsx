@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { History } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuditDiffTable } from '@/components/AuditDiffTable';
+import { ACTION_BADGE_VARIANTS } from '@/utils/auditDiff';
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  old_data: Json | null;
+  new_data: Json | null;
+  user_id: string | null;
+  created_at: string;
+  user_name?: string;
+}
+
+interface RecordHistoryDrawerProps {
+  tableName: string;
+  recordId: string;
+  title?: string;
+  iconOnly?: boolean;
+}
+
+export function RecordHistoryDrawer({ tableName, recordId, title, iconOnly = false }: RecordHistoryDrawerProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('audit_logs')
+        .select('id, action, old_data, new_data, user_id, created_at')
+        .eq('table_name', tableName)
+        .eq('record_id', recordId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Resolve user names for the people who made the changes
+      const userIds = [...new Set((data || []).map(e => e.user_id).filter(Boolean))] as string[];
+      let profilesMap: Record<string, string> = {};
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, full_name, email')
+          .in('id', userIds);
+        profilesMap = (profiles || []).reduce((acc, p) => {
+          acc[p.id] = p.full_name || p.email;
+          return acc;
+        }, {} as Record<string, string>);
+      }
+
+      setEntries((data || []).map(entry => ({
+        ...entry,
+        user_name: entry.user_id ? profilesMap[entry.user_id] || 'Unknown user' : 'System',
+      })));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load change history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tableName, recordId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      fetchHistory();
+    }
+  }, [open, fetchHistory]);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        {iconOnly ? (
+          <Button variant="ghost" size="sm" title="View history">
+            <History className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" className="gap-2">
+            <History className="h-4 w-4" />
+            History
+          </Button>
+        )}
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Change History</SheetTitle>
+          <SheetDescription>{title || 'All recorded changes to this record'}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {loading ? (
+            <p className="text-center text-muted-foreground py-8">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No changes recorded for this record</p>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-6">
+              {entries.map((entry) => (
+                <li key={entry.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <Badge variant={ACTION_BADGE_VARIANTS[entry.action] || 'secondary'}>{entry.action}</Badge>
+                    <span className="text-sm font-medium">{entry.user_name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                    </span>
+                  </div>
+                  <AuditDiffTable action={entry.action} oldData={entry.old_data} newData={entry.new_data} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WorkbookSheet } from '@/utils/xlsxParser';
+
+interface SheetSelectDialogProps {
+  open: boolean;
+  fileName: string;
+  sheets: WorkbookSheet[];
+  onSelect: (sheet: WorkbookSheet) => void;
+  onCancel: () => void;
+}
+
+export function SheetSelectDialog({ open, fileName, sheets, onSelect, onCancel }: SheetSelectDialogProps) {
+  const [sheetIndex, setSheetIndex] = useState('0');
+
+  useEffect(() => {
+    if (open) setSheetIndex('0');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Choose a Sheet</DialogTitle>
+          <DialogDescription>
+            {fileName} has {sheets.length} sheets. Select the one that contains the data to import.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Sheet</Label>
+          <Select value={sheetIndex} onValueChange={setSheetIndex}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map((sheet, index) => (
+                <SelectItem key={sheet.name} value={String(index)}>
+                  {sheet.name} ({sheet.rows.length} rows)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSelect(sheets[Number(sheetIndex)])} disabled={!sheets[Number(sheetIndex)]}>
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { TireSwap } from '@/hooks/useTireSets';
+import { TireSet, getCurrentMount, getTireTypeLabel } from '@/utils/tireSets';
+
+interface SwapVehicle {
+  id: string;
+  plate: string;
+  make: string | null;
+  model: string | null;
+  odometer_km: number;
+}
+
+interface SwapTireSetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicles: SwapVehicle[];
+  tireSets: TireSet[];
+  /** Preselected vehicle, when swapping from a vehicle */
+  vehicleId?: string;
+  /** Preselected set to put on, when mounting from the set */
+  mountSetId?: string;
+  onSwap: (swap: TireSwap) => Promise<void>;
+}
+
+const NO_SET = '__none__';
+
+const parseOptional = (value: string) => (value ? parseFloat(value) : null);
+
+export function SwapTireSetDialog({
+  open,
+  onOpenChange,
+  vehicles,
+  tireSets,
+  vehicleId,
+  mountSetId,
+  onSwap,
+}: SwapTireSetDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    vehicleId: '',
+    mountSetId: NO_SET,
+    changeDate: format(new Date(), 'yyyy-MM-dd'),
+    odometerKm: '',
+    mountTreadMm: '',
+    dismountTreadMm: '',
+    storageLocation: '',
+    notes: '',
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    setFormData({
+      vehicleId: vehicleId || '',
+      mountSetId: mountSetId || NO_SET,
+      changeDate: format(new Date(), 'yyyy-MM-dd'),
+      odometerKm: vehicle?.odometer_km.toString() || '',
+      mountTreadMm: '',
+      dismountTreadMm: '',
+      storageLocation: '',
+      notes: '',
+    });
+  }, [open, vehicleId, mountSetId, vehicles]);
+
+  const selectVehicle = (id: string) => {
+    const vehicle = vehicles.find(v => v.id === id);
+    setFormData(prev => ({ ...prev, vehicleId: id, odometerKm: vehicle?.odometer_km.toString() || '' }));
+  };
+
+  // The set on the vehicle now, which comes off
+  const currentSet = tireSets.find(set => getCurrentMount(set)?.vehicle_id === formData.vehicleId) || null;
+  // Sets in storage can go on
+  const availableSets = tireSets.filter(set => !set.retired_on && !getCurrentMount(set));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.vehicleId) return;
+
+    const mountSet = formData.mountSetId === NO_SET ? null : formData.mountSetId;
+    if (!mountSet && !currentSet) {
+      toast({
+        title: 'Error',
+        description: 'The vehicle has no tire set on to take off',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSwap({
+        vehicleId: formData.vehicleId,
+        changeDate: formData.changeDate,
+        odometerKm: parseInt(formData.odometerKm) || 0,
+        mountSetId: mountSet,
+        mountTreadMm: mountSet ? parseOptional(formData.mountTreadMm) : null,
+        dismountTreadMm: currentSet ? parseOptional(formData.dismountTreadMm) : null,
+        storageLocation: formData.storageLocation.trim() || null,
+        notes: formData.notes.trim() || null,
+      });
+
+      toast({
+        title: 'Success',
+        description: mountSet ? 'Tire swap recorded' : 'Tire set taken off',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record tire swap',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Swap Tire Sets</DialogTitle>
+          <DialogDescription>
+            Take the vehicle's set off into storage and put another on, with the odometer and tread depth of both
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="swap-vehicle">Vehicle *</Label>
+            <Select value={formData.vehicleId} onValueChange={selectVehicle}>
+              <SelectTrigger id="swap-vehicle">
+                <SelectValue placeholder="Select a vehicle" />
+              </SelectTrigger>
+              <SelectContent>
+                {vehicles.map((vehicle) => (
+                  <SelectItem key={vehicle.id} value={vehicle.id}>
+                    {vehicle.plate} - {vehicle.make} {vehicle.model}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="swap-date">Date *</Label>
+              <Input
+                id="swap-date"
+                type="date"
+                value={formData.changeDate}
+                onChange={(e) => setFormData({ ...formData, changeDate: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swap-odometer">Odometer (km) *</Label>
+              <Input
+                id="swap-odometer"
+                type="number"
+                min="0"
+                value={formData.odometerKm}
+                onChange={(e) => setFormData({ ...formData, odometerKm: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          {currentSet && (
+            <div className="p-3 border rounded-lg space-y-3">
+              <p className="text-sm font-medium">
+                Taking off: {currentSet.label}
+                <span className="text-muted-foreground font-normal">
+                  {' · '}{currentSet.brand} {currentSet.measurements} · {getTireTypeLabel(currentSet.tire_type)}
+                </span>
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="swap-dismount-tread">Tread Depth (mm)</Label>
+                  <Input
+                    id="swap-dismount-tread"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={formData.dismountTreadMm}
+                    onChange={(e) => setFormData({ ...formData, dismountTreadMm: e.target.value })}
+                    placeholder="Shallowest groove"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="swap-storage">Stored At</Label>
+                  <Input
+                    id="swap-storage"
+                    value={formData.storageLocation}
+                    onChange={(e) => setFormData({ ...formData, storageLocation: e.target.value })}
+                    placeholder={currentSet.storage_location || 'e.g., Main branch, rack 3'}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="p-3 border rounded-lg space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="swap-mount-set">Putting On</Label>
+              <Select value={formData.mountSetId} onValueChange={(value) => setFormData({ ...formData, mountSetId: value })}>
+                <SelectTrigger id="swap-mount-set">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SET}>Nothing (only take the set off)</SelectItem>
+                  {availableSets.map((set) => (
+                    <SelectItem key={set.id} value={set.id}>
+                      {set.label} - {set.brand} {set.measurements} ({getTireTypeLabel(set.tire_type)})
+                      {set.storage_location ? ` · ${set.storage_location}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.mountSetId !== NO_SET && (
+              <div className="space-y-2">
+                <Label htmlFor="swap-mount-tread">Tread Depth (mm)</Label>
+                <Input
+                  id="swap-mount-tread"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={formData.mountTreadMm}
+                  onChange={(e) => setFormData({ ...formData, mountTreadMm: e.target.value })}
+                  placeholder="Shallowest groove"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="swap-notes">Notes</Label>
+            <Textarea
+              id="swap-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !formData.vehicleId}>
+              {saving ? 'Saving...' : 'Record Swap'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
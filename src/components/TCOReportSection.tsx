@@ -0,0 +1,113 @@
+import { Link } from 'react-router-dom';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useVehicleTCO } from '@/hooks/useVehicleTCO';
+import { VehicleTCO, formatCostPerKm } from '@/utils/vehicleTco';
+import { getVehicleStatusLabel, isDisposedStatus } from '@/utils/vehicleStatus';
+
+interface TCOReportSectionProps {
+  branchId: string;
+  vehicleId: string;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function ReplaceVsKeepBadge({ item }: { item: VehicleTCO }) {
+  if (isDisposedStatus(item.vehicle.status)) {
+    return <Badge variant="secondary">{getVehicleStatusLabel(item.vehicle.status)}</Badge>;
+  }
+  if (item.runningCostPerKm === null) {
+    return <Badge variant="outline">No distance data</Badge>;
+  }
+  return item.replaceCandidate ? (
+    <Badge variant="outline" className="text-orange-600 border-orange-600">Consider replacing</Badge>
+  ) : (
+    <Badge variant="outline" className="text-green-600 border-green-600">Keep</Badge>
+  );
+}
+
+export function TCOReportSection({ branchId, vehicleId }: TCOReportSectionProps) {
+  const { items, fleetMedian, loading } = useVehicleTCO();
+
+  // Highest running cost per km first; vehicles without distance data last
+  const rankedItems = items
+    .filter(item => branchId === 'all' || item.vehicle.branch_id === branchId)
+    .filter(item => vehicleId === 'all' || item.vehicle.id === vehicleId)
+    .sort((a, b) => (b.runningCostPerKm ?? -1) - (a.runningCostPerKm ?? -1) || b.total - a.total);
+
+  if (loading) {
+    return <p className="text-center text-muted-foreground py-8">Loading cost of ownership...</p>;
+  }
+
+  if (rankedItems.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No vehicles to show</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Lifetime costs per vehicle, net of sale price for sold vehicles. Fleet median running cost (excluding acquisition):{' '}
+        <span className="font-medium text-foreground">{formatCostPerKm(fleetMedian)}</span>. Vehicles above the
+        median are flagged for replacement review.
+      </p>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Vehicle</TableHead>
+              <TableHead className="text-right">Acquisition</TableHead>
+              <TableHead className="text-right">Maintenance</TableHead>
+              <TableHead className="text-right">Repairs</TableHead>
+              <TableHead className="text-right">Fuel</TableHead>
+              <TableHead className="text-right">Tires</TableHead>
+              <TableHead className="text-right">Other</TableHead>
+              <TableHead className="text-right">Sale</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Distance</TableHead>
+              <TableHead className="text-right">Cost/km</TableHead>
+              <TableHead className="text-right">Running/km</TableHead>
+              <TableHead className="text-right">Cost/month</TableHead>
+              <TableHead>Indicator</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rankedItems.map((item, index) => (
+              <TableRow key={item.vehicle.id}>
+                <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                <TableCell>
+                  <Link to={`/vehicles/${item.vehicle.id}`} className="font-medium hover:underline">
+                    {item.vehicle.plate}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    {[item.vehicle.make, item.vehicle.model].filter(Boolean).join(' ')}
+                  </p>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costs.acquisition)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costs.maintenance)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costs.repairs)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costs.fuel)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costs.tires)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costs.other)}</TableCell>
+                <TableCell className="text-right">
+                  {item.saleProceeds > 0 ? `−${formatCurrency(item.saleProceeds)}` : '—'}
+                </TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(item.total)}</TableCell>
+                <TableCell className="text-right">
+                  {item.kilometers > 0 ? `${Math.round(item.kilometers).toLocaleString()} km` : '—'}
+                </TableCell>
+                <TableCell className="text-right">{formatCostPerKm(item.costPerKm)}</TableCell>
+                <TableCell className="text-right font-medium">{formatCostPerKm(item.runningCostPerKm)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.costPerMonth)}</TableCell>
+                <TableCell>
+                  <ReplaceVsKeepBadge item={item} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
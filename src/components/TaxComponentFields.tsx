@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertTriangle } from 'lucide-react';
+import {
+  BranchTaxSettings,
+  TAX_COMPONENT_LABELS,
+  TaxComponent,
+  TaxComponentValues,
+  checkTaxComponents,
+  describeTaxRegime,
+  getActiveTaxComponents,
+  getTaxRates,
+  getTaxRegime,
+  splitTax,
+  sumTaxComponents,
+} from '@/utils/taxRegimes';
+
+interface TaxComponentFieldsProps {
+  idPrefix: string;
+  branch: BranchTaxSettings | null | undefined;
+  subtotal: string;
+  taxAmount: string;
+  onTaxAmountChange: (taxAmount: string) => void;
+  values: TaxComponentValues;
+  onValuesChange: (values: TaxComponentValues) => void;
+  usInvoice: boolean;
+  onUsInvoiceChange: (usInvoice: boolean) => void;
+}
+
+/**
+ * Tax inputs for the components of the branch's regime. The components add up to the tax
+ * amount; without a branch a single tax amount is entered.
+ */
+export function TaxComponentFields({
+  idPrefix,
+  branch,
+  subtotal,
+  taxAmount,
+  onTaxAmountChange,
+  values,
+  onValuesChange,
+  usInvoice,
+  onUsInvoiceChange,
+}: TaxComponentFieldsProps) {
+  const components = useMemo(() => getActiveTaxComponents(branch, usInvoice), [branch, usInvoice]);
+  const componentsKey = components.join(',');
+  const rates = useMemo(() => (branch ? getTaxRates(branch) : null), [branch]);
+  const appliedKey = useRef<string | null>(null);
+
+  // Spread the tax already entered over the components when the regime changes
+  useEffect(() => {
+    if (appliedKey.current === componentsKey) return;
+    appliedKey.current = componentsKey;
+    if (!rates || components.length === 0) return;
+    const matches = components.every(component => values[component] !== undefined)
+      && Object.keys(values).every(component => components.includes(component as TaxComponent));
+    if (matches) return;
+    const tax = parseFloat(taxAmount) || 0;
+    onValuesChange(tax > 0 ? splitTax(tax, components, rates) : {});
+  }, [componentsKey, components, rates, values, taxAmount, onValuesChange]);
+
+  // The components add up to the tax amount
+  const handleComponentChange = (component: TaxComponent, value: string) => {
+    const next = { ...values, [component]: value };
+    onValuesChange(next);
+    const hasValues = components.some(c => next[c]);
+    onTaxAmountChange(hasValues ? sumTaxComponents(next, components).toFixed(2) : '');
+  };
+
+  const warning = rates ? checkTaxComponents(parseFloat(subtotal), values, components, rates) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${idPrefix}-${components[0] || 'tax'}`}>
+          Tax ($){branch && <span className="text-muted-foreground font-normal"> · {usInvoice ? TAX_COMPONENT_LABELS.us_sales_tax : describeTaxRegime(branch)}</span>}
+        </Label>
+        {branch && getTaxRegime(branch) !== 'us_sales_tax' && (
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox checked={usInvoice} onCheckedChange={(checked) => onUsInvoiceChange(checked === true)} />
+            US invoice
+          </label>
+        )}
+      </div>
+      {components.length === 0 ? (
+        <Input
+          id={`${idPrefix}-tax`}
+          type="number"
+          step="0.01"
+          min="0"
+          value={taxAmount}
+          onChange={(e) => onTaxAmountChange(e.target.value)}
+          placeholder="0.00"
+        />
+      ) : (
+        <div className={`grid gap-4 ${components.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {components.map((component) => (
+            <div key={component} className="space-y-1">
+              {components.length > 1 && (
+                <Label htmlFor={`${idPrefix}-${component}`} className="text-xs text-muted-foreground">
+                  {TAX_COMPONENT_LABELS[component]}
+                </Label>
+              )}
+              <Input
+                id={`${idPrefix}-${component}`}
+                type="number"
+                step="0.01"
+                min="0"
+                value={values[component] || ''}
+                onChange={(e) => handleComponentChange(component, e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {warning && (
+        <p className="text-xs text-amber-600 flex items-center gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          {warning}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { useTaxCredits } from '@/hooks/useTaxCredits';
+import { REPORT_INTERVAL_LABELS, ReportInterval } from '@/utils/reportTimeSeries';
+import { RECOVERABLE_TAX_COMPONENTS, TAX_COMPONENTS, TAX_COMPONENT_LABELS } from '@/utils/taxRegimes';
+
+interface TaxReportSectionProps {
+  branchId: string;
+  vehicleId: string;
+  startDate: Date | undefined;
+  endDate: Date | undefined;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPeriod = (period: string, interval: ReportInterval) =>
+  format(new Date(`${period}T00:00:00`), interval === 'quarter' ? "'Q'Q yyyy" : 'MMM yyyy');
+
+export function TaxReportSection({ branchId, vehicleId, startDate, endDate }: TaxReportSectionProps) {
+  const [interval, setReportInterval] = useState<ReportInterval>('month');
+  const { fiscalYearStart } = useFiscalYear();
+  const rangeStart = format(startDate || fiscalYearStart, 'yyyy-MM-dd');
+  const rangeEnd = endDate ? format(endDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
+  const { periods, loading } = useTaxCredits(rangeStart, rangeEnd, branchId, vehicleId, interval);
+
+  // Only the components some branch was charged in the range
+  const components = TAX_COMPONENTS.filter(component => periods.some(p => p.components[component] > 0));
+  const recoverableComponents = components.filter(component => RECOVERABLE_TAX_COMPONENTS.includes(component));
+  const otherComponents = components.filter(component => !RECOVERABLE_TAX_COMPONENTS.includes(component));
+
+  const totalFor = (component: (typeof components)[number]) =>
+    periods.reduce((sum, p) => sum + p.components[component], 0);
+  const totalRecoverable = periods.reduce((sum, p) => sum + p.recoverable, 0);
+  const totalNonRecoverable = periods.reduce((sum, p) => sum + p.nonRecoverable, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Tax paid on expenses and fuel receipts. GST, HST and QST can be claimed as input tax credits; PST and US sales
+          tax are part of the cost.
+        </p>
+        <Select value={interval} onValueChange={(value) => setReportInterval(value as ReportInterval)}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(REPORT_INTERVAL_LABELS) as ReportInterval[]).map((option) => (
+              <SelectItem key={option} value={option}>{REPORT_INTERVAL_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="text-center text-muted-foreground py-8">Loading tax credits...</p>
+      ) : periods.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No tax recorded in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                {recoverableComponents.map((component) => (
+                  <TableHead key={component} className="text-right">{TAX_COMPONENT_LABELS[component]}</TableHead>
+                ))}
+                <TableHead className="text-right">Input Tax Credits</TableHead>
+                {otherComponents.map((component) => (
+                  <TableHead key={component} className="text-right">{TAX_COMPONENT_LABELS[component]}</TableHead>
+                ))}
+                {otherComponents.length > 0 && <TableHead className="text-right">Non-recoverable</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map((period) => (
+                <TableRow key={period.period}>
+                  <TableCell className="font-medium">{formatPeriod(period.period, interval)}</TableCell>
+                  {recoverableComponents.map((component) => (
+                    <TableCell key={component} className="text-right">{formatCurrency(period.components[component])}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium text-green-600">{formatCurrency(period.recoverable)}</TableCell>
+                  {otherComponents.map((component) => (
+                    <TableCell key={component} className="text-right">{formatCurrency(period.components[component])}</TableCell>
+                  ))}
+                  {otherComponents.length > 0 && (
+                    <TableCell className="text-right font-medium">{formatCurrency(period.nonRecoverable)}</TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-semibold">Total</TableCell>
+                {recoverableComponents.map((component) => (
+                  <TableCell key={component} className="text-right font-semibold">{formatCurrency(totalFor(component))}</TableCell>
+                ))}
+                <TableCell className="text-right font-semibold text-green-600">{formatCurrency(totalRecoverable)}</TableCell>
+                {otherComponents.map((component) => (
+                  <TableCell key={component} className="text-right font-semibold">{formatCurrency(totalFor(component))}</TableCell>
+                ))}
+                {otherComponents.length > 0 && (
+                  <TableCell className="text-right font-semibold">{formatCurrency(totalNonRecoverable)}</TableCell>
+                )}
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
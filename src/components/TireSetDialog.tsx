@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { TireSetInput } from '@/hooks/useTireSets';
+import { TIRE_TYPE_LABELS, TireSet, TireType } from '@/utils/tireSets';
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+interface TireSetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branches: Branch[];
+  /** The set to edit; a new one is added when omitted */
+  tireSet?: TireSet | null;
+  onSave: (input: TireSetInput, tireSetId?: string) => Promise<void>;
+}
+
+const NO_BRANCH = '__none__';
+
+const emptyForm = () => ({
+  label: '',
+  brand: '',
+  model: '',
+  measurements: '',
+  tireType: 'summer' as TireType,
+  purchaseDate: '',
+  purchaseCost: '',
+  newTreadMm: '',
+  branchId: NO_BRANCH,
+  storageLocation: '',
+  notes: '',
+});
+
+export function TireSetDialog({ open, onOpenChange, branches, tireSet, onSave }: TireSetDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setFormData(tireSet
+      ? {
+          label: tireSet.label,
+          brand: tireSet.brand,
+          model: tireSet.model || '',
+          measurements: tireSet.measurements,
+          tireType: tireSet.tire_type as TireType,
+          purchaseDate: tireSet.purchase_date || '',
+          purchaseCost: tireSet.purchase_cost?.toString() || '',
+          newTreadMm: tireSet.new_tread_mm?.toString() || '',
+          branchId: tireSet.branch_id || NO_BRANCH,
+          storageLocation: tireSet.storage_location || '',
+          notes: tireSet.notes || '',
+        }
+      : emptyForm());
+  }, [open, tireSet]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave({
+        label: formData.label.trim(),
+        brand: formData.brand.trim(),
+        model: formData.model.trim() || null,
+        measurements: formData.measurements.trim(),
+        tire_type: formData.tireType,
+        purchase_date: formData.purchaseDate || null,
+        purchase_cost: formData.purchaseCost ? parseFloat(formData.purchaseCost) : null,
+        new_tread_mm: formData.newTreadMm ? parseFloat(formData.newTreadMm) : null,
+        branch_id: formData.branchId === NO_BRANCH ? null : formData.branchId,
+        storage_location: formData.storageLocation.trim() || null,
+        notes: formData.notes.trim() || null,
+      }, tireSet?.id);
+
+      toast({
+        title: 'Success',
+        description: tireSet ? 'Tire set updated' : 'Tire set added',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save tire set',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{tireSet ? 'Edit Tire Set' : 'New Tire Set'}</DialogTitle>
+          <DialogDescription>
+            One physical set of tires, followed across vehicles and seasons
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ts-label">Label *</Label>
+              <Input
+                id="ts-label"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                placeholder="e.g., W-014 or tag on the rims"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ts-type">Type *</Label>
+              <Select value={formData.tireType} onValueChange={(value) => setFormData({ ...formData, tireType: value as TireType })}>
+                <SelectTrigger id="ts-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TIRE_TYPE_LABELS) as TireType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{TIRE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ts-brand">Brand *</Label>
+              <Input
+                id="ts-brand"
+                value={formData.brand}
+                onChange={(e) => setFormData({ ...formData, brand: e.target.value })}
+                placeholder="e.g., Michelin"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ts-model">Model</Label>
+              <Input
+                id="ts-model"
+                value={formData.model}
+                onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                placeholder="e.g., X-Ice Snow"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ts-size">Size *</Label>
+              <Input
+                id="ts-size"
+                value={formData.measurements}
+                onChange={(e) => setFormData({ ...formData, measurements: e.target.value })}
+                placeholder="e.g., 225/65R17"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ts-purchased">Purchase Date</Label>
+              <Input
+                id="ts-purchased"
+                type="date"
+                value={formData.purchaseDate}
+                onChange={(e) => setFormData({ ...formData, purchaseDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ts-cost">Cost ($)</Label>
+              <Input
+                id="ts-cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.purchaseCost}
+                onChange={(e) => setFormData({ ...formData, purchaseCost: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ts-tread">New Tread (mm)</Label>
+              <Input
+                id="ts-tread"
+                type="number"
+                step="0.1"
+                min="0"
+                value={formData.newTreadMm}
+                onChange={(e) => setFormData({ ...formData, newTreadMm: e.target.value })}
+                placeholder="e.g., 10"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ts-branch">Branch</Label>
+              <Select value={formData.branchId} onValueChange={(value) => setFormData({ ...formData, branchId: value })}>
+                <SelectTrigger id="ts-branch">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BRANCH}>No branch</SelectItem>
+                  {branches.map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ts-storage">Storage Location</Label>
+              <Input
+                id="ts-storage"
+                value={formData.storageLocation}
+                onChange={(e) => setFormData({ ...formData, storageLocation: e.target.value })}
+                placeholder="Where the set is kept off the vehicle"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ts-notes">Notes</Label>
+            <Textarea
+              id="ts-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : tireSet ? 'Save Changes' : 'Add Tire Set'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
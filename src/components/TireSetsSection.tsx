@@ -0,0 +1,333 @@
+import { Fragment, useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeftRight, ChevronDown, ChevronRight, Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useTireSets } from '@/hooks/useTireSets';
+import { TireSetDialog } from '@/components/TireSetDialog';
+import { SwapTireSetDialog } from '@/components/SwapTireSetDialog';
+import { TireSet, computeTireSetStats, getTireTypeLabel, summarizeCostPerKmByBrand } from '@/utils/tireSets';
+
+interface Branch {
+  id: string;
+  name: string;
+}
+
+interface TireSetVehicle {
+  id: string;
+  plate: string;
+  make: string | null;
+  model: string | null;
+  odometer_km: number;
+}
+
+interface TireSetsSectionProps {
+  branches: Branch[];
+  vehicles: TireSetVehicle[];
+}
+
+// Predicted replacements this close are highlighted
+const REPLACEMENT_WARNING_DAYS = 60;
+
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+const formatCostPerKm = (value: number | null) => (value === null ? '—' : `$${value.toFixed(3)}`);
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+};
+
+export function TireSetsSection({ branches, vehicles }: TireSetsSectionProps) {
+  const { tireSets, loading, saveTireSet, swapTireSets, retireTireSet } = useTireSets();
+  const { isAdminOrManager } = useUserRole();
+  const { toast } = useToast();
+  const [expandedSets, setExpandedSets] = useState<Set<string>>(new Set());
+  const [editingSet, setEditingSet] = useState<TireSet | null>(null);
+  const [setDialogOpen, setSetDialogOpen] = useState(false);
+  const [swapDialogOpen, setSwapDialogOpen] = useState(false);
+  const [swapTarget, setSwapTarget] = useState<{ vehicleId?: string; mountSetId?: string }>({});
+
+  const rows = useMemo(
+    () => tireSets
+      .map(set => ({ set, stats: computeTireSetStats(set) }))
+      // Sets in use first, retired ones last
+      .sort((a, b) => Number(!!a.set.retired_on) - Number(!!b.set.retired_on) || a.set.label.localeCompare(b.set.label)),
+    [tireSets]
+  );
+  const brands = useMemo(() => summarizeCostPerKmByBrand(tireSets), [tireSets]);
+
+  const toggleSet = (setId: string) => {
+    setExpandedSets(prev => {
+      const next = new Set(prev);
+      if (next.has(setId)) {
+        next.delete(setId);
+      } else {
+        next.add(setId);
+      }
+      return next;
+    });
+  };
+
+  const openSetDialog = (set: TireSet | null) => {
+    setEditingSet(set);
+    setSetDialogOpen(true);
+  };
+
+  const openSwapDialog = (target: { vehicleId?: string; mountSetId?: string }) => {
+    setSwapTarget(target);
+    setSwapDialogOpen(true);
+  };
+
+  const handleRetire = async (set: TireSet) => {
+    const retiring = !set.retired_on;
+    if (retiring && !confirm(`Retire tire set ${set.label}? It can no longer be put on a vehicle.`)) return;
+
+    try {
+      await retireTireSet(set.id, retiring ? format(new Date(), 'yyyy-MM-dd') : null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update tire set',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle>Tire Sets</CardTitle>
+            <CardDescription>Each set with the km driven on it, cost per km and when it will need replacing</CardDescription>
+          </div>
+          {isAdminOrManager && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => openSwapDialog({})}>
+                <ArrowLeftRight className="h-4 w-4 mr-1" />
+                Swap Tires
+              </Button>
+              <Button size="sm" onClick={() => openSetDialog(null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Set
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Set</TableHead>
+                    <TableHead>Where</TableHead>
+                    <TableHead className="text-right">Km Driven</TableHead>
+                    <TableHead className="text-right">Cost / km</TableHead>
+                    <TableHead className="text-right">Tread</TableHead>
+                    <TableHead>Replace By</TableHead>
+                    {isAdminOrManager && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={isAdminOrManager ? 7 : 6} className="text-center text-muted-foreground py-8">
+                        No tire sets recorded yet
+                      </TableCell>
+                    </TableRow>
+                  ) : rows.map(({ set, stats }) => {
+                    const isExpanded = expandedSets.has(set.id);
+                    const daysToReplacement = stats.predictedReplacementDate
+                      ? differenceInCalendarDays(toDate(stats.predictedReplacementDate), new Date())
+                      : null;
+                    return (
+                      <Fragment key={set.id}>
+                        <TableRow className={set.retired_on ? 'opacity-60' : undefined}>
+                          <TableCell>
+                            <button
+                              type="button"
+                              className="flex items-start gap-2 text-left"
+                              onClick={() => toggleSet(set.id)}
+                            >
+                              {isExpanded ? <ChevronDown className="h-4 w-4 mt-0.5" /> : <ChevronRight className="h-4 w-4 mt-0.5" />}
+                              <div>
+                                <p className="font-medium">{set.label}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {[set.brand, set.model].filter(Boolean).join(' ')} · {set.measurements} · {getTireTypeLabel(set.tire_type)}
+                                </p>
+                              </div>
+                            </button>
+                          </TableCell>
+                          <TableCell>
+                            {set.retired_on ? (
+                              <Badge variant="outline">Retired {format(toDate(set.retired_on), 'MMM yyyy')}</Badge>
+                            ) : stats.currentMount ? (
+                              <Link to={`/vehicles/${stats.currentMount.vehicle_id}`} className="hover:underline">
+                                <Badge className="bg-green-500">On {stats.currentMount.vehicles?.plate}</Badge>
+                              </Link>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">{set.storage_location || 'In storage'}</span>
+                            )}
+                            {set.branches && <p className="text-xs text-muted-foreground">{set.branches.name}</p>}
+                          </TableCell>
+                          <TableCell className="text-right">{stats.kmDriven > 0 ? stats.kmDriven.toLocaleString() : '—'}</TableCell>
+                          <TableCell className="text-right">{formatCostPerKm(stats.costPerKm)}</TableCell>
+                          <TableCell className="text-right">
+                            {stats.latestTreadMm !== null ? `${stats.latestTreadMm} mm` : '—'}
+                            {stats.wearPer1000Km !== null && (
+                              <p className="text-xs text-muted-foreground">{stats.wearPer1000Km.toFixed(2)} mm / 1,000 km</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {stats.predictedReplacementDate ? (
+                              <span className={daysToReplacement !== null && daysToReplacement <= REPLACEMENT_WARNING_DAYS ? 'text-destructive font-medium' : undefined}>
+                                {daysToReplacement !== null && daysToReplacement <= 0
+                                  ? 'Now'
+                                  : format(toDate(stats.predictedReplacementDate), 'MMM yyyy')}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                          {isAdminOrManager && (
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                {!set.retired_on && (
+                                  stats.currentMount ? (
+                                    <Button size="sm" variant="ghost" onClick={() => openSwapDialog({ vehicleId: stats.currentMount?.vehicle_id })}>
+                                      Swap
+                                    </Button>
+                                  ) : (
+                                    <Button size="sm" variant="ghost" onClick={() => openSwapDialog({ mountSetId: set.id })}>
+                                      Mount
+                                    </Button>
+                                  )
+                                )}
+                                {!stats.currentMount && (
+                                  <Button size="sm" variant="ghost" onClick={() => handleRetire(set)}>
+                                    {set.retired_on ? 'Reinstate' : 'Retire'}
+                                  </Button>
+                                )}
+                                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openSetDialog(set)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow>
+                            <TableCell colSpan={isAdminOrManager ? 7 : 6} className="bg-muted/20">
+                              <div className="space-y-1 text-sm">
+                                {set.purchase_date || set.purchase_cost !== null ? (
+                                  <p className="text-muted-foreground">
+                                    Bought
+                                    {set.purchase_date && ` ${format(toDate(set.purchase_date), 'MMM d, yyyy')}`}
+                                    {set.purchase_cost !== null && ` for ${formatCurrency(Number(set.purchase_cost))}`}
+                                    {set.new_tread_mm !== null && ` with ${set.new_tread_mm} mm of tread`}
+                                  </p>
+                                ) : null}
+                                {set.mounts.length === 0 ? (
+                                  <p className="text-muted-foreground">Never mounted</p>
+                                ) : set.mounts.map((mount) => (
+                                  <div key={mount.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 p-2 rounded bg-background border">
+                                    <span className="font-medium">{mount.vehicles?.plate}</span>
+                                    <span>
+                                      {format(toDate(mount.mounted_on), 'MMM d, yyyy')}
+                                      {' – '}
+                                      {mount.dismounted_on ? format(toDate(mount.dismounted_on), 'MMM d, yyyy') : 'now'}
+                                    </span>
+                                    <span className="text-muted-foreground">
+                                      {mount.mount_odometer_km !== null ? `${mount.mount_odometer_km.toLocaleString()} km` : '?'}
+                                      {' → '}
+                                      {mount.dismounted_on
+                                        ? mount.dismount_odometer_km !== null ? `${mount.dismount_odometer_km.toLocaleString()} km` : '?'
+                                        : `${mount.vehicles?.odometer_km.toLocaleString() ?? '?'} km`}
+                                    </span>
+                                    {(mount.mount_tread_mm !== null || mount.dismount_tread_mm !== null) && (
+                                      <span className="text-muted-foreground">
+                                        Tread {mount.mount_tread_mm ?? '?'} → {mount.dismount_tread_mm ?? (mount.dismounted_on ? '?' : '…')} mm
+                                      </span>
+                                    )}
+                                    {mount.notes && <span className="text-xs text-muted-foreground">{mount.notes}</span>}
+                                  </div>
+                                ))}
+                                {set.notes && <p className="text-xs text-muted-foreground">{set.notes}</p>}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {brands.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cost per km by Brand</CardTitle>
+            <CardDescription>Purchase cost over the km driven, for sets with both recorded</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Brand</TableHead>
+                  <TableHead className="text-right">Sets</TableHead>
+                  <TableHead className="text-right">Total Cost</TableHead>
+                  <TableHead className="text-right">Km Driven</TableHead>
+                  <TableHead className="text-right">Cost / km</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {brands.map((brand) => (
+                  <TableRow key={brand.brand}>
+                    <TableCell className="font-medium">{brand.brand}</TableCell>
+                    <TableCell className="text-right">{brand.sets}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(brand.totalCost)}</TableCell>
+                    <TableCell className="text-right">{brand.kmDriven.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatCostPerKm(brand.costPerKm)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <TireSetDialog
+        open={setDialogOpen}
+        onOpenChange={setSetDialogOpen}
+        branches={branches}
+        tireSet={editingSet}
+        onSave={saveTireSet}
+      />
+
+      <SwapTireSetDialog
+        open={swapDialogOpen}
+        onOpenChange={setSwapDialogOpen}
+        vehicles={vehicles}
+        tireSets={tireSets}
+        vehicleId={swapTarget.vehicleId}
+        mountSetId={swapTarget.mountSetId}
+        onSwap={swapTireSets}
+      />
+    </div>
+  );
+}
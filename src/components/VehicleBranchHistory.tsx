@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
+import { Building2 } from 'lucide-react';
+
+interface BranchHistoryEntry {
+  id: string;
+  effective_date: string;
+  branches: { name: string } | null;
+}
+
+interface VehicleBranchHistoryProps {
+  vehicleId: string;
+}
+
+export function VehicleBranchHistory({ vehicleId }: VehicleBranchHistoryProps) {
+  const [entries, setEntries] = useState<BranchHistoryEntry[]>([]);
+
+  const fetchHistory = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('vehicle_branch_history')
+      .select('id, effective_date, branches!vehicle_branch_history_branch_id_fkey (name)')
+      .eq('vehicle_id', vehicleId)
+      .order('effective_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching vehicle branch history:', error);
+      return;
+    }
+    setEntries(data || []);
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchHistory();
+
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchHistory);
+    return () => window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchHistory);
+  }, [fetchHistory]);
+
+  if (entries.length < 2) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5 text-primary" />
+          Branch History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {entries.map((entry, index) => {
+            // Entries are newest first, so the previous array item is when the vehicle left this branch
+            const endedOn = index > 0 ? entries[index - 1].effective_date : null;
+            const days = differenceInCalendarDays(
+              endedOn ? new Date(`${endedOn}T00:00:00`) : new Date(),
+              new Date(`${entry.effective_date}T00:00:00`)
+            );
+            return (
+              <div key={entry.id} className="flex items-center justify-between p-2 rounded-lg bg-muted/50 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">{entry.branches?.name || 'Unassigned'}</span>
+                  <span className="text-muted-foreground">
+                    {format(new Date(`${entry.effective_date}T00:00:00`), 'MMM d, yyyy')}
+                    {endedOn && ` – ${format(new Date(`${endedOn}T00:00:00`), 'MMM d, yyyy')}`}
+                  </span>
+                </div>
+                <span className="text-muted-foreground">
+                  {days} day{days === 1 ? '' : 's'}{endedOn ? '' : ' so far'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
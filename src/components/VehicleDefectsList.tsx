@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle, ShieldAlert } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { DefectUpdate, VehicleDefect, useVehicleDefects } from '@/hooks/useVehicleDefects';
+import {
+  DEFECT_RESOLUTION_LABELS,
+  DEFECT_SEVERITIES,
+  DEFECT_SEVERITY_LABELS,
+  DefectSeverity,
+  getDefectLabel,
+  getDefectSeverityColor,
+  isRoadworthy,
+} from '@/utils/vehicleDefects';
+
+interface RepairExpense {
+  id: string;
+  amount: number;
+  date: string;
+  vendor_name: string | null;
+  description: string | null;
+}
+
+interface Profile {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+interface VehicleDefectsListProps {
+  vehicleId: string;
+  /** Expenses of this vehicle that can be linked as the repair */
+  repairExpenses: RepairExpense[];
+}
+
+const UNASSIGNED = '__unassigned__';
+const NO_EXPENSE = '__none__';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+};
+
+export function VehicleDefectsList({ vehicleId, repairExpenses }: VehicleDefectsListProps) {
+  const { defects, loading, updateDefect, closeDefect } = useVehicleDefects(vehicleId);
+  const { isAdminOrManager } = useUserRole();
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('id, email, full_name')
+      .eq('is_approved', true)
+      .order('email')
+      .then(({ data }) => setProfiles(data || []));
+  }, []);
+
+  const openDefects = defects.filter(defect => defect.status === 'open');
+  const closedDefects = defects.filter(defect => defect.status === 'closed');
+  const roadworthy = isRoadworthy(openDefects);
+
+  const handleUpdate = async (defect: VehicleDefect, updates: DefectUpdate) => {
+    try {
+      await updateDefect(defect.id, updates);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update defect',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleClose = async (defect: VehicleDefect) => {
+    if (!confirm(`Close the ${getDefectLabel(defect).toLowerCase()} defect without a repair or passing inspection?`)) return;
+    try {
+      await closeDefect(defect.id);
+      toast({ title: 'Success', description: 'Defect closed' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to close defect',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!loading && defects.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5" />
+          Defects
+          {openDefects.length > 0 && (
+            <Badge variant="destructive" className="ml-1">{openDefects.length} outstanding</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Opened from failed inspection items; closed when the repair expense is approved or a later inspection passes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            {!roadworthy && (
+              <div className="flex items-center gap-2 p-3 rounded-lg border border-destructive bg-destructive/10 text-destructive">
+                <ShieldAlert className="h-5 w-5 shrink-0" />
+                <p className="text-sm font-medium">
+                  Not roadworthy: this vehicle has open safety-critical defects and should not be driven until they are repaired
+                </p>
+              </div>
+            )}
+
+            {openDefects.map((defect) => {
+              const overdue = defect.due_date !== null && isBefore(new Date(`${defect.due_date}T00:00:00`), startOfDay(new Date()));
+
+              return (
+                <div key={defect.id} className="p-3 rounded-lg border space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium">{getDefectLabel(defect)}</p>
+                      {defect.notes && <p className="text-sm text-muted-foreground">{defect.notes}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {defect.inspection
+                          ? `Failed inspection on ${format(new Date(defect.inspection.inspection_date), 'MMM d, yyyy')}`
+                          : `Opened ${format(new Date(defect.created_at), 'MMM d, yyyy')}`}
+                        {defect.due_date && (
+                          <span className={overdue ? 'text-destructive font-medium' : ''}>
+                            {' · '}{overdue ? 'overdue since' : 'due'} {format(new Date(`${defect.due_date}T00:00:00`), 'MMM d, yyyy')}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge className={getDefectSeverityColor(defect.severity)}>
+                        {DEFECT_SEVERITY_LABELS[defect.severity]}
+                      </Badge>
+                      {isAdminOrManager && (
+                        <Button variant="outline" size="sm" onClick={() => handleClose(defect)}>
+                          Close
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Severity</Label>
+                      <Select
+                        value={defect.severity}
+                        onValueChange={(value) => handleUpdate(defect, { severity: value as DefectSeverity })}
+                        disabled={!isAdminOrManager}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DEFECT_SEVERITIES.map((severity) => (
+                            <SelectItem key={severity} value={severity}>{DEFECT_SEVERITY_LABELS[severity]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Assigned To</Label>
+                      <Select
+                        value={defect.assigned_to || UNASSIGNED}
+                        onValueChange={(value) => handleUpdate(defect, { assigned_to: value === UNASSIGNED ? null : value })}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {defect.assigned_to && !profiles.some(p => p.id === defect.assigned_to) && (
+                            <SelectItem value={defect.assigned_to}>
+                              {defect.assignee?.full_name || defect.assignee?.email || 'Unknown user'}
+                            </SelectItem>
+                          )}
+                          {profiles.map((profile) => (
+                            <SelectItem key={profile.id} value={profile.id}>{profile.full_name || profile.email}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Due Date</Label>
+                      <Input
+                        type="date"
+                        className="h-8 text-sm"
+                        value={defect.due_date || ''}
+                        onChange={(e) => handleUpdate(defect, { due_date: e.target.value || null })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Repair Expense</Label>
+                      <Select
+                        value={defect.repair_expense_id || NO_EXPENSE}
+                        onValueChange={(value) => handleUpdate(defect, { repair_expense_id: value === NO_EXPENSE ? null : value })}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_EXPENSE}>None linked</SelectItem>
+                          {repairExpenses.map((exp) => (
+                            <SelectItem key={exp.id} value={exp.id}>
+                              {format(new Date(exp.date), 'MMM d, yyyy')} · {exp.vendor_name || exp.description || 'Expense'} · {formatCurrency(Number(exp.amount))}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {defect.repair_expense && (
+                        <p className="text-xs text-muted-foreground">Closes when this expense is approved</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {openDefects.length === 0 && (
+              <p className="text-sm text-muted-foreground">No outstanding defects</p>
+            )}
+
+            {closedDefects.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Recently Closed</h4>
+                {closedDefects.map((defect) => (
+                  <div key={defect.id} className="flex items-center justify-between gap-4 text-sm p-2 rounded bg-muted/50">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />
+                      <span className="truncate">
+                        {getDefectLabel(defect)}
+                        <span className="text-muted-foreground">
+                          {' · '}{DEFECT_RESOLUTION_LABELS[defect.resolution || 'manual'] || defect.resolution}
+                        </span>
+                      </span>
+                    </span>
+                    {defect.closed_at && (
+                      <span className="text-muted-foreground shrink-0">{format(new Date(defect.closed_at), 'MMM d, yyyy')}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
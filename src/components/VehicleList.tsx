@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useUserRole } from '@/hooks/useUserRole';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { getVehicleStatusColor, getVehicleStatusLabel } from '@/utils/vehicleStatus';
 import { MapPin, Gauge } from 'lucide-react';
 import { AddVehicleDialog } from './AddVehicleDialog';
 import { AddVehiclePurchaseDialog } from './AddVehiclePurchaseDialog';
@@ -47,18 +48,6 @@ export function VehicleList() {
     setLoading(false);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'active':
-        return 'bg-secondary text-secondary-foreground';
-      case 'maintenance':
-        return 'bg-accent text-accent-foreground';
-      case 'retired':
-        return 'bg-muted text-muted-foreground';
-      default:
-        return 'bg-muted';
-    }
-  };
 
   if (loading) {
     return (
@@ -104,8 +93,8 @@ export function VehicleList() {
                     VIN: {vehicle.vin}
                   </CardDescription>
                 </div>
-                <Badge className={getStatusColor(vehicle.status)}>
-                  {vehicle.status}
+                <Badge className={getVehicleStatusColor(vehicle.status)}>
+                  {getVehicleStatusLabel(vehicle.status)}
                 </Badge>
               </div>
             </CardHeader>
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
+import { getVehicleStatusColor, getVehicleStatusLabel } from '@/utils/vehicleStatus';
+import { History } from 'lucide-react';
+
+interface StatusHistoryEntry {
+  id: string;
+  status: string;
+  effective_date: string;
+}
+
+interface VehicleStatusHistoryProps {
+  vehicleId: string;
+}
+
+export function VehicleStatusHistory({ vehicleId }: VehicleStatusHistoryProps) {
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+
+  const fetchHistory = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('vehicle_status_history')
+      .select('id, status, effective_date')
+      .eq('vehicle_id', vehicleId)
+      .order('effective_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching vehicle status history:', error);
+      return;
+    }
+    setEntries(data || []);
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchHistory();
+
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchHistory);
+    return () => window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchHistory);
+  }, [fetchHistory]);
+
+  if (entries.length < 2) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Status History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {entries.map((entry, index) => {
+            // Entries are newest first, so the previous array item is when this status ended
+            const endedOn = index > 0 ? entries[index - 1].effective_date : null;
+            const days = differenceInCalendarDays(
+              endedOn ? new Date(`${endedOn}T00:00:00`) : new Date(),
+              new Date(`${entry.effective_date}T00:00:00`)
+            );
+            return (
+              <div key={entry.id} className="flex items-center justify-between p-2 rounded-lg bg-muted/50 text-sm">
+                <div className="flex items-center gap-3">
+                  <Badge className={getVehicleStatusColor(entry.status)}>{getVehicleStatusLabel(entry.status)}</Badge>
+                  <span>{format(new Date(`${entry.effective_date}T00:00:00`), 'MMM d, yyyy')}</span>
+                </div>
+                <span className="text-muted-foreground">
+                  {days} day{days === 1 ? '' : 's'}{endedOn ? '' : ' so far'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VEHICLE_STATUSES, VEHICLE_STATUS_LABELS, VehicleStatus } from '@/utils/vehicleStatus';
+
+interface VehicleStatusSelectProps {
+  id?: string;
+  value: VehicleStatus;
+  onValueChange: (status: VehicleStatus) => void;
+  /** Statuses to offer, all of them by default */
+  statuses?: VehicleStatus[];
+}
+
+export function VehicleStatusSelect({ id, value, onValueChange, statuses = VEHICLE_STATUSES }: VehicleStatusSelectProps) {
+  return (
+    <Select value={value} onValueChange={(status) => onValueChange(status as VehicleStatus)}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {statuses.map((status) => (
+          <SelectItem key={status} value={status}>
+            {VEHICLE_STATUS_LABELS[status]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
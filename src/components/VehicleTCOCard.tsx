@@ -0,0 +1,78 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Scale } from 'lucide-react';
+import { useVehicleTCO } from '@/hooks/useVehicleTCO';
+import { ReplaceVsKeepBadge } from '@/components/TCOReportSection';
+import { COST_BUCKETS, COST_BUCKET_LABELS, formatCostPerKm } from '@/utils/vehicleTco';
+
+interface VehicleTCOCardProps {
+  vehicleId: string;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function VehicleTCOCard({ vehicleId }: VehicleTCOCardProps) {
+  const { items, fleetMedian, loading } = useVehicleTCO();
+  const item = items.find(i => i.vehicle.id === vehicleId);
+
+  if (loading || !item) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-primary" />
+            Total Cost of Ownership
+          </CardTitle>
+          <ReplaceVsKeepBadge item={item} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-2xl font-bold">{formatCurrency(item.total)}</p>
+            <p className="text-xs text-muted-foreground">Total cost of ownership</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{formatCostPerKm(item.costPerKm)}</p>
+            <p className="text-xs text-muted-foreground">
+              {item.kilometers > 0
+                ? `Over ${Math.round(item.kilometers).toLocaleString()} km (${item.kilometerSource === 'gps' ? 'GPS' : 'odometer'})`
+                : 'No distance recorded yet'}
+            </p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{formatCostPerKm(item.runningCostPerKm)}</p>
+            <p className="text-xs text-muted-foreground">Running cost · fleet median {formatCostPerKm(fleetMedian)}</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{formatCurrency(item.costPerMonth)}</p>
+            <p className="text-xs text-muted-foreground">
+              Per month over {item.monthsInService.toFixed(1)} months since {format(item.inServiceDate, 'MMM yyyy')}
+              {item.outOfServiceDate && ` until ${format(item.outOfServiceDate, 'MMM yyyy')}`}
+            </p>
+          </div>
+        </div>
+
+        {item.depreciation !== null && (
+          <p className="text-sm text-muted-foreground">
+            Sold for <span className="font-medium text-foreground">{formatCurrency(item.saleProceeds)}</span>
+            {' '}· depreciation <span className="font-medium text-foreground">{formatCurrency(item.depreciation)}</span>
+            {' '}· total shown is net of the sale
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+          {COST_BUCKETS.map((bucket) => (
+            <div key={bucket} className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-xs text-muted-foreground">{COST_BUCKET_LABELS[bucket]}</p>
+              <p className="font-semibold">{formatCurrency(item.costs[bucket])}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VEHICLE_TYPES, VEHICLE_TYPE_LABELS } from '@/utils/vehicleTypes';
+
+interface VehicleTypeSelectProps {
+  id?: string;
+  /** The selected type, or an empty string when not set */
+  value: string;
+  onValueChange: (type: string) => void;
+}
+
+export function VehicleTypeSelect({ id, value, onValueChange }: VehicleTypeSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select a type" />
+      </SelectTrigger>
+      <SelectContent>
+        {VEHICLE_TYPES.map((type) => (
+          <SelectItem key={type} value={type}>
+            {VEHICLE_TYPE_LABELS[type]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -11,6 +11,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserRole } from '@/hooks/useUserRole';
+import { VENDORS_CHANGED_EVENT } from '@/utils/vendorsEvents';
 import { Store, Plus, Pencil, Trash2, MapPin, Phone, Mail, Globe, User } from 'lucide-react';
 
 interface Branch {
@@ -73,6 +74,10 @@ export function VendorManager() {
   useEffect(() => {
     fetchVendors();
     fetchBranches();
+
+    // Vendors are also added and merged from the reconciliation tool
+    window.addEventListener(VENDORS_CHANGED_EVENT, fetchVendors);
+    return () => window.removeEventListener(VENDORS_CHANGED_EVENT, fetchVendors);
   }, []);
 
   const fetchVendors = async () => {
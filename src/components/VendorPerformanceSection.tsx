@@ -0,0 +1,296 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { useVendorPerformance } from '@/hooks/useVendorPerformance';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import {
+  DEFAULT_REPEAT_WINDOW_DAYS,
+  VendorScorecard,
+  computePriceBenchmarks,
+  computeVendorScorecards,
+} from '@/utils/vendorPerformance';
+
+interface VendorPerformanceSectionProps {
+  branchId: string;
+  startDate: Date | undefined;
+  endDate: Date | undefined;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+function PriceTrend({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  const Icon = value > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={`inline-flex items-center gap-1 ${value > 5 ? 'text-destructive' : value < -5 ? 'text-green-600' : ''}`}>
+      <Icon className="h-4 w-4" />
+      {formatPercent(value)}
+    </span>
+  );
+}
+
+export function VendorPerformanceSection({ branchId, startDate, endDate }: VendorPerformanceSectionProps) {
+  const { fiscalYearStart } = useFiscalYear();
+  const rangeStart = format(startDate || fiscalYearStart, 'yyyy-MM-dd');
+  const rangeEnd = endDate ? format(endDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
+  const [repeatWindowDays, setRepeatWindowDays] = useState(DEFAULT_REPEAT_WINDOW_DAYS);
+  const { groups, loading } = useVendorPerformance(rangeStart, rangeEnd, repeatWindowDays);
+  const [selectedScorecard, setSelectedScorecard] = useState<VendorScorecard | null>(null);
+  const [benchmarkCategoryId, setBenchmarkCategoryId] = useState('');
+
+  const visibleGroups = useMemo(
+    () => groups.filter(group => branchId === 'all' || group.branchId === branchId),
+    [groups, branchId]
+  );
+
+  const scorecards = useMemo(() => computeVendorScorecards(visibleGroups), [visibleGroups]);
+
+  // Categories offered by more than one vendor are the ones worth comparing
+  const benchmarkCategories = useMemo(() => {
+    const vendorsByCategory = new Map<string, { name: string; vendors: Set<string> }>();
+    visibleGroups.forEach(group => {
+      if (!group.categoryId) return;
+      const entry = vendorsByCategory.get(group.categoryId) || { name: group.category?.name || 'Uncategorized', vendors: new Set<string>() };
+      entry.vendors.add(group.vendorKey);
+      vendorsByCategory.set(group.categoryId, entry);
+    });
+    return Array.from(vendorsByCategory.entries())
+      .map(([id, entry]) => ({ id, name: entry.name, vendorCount: entry.vendors.size }))
+      .sort((a, b) => b.vendorCount - a.vendorCount || a.name.localeCompare(b.name));
+  }, [visibleGroups]);
+
+  const categoryId = benchmarkCategories.some(c => c.id === benchmarkCategoryId)
+    ? benchmarkCategoryId
+    : benchmarkCategories[0]?.id || '';
+  const benchmarks = useMemo(
+    () => (categoryId ? computePriceBenchmarks(visibleGroups, categoryId) : []),
+    [visibleGroups, categoryId]
+  );
+
+  if (loading) {
+    return <p className="text-center text-muted-foreground py-8">Loading vendor performance...</p>;
+  }
+
+  if (visibleGroups.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        No expenses with a vendor in this period
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <Tabs defaultValue="scorecards" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="scorecards">Scorecards</TabsTrigger>
+          <TabsTrigger value="benchmarks">Price Benchmarks</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="scorecards" className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="repeat-window">Repeat repair window</Label>
+            <Input
+              id="repeat-window"
+              type="number"
+              min={1}
+              className="w-24"
+              value={repeatWindowDays}
+              onChange={(e) => setRepeatWindowDays(Math.max(1, parseInt(e.target.value) || DEFAULT_REPEAT_WINDOW_DAYS))}
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+          </div>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead className="text-right">Jobs</TableHead>
+                  <TableHead className="text-right">Total Spend</TableHead>
+                  <TableHead className="text-right">Avg Invoice</TableHead>
+                  <TableHead className="text-right">Repeat Repairs</TableHead>
+                  <TableHead className="text-right">Price Trend</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scorecards.map((card) => (
+                  <TableRow key={card.key}>
+                    <TableCell>
+                      <p className="font-medium">{card.vendorName}</p>
+                      {!card.vendorId && (
+                        <p className="text-xs text-muted-foreground">Not in vendor list</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{card.jobCount}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(card.totalSpend)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(card.averageInvoice)}</TableCell>
+                    <TableCell className="text-right">
+                      {card.repeatJobs.length > 0 ? (
+                        <Badge variant="outline" className={card.repeatRate >= 10 ? 'text-destructive border-destructive' : ''}>
+                          {card.repeatRate.toFixed(0)}% ({card.repeatJobs.length})
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">0%</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PriceTrend value={card.priceTrendPercent} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedScorecard(card)}>
+                        Details
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="benchmarks" className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label>Service</Label>
+            <Select value={categoryId} onValueChange={setBenchmarkCategoryId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {benchmarkCategories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name} ({category.vendorCount} {category.vendorCount === 1 ? 'vendor' : 'vendors'})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Branch</TableHead>
+                <TableHead className="text-right">Jobs</TableHead>
+                <TableHead className="text-right">Average</TableHead>
+                <TableHead className="text-right">Lowest</TableHead>
+                <TableHead className="text-right">Highest</TableHead>
+                <TableHead className="text-right">vs. Average</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {benchmarks.map((row) => (
+                <TableRow key={`${row.vendorKey}-${row.branchId}`}>
+                  <TableCell className="font-medium">{row.vendorName}</TableCell>
+                  <TableCell>{row.branchName || '—'}</TableCell>
+                  <TableCell className="text-right">{row.jobs}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(row.average)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.min)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.max)}</TableCell>
+                  <TableCell className={`text-right ${row.differencePercent > 10 ? 'text-destructive' : row.differencePercent < -10 ? 'text-green-600' : ''}`}>
+                    {formatPercent(row.differencePercent)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!selectedScorecard} onOpenChange={(open) => !open && setSelectedScorecard(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {selectedScorecard && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedScorecard.vendorName}</DialogTitle>
+                <DialogDescription>
+                  {selectedScorecard.jobCount} jobs · {formatCurrency(selectedScorecard.totalSpend)} total spend
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                <div>
+                  <h4 className="font-medium mb-2">Average Invoice by Category</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Jobs</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Average</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedScorecard.byCategory.map((category) => (
+                        <TableRow key={category.categoryId || 'none'}>
+                          <TableCell>{category.categoryName}</TableCell>
+                          <TableCell className="text-right">{category.jobs}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(category.total)}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(category.average)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {selectedScorecard.monthly.length > 1 && (
+                  <div>
+                    <h4 className="font-medium mb-2">Average Invoice by Month</h4>
+                    <ResponsiveContainer width="100%" height={200}>
+                      <LineChart data={selectedScorecard.monthly}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="month" />
+                        <YAxis />
+                        <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                        <Line type="monotone" dataKey="average" stroke="hsl(var(--primary))" strokeWidth={2} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+
+                {selectedScorecard.repeatJobs.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-2">
+                      Repeat Repairs (same vehicle and category within {repeatWindowDays} days)
+                    </h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Vehicle</TableHead>
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selectedScorecard.repeatJobs.map((job) => (
+                          <TableRow key={job.id}>
+                            <TableCell>{format(new Date(`${job.date}T00:00:00`), 'MMM d, yyyy')}</TableCell>
+                            <TableCell>{job.vehiclePlate || '—'}</TableCell>
+                            <TableCell>{job.category?.name || 'Uncategorized'}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(job.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,336 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { ReconciliationVendor, useVendorReconciliation } from '@/hooks/useVendorReconciliation';
+import { VendorNameGroup, findDuplicateVendors, groupVendorNames } from '@/utils/vendorMatching';
+import { GitMerge, Link2 } from 'lucide-react';
+
+const NEW_VENDOR = '__new__';
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface NameGroupRowProps {
+  group: VendorNameGroup;
+  vendors: ReconciliationVendor[];
+  onLink: (vendorId: string | null, vendorName: string, names: string[]) => Promise<void>;
+}
+
+function NameGroupRow({ group, vendors, onLink }: NameGroupRowProps) {
+  const [selectedNames, setSelectedNames] = useState<string[]>(group.names.map(usage => usage.name));
+  const [vendorId, setVendorId] = useState(group.suggestedVendorId || NEW_VENDOR);
+  const [newVendorName, setNewVendorName] = useState(group.names[0].name.trim());
+  const [saving, setSaving] = useState(false);
+
+  const toggleName = (name: string, checked: boolean) => {
+    setSelectedNames(prev => (checked ? [...prev, name] : prev.filter(n => n !== name)));
+  };
+
+  const handleLink = async () => {
+    setSaving(true);
+    try {
+      const spellings = group.names
+        .filter(usage => selectedNames.includes(usage.name))
+        .flatMap(usage => usage.spellings);
+      await onLink(vendorId === NEW_VENDOR ? null : vendorId, newVendorName.trim(), spellings);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="space-y-1">
+          {group.names.map((usage) => (
+            <label key={usage.name} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selectedNames.includes(usage.name)}
+                onCheckedChange={(checked) => toggleName(usage.name, checked === true)}
+              />
+              <span className="font-medium">{usage.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {usage.expenses > 0 && `${usage.expenses} expense${usage.expenses === 1 ? '' : 's'}`}
+                {usage.expenses > 0 && usage.fuelReceipts > 0 && ', '}
+                {usage.fuelReceipts > 0 && `${usage.fuelReceipts} fuel receipt${usage.fuelReceipts === 1 ? '' : 's'}`}
+              </span>
+            </label>
+          ))}
+        </div>
+      </TableCell>
+      <TableCell className="text-right">{formatCurrency(group.total)}</TableCell>
+      <TableCell>
+        <div className="space-y-2 min-w-56">
+          <Select value={vendorId} onValueChange={setVendorId}>
+            <SelectTrigger className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-background">
+              <SelectItem value={NEW_VENDOR}>Create new vendor</SelectItem>
+              {vendors.map((vendor) => (
+                <SelectItem key={vendor.id} value={vendor.id}>
+                  {vendor.name}
+                  {vendor.id === group.suggestedVendorId && ' (suggested)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {vendorId === NEW_VENDOR && (
+            <Input
+              value={newVendorName}
+              onChange={(e) => setNewVendorName(e.target.value)}
+              placeholder="Vendor name"
+            />
+          )}
+        </div>
+      </TableCell>
+      <TableCell className="text-right">
+        <Button
+          size="sm"
+          className="gap-2"
+          onClick={handleLink}
+          disabled={saving || selectedNames.length === 0 || (vendorId === NEW_VENDOR && !newVendorName.trim())}
+        >
+          <Link2 className="h-4 w-4" />
+          {saving ? 'Linking...' : 'Link'}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+interface DuplicateVendorRowProps {
+  duplicates: ReconciliationVendor[];
+  onMerge: (targetId: string, sourceIds: string[]) => Promise<void>;
+}
+
+function DuplicateVendorRow({ duplicates, onMerge }: DuplicateVendorRowProps) {
+  const [keepId, setKeepId] = useState(duplicates[0].id);
+  const [saving, setSaving] = useState(false);
+
+  const handleMerge = async () => {
+    const kept = duplicates.find(vendor => vendor.id === keepId);
+    const merged = duplicates.filter(vendor => vendor.id !== keepId);
+    if (!confirm(`Merge ${merged.map(v => `"${v.name}"`).join(', ')} into "${kept?.name}"? The merged vendors will be deleted.`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onMerge(keepId, merged.map(vendor => vendor.id));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="flex flex-wrap gap-1">
+          {duplicates.map((vendor) => (
+            <Badge key={vendor.id} variant={vendor.id === keepId ? 'default' : 'outline'}>
+              {vendor.name}
+            </Badge>
+          ))}
+        </div>
+      </TableCell>
+      <TableCell>
+        <Select value={keepId} onValueChange={setKeepId}>
+          <SelectTrigger className="bg-background min-w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-background">
+            {duplicates.map((vendor) => (
+              <SelectItem key={vendor.id} value={vendor.id}>
+                {vendor.name}{vendor.category ? ` · ${vendor.category}` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" variant="outline" className="gap-2" onClick={handleMerge} disabled={saving}>
+          <GitMerge className="h-4 w-4" />
+          {saving ? 'Merging...' : 'Merge'}
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function VendorReconciliation() {
+  const { usages, vendors, history, loading, linkNames, createVendorAndLink, mergeVendors } = useVendorReconciliation();
+  const { toast } = useToast();
+
+  const nameGroups = useMemo(() => groupVendorNames(usages, vendors), [usages, vendors]);
+  const duplicateVendors = useMemo(() => findDuplicateVendors(vendors), [vendors]);
+
+  const handleLink = async (vendorId: string | null, vendorName: string, names: string[]) => {
+    try {
+      if (vendorId) {
+        await linkNames(vendorId, names);
+      } else {
+        await createVendorAndLink(vendorName, names);
+      }
+      toast({
+        title: 'Success',
+        description: `Linked ${names.length} name${names.length === 1 ? '' : 's'} to ${vendorId ? vendors.find(v => v.id === vendorId)?.name : vendorName}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to link vendor names',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMerge = async (targetId: string, sourceIds: string[]) => {
+    try {
+      await mergeVendors(targetId, sourceIds);
+      toast({
+        title: 'Success',
+        description: 'Vendors merged successfully',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to merge vendors',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="h-5 w-5 text-primary" />
+          Vendor Reconciliation
+        </CardTitle>
+        <CardDescription>
+          Link free-text vendor names on expenses and fuel receipts to vendors, and merge duplicate vendors
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : (
+          <Tabs defaultValue="names" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="names" className="gap-2">
+                Unlinked Names
+                {nameGroups.length > 0 && <Badge variant="secondary">{nameGroups.length}</Badge>}
+              </TabsTrigger>
+              <TabsTrigger value="duplicates" className="gap-2">
+                Duplicate Vendors
+                {duplicateVendors.length > 0 && <Badge variant="secondary">{duplicateVendors.length}</Badge>}
+              </TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="names">
+              {nameGroups.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Every expense and fuel receipt with a vendor name is linked to a vendor
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Names as entered</TableHead>
+                        <TableHead className="text-right">Spend</TableHead>
+                        <TableHead>Link to</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {nameGroups.map((group) => (
+                        <NameGroupRow key={group.key} group={group} vendors={vendors} onLink={handleLink} />
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="duplicates">
+              {duplicateVendors.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No duplicate vendors found</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Similar vendors</TableHead>
+                      <TableHead>Keep</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {duplicateVendors.map((duplicates) => (
+                      <DuplicateVendorRow
+                        key={duplicates.map(vendor => vendor.id).join('|')}
+                        duplicates={duplicates}
+                        onMerge={handleMerge}
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="history">
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No vendor names reconciled yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>From</TableHead>
+                        <TableHead>Vendor</TableHead>
+                        <TableHead className="text-right">Records Updated</TableHead>
+                        <TableHead>By</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {history.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={entry.action === 'merge' ? 'secondary' : 'outline'}>
+                              {entry.action === 'merge' ? 'Merged vendors' : 'Linked names'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm max-w-64">{entry.source_names.join(', ')}</TableCell>
+                          <TableCell className="font-medium">{entry.vendor_name}</TableCell>
+                          <TableCell className="text-right">
+                            {entry.expenses_updated + entry.fuel_receipts_updated}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{entry.performedByName || '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { WorkOrder, WorkOrderInput } from '@/hooks/useWorkOrders';
+import { WORK_ORDER_STATUSES, WORK_ORDER_STATUS_LABELS, WorkOrderStatus } from '@/utils/workOrders';
+
+interface Vendor {
+  id: string;
+  name: string;
+}
+
+interface WorkOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicleId: string;
+  odometerKm?: number;
+  /** The work order to edit; a new one is created when omitted */
+  workOrder?: WorkOrder | null;
+  onSave: (input: WorkOrderInput, workOrderId?: string) => Promise<void>;
+}
+
+const OTHER_VENDOR = '__other__';
+
+// datetime-local inputs work in local time without a zone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const emptyForm = (odometerKm?: number) => ({
+  description: '',
+  vendorId: '',
+  vendorName: '',
+  status: 'opened' as WorkOrderStatus,
+  openedAt: toInputValue(new Date()),
+  completedAt: '',
+  estimatedCost: '',
+  actualCost: '',
+  odometerKm: odometerKm?.toString() || '',
+  notes: '',
+});
+
+export function WorkOrderDialog({ open, onOpenChange, vehicleId, odometerKm, workOrder, onSave }: WorkOrderDialogProps) {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm(odometerKm));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    supabase
+      .from('vendors')
+      .select('id, name')
+      .order('name')
+      .then(({ data }) => setVendors(data || []));
+
+    setFormData(workOrder
+      ? {
+          description: workOrder.description,
+          vendorId: workOrder.vendor_id || (workOrder.vendor_name ? OTHER_VENDOR : ''),
+          vendorName: workOrder.vendor_id ? '' : workOrder.vendor_name || '',
+          status: workOrder.status,
+          openedAt: toInputValue(new Date(workOrder.opened_at)),
+          completedAt: workOrder.completed_at ? toInputValue(new Date(workOrder.completed_at)) : '',
+          estimatedCost: workOrder.estimated_cost?.toString() || '',
+          actualCost: workOrder.actual_cost?.toString() || '',
+          odometerKm: workOrder.odometer_km?.toString() || '',
+          notes: workOrder.notes || '',
+        }
+      : emptyForm(odometerKm));
+  }, [open, workOrder, odometerKm]);
+
+  const handleStatusChange = (status: WorkOrderStatus) => {
+    setFormData(prev => ({
+      ...prev,
+      status,
+      // Completing stamps the pick-up time, which can then be corrected
+      completedAt: status === 'completed' ? prev.completedAt || toInputValue(new Date()) : '',
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const openedAt = new Date(formData.openedAt);
+    const completedAt = formData.status === 'completed' && formData.completedAt ? new Date(formData.completedAt) : null;
+    if (completedAt && completedAt < openedAt) {
+      toast({
+        title: 'Error',
+        description: 'The vehicle cannot leave the shop before it arrived',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const vendor = vendors.find(v => v.id === formData.vendorId);
+    setSaving(true);
+    try {
+      await onSave({
+        vehicle_id: vehicleId,
+        vendor_id: vendor?.id || null,
+        vendor_name: vendor?.name || formData.vendorName.trim() || null,
+        status: formData.status,
+        description: formData.description.trim(),
+        estimated_cost: formData.estimatedCost ? parseFloat(formData.estimatedCost) : null,
+        actual_cost: formData.actualCost ? parseFloat(formData.actualCost) : null,
+        odometer_km: formData.odometerKm ? parseInt(formData.odometerKm) : null,
+        opened_at: openedAt.toISOString(),
+        completed_at: completedAt ? completedAt.toISOString() : null,
+        notes: formData.notes.trim() || null,
+      }, workOrder?.id);
+
+      toast({
+        title: 'Success',
+        description: workOrder ? 'Work order updated' : 'Work order opened',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save work order',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{workOrder ? 'Edit Work Order' : 'New Work Order'}</DialogTitle>
+          <DialogDescription>
+            Track the vehicle from drop-off at the shop until it is back on the road
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="wo-description">Work Required *</Label>
+            <Textarea
+              id="wo-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="e.g., Brake pads and rotors, check engine light"
+              rows={2}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="wo-vendor">Shop</Label>
+              <Select value={formData.vendorId} onValueChange={(value) => setFormData({ ...formData, vendorId: value })}>
+                <SelectTrigger id="wo-vendor">
+                  <SelectValue placeholder="Select a vendor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vendors.map((vendor) => (
+                    <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_VENDOR}>Other (not in vendor list)</SelectItem>
+                </SelectContent>
+              </Select>
+              {formData.vendorId === OTHER_VENDOR && (
+                <Input
+                  value={formData.vendorName}
+                  onChange={(e) => setFormData({ ...formData, vendorName: e.target.value })}
+                  placeholder="Shop name"
+                />
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wo-status">Status</Label>
+              <Select value={formData.status} onValueChange={(value) => handleStatusChange(value as WorkOrderStatus)}>
+                <SelectTrigger id="wo-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORK_ORDER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{WORK_ORDER_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="wo-opened">Into Shop *</Label>
+              <Input
+                id="wo-opened"
+                type="datetime-local"
+                value={formData.openedAt}
+                onChange={(e) => setFormData({ ...formData, openedAt: e.target.value })}
+                required
+              />
+            </div>
+            {formData.status === 'completed' && (
+              <div className="space-y-2">
+                <Label htmlFor="wo-completed">Back on the Road *</Label>
+                <Input
+                  id="wo-completed"
+                  type="datetime-local"
+                  value={formData.completedAt}
+                  onChange={(e) => setFormData({ ...formData, completedAt: e.target.value })}
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="wo-estimate">Estimated Cost ($)</Label>
+              <Input
+                id="wo-estimate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.estimatedCost}
+                onChange={(e) => setFormData({ ...formData, estimatedCost: e.target.value })}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wo-actual">Actual Cost ($)</Label>
+              <Input
+                id="wo-actual"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.actualCost}
+                onChange={(e) => setFormData({ ...formData, actualCost: e.target.value })}
+                placeholder="From attached expenses"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wo-odometer">Odometer (km)</Label>
+              <Input
+                id="wo-odometer"
+                type="number"
+                min="0"
+                value={formData.odometerKm}
+                onChange={(e) => setFormData({ ...formData, odometerKm: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wo-notes">Notes</Label>
+            <Textarea
+              id="wo-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="Parts on order, shop contact, etc."
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : workOrder ? 'Save Changes' : 'Open Work Order'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
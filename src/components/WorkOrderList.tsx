@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { WorkOrder, useWorkOrders } from '@/hooks/useWorkOrders';
+import { WorkOrderDialog } from '@/components/WorkOrderDialog';
+import {
+  WORK_ORDER_STATUS_LABELS,
+  getWorkOrderStatusColor,
+  isOpenWorkOrder,
+  workOrderDowntimeDays,
+} from '@/utils/workOrders';
+
+interface AttachableExpense {
+  id: string;
+  amount: number;
+  date: string;
+  vendor_name: string | null;
+  description: string | null;
+}
+
+interface WorkOrderListProps {
+  vehicleId: string;
+  odometerKm?: number;
+  /** Expenses of this vehicle not yet attached to a work order */
+  unlinkedExpenses: AttachableExpense[];
+}
+
+const RECENT_COMPLETED_LIMIT = 5;
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+};
+
+const formatDays = (days: number) => `${days.toFixed(1)} days`;
+
+export function WorkOrderList({ vehicleId, odometerKm, unlinkedExpenses }: WorkOrderListProps) {
+  const { workOrders, loading, saveWorkOrder, deleteWorkOrder, attachExpense } = useWorkOrders(vehicleId);
+  const { isAdminOrManager } = useUserRole();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WorkOrder | null>(null);
+
+  const openWorkOrders = workOrders.filter(isOpenWorkOrder);
+  const recentCompleted = workOrders.filter(wo => !isOpenWorkOrder(wo)).slice(0, RECENT_COMPLETED_LIMIT);
+
+  const openDialog = (workOrder: WorkOrder | null) => {
+    setEditing(workOrder);
+    setDialogOpen(true);
+  };
+
+  const handleAttach = async (expenseId: string, workOrderId: string | null) => {
+    try {
+      await attachExpense(expenseId, workOrderId);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update expense',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (workOrder: WorkOrder) => {
+    if (!confirm(`Delete the work order "${workOrder.description}"? Attached expenses are kept.`)) return;
+    try {
+      await deleteWorkOrder(workOrder.id);
+      toast({ title: 'Success', description: 'Work order deleted' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete work order',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderWorkOrder = (workOrder: WorkOrder) => {
+    const attachedTotal = workOrder.expenses.reduce((sum, exp) => sum + Number(exp.amount), 0);
+    // Until the actual cost is confirmed, the attached invoices are the best figure
+    const actualCost = workOrder.actual_cost ?? (workOrder.expenses.length > 0 ? attachedTotal : null);
+    const overEstimate = workOrder.estimated_cost !== null && actualCost !== null && actualCost > workOrder.estimated_cost;
+    const isOpen = isOpenWorkOrder(workOrder);
+
+    return (
+      <div key={workOrder.id} className="p-3 rounded-lg border space-y-2">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="font-medium">{workOrder.description}</p>
+            <p className="text-sm text-muted-foreground">
+              {workOrder.vendors?.name || workOrder.vendor_name || 'No shop set'}
+              {' · '}in {format(new Date(workOrder.opened_at), 'MMM d, yyyy HH:mm')}
+              {workOrder.completed_at && ` · out ${format(new Date(workOrder.completed_at), 'MMM d, yyyy HH:mm')}`}
+              {' · '}{formatDays(workOrderDowntimeDays(workOrder))}{isOpen ? ' so far' : ' off the road'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Estimate {workOrder.estimated_cost !== null ? formatCurrency(workOrder.estimated_cost) : '—'}
+              {' · '}Actual{' '}
+              <span className={overEstimate ? 'text-destructive font-medium' : ''}>
+                {actualCost !== null ? formatCurrency(actualCost) : '—'}
+              </span>
+              {workOrder.odometer_km !== null && ` · ${workOrder.odometer_km.toLocaleString()} km`}
+            </p>
+            {workOrder.notes && <p className="text-xs text-muted-foreground mt-1">{workOrder.notes}</p>}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Badge className={getWorkOrderStatusColor(workOrder.status)}>
+              {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+            </Badge>
+            <Button variant="ghost" size="icon" onClick={() => openDialog(workOrder)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            {isAdminOrManager && (
+              <Button variant="ghost" size="icon" onClick={() => handleDelete(workOrder)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {workOrder.expenses.length > 0 && (
+          <div className="space-y-1">
+            {workOrder.expenses.map((exp) => (
+              <div key={exp.id} className="flex items-center justify-between text-sm bg-muted/50 rounded px-2 py-1">
+                <span className="truncate">
+                  {format(new Date(exp.date), 'MMM d, yyyy')} · {exp.vendor_name || exp.description || 'Expense'}
+                </span>
+                <span className="flex items-center gap-1 shrink-0">
+                  {formatCurrency(Number(exp.amount))}
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleAttach(exp.id, null)}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {unlinkedExpenses.length > 0 && (
+          <Select value="" onValueChange={(expenseId) => handleAttach(expenseId, workOrder.id)}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Attach an expense..." />
+            </SelectTrigger>
+            <SelectContent>
+              {unlinkedExpenses.map((exp) => (
+                <SelectItem key={exp.id} value={exp.id}>
+                  {format(new Date(exp.date), 'MMM d, yyyy')} · {exp.vendor_name || exp.description || 'Expense'} · {formatCurrency(Number(exp.amount))}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Work Orders
+            {openWorkOrders.length > 0 && (
+              <Badge variant="destructive" className="ml-1">{openWorkOrders.length} open</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>Shop visits from drop-off until the vehicle is back on the road</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Work Order
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : workOrders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No work orders for this vehicle</p>
+        ) : (
+          <div className="space-y-4">
+            {openWorkOrders.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Open</h4>
+                {openWorkOrders.map(renderWorkOrder)}
+              </div>
+            )}
+            {recentCompleted.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Recently Completed</h4>
+                {recentCompleted.map(renderWorkOrder)}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <WorkOrderDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        vehicleId={vehicleId}
+        odometerKm={odometerKm}
+        workOrder={editing}
+        onSave={saveWorkOrder}
+      />
+    </Card>
+  );
+}
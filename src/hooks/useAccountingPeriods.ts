@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSES_CHANGED_EVENT, emitExpensesChanged } from '@/utils/expensesEvents';
+import { toPeriodMonth } from '@/utils/fiscalYear';
+
+export interface AccountingPeriod {
+  id: string;
+  period_month: string;
+  is_closed: boolean;
+  closed_at: string | null;
+  closed_by: string | null;
+  closedByName: string | null;
+  reopened_at: string | null;
+  reopened_by: string | null;
+  reopenedByName: string | null;
+  reopen_reason: string | null;
+}
+
+/**
+ * Load the accounting periods that have been closed at some point, with the actions
+ * to close and reopen a month. Expenses and fuel receipts dated in a closed month
+ * are locked by the database.
+ */
+export function useAccountingPeriods() {
+  const [periods, setPeriods] = useState<AccountingPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPeriods = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('accounting_periods')
+        .select('*')
+        .order('period_month', { ascending: false });
+
+      if (error) throw error;
+
+      const userIds = Array.from(new Set(
+        (data || []).flatMap(period => [period.closed_by, period.reopened_by]).filter(Boolean)
+      )) as string[];
+      const { data: profiles } = userIds.length
+        ? await supabase.from('profiles').select('id, email, full_name').in('id', userIds)
+        : { data: [] };
+
+      const userName = (userId: string | null) => {
+        const profile = profiles?.find(p => p.id === userId);
+        return profile ? profile.full_name || profile.email : null;
+      };
+
+      setPeriods((data || []).map(period => ({
+        ...period,
+        closedByName: userName(period.closed_by),
+        reopenedByName: userName(period.reopened_by),
+      })));
+    } catch (error) {
+      console.error('Error fetching accounting periods:', error);
+      setPeriods([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPeriods();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchPeriods);
+    return () => window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchPeriods);
+  }, [fetchPeriods]);
+
+  /**
+   * Whether the month the date falls in is closed, so records dated in it cannot be changed.
+   */
+  const isClosed = useCallback(
+    (date: Date | string) => {
+      const periodMonth = toPeriodMonth(date);
+      return periods.some(period => period.period_month === periodMonth && period.is_closed);
+    },
+    [periods]
+  );
+
+  /**
+   * Close a past month, locking the expenses and fuel receipts dated in it.
+   */
+  const closePeriod = async (periodMonth: string) => {
+    const { error } = await supabase.rpc('close_accounting_period', {
+      _period_month: periodMonth,
+    });
+
+    if (error) throw error;
+    emitExpensesChanged();
+  };
+
+  /**
+   * Reopen a closed month. The reason is kept on the period and in the audit log.
+   */
+  const reopenPeriod = async (periodMonth: string, reason: string) => {
+    const { error } = await supabase.rpc('reopen_accounting_period', {
+      _period_month: periodMonth,
+      _reason: reason,
+    });
+
+    if (error) throw error;
+    emitExpensesChanged();
+  };
+
+  return {
+    periods,
+    loading,
+    isClosed,
+    closePeriod,
+    reopenPeriod,
+    refetch: fetchPeriods,
+  };
+}
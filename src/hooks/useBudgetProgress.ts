@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { BudgetProgress, computeBudgetProgress } from '@/utils/budgets';
+
+export interface BudgetProgressItem extends BudgetProgress {
+  branchName: string | null;
+  categoryName: string | null;
+  vehiclePlate: string | null;
+}
+
+/**
+ * Load the budgets for the given years and the spend they are measured against,
+ * and recompute progress whenever expenses change.
+ * @param years - Years of the budgets to load
+ * @param fiscalYearStartMonth - First month of the fiscal year annual budgets cover (1-based)
+ */
+export function useBudgetProgress(years: number[], fiscalYearStartMonth: number) {
+  const [items, setItems] = useState<BudgetProgressItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const yearsKey = Array.from(new Set(years)).sort().join(',');
+
+  const fetchProgress = useCallback(async () => {
+    const budgetYears = yearsKey.split(',').map(Number);
+    try {
+      const { data: budgets, error: budgetsError } = await supabase
+        .from('budgets')
+        .select(`
+          *,
+          branches (name),
+          expense_categories (name),
+          vehicles (plate)
+        `)
+        .in('year', budgetYears);
+
+      if (budgetsError) throw budgetsError;
+      if (!budgets || budgets.length === 0) {
+        setItems([]);
+        return;
+      }
+
+      // Expense and fuel spend per budget, summed in the database
+      const actualResults = await Promise.all(
+        budgetYears.map(year => supabase.rpc('report_budget_actuals', { _year: year }))
+      );
+
+      const actuals: Record<string, number> = {};
+      actualResults.forEach(({ data: actualRows, error: actualsError }) => {
+        if (actualsError) throw actualsError;
+        (actualRows || []).forEach(row => {
+          actuals[row.budget_id] = Number(row.actual);
+        });
+      });
+
+      const progress = computeBudgetProgress(budgets, actuals, fiscalYearStartMonth);
+      setItems(progress.map((item, index) => ({
+        ...item,
+        branchName: budgets[index].branches?.name || null,
+        categoryName: budgets[index].expense_categories?.name || null,
+        vehiclePlate: budgets[index].vehicles?.plate || null,
+      })));
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [yearsKey, fiscalYearStartMonth]);
+
+  useEffect(() => {
+    fetchProgress();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchProgress);
+    return () => window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchProgress);
+  }, [fetchProgress]);
+
+  return {
+    items,
+    loading,
+    refetch: fetchProgress,
+  };
+}
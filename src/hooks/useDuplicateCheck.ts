@@ -0,0 +1,168 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DuplicateReason,
+  ReceiptFingerprint,
+  ReceiptSource,
+  getDuplicateReasons,
+  isLikelyDuplicate,
+} from '@/utils/duplicateReceipts';
+
+export interface DuplicateCandidate {
+  source: ReceiptSource;
+  date: string;
+  amount: number;
+  vendor_name: string | null;
+  vehicle_id: string;
+  fileHashes: string[];
+}
+
+export interface DuplicateMatch {
+  record: ReceiptFingerprint;
+  vehiclePlate: string | null;
+  reasons: DuplicateReason[];
+}
+
+const RECORD_COLUMNS = 'id, date, amount, vendor_name, vehicle_id, created_at, vehicles (plate), documents (file_hash)';
+
+interface StoredRecord {
+  id: string;
+  date: string;
+  amount: number;
+  vendor_name: string | null;
+  vehicle_id: string;
+  created_at: string;
+  vehicles: { plate: string } | null;
+  documents: { file_hash: string | null }[];
+}
+
+const toMatchRecord = (record: StoredRecord, source: ReceiptSource) => ({
+  record: {
+    id: record.id,
+    source,
+    date: record.date,
+    amount: Number(record.amount),
+    vendor_name: record.vendor_name,
+    vehicle_id: record.vehicle_id,
+    created_at: record.created_at,
+    fileHashes: (record.documents || []).map(doc => doc.file_hash).filter(Boolean) as string[],
+  },
+  vehiclePlate: record.vehicles?.plate || null,
+});
+
+/**
+ * Look for existing expenses and fuel receipts that a new submission may
+ * duplicate, and flag the pair when the user saves it anyway.
+ */
+export function useDuplicateCheck() {
+  const { user } = useAuth();
+
+  const findDuplicates = useCallback(async (candidate: DuplicateCandidate): Promise<DuplicateMatch[]> => {
+    try {
+      // Records with the same amount and date, plus any that share an uploaded file
+      const [expensesRes, fuelRes, documentsRes] = await Promise.all([
+        supabase
+          .from('expenses')
+          .select(RECORD_COLUMNS)
+          .is('deleted_at', null)
+          .eq('amount', candidate.amount)
+          .eq('date', candidate.date),
+        supabase
+          .from('fuel_receipts')
+          .select(RECORD_COLUMNS)
+          .eq('amount', candidate.amount)
+          .eq('date', candidate.date),
+        candidate.fileHashes.length > 0
+          ? supabase
+              .from('documents')
+              .select('expense_id, fuel_receipt_id')
+              .in('file_hash', candidate.fileHashes)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (expensesRes.error) throw expensesRes.error;
+      if (fuelRes.error) throw fuelRes.error;
+      if (documentsRes.error) throw documentsRes.error;
+
+      const expenses = (expensesRes.data || []) as StoredRecord[];
+      const fuelReceipts = (fuelRes.data || []) as StoredRecord[];
+
+      const extraExpenseIds = [...new Set((documentsRes.data || []).map(doc => doc.expense_id).filter(Boolean))]
+        .filter(id => !expenses.some(exp => exp.id === id)) as string[];
+      const extraFuelIds = [...new Set((documentsRes.data || []).map(doc => doc.fuel_receipt_id).filter(Boolean))]
+        .filter(id => !fuelReceipts.some(receipt => receipt.id === id)) as string[];
+
+      if (extraExpenseIds.length > 0) {
+        const { data, error } = await supabase
+          .from('expenses')
+          .select(RECORD_COLUMNS)
+          .is('deleted_at', null)
+          .in('id', extraExpenseIds);
+        if (error) throw error;
+        expenses.push(...((data || []) as StoredRecord[]));
+      }
+
+      if (extraFuelIds.length > 0) {
+        const { data, error } = await supabase
+          .from('fuel_receipts')
+          .select(RECORD_COLUMNS)
+          .in('id', extraFuelIds);
+        if (error) throw error;
+        fuelReceipts.push(...((data || []) as StoredRecord[]));
+      }
+
+      const candidateFingerprint: ReceiptFingerprint = {
+        ...candidate,
+        id: '',
+        created_at: new Date().toISOString(),
+      };
+
+      return [
+        ...expenses.map(exp => toMatchRecord(exp, 'expense')),
+        ...fuelReceipts.map(receipt => toMatchRecord(receipt, 'fuel_receipt')),
+      ]
+        .map(match => ({ ...match, reasons: getDuplicateReasons(candidateFingerprint, match.record) }))
+        .filter(match => isLikelyDuplicate(match.reasons));
+    } catch (error) {
+      // A failed check must not stop the receipt from being saved
+      console.error('Error checking for duplicates:', error);
+      return [];
+    }
+  }, []);
+
+  /**
+   * Flag a record that was saved despite the duplicate warning. The expense
+   * side of each pair carries the flag; two fuel receipts are not flagged.
+   */
+  const recordDuplicates = useCallback(async (
+    saved: { id: string; source: ReceiptSource },
+    matches: DuplicateMatch[]
+  ) => {
+    const flags = matches
+      .filter(match => saved.source === 'expense' || match.record.source === 'expense')
+      .map(match => {
+        const expenseId = saved.source === 'expense' ? saved.id : match.record.id;
+        const other = saved.source === 'expense' ? match.record : { id: saved.id, source: saved.source };
+        return {
+          expense_id: expenseId,
+          match_expense_id: other.source === 'expense' ? other.id : null,
+          match_fuel_receipt_id: other.source === 'fuel_receipt' ? other.id : null,
+          reasons: match.reasons,
+          created_by: user?.id,
+        };
+      });
+
+    if (flags.length === 0) return;
+
+    const { error } = await supabase.from('duplicate_flags').insert(flags);
+    if (error) {
+      console.error('Error flagging duplicates:', error);
+    }
+  }, [user?.id]);
+
+  return {
+    findDuplicates,
+    recordDuplicates,
+  };
+}
@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { EXPENSES_CHANGED_EVENT, emitExpensesChanged } from '@/utils/expensesEvents';
+import { DuplicateReason, hashFile } from '@/utils/duplicateReceipts';
+
+export interface DuplicateRecordDocument {
+  id: string;
+  file_name: string;
+  file_path: string;
+  file_type: string | null;
+}
+
+export interface DuplicateRecord {
+  id: string;
+  date: string;
+  amount: number;
+  vendor_name: string | null;
+  description: string | null;
+  created_at: string;
+  approval_status?: string | null;
+  deleted_at?: string | null;
+  vehicles: { plate: string } | null;
+  documents: DuplicateRecordDocument[];
+}
+
+export interface DuplicateFlag {
+  id: string;
+  expense_id: string;
+  match_expense_id: string | null;
+  match_fuel_receipt_id: string | null;
+  reasons: DuplicateReason[];
+  created_at: string;
+  expense: DuplicateRecord | null;
+  match_expense: DuplicateRecord | null;
+  match_fuel_receipt: DuplicateRecord | null;
+}
+
+const DOCUMENT_COLUMNS = 'documents (id, file_name, file_path, file_type)';
+
+const UNHASHED_PAGE_SIZE = 500;
+
+/**
+ * Load open "possible duplicate" flags, keyed by each expense involved, with
+ * the actions to resolve them and to scan existing records for new ones.
+ */
+export function useDuplicateFlags() {
+  const [flags, setFlags] = useState<DuplicateFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchFlags = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('duplicate_flags')
+        .select(`
+          id,
+          expense_id,
+          match_expense_id,
+          match_fuel_receipt_id,
+          reasons,
+          created_at,
+          expense:expenses!duplicate_flags_expense_id_fkey (id, date, amount, vendor_name, description, created_at, approval_status, deleted_at, vehicles (plate), ${DOCUMENT_COLUMNS}),
+          match_expense:expenses!duplicate_flags_match_expense_id_fkey (id, date, amount, vendor_name, description, created_at, approval_status, deleted_at, vehicles (plate), ${DOCUMENT_COLUMNS}),
+          match_fuel_receipt:fuel_receipts (id, date, amount, vendor_name, description, created_at, vehicles (plate), ${DOCUMENT_COLUMNS})
+        `)
+        .eq('status', 'open')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Flags on expenses deleted some other way no longer need a decision
+      setFlags(((data || []) as unknown as DuplicateFlag[]).filter(flag =>
+        flag.expense && !flag.expense.deleted_at &&
+        (flag.match_fuel_receipt || (flag.match_expense && !flag.match_expense.deleted_at))
+      ));
+    } catch (error) {
+      console.error('Error fetching duplicate flags:', error);
+      setFlags([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFlags();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchFlags);
+    return () => window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchFlags);
+  }, [fetchFlags]);
+
+  // Both expenses of a pair show the badge
+  const flagsByExpense = flags.reduce((acc, flag) => {
+    [flag.expense_id, flag.match_expense_id].forEach(id => {
+      if (id) acc[id] = [...(acc[id] || []), flag];
+    });
+    return acc;
+  }, {} as Record<string, DuplicateFlag[]>);
+
+  const dismissFlag = async (flagId: string) => {
+    const { error } = await supabase
+      .from('duplicate_flags')
+      .update({ status: 'dismissed', resolved_by: user?.id, resolved_at: new Date().toISOString() })
+      .eq('id', flagId);
+
+    if (error) throw error;
+    emitExpensesChanged();
+  };
+
+  /**
+   * Keep one record of the pair and soft-delete the other expense.
+   * @param keepFlagged - Keep the flagged expense rather than the one it matched
+   */
+  const mergeFlag = async (flagId: string, keepFlagged = false) => {
+    const { error } = await supabase.rpc('merge_duplicate_expense', {
+      _flag_id: flagId,
+      _keep_flagged: keepFlagged,
+    });
+
+    if (error) throw error;
+    emitExpensesChanged();
+  };
+
+  /**
+   * Compare all expenses and fuel receipts and flag likely duplicates that
+   * were not flagged before. Documents uploaded before hashing was added are
+   * hashed first. Returns the number of new flags.
+   */
+  const scanForDuplicates = async () => {
+    // Page by id so documents that fail to download are not fetched again
+    let lastId: string | null = null;
+    for (;;) {
+      let query = supabase
+        .from('documents')
+        .select('id, file_path')
+        .is('file_hash', null)
+        .or('expense_id.not.is.null,fuel_receipt_id.not.is.null')
+        .order('id')
+        .limit(UNHASHED_PAGE_SIZE);
+      if (lastId) query = query.gt('id', lastId);
+
+      const { data: unhashed, error: unhashedError } = await query;
+
+      if (unhashedError) throw unhashedError;
+      if (!unhashed || unhashed.length === 0) break;
+
+      // One at a time to keep memory use down on large uploads
+      for (const doc of unhashed) {
+        const { data: file, error } = await supabase.storage
+          .from('vehicle-documents')
+          .download(doc.file_path);
+
+        if (error || !file) {
+          console.error('Error downloading document for hashing:', error);
+          continue;
+        }
+
+        await supabase
+          .from('documents')
+          .update({ file_hash: await hashFile(file) })
+          .eq('id', doc.id);
+      }
+
+      if (unhashed.length < UNHASHED_PAGE_SIZE) break;
+      lastId = unhashed[unhashed.length - 1].id;
+    }
+
+    // Pairs are matched and flagged in the database, so every record is compared
+    const { data: flagged, error } = await supabase.rpc('flag_duplicate_expenses');
+
+    if (error) throw error;
+    if (flagged && flagged > 0) emitExpensesChanged();
+
+    return flagged || 0;
+  };
+
+  return {
+    flags,
+    flagsByExpense,
+    loading,
+    refetch: fetchFlags,
+    dismissFlag,
+    mergeFlag,
+    scanForDuplicates,
+  };
+}
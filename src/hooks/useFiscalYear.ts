@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SETTINGS_CHANGED_EVENT, emitSettingsChanged } from '@/utils/settingsEvents';
+import {
+  DEFAULT_FISCAL_YEAR_START_MONTH,
+  getFiscalYearEnd,
+  getFiscalYearStart,
+} from '@/utils/fiscalYear';
+
+/**
+ * Load the organization's fiscal year start month, with the current fiscal year's
+ * first and last day and the action to change the start month.
+ */
+export function useFiscalYear() {
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [startMonth, setStartMonth] = useState(DEFAULT_FISCAL_YEAR_START_MONTH);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('organization_settings')
+        .select('id, fiscal_year_start_month')
+        .maybeSingle();
+
+      if (error) throw error;
+      setSettingsId(data?.id || null);
+      setStartMonth(data?.fiscal_year_start_month || DEFAULT_FISCAL_YEAR_START_MONTH);
+    } catch (error) {
+      console.error('Error fetching organization settings:', error);
+      setSettingsId(null);
+      setStartMonth(DEFAULT_FISCAL_YEAR_START_MONTH);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+
+    window.addEventListener(SETTINGS_CHANGED_EVENT, fetchSettings);
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, fetchSettings);
+  }, [fetchSettings]);
+
+  const fiscalYearStart = useMemo(() => getFiscalYearStart(new Date(), startMonth), [startMonth]);
+  const fiscalYearEnd = useMemo(() => getFiscalYearEnd(new Date(), startMonth), [startMonth]);
+
+  const updateStartMonth = async (month: number) => {
+    if (!settingsId) throw new Error('Organization settings not found');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('organization_settings')
+      .update({ fiscal_year_start_month: month, updated_by: user?.id })
+      .eq('id', settingsId);
+
+    if (error) throw error;
+    emitSettingsChanged();
+  };
+
+  return {
+    startMonth,
+    fiscalYearStart,
+    fiscalYearEnd,
+    loading,
+    updateStartMonth,
+    refetch: fetchSettings,
+  };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
+import { VehicleAvailability, computeVehicleAvailability } from '@/utils/fleetAvailability';
+
+/**
+ * Load the vehicles' status and branch history for the range and work out
+ * fleet days and out-of-service days per vehicle and per branch it was at.
+ * @param startDate - First day of the range (yyyy-MM-dd)
+ * @param endDate - Last day of the range (yyyy-MM-dd)
+ */
+export function useFleetAvailability(startDate: string, endDate: string) {
+  const [items, setItems] = useState<VehicleAvailability[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      const [vehiclesRes, historyRes, branchHistoryRes] = await Promise.all([
+        supabase.from('vehicles').select('id, plate, make, model, branch_id, branches (name)'),
+        // The changes in the range, plus the last one before it for the status on the first day
+        supabase.rpc('vehicle_status_history_between', { _date_from: startDate, _date_to: endDate }),
+        supabase.rpc('vehicle_branch_history_between', { _date_from: startDate, _date_to: endDate }),
+      ]);
+
+      if (vehiclesRes.error) throw vehiclesRes.error;
+      if (historyRes.error) throw historyRes.error;
+      if (branchHistoryRes.error) throw branchHistoryRes.error;
+
+      const vehicles = (vehiclesRes.data || []).map(vehicle => ({
+        ...vehicle,
+        branchName: vehicle.branches?.name || null,
+      }));
+
+      const branchHistory = (branchHistoryRes.data || []).map(assignment => ({
+        vehicle_id: assignment.vehicle_id,
+        branch_id: assignment.branch_id,
+        branchName: assignment.branch_name,
+        effective_date: assignment.effective_date,
+        created_at: assignment.created_at,
+      }));
+
+      setItems(computeVehicleAvailability(vehicles, historyRes.data || [], branchHistory, startDate, endDate));
+    } catch (error) {
+      console.error('Error fetching fleet availability:', error);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    fetchAvailability();
+
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchAvailability);
+    return () => window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchAvailability);
+  }, [fetchAvailability]);
+
+  return {
+    items,
+    loading,
+    refetch: fetchAvailability,
+  };
+}
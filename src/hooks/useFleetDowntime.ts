@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { addMonths, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
+import { MonthlyDowntime, computeMonthlyDowntime } from '@/utils/workOrders';
+
+export interface BranchOffRoad {
+  branchId: string | null;
+  branchName: string;
+  vehicles: { id: string; plate: string; make: string | null; model: string | null }[];
+}
+
+/**
+ * Load the vehicles currently in the shop, grouped by branch, and the shop
+ * downtime per month from work orders.
+ * @param months - Number of months of downtime to show, ending with the current month
+ */
+export function useFleetDowntime(months: number) {
+  const [offRoad, setOffRoad] = useState<BranchOffRoad[]>([]);
+  const [monthly, setMonthly] = useState<MonthlyDowntime[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDowntime = useCallback(async () => {
+    try {
+      const now = new Date();
+      const windowStart = startOfMonth(addMonths(now, -(months - 1)));
+
+      const [vehiclesRes, workOrdersRes] = await Promise.all([
+        supabase
+          .from('vehicles')
+          .select('id, plate, make, model, branch_id, branches (name)')
+          .eq('status', 'maintenance')
+          .order('plate'),
+        // Work orders still open or completed inside the window
+        supabase
+          .from('work_orders')
+          .select('vehicle_id, opened_at, completed_at')
+          .or(`completed_at.is.null,completed_at.gte.${windowStart.toISOString()}`),
+      ]);
+
+      if (vehiclesRes.error) throw vehiclesRes.error;
+      if (workOrdersRes.error) throw workOrdersRes.error;
+
+      const byBranch = new Map<string, BranchOffRoad>();
+      (vehiclesRes.data || []).forEach(({ branch_id, branches, ...vehicle }) => {
+        const key = branch_id || '';
+        const branch = byBranch.get(key) || {
+          branchId: branch_id,
+          branchName: branches?.name || 'Unassigned',
+          vehicles: [],
+        };
+        branch.vehicles.push(vehicle);
+        byBranch.set(key, branch);
+      });
+
+      setOffRoad(Array.from(byBranch.values()).sort((a, b) => b.vehicles.length - a.vehicles.length));
+      setMonthly(computeMonthlyDowntime(workOrdersRes.data || [], months, now));
+    } catch (error) {
+      console.error('Error fetching fleet downtime:', error);
+      setOffRoad([]);
+      setMonthly([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [months]);
+
+  useEffect(() => {
+    fetchDowntime();
+
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchDowntime);
+    return () => window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchDowntime);
+  }, [fetchDowntime]);
+
+  return {
+    offRoad,
+    monthly,
+    loading,
+    refetch: fetchDowntime,
+  };
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ColumnMapping, CSVDelimiter, mappingFitsHeaders } from '@/utils/csvParser';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  vendor_id: string | null;
+  vendorName: string | null;
+  delimiter: CSVDelimiter;
+  column_mapping: ColumnMapping;
+}
+
+/**
+ * Load saved CSV import profiles and save new or updated ones. Saving with an
+ * existing name replaces that profile.
+ */
+export function useImportProfiles() {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('import_profiles')
+        .select('id, name, vendor_id, delimiter, column_mapping, vendors (name)')
+        .order('name');
+
+      if (error) throw error;
+
+      setProfiles((data || []).map(profile => ({
+        id: profile.id,
+        name: profile.name,
+        vendor_id: profile.vendor_id,
+        vendorName: profile.vendors?.name || null,
+        delimiter: profile.delimiter as CSVDelimiter,
+        column_mapping: (profile.column_mapping || {}) as ColumnMapping,
+      })));
+    } catch (error) {
+      console.error('Error fetching import profiles:', error);
+      setProfiles([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const saveProfile = async (profile: {
+    name: string;
+    vendorId: string | null;
+    delimiter: CSVDelimiter;
+    mapping: ColumnMapping;
+  }) => {
+    const { data, error } = await supabase
+      .from('import_profiles')
+      .upsert({
+        name: profile.name,
+        vendor_id: profile.vendorId,
+        delimiter: profile.delimiter,
+        column_mapping: profile.mapping,
+        created_by: user?.id,
+      }, { onConflict: 'name' })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    await fetchProfiles();
+    return data.id;
+  };
+
+  /** The saved profile that maps the most fields and fits this file's columns */
+  const findProfileForHeaders = useCallback((headers: string[]) =>
+    profiles
+      .filter(profile => mappingFitsHeaders(profile.column_mapping, headers))
+      .sort((a, b) => Object.keys(b.column_mapping).length - Object.keys(a.column_mapping).length)[0] || null,
+  [profiles]);
+
+  return {
+    profiles,
+    loading,
+    saveProfile,
+    findProfileForHeaders,
+    refetch: fetchProfiles,
+  };
+}
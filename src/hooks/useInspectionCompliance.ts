@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
+import { VehicleCompliance, computeInspectionCompliance, inspectionMonths } from '@/utils/inspectionCompliance';
+
+interface ComplianceMonthRow {
+  month: string;
+  inspections: number;
+  has_issues: boolean;
+  in_service: boolean;
+}
+
+/**
+ * Load each vehicle's inspections and time in service per month up to the end
+ * month, and work out its inspection status per month.
+ * @param endMonth - Last inspection month shown (yyyy-MM-01)
+ * @param monthCount - Number of months shown, ending with the end month
+ */
+export function useInspectionCompliance(endMonth: string, monthCount: number) {
+  const [items, setItems] = useState<VehicleCompliance[]>([]);
+  const [months, setMonths] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCompliance = useCallback(async () => {
+    const range = inspectionMonths(endMonth, monthCount);
+    try {
+      const { data, error } = await supabase.rpc('report_inspection_compliance', {
+        _month_from: range[0],
+        _month_to: endMonth,
+      });
+
+      if (error) throw error;
+
+      const records = (data || []).map(row => ({
+        vehicle: {
+          id: row.vehicle_id,
+          plate: row.plate,
+          make: row.make,
+          model: row.model,
+          status: row.status,
+          branch_id: row.branch_id,
+          branchName: row.branch_name,
+        },
+        months: ((row.months || []) as unknown as ComplianceMonthRow[]).map(month => ({
+          month: month.month,
+          inspections: Number(month.inspections),
+          hasIssues: month.has_issues,
+          inService: month.in_service,
+        })),
+        lastInspectionDate: row.last_inspection_date,
+      }));
+
+      setMonths(range);
+      setItems(computeInspectionCompliance(records, range, format(startOfMonth(new Date()), 'yyyy-MM-dd')));
+    } catch (error) {
+      console.error('Error fetching inspection compliance:', error);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [endMonth, monthCount]);
+
+  useEffect(() => {
+    fetchCompliance();
+
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchCompliance);
+    return () => window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchCompliance);
+  }, [fetchCompliance]);
+
+  return {
+    items,
+    months,
+    loading,
+    refetch: fetchCompliance,
+  };
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { DefectSeverity } from '@/utils/vehicleDefects';
+import {
+  InspectionItemType,
+  InspectionTemplate,
+  InspectionTemplateItem,
+  toItemKey,
+} from '@/utils/inspectionTemplates';
+
+export interface InspectionTemplateInput {
+  name: string;
+  description: string | null;
+  branch_id: string | null;
+  vehicle_type: string | null;
+  is_active: boolean;
+}
+
+/** A checklist item as edited in the template form; new items have no id or key yet */
+export type InspectionTemplateItemInput = Omit<InspectionTemplateItem, 'id' | 'template_id' | 'position' | 'item_key'> & {
+  id?: string;
+  item_key?: string;
+};
+
+/**
+ * Load every inspection template with its items in checklist order, and the
+ * admin actions to save and delete them.
+ */
+export function useInspectionTemplates() {
+  const [templates, setTemplates] = useState<InspectionTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('inspection_templates')
+        .select('*, items:inspection_template_items (*)')
+        .order('name');
+
+      if (error) throw error;
+
+      setTemplates((data || []).map(template => ({
+        ...template,
+        items: template.items
+          .map(item => ({
+            ...item,
+            item_type: item.item_type as InspectionItemType,
+            severity: item.severity as DefectSeverity,
+          }))
+          .sort((a, b) => a.position - b.position),
+      })));
+    } catch (error) {
+      console.error('Error fetching inspection templates:', error);
+      setTemplates([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  /**
+   * Create a template, or update it when an id is given, replacing its items
+   * with the given list in order. Existing items keep their key so past
+   * results and open defects stay linked to them.
+   */
+  const saveTemplate = async (
+    input: InspectionTemplateInput,
+    items: InspectionTemplateItemInput[],
+    templateId?: string
+  ) => {
+    let id = templateId;
+    if (id) {
+      const { error } = await supabase.from('inspection_templates').update(input).eq('id', id);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase
+        .from('inspection_templates')
+        .insert({ ...input, created_by: user?.id })
+        .select('id')
+        .single();
+      if (error) throw error;
+      id = data.id;
+    }
+
+    const existing = templates.find(template => template.id === id)?.items || [];
+    const removedIds = existing.filter(item => !items.some(i => i.id === item.id)).map(item => item.id);
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from('inspection_template_items').delete().in('id', removedIds);
+      if (error) throw error;
+    }
+
+    const takenKeys = items.filter(item => item.item_key).map(item => item.item_key as string);
+    const rows = items.map(({ id: itemId, item_key, ...item }, index) => {
+      const key = item_key || toItemKey(item.label, takenKeys);
+      if (!item_key) takenKeys.push(key);
+      return { ...item, ...(itemId ? { id: itemId } : {}), template_id: id as string, item_key: key, position: index + 1 };
+    });
+
+    const updates = rows.filter(row => 'id' in row);
+    const inserts = rows.filter(row => !('id' in row));
+    if (updates.length > 0) {
+      const { error } = await supabase.from('inspection_template_items').upsert(updates);
+      if (error) throw error;
+    }
+    if (inserts.length > 0) {
+      const { error } = await supabase.from('inspection_template_items').insert(inserts);
+      if (error) throw error;
+    }
+
+    await fetchTemplates();
+  };
+
+  const setTemplateActive = async (templateId: string, isActive: boolean) => {
+    const { error } = await supabase.from('inspection_templates').update({ is_active: isActive }).eq('id', templateId);
+
+    if (error) throw error;
+    await fetchTemplates();
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    const { error } = await supabase.from('inspection_templates').delete().eq('id', templateId);
+
+    if (error) throw error;
+    await fetchTemplates();
+  };
+
+  return {
+    templates,
+    loading,
+    saveTemplate,
+    setTemplateActive,
+    deleteTemplate,
+    refetch: fetchTemplates,
+  };
+}
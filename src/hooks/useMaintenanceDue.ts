@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
+import { computeMaintenanceDue, MaintenanceDueItem } from '@/utils/maintenanceSchedule';
+import { FLEET_STATUSES } from '@/utils/vehicleStatus';
+
+/**
+ * Load maintenance schedules and the service history they depend on, and
+ * recompute what is due whenever expenses or vehicle odometers change.
+ * @param vehicleId - Limit the result to one vehicle (optional)
+ */
+export function useMaintenanceDue(vehicleId?: string) {
+  const [items, setItems] = useState<MaintenanceDueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDue = useCallback(async () => {
+    try {
+      const { data: schedules, error: schedulesError } = await supabase
+        .from('maintenance_schedules')
+        .select('*')
+        .eq('is_active', true);
+
+      if (schedulesError) throw schedulesError;
+      if (!schedules || schedules.length === 0) {
+        setItems([]);
+        return;
+      }
+
+      let vehiclesQuery = supabase
+        .from('vehicles')
+        .select('id, plate, make, model, branch_id, odometer_km, last_oil_change_km')
+        .in('status', FLEET_STATUSES);
+      if (vehicleId) {
+        vehiclesQuery = vehiclesQuery.eq('id', vehicleId);
+      }
+
+      // Only the latest service per vehicle and category matters
+      const serviceQuery = supabase.rpc('latest_service_records', {
+        _category_ids: [...new Set(schedules.map(s => s.category_id))],
+        _vehicle_id: vehicleId,
+      });
+
+      const [vehiclesRes, serviceRes] = await Promise.all([vehiclesQuery, serviceQuery]);
+      if (vehiclesRes.error) throw vehiclesRes.error;
+      if (serviceRes.error) throw serviceRes.error;
+
+      setItems(computeMaintenanceDue(schedules, vehiclesRes.data || [], serviceRes.data || []));
+    } catch (error) {
+      console.error('Error fetching maintenance schedules:', error);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchDue();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchDue);
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchDue);
+    return () => {
+      window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchDue);
+      window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchDue);
+    };
+  }, [fetchDue]);
+
+  return {
+    items,
+    loading,
+    refetch: fetchDue,
+  };
+}
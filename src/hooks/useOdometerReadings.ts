@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { VEHICLES_CHANGED_EVENT, emitVehiclesChanged } from '@/utils/vehiclesEvents';
+import { OdometerReading } from '@/utils/odometerLedger';
+
+/**
+ * Load the odometer ledger of a vehicle, oldest first. Readings from inspections,
+ * expenses, fuel receipts and GPS uploads are kept in step by the database; only
+ * manual readings are added here.
+ */
+export function useOdometerReadings(vehicleId: string) {
+  const [readings, setReadings] = useState<OdometerReading[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchReadings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('odometer_readings')
+        .select('id, reading_date, source, odometer_km, distance_km, excluded, notes, created_at')
+        .eq('vehicle_id', vehicleId)
+        .order('reading_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setReadings(data || []);
+    } catch (error) {
+      console.error('Error fetching odometer readings:', error);
+      setReadings([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchReadings();
+
+    // Expenses, inspections and GPS uploads all log readings
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchReadings);
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchReadings);
+    return () => {
+      window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchReadings);
+      window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchReadings);
+    };
+  }, [fetchReadings]);
+
+  const addReading = async (readingDate: string, odometerKm: number, notes: string | null) => {
+    const { error } = await supabase.from('odometer_readings').insert({
+      vehicle_id: vehicleId,
+      reading_date: readingDate,
+      source: 'manual',
+      odometer_km: odometerKm,
+      notes,
+      recorded_by: user?.id,
+    });
+
+    if (error) throw error;
+    emitVehiclesChanged();
+  };
+
+  /**
+   * Leave a wrong reading out of the current odometer, or count it again.
+   */
+  const setExcluded = async (readingId: string, excluded: boolean) => {
+    const { error } = await supabase.from('odometer_readings').update({ excluded }).eq('id', readingId);
+
+    if (error) throw error;
+    emitVehiclesChanged();
+  };
+
+  return {
+    readings,
+    loading,
+    addReading,
+    setExcluded,
+    refetch: fetchReadings,
+  };
+}
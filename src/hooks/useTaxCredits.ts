@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { ReportInterval } from '@/utils/reportTimeSeries';
+import { RECOVERABLE_TAX_COMPONENTS, TAX_COMPONENTS, TaxComponent } from '@/utils/taxRegimes';
+
+export interface TaxCreditPeriod {
+  /** First day of the month or quarter (yyyy-MM-dd) */
+  period: string;
+  components: Record<TaxComponent, number>;
+  /** GST, HST and QST that can be claimed back */
+  recoverable: number;
+  /** PST and US sales tax, a cost to the business */
+  nonRecoverable: number;
+}
+
+const emptyComponents = () =>
+  Object.fromEntries(TAX_COMPONENTS.map(component => [component, 0])) as Record<TaxComponent, number>;
+
+/**
+ * Load tax paid per component and period on expenses and fuel receipts.
+ * @param startDate - First day of the range (yyyy-MM-dd)
+ * @param endDate - Last day of the range (yyyy-MM-dd)
+ * @param branchId - Branch to report on, or 'all'
+ * @param vehicleId - Vehicle to report on, or 'all'
+ * @param interval - Group by month or quarter
+ */
+export function useTaxCredits(
+  startDate: string,
+  endDate: string,
+  branchId: string,
+  vehicleId: string,
+  interval: ReportInterval
+) {
+  const [periods, setPeriods] = useState<TaxCreditPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTaxCredits = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('report_tax_credits', {
+        _date_from: startDate,
+        _date_to: endDate,
+        _branch_id: branchId !== 'all' ? branchId : undefined,
+        _vehicle_id: vehicleId !== 'all' ? vehicleId : undefined,
+        _interval: interval,
+      });
+
+      if (error) throw error;
+
+      const byPeriod = new Map<string, TaxCreditPeriod>();
+      (data || []).forEach(row => {
+        const component = row.component as TaxComponent;
+        if (!TAX_COMPONENTS.includes(component)) return;
+
+        let period = byPeriod.get(row.period);
+        if (!period) {
+          period = { period: row.period, components: emptyComponents(), recoverable: 0, nonRecoverable: 0 };
+          byPeriod.set(row.period, period);
+        }
+        const total = Number(row.total);
+        period.components[component] += total;
+        if (RECOVERABLE_TAX_COMPONENTS.includes(component)) {
+          period.recoverable += total;
+        } else {
+          period.nonRecoverable += total;
+        }
+      });
+
+      setPeriods(Array.from(byPeriod.values()).sort((a, b) => a.period.localeCompare(b.period)));
+    } catch (error) {
+      console.error('Error fetching tax credits:', error);
+      setPeriods([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, branchId, vehicleId, interval]);
+
+  useEffect(() => {
+    fetchTaxCredits();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchTaxCredits);
+    return () => window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchTaxCredits);
+  }, [fetchTaxCredits]);
+
+  return {
+    periods,
+    loading,
+    refetch: fetchTaxCredits,
+  };
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { VEHICLES_CHANGED_EVENT, emitVehiclesChanged } from '@/utils/vehiclesEvents';
+import { TireSet } from '@/utils/tireSets';
+
+export interface TireSetInput {
+  label: string;
+  brand: string;
+  model: string | null;
+  measurements: string;
+  tire_type: string;
+  purchase_date: string | null;
+  purchase_cost: number | null;
+  new_tread_mm: number | null;
+  branch_id: string | null;
+  storage_location: string | null;
+  notes: string | null;
+}
+
+export interface TireSwap {
+  vehicleId: string;
+  changeDate: string;
+  odometerKm: number;
+  /** The set to put on; without one the vehicle's set is only taken off */
+  mountSetId: string | null;
+  mountTreadMm: number | null;
+  dismountTreadMm: number | null;
+  /** Where the set taken off goes */
+  storageLocation: string | null;
+  notes: string | null;
+}
+
+/**
+ * Load every tire set with its mount history, oldest mount first.
+ */
+export function useTireSets() {
+  const [tireSets, setTireSets] = useState<TireSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchTireSets = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tire_sets')
+        .select(`
+          *,
+          branches (name),
+          mounts:tire_set_mounts (*, vehicles (plate, odometer_km))
+        `)
+        .order('label');
+
+      if (error) throw error;
+      setTireSets((data || []).map(set => ({
+        ...set,
+        mounts: [...set.mounts].sort((a, b) =>
+          a.mounted_on.localeCompare(b.mounted_on) || a.created_at.localeCompare(b.created_at)
+        ),
+      })));
+    } catch (error) {
+      console.error('Error fetching tire sets:', error);
+      setTireSets([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTireSets();
+
+    // Odometer readings move the km driven on mounted sets
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchTireSets);
+    return () => window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchTireSets);
+  }, [fetchTireSets]);
+
+  const saveTireSet = async (input: TireSetInput, tireSetId?: string) => {
+    const { error } = tireSetId
+      ? await supabase.from('tire_sets').update(input).eq('id', tireSetId)
+      : await supabase.from('tire_sets').insert({ ...input, created_by: user?.id });
+
+    if (error) throw error;
+    await fetchTireSets();
+  };
+
+  /**
+   * Take the vehicle's set off into storage and put the chosen set on. Logged as a
+   * tire change and sets the vehicle's current tire type.
+   */
+  const swapTireSets = async (swap: TireSwap) => {
+    const { error } = await supabase.rpc('swap_tire_sets', {
+      _vehicle_id: swap.vehicleId,
+      _change_date: swap.changeDate,
+      _odometer_km: swap.odometerKm,
+      _mount_set_id: swap.mountSetId ?? undefined,
+      _mount_tread_mm: swap.mountTreadMm ?? undefined,
+      _dismount_tread_mm: swap.dismountTreadMm ?? undefined,
+      _storage_location: swap.storageLocation ?? undefined,
+      _notes: swap.notes ?? undefined,
+    });
+
+    if (error) throw error;
+    emitVehiclesChanged();
+  };
+
+  /**
+   * Retire a set at the end of its life, or bring it back with null.
+   */
+  const retireTireSet = async (tireSetId: string, retiredOn: string | null) => {
+    const { error } = await supabase.from('tire_sets').update({ retired_on: retiredOn }).eq('id', tireSetId);
+
+    if (error) throw error;
+    await fetchTireSets();
+  };
+
+  return {
+    tireSets,
+    loading,
+    saveTireSet,
+    swapTireSets,
+    retireTireSet,
+    refetch: fetchTireSets,
+  };
+}
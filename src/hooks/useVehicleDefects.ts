@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { VEHICLES_CHANGED_EVENT, emitVehiclesChanged } from '@/utils/vehiclesEvents';
+import { DefectSeverity } from '@/utils/vehicleDefects';
+
+export interface VehicleDefect {
+  id: string;
+  vehicle_id: string;
+  inspection_id: string | null;
+  item_key: string;
+  item_label: string | null;
+  notes: string | null;
+  severity: DefectSeverity;
+  status: 'open' | 'closed';
+  assigned_to: string | null;
+  due_date: string | null;
+  repair_expense_id: string | null;
+  closed_at: string | null;
+  resolution: string | null;
+  created_at: string;
+  inspection: { inspection_date: string } | null;
+  repair_expense: { id: string; amount: number; date: string; vendor_name: string | null; approval_status: string | null } | null;
+  assignee: { full_name: string | null; email: string } | null;
+}
+
+export interface DefectUpdate {
+  severity?: DefectSeverity;
+  assigned_to?: string | null;
+  due_date?: string | null;
+  repair_expense_id?: string | null;
+}
+
+const CLOSED_HISTORY_LIMIT = 10;
+
+/**
+ * Load the defects opened from failed inspection items: the open ones and the
+ * most recently closed for one vehicle, or only the open ones fleet-wide.
+ */
+export function useVehicleDefects(vehicleId?: string) {
+  const [defects, setDefects] = useState<VehicleDefect[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchDefects = useCallback(async () => {
+    try {
+      const select = `
+        *,
+        inspection:vehicle_inspections!vehicle_defects_inspection_id_fkey (inspection_date),
+        repair_expense:expenses (id, amount, date, vendor_name, approval_status),
+        assignee:profiles (full_name, email)
+      `;
+
+      let openQuery = supabase
+        .from('vehicle_defects')
+        .select(select)
+        .eq('status', 'open')
+        .order('created_at', { ascending: false });
+      if (vehicleId) {
+        openQuery = openQuery.eq('vehicle_id', vehicleId);
+      }
+
+      const [openRes, closedRes] = await Promise.all([
+        openQuery,
+        vehicleId
+          ? supabase
+              .from('vehicle_defects')
+              .select(select)
+              .eq('vehicle_id', vehicleId)
+              .eq('status', 'closed')
+              .order('closed_at', { ascending: false })
+              .limit(CLOSED_HISTORY_LIMIT)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (openRes.error) throw openRes.error;
+      if (closedRes.error) throw closedRes.error;
+
+      setDefects([...(openRes.data || []), ...(closedRes.data || [])].map(defect => ({
+        ...defect,
+        severity: defect.severity as DefectSeverity,
+        status: defect.status as VehicleDefect['status'],
+      })));
+    } catch (error) {
+      console.error('Error fetching vehicle defects:', error);
+      setDefects([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchDefects();
+
+    // Approving a linked repair expense closes its defects
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchDefects);
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchDefects);
+    return () => {
+      window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchDefects);
+      window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchDefects);
+    };
+  }, [fetchDefects]);
+
+  /**
+   * Update a defect. Linking an already-approved repair expense closes it.
+   */
+  const updateDefect = async (defectId: string, updates: DefectUpdate) => {
+    const { error } = await supabase.from('vehicle_defects').update(updates).eq('id', defectId);
+
+    if (error) throw error;
+    emitVehiclesChanged();
+  };
+
+  const closeDefect = async (defectId: string) => {
+    const { error } = await supabase
+      .from('vehicle_defects')
+      .update({ status: 'closed', closed_at: new Date().toISOString(), closed_by: user?.id, resolution: 'manual' })
+      .eq('id', defectId);
+
+    if (error) throw error;
+    emitVehiclesChanged();
+  };
+
+  return {
+    defects,
+    loading,
+    updateDefect,
+    closeDefect,
+    refetch: fetchDefects,
+  };
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
+import { computeVehicleTCO, VehicleTCO } from '@/utils/vehicleTco';
+
+/**
+ * Load lifetime cost and distance totals for the whole fleet and compute total
+ * cost of ownership per vehicle. The fleet is always loaded because each vehicle
+ * is compared against the fleet median.
+ */
+export function useVehicleTCO() {
+  const [items, setItems] = useState<VehicleTCO[]>([]);
+  const [fleetMedian, setFleetMedian] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTCO = useCallback(async () => {
+    try {
+      const [vehiclesRes, costsRes, usageRes] = await Promise.all([
+        supabase.from('vehicles').select('id, plate, make, model, status, branch_id, odometer_km, created_at, disposal_date, sale_price, final_odometer_km'),
+        supabase.rpc('report_vehicle_cost_totals'),
+        supabase.rpc('report_vehicle_usage'),
+      ]);
+
+      if (vehiclesRes.error) throw vehiclesRes.error;
+      if (costsRes.error) throw costsRes.error;
+      if (usageRes.error) throw usageRes.error;
+
+      const costTotals = (costsRes.data || []).map(row => ({
+        vehicle_id: row.vehicle_id,
+        category: row.category_name ? { name: row.category_name, type: row.category_type } : null,
+        total: Number(row.total),
+        first_date: row.first_date,
+      }));
+
+      const result = computeVehicleTCO(vehiclesRes.data || [], costTotals, usageRes.data || []);
+      setItems(result.items);
+      setFleetMedian(result.fleetMedianRunningCostPerKm);
+    } catch (error) {
+      console.error('Error fetching cost of ownership:', error);
+      setItems([]);
+      setFleetMedian(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTCO();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchTCO);
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchTCO);
+    return () => {
+      window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchTCO);
+      window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchTCO);
+    };
+  }, [fetchTCO]);
+
+  return {
+    items,
+    fleetMedian,
+    loading,
+    refetch: fetchTCO,
+  };
+}
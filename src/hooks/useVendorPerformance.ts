@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { DEFAULT_REPEAT_WINDOW_DAYS, VendorJobGroup } from '@/utils/vendorPerformance';
+
+interface MonthlyRow {
+  month: string;
+  jobs: number;
+  total: number;
+}
+
+interface RepeatJobRow {
+  id: string;
+  date: string;
+  vehicle_plate: string | null;
+  amount: number;
+}
+
+/**
+ * Load the expenses in a date range that can be tied to a vendor, either by
+ * vendor_id or by the free-text vendor name, summed per vendor, category and
+ * branch for scorecards.
+ * @param startDate - First day of the range (yyyy-MM-dd)
+ * @param endDate - Last day of the range (yyyy-MM-dd)
+ * @param repeatWindowDays - A second job within this many days counts as a repeat
+ */
+export function useVendorPerformance(
+  startDate: string,
+  endDate: string,
+  repeatWindowDays: number = DEFAULT_REPEAT_WINDOW_DAYS
+) {
+  const [groups, setGroups] = useState<VendorJobGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('report_vendor_jobs', {
+        _date_from: startDate,
+        _date_to: endDate,
+        _repeat_window_days: repeatWindowDays,
+      });
+
+      if (error) throw error;
+
+      setGroups((data || []).map(row => ({
+        vendorKey: row.vendor_key,
+        vendorId: row.vendor_id,
+        vendorName: row.vendor_name,
+        categoryId: row.category_id,
+        category: row.category_name ? { name: row.category_name, type: row.category_type } : null,
+        branchId: row.branch_id,
+        branchName: row.branch_name,
+        jobs: Number(row.job_count),
+        total: Number(row.total),
+        min: Number(row.min_amount),
+        max: Number(row.max_amount),
+        monthly: ((row.monthly || []) as unknown as MonthlyRow[]).map(month => ({
+          month: month.month,
+          jobs: Number(month.jobs),
+          total: Number(month.total),
+        })),
+        repeatJobs: ((row.repeat_jobs || []) as unknown as RepeatJobRow[]).map(job => ({
+          id: job.id,
+          date: job.date,
+          vehiclePlate: job.vehicle_plate,
+          amount: Number(job.amount),
+        })),
+      })));
+    } catch (error) {
+      console.error('Error fetching vendor performance:', error);
+      setGroups([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, repeatWindowDays]);
+
+  useEffect(() => {
+    fetchJobs();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchJobs);
+    return () => window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchJobs);
+  }, [fetchJobs]);
+
+  return {
+    groups,
+    loading,
+    refetch: fetchJobs,
+  };
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPENSES_CHANGED_EVENT, emitExpensesChanged } from '@/utils/expensesEvents';
+import { VENDORS_CHANGED_EVENT, emitVendorsChanged } from '@/utils/vendorsEvents';
+import { VendorNameUsage } from '@/utils/vendorMatching';
+
+export interface ReconciliationVendor {
+  id: string;
+  name: string;
+  category: string | null;
+}
+
+export interface VendorReconciliation {
+  id: string;
+  action: 'link' | 'merge';
+  vendor_id: string | null;
+  vendor_name: string;
+  source_names: string[];
+  expenses_updated: number;
+  fuel_receipts_updated: number;
+  performed_by: string | null;
+  performedByName: string | null;
+  created_at: string;
+}
+
+// Most recent entries shown in the history; older ones remain in the audit log
+const HISTORY_LIMIT = 50;
+
+/**
+ * Load free-text vendor names not linked to a vendor, the vendor list and the
+ * reconciliation history, with the actions to link names and merge vendors.
+ */
+export function useVendorReconciliation() {
+  const [usages, setUsages] = useState<VendorNameUsage[]>([]);
+  const [vendors, setVendors] = useState<ReconciliationVendor[]>([]);
+  const [history, setHistory] = useState<VendorReconciliation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [usagesRes, vendorsRes, historyRes] = await Promise.all([
+        supabase.rpc('report_unlinked_vendor_names'),
+        supabase
+          .from('vendors')
+          .select('id, name, category')
+          .order('name'),
+        supabase
+          .from('vendor_reconciliations')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT),
+      ]);
+
+      if (usagesRes.error) throw usagesRes.error;
+      if (vendorsRes.error) throw vendorsRes.error;
+      if (historyRes.error) throw historyRes.error;
+
+      const userIds = Array.from(new Set((historyRes.data || []).map(entry => entry.performed_by).filter(Boolean))) as string[];
+      const { data: profiles } = userIds.length
+        ? await supabase.from('profiles').select('id, email, full_name').in('id', userIds)
+        : { data: [] };
+
+      setUsages((usagesRes.data || []).map(row => ({
+        name: row.name,
+        spellings: row.spellings,
+        expenses: Number(row.expense_count),
+        fuelReceipts: Number(row.fuel_receipt_count),
+        total: Number(row.total),
+      })));
+      setVendors(vendorsRes.data || []);
+      setHistory((historyRes.data || []).map(entry => {
+        const profile = profiles?.find(p => p.id === entry.performed_by);
+        return {
+          ...entry,
+          action: entry.action as VendorReconciliation['action'],
+          performedByName: profile ? profile.full_name || profile.email : null,
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching vendor reconciliation data:', error);
+      setUsages([]);
+      setVendors([]);
+      setHistory([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchData);
+    window.addEventListener(VENDORS_CHANGED_EVENT, fetchData);
+    return () => {
+      window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchData);
+      window.removeEventListener(VENDORS_CHANGED_EVENT, fetchData);
+    };
+  }, [fetchData]);
+
+  /**
+   * Set vendor_id on every expense and fuel receipt with one of the names.
+   */
+  const linkNames = async (vendorId: string, names: string[]) => {
+    const { error } = await supabase.rpc('link_vendor_names', {
+      _vendor_id: vendorId,
+      _names: names,
+    });
+
+    if (error) throw error;
+    emitExpensesChanged();
+    emitVendorsChanged();
+  };
+
+  /**
+   * Add a vendor under the given name and link the names to it.
+   */
+  const createVendorAndLink = async (vendorName: string, names: string[]) => {
+    const { data, error } = await supabase
+      .from('vendors')
+      .insert({ name: vendorName })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    await linkNames(data.id, names);
+  };
+
+  /**
+   * Move everything recorded against the duplicate vendors to the one kept,
+   * then delete the duplicates.
+   */
+  const mergeVendors = async (targetVendorId: string, sourceVendorIds: string[]) => {
+    const { error } = await supabase.rpc('merge_vendors', {
+      _target_vendor_id: targetVendorId,
+      _source_vendor_ids: sourceVendorIds,
+    });
+
+    if (error) throw error;
+    emitExpensesChanged();
+    emitVendorsChanged();
+  };
+
+  return {
+    usages,
+    vendors,
+    history,
+    loading,
+    linkNames,
+    createVendorAndLink,
+    mergeVendors,
+    refetch: fetchData,
+  };
+}
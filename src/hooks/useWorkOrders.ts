@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { EXPENSES_CHANGED_EVENT, emitExpensesChanged } from '@/utils/expensesEvents';
+import { VEHICLES_CHANGED_EVENT, emitVehiclesChanged } from '@/utils/vehiclesEvents';
+import { WorkOrderStatus } from '@/utils/workOrders';
+
+export interface WorkOrderExpense {
+  id: string;
+  amount: number;
+  date: string;
+  description: string | null;
+  vendor_name: string | null;
+  deleted_at: string | null;
+}
+
+export interface WorkOrder {
+  id: string;
+  vehicle_id: string;
+  vendor_id: string | null;
+  vendor_name: string | null;
+  status: WorkOrderStatus;
+  description: string;
+  estimated_cost: number | null;
+  actual_cost: number | null;
+  odometer_km: number | null;
+  opened_at: string;
+  completed_at: string | null;
+  notes: string | null;
+  vehicles: { plate: string; make: string | null; model: string | null; branch_id: string | null } | null;
+  vendors: { name: string } | null;
+  expenses: WorkOrderExpense[];
+}
+
+export interface WorkOrderInput {
+  vehicle_id: string;
+  vendor_id: string | null;
+  vendor_name: string | null;
+  status: WorkOrderStatus;
+  description: string;
+  estimated_cost: number | null;
+  actual_cost: number | null;
+  odometer_km: number | null;
+  opened_at: string;
+  completed_at: string | null;
+  notes: string | null;
+}
+
+/**
+ * Load work orders, newest first, for one vehicle or the whole fleet, with the
+ * expenses attached to each and the actions to save them and attach expenses.
+ */
+export function useWorkOrders(vehicleId?: string) {
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const fetchWorkOrders = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('work_orders')
+        .select(`
+          *,
+          vehicles (plate, make, model, branch_id),
+          vendors (name),
+          expenses (id, amount, date, description, vendor_name, deleted_at)
+        `)
+        .order('opened_at', { ascending: false });
+      if (vehicleId) {
+        query = query.eq('vehicle_id', vehicleId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setWorkOrders((data || []).map(workOrder => ({
+        ...workOrder,
+        status: workOrder.status as WorkOrderStatus,
+        expenses: workOrder.expenses.filter(exp => !exp.deleted_at),
+      })));
+    } catch (error) {
+      console.error('Error fetching work orders:', error);
+      setWorkOrders([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [vehicleId]);
+
+  useEffect(() => {
+    fetchWorkOrders();
+
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchWorkOrders);
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchWorkOrders);
+    return () => {
+      window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchWorkOrders);
+      window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchWorkOrders);
+    };
+  }, [fetchWorkOrders]);
+
+  /**
+   * Create a work order, or update it when an id is given. Opening and
+   * completing work orders moves the vehicle in and out of the shop.
+   */
+  const saveWorkOrder = async (input: WorkOrderInput, workOrderId?: string) => {
+    const { error } = workOrderId
+      ? await supabase.from('work_orders').update(input).eq('id', workOrderId)
+      : await supabase.from('work_orders').insert({ ...input, created_by: user?.id });
+
+    if (error) throw error;
+    emitVehiclesChanged();
+  };
+
+  const deleteWorkOrder = async (workOrderId: string) => {
+    const { error } = await supabase.from('work_orders').delete().eq('id', workOrderId);
+
+    if (error) throw error;
+    emitVehiclesChanged();
+  };
+
+  /**
+   * Link an expense to a work order, or unlink it when workOrderId is null.
+   */
+  const attachExpense = async (expenseId: string, workOrderId: string | null) => {
+    const { error } = await supabase
+      .from('expenses')
+      .update({ work_order_id: workOrderId })
+      .eq('id', expenseId);
+
+    if (error) throw error;
+    emitExpensesChanged();
+  };
+
+  return {
+    workOrders,
+    loading,
+    saveWorkOrder,
+    deleteWorkOrder,
+    attachExpense,
+    refetch: fetchWorkOrders,
+  };
+}
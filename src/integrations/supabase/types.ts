@@ -14,6 +14,125 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounting_periods: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          id: string
+          is_closed: boolean
+          period_month: string
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          is_closed?: boolean
+          period_month: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          is_closed?: boolean
+          period_month?: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+        ]
+      }
+      approval_chain_steps: {
+        Row: {
+          approver_role: string
+          approver_user_id: string | null
+          chain_id: string
+          created_at: string
+          id: string
+          step_order: number
+        }
+        Insert: {
+          approver_role: string
+          approver_user_id?: string | null
+          chain_id: string
+          created_at?: string
+          id?: string
+          step_order: number
+        }
+        Update: {
+          approver_role?: string
+          approver_user_id?: string | null
+          chain_id?: string
+          created_at?: string
+          id?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chain_steps_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_chains: {
+        Row: {
+          branch_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          max_amount: number | null
+          min_amount: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chains_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -50,38 +169,128 @@ export type Database = {
       branches: {
         Row: {
           created_at: string
+          gst_rate: number
+          hst_rate: number
           id: string
           location: string | null
           name: string
+          pst_rate: number
+          qst_rate: number
+          tax_regime: string
           tire_notes: string | null
           updated_at: string
+          us_sales_tax_rate: number
         }
         Insert: {
           created_at?: string
+          gst_rate?: number
+          hst_rate?: number
           id?: string
           location?: string | null
           name: string
+          pst_rate?: number
+          qst_rate?: number
+          tax_regime?: string
           tire_notes?: string | null
           updated_at?: string
+          us_sales_tax_rate?: number
         }
         Update: {
           created_at?: string
+          gst_rate?: number
+          hst_rate?: number
           id?: string
           location?: string | null
           name?: string
+          pst_rate?: number
+          qst_rate?: number
+          tax_regime?: string
           tire_notes?: string | null
           updated_at?: string
+          us_sales_tax_rate?: number
         }
         Relationships: []
       }
+      budgets: {
+        Row: {
+          amount: number
+          branch_id: string | null
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          month: number | null
+          notes: string | null
+          period_type: string
+          updated_at: string
+          vehicle_id: string | null
+          warning_threshold_percent: number
+          year: number
+        }
+        Insert: {
+          amount: number
+          branch_id?: string | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month?: number | null
+          notes?: string | null
+          period_type?: string
+          updated_at?: string
+          vehicle_id?: string | null
+          warning_threshold_percent?: number
+          year: number
+        }
+        Update: {
+          amount?: number
+          branch_id?: string | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month?: number | null
+          notes?: string | null
+          period_type?: string
+          updated_at?: string
+          vehicle_id?: string | null
+          warning_threshold_percent?: number
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           created_at: string
           expense_id: string | null
+          file_hash: string | null
           file_name: string
           file_path: string
           file_size: number | null
           file_type: string | null
+          fuel_receipt_id: string | null
           id: string
           uploaded_by: string | null
           vehicle_id: string
@@ -89,10 +298,12 @@ export type Database = {
         Insert: {
           created_at?: string
           expense_id?: string | null
+          file_hash?: string | null
           file_name: string
           file_path: string
           file_size?: number | null
           file_type?: string | null
+          fuel_receipt_id?: string | null
           id?: string
           uploaded_by?: string | null
           vehicle_id: string
@@ -100,10 +311,12 @@ export type Database = {
         Update: {
           created_at?: string
           expense_id?: string | null
+          file_hash?: string | null
           file_name?: string
           file_path?: string
           file_size?: number | null
           file_type?: string | null
+          fuel_receipt_id?: string | null
           id?: string
           uploaded_by?: string | null
           vehicle_id?: string
@@ -116,6 +329,13 @@ export type Database = {
             referencedRelation: "expenses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "documents_fuel_receipt_id_fkey"
+            columns: ["fuel_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "fuel_receipts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "documents_uploaded_by_fkey"
             columns: ["uploaded_by"]
@@ -132,6 +352,124 @@ export type Database = {
           },
         ]
       }
+      duplicate_flags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expense_id: string
+          id: string
+          match_expense_id: string | null
+          match_fuel_receipt_id: string | null
+          reasons: string[]
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expense_id: string
+          id?: string
+          match_expense_id?: string | null
+          match_fuel_receipt_id?: string | null
+          reasons?: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expense_id?: string
+          id?: string
+          match_expense_id?: string | null
+          match_fuel_receipt_id?: string | null
+          reasons?: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_flags_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_match_expense_id_fkey"
+            columns: ["match_expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_flags_match_fuel_receipt_id_fkey"
+            columns: ["match_fuel_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "fuel_receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_approval_steps: {
+        Row: {
+          acted_at: string | null
+          acted_by: string | null
+          approver_role: string
+          approver_user_id: string | null
+          chain_id: string | null
+          comment: string | null
+          created_at: string
+          expense_id: string
+          id: string
+          status: string
+          step_order: number
+        }
+        Insert: {
+          acted_at?: string | null
+          acted_by?: string | null
+          approver_role: string
+          approver_user_id?: string | null
+          chain_id?: string | null
+          comment?: string | null
+          created_at?: string
+          expense_id: string
+          id?: string
+          status?: string
+          step_order: number
+        }
+        Update: {
+          acted_at?: string | null
+          acted_by?: string | null
+          approver_role?: string
+          approver_user_id?: string | null
+          chain_id?: string | null
+          comment?: string | null
+          created_at?: string
+          expense_id?: string
+          id?: string
+          status?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_approval_steps_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_approval_steps_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expense_categories: {
         Row: {
           created_at: string
@@ -215,11 +553,15 @@ export type Database = {
           deleted_at: string | null
           deleted_by: string | null
           description: string | null
+          gst_amount: number | null
+          hst_amount: number | null
           id: string
           manager_approver_id: string | null
           modified_at: string | null
           modified_by: string | null
           odometer_reading: number | null
+          pst_amount: number | null
+          qst_amount: number | null
           receipt_scanned: boolean | null
           rejection_reason: string | null
           staff_name: string | null
@@ -227,9 +569,11 @@ export type Database = {
           subtotal: number | null
           tax_amount: number | null
           updated_at: string
+          us_sales_tax_amount: number | null
           vehicle_id: string
           vendor_id: string | null
           vendor_name: string | null
+          work_order_id: string | null
         }
         Insert: {
           amount: number
@@ -244,11 +588,15 @@ export type Database = {
           deleted_at?: string | null
           deleted_by?: string | null
           description?: string | null
+          gst_amount?: number | null
+          hst_amount?: number | null
           id?: string
           manager_approver_id?: string | null
           modified_at?: string | null
           modified_by?: string | null
           odometer_reading?: number | null
+          pst_amount?: number | null
+          qst_amount?: number | null
           receipt_scanned?: boolean | null
           rejection_reason?: string | null
           staff_name?: string | null
@@ -256,9 +604,11 @@ export type Database = {
           subtotal?: number | null
           tax_amount?: number | null
           updated_at?: string
+          us_sales_tax_amount?: number | null
           vehicle_id: string
           vendor_id?: string | null
           vendor_name?: string | null
+          work_order_id?: string | null
         }
         Update: {
           amount?: number
@@ -273,11 +623,15 @@ export type Database = {
           deleted_at?: string | null
           deleted_by?: string | null
           description?: string | null
+          gst_amount?: number | null
+          hst_amount?: number | null
           id?: string
           manager_approver_id?: string | null
           modified_at?: string | null
           modified_by?: string | null
           odometer_reading?: number | null
+          pst_amount?: number | null
+          qst_amount?: number | null
           receipt_scanned?: boolean | null
           rejection_reason?: string | null
           staff_name?: string | null
@@ -285,9 +639,11 @@ export type Database = {
           subtotal?: number | null
           tax_amount?: number | null
           updated_at?: string
+          us_sales_tax_amount?: number | null
           vehicle_id?: string
           vendor_id?: string | null
           vendor_name?: string | null
+          work_order_id?: string | null
         }
         Relationships: [
           {
@@ -332,6 +688,13 @@ export type Database = {
             referencedRelation: "vendors"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "expenses_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       fuel_receipts: {
@@ -342,12 +705,20 @@ export type Database = {
           created_by: string | null
           date: string
           description: string | null
+          gst_amount: number | null
+          hst_amount: number | null
           id: string
+          litres: number | null
+          odometer_km: number | null
+          price_per_litre: number | null
+          pst_amount: number | null
+          qst_amount: number | null
           receipt_scanned: boolean | null
           staff_name: string | null
           subtotal: number | null
           tax_amount: number | null
           updated_at: string
+          us_sales_tax_amount: number | null
           vehicle_id: string
           vendor_id: string | null
           vendor_name: string | null
@@ -359,12 +730,20 @@ export type Database = {
           created_by?: string | null
           date?: string
           description?: string | null
+          gst_amount?: number | null
+          hst_amount?: number | null
           id?: string
+          litres?: number | null
+          odometer_km?: number | null
+          price_per_litre?: number | null
+          pst_amount?: number | null
+          qst_amount?: number | null
           receipt_scanned?: boolean | null
           staff_name?: string | null
           subtotal?: number | null
           tax_amount?: number | null
           updated_at?: string
+          us_sales_tax_amount?: number | null
           vehicle_id: string
           vendor_id?: string | null
           vendor_name?: string | null
@@ -376,12 +755,20 @@ export type Database = {
           created_by?: string | null
           date?: string
           description?: string | null
+          gst_amount?: number | null
+          hst_amount?: number | null
           id?: string
+          litres?: number | null
+          odometer_km?: number | null
+          price_per_litre?: number | null
+          pst_amount?: number | null
+          qst_amount?: number | null
           receipt_scanned?: boolean | null
           staff_name?: string | null
           subtotal?: number | null
           tax_amount?: number | null
           updated_at?: string
+          us_sales_tax_amount?: number | null
           vehicle_id?: string
           vendor_id?: string | null
           vendor_name?: string | null
@@ -471,61 +858,481 @@ export type Database = {
           },
         ]
       }
-      manager_approvers: {
+      import_profiles: {
         Row: {
+          column_mapping: Json
           created_at: string
+          created_by: string | null
+          delimiter: string
           id: string
-          is_active: boolean
           name: string
+          updated_at: string
+          vendor_id: string | null
         }
         Insert: {
+          column_mapping?: Json
           created_at?: string
+          created_by?: string | null
+          delimiter?: string
           id?: string
-          is_active?: boolean
           name: string
+          updated_at?: string
+          vendor_id?: string | null
         }
         Update: {
+          column_mapping?: Json
           created_at?: string
+          created_by?: string | null
+          delimiter?: string
           id?: string
-          is_active?: boolean
           name?: string
+          updated_at?: string
+          vendor_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "import_profiles_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      inspection_photos: {
         Row: {
-          approved_at: string | null
-          approved_by: string | null
-          block_reason: string | null
-          blocked_at: string | null
-          blocked_by: string | null
+          annotated: boolean
           created_at: string
-          default_branch_id: string | null
-          email: string
-          full_name: string | null
+          file_name: string
+          file_path: string
+          file_size: number | null
           id: string
-          is_approved: boolean
-          is_blocked: boolean
-          updated_at: string
+          inspection_id: string
+          item_key: string | null
+          uploaded_by: string | null
         }
         Insert: {
-          approved_at?: string | null
-          approved_by?: string | null
-          block_reason?: string | null
-          blocked_at?: string | null
-          blocked_by?: string | null
+          annotated?: boolean
           created_at?: string
-          default_branch_id?: string | null
-          email: string
-          full_name?: string | null
-          id: string
-          is_approved?: boolean
-          is_blocked?: boolean
-          updated_at?: string
-        }
-        Update: {
-          approved_at?: string | null
-          approved_by?: string | null
+          file_name: string
+          file_path: string
+          file_size?: number | null
+          id?: string
+          inspection_id: string
+          item_key?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          annotated?: boolean
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number | null
+          id?: string
+          inspection_id?: string
+          item_key?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_photos_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "vehicle_inspections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_results: {
+        Row: {
+          created_at: string
+          id: string
+          inspection_id: string
+          item_key: string
+          item_type: string
+          label: string
+          notes: string | null
+          numeric_value: number | null
+          passed: boolean
+          position: number
+          template_item_id: string | null
+          unit: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          inspection_id: string
+          item_key: string
+          item_type?: string
+          label: string
+          notes?: string | null
+          numeric_value?: number | null
+          passed?: boolean
+          position?: number
+          template_item_id?: string | null
+          unit?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          inspection_id?: string
+          item_key?: string
+          item_type?: string
+          label?: string
+          notes?: string | null
+          numeric_value?: number | null
+          passed?: boolean
+          position?: number
+          template_item_id?: string | null
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_results_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "vehicle_inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspection_results_template_item_id_fkey"
+            columns: ["template_item_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_template_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_template_items: {
+        Row: {
+          created_at: string
+          due_days: number
+          hint: string | null
+          id: string
+          item_key: string
+          item_type: string
+          label: string
+          max_value: number | null
+          min_value: number | null
+          position: number
+          severity: string
+          template_id: string
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          due_days?: number
+          hint?: string | null
+          id?: string
+          item_key: string
+          item_type?: string
+          label: string
+          max_value?: number | null
+          min_value?: number | null
+          position?: number
+          severity?: string
+          template_id: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          due_days?: number
+          hint?: string | null
+          id?: string
+          item_key?: string
+          item_type?: string
+          label?: string
+          max_value?: number | null
+          min_value?: number | null
+          position?: number
+          severity?: string
+          template_id?: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_templates: {
+        Row: {
+          branch_id: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+          vehicle_type: string | null
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          vehicle_type?: string | null
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          vehicle_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_templates_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_schedules: {
+        Row: {
+          category_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          interval_km: number | null
+          interval_months: number | null
+          is_active: boolean
+          make: string | null
+          model: string | null
+          name: string
+          updated_at: string
+          vehicle_id: string | null
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          interval_km?: number | null
+          interval_months?: number | null
+          is_active?: boolean
+          make?: string | null
+          model?: string | null
+          name: string
+          updated_at?: string
+          vehicle_id?: string | null
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          interval_km?: number | null
+          interval_months?: number | null
+          is_active?: boolean
+          make?: string | null
+          model?: string | null
+          name?: string
+          updated_at?: string
+          vehicle_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_schedules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_schedules_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manager_approvers: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      odometer_readings: {
+        Row: {
+          created_at: string
+          distance_km: number | null
+          excluded: boolean
+          expense_id: string | null
+          fuel_receipt_id: string | null
+          gps_upload_id: string | null
+          id: string
+          inspection_id: string | null
+          notes: string | null
+          odometer_km: number | null
+          reading_date: string
+          recorded_by: string | null
+          source: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          distance_km?: number | null
+          excluded?: boolean
+          expense_id?: string | null
+          fuel_receipt_id?: string | null
+          gps_upload_id?: string | null
+          id?: string
+          inspection_id?: string | null
+          notes?: string | null
+          odometer_km?: number | null
+          reading_date?: string
+          recorded_by?: string | null
+          source: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          distance_km?: number | null
+          excluded?: boolean
+          expense_id?: string | null
+          fuel_receipt_id?: string | null
+          gps_upload_id?: string | null
+          id?: string
+          inspection_id?: string | null
+          notes?: string | null
+          odometer_km?: number | null
+          reading_date?: string
+          recorded_by?: string | null
+          source?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "odometer_readings_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_fuel_receipt_id_fkey"
+            columns: ["fuel_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "fuel_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_gps_upload_id_fkey"
+            columns: ["gps_upload_id"]
+            isOneToOne: false
+            referencedRelation: "gps_uploads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "vehicle_inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_settings: {
+        Row: {
+          created_at: string
+          fiscal_year_start_month: number
+          id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          fiscal_year_start_month?: number
+          id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          fiscal_year_start_month?: number
+          id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+        ]
+      }
+      profiles: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          block_reason: string | null
+          blocked_at: string | null
+          blocked_by: string | null
+          created_at: string
+          default_branch_id: string | null
+          email: string
+          full_name: string | null
+          id: string
+          is_approved: boolean
+          is_blocked: boolean
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          block_reason?: string | null
+          blocked_at?: string | null
+          blocked_by?: string | null
+          created_at?: string
+          default_branch_id?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+          is_approved?: boolean
+          is_blocked?: boolean
+          updated_at?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
           block_reason?: string | null
           blocked_at?: string | null
           blocked_by?: string | null
@@ -748,26 +1555,299 @@ export type Database = {
           },
         ]
       }
+      tire_set_mounts: {
+        Row: {
+          created_at: string
+          dismount_odometer_km: number | null
+          dismount_tread_mm: number | null
+          dismounted_on: string | null
+          id: string
+          mount_odometer_km: number | null
+          mount_tread_mm: number | null
+          mounted_on: string
+          notes: string | null
+          recorded_by: string | null
+          tire_set_id: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          dismount_odometer_km?: number | null
+          dismount_tread_mm?: number | null
+          dismounted_on?: string | null
+          id?: string
+          mount_odometer_km?: number | null
+          mount_tread_mm?: number | null
+          mounted_on: string
+          notes?: string | null
+          recorded_by?: string | null
+          tire_set_id: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          dismount_odometer_km?: number | null
+          dismount_tread_mm?: number | null
+          dismounted_on?: string | null
+          id?: string
+          mount_odometer_km?: number | null
+          mount_tread_mm?: number | null
+          mounted_on?: string
+          notes?: string | null
+          recorded_by?: string | null
+          tire_set_id?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tire_set_mounts_tire_set_id_fkey"
+            columns: ["tire_set_id"]
+            isOneToOne: false
+            referencedRelation: "tire_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tire_set_mounts_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tire_sets: {
+        Row: {
+          branch_id: string | null
+          brand: string
+          created_at: string
+          created_by: string | null
+          id: string
+          label: string
+          measurements: string
+          model: string | null
+          new_tread_mm: number | null
+          notes: string | null
+          purchase_cost: number | null
+          purchase_date: string | null
+          retired_on: string | null
+          storage_location: string | null
+          tire_type: string
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string | null
+          brand: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label: string
+          measurements: string
+          model?: string | null
+          new_tread_mm?: number | null
+          notes?: string | null
+          purchase_cost?: number | null
+          purchase_date?: string | null
+          retired_on?: string | null
+          storage_location?: string | null
+          tire_type: string
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string | null
+          brand?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label?: string
+          measurements?: string
+          model?: string | null
+          new_tread_mm?: number | null
+          notes?: string | null
+          purchase_cost?: number | null
+          purchase_date?: string | null
+          retired_on?: string | null
+          storage_location?: string | null
+          tire_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tire_sets_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
           id: string
-          role: string
-          user_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vehicle_branch_history: {
+        Row: {
+          branch_id: string | null
+          changed_by: string | null
+          created_at: string
+          effective_date: string
+          id: string
+          previous_branch_id: string | null
+          vehicle_id: string
+        }
+        Insert: {
+          branch_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          effective_date: string
+          id?: string
+          previous_branch_id?: string | null
+          vehicle_id: string
+        }
+        Update: {
+          branch_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          effective_date?: string
+          id?: string
+          previous_branch_id?: string | null
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_branch_history_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_branch_history_previous_branch_id_fkey"
+            columns: ["previous_branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_branch_history_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicle_defects: {
+        Row: {
+          assigned_to: string | null
+          closed_at: string | null
+          closed_by: string | null
+          closing_inspection_id: string | null
+          created_at: string
+          due_date: string | null
+          id: string
+          inspection_id: string | null
+          item_key: string
+          item_label: string | null
+          notes: string | null
+          repair_expense_id: string | null
+          resolution: string | null
+          severity: string
+          status: string
+          updated_at: string
+          vehicle_id: string
         }
         Insert: {
+          assigned_to?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_inspection_id?: string | null
           created_at?: string
+          due_date?: string | null
           id?: string
-          role: string
-          user_id: string
+          inspection_id?: string | null
+          item_key: string
+          item_label?: string | null
+          notes?: string | null
+          repair_expense_id?: string | null
+          resolution?: string | null
+          severity?: string
+          status?: string
+          updated_at?: string
+          vehicle_id: string
         }
         Update: {
+          assigned_to?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_inspection_id?: string | null
           created_at?: string
+          due_date?: string | null
           id?: string
-          role?: string
-          user_id?: string
+          inspection_id?: string | null
+          item_key?: string
+          item_label?: string | null
+          notes?: string | null
+          repair_expense_id?: string | null
+          resolution?: string | null
+          severity?: string
+          status?: string
+          updated_at?: string
+          vehicle_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_defects_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_defects_closing_inspection_id_fkey"
+            columns: ["closing_inspection_id"]
+            isOneToOne: false
+            referencedRelation: "vehicle_inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_defects_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "vehicle_inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_defects_repair_expense_id_fkey"
+            columns: ["repair_expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_defects_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       vehicle_inspections: {
         Row: {
@@ -789,6 +1869,7 @@ export type Database = {
           oil_level_pass: boolean
           signal_lights_notes: string | null
           signal_lights_pass: boolean
+          template_id: string | null
           tires_notes: string | null
           tires_pass: boolean
           transmission_notes: string | null
@@ -819,6 +1900,7 @@ export type Database = {
           oil_level_pass?: boolean
           signal_lights_notes?: string | null
           signal_lights_pass?: boolean
+          template_id?: string | null
           tires_notes?: string | null
           tires_pass?: boolean
           transmission_notes?: string | null
@@ -849,6 +1931,7 @@ export type Database = {
           oil_level_pass?: boolean
           signal_lights_notes?: string | null
           signal_lights_pass?: boolean
+          template_id?: string | null
           tires_notes?: string | null
           tires_pass?: boolean
           transmission_notes?: string | null
@@ -861,6 +1944,13 @@ export type Database = {
           wipers_pass?: boolean
         }
         Relationships: [
+          {
+            foreignKeyName: "vehicle_inspections_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "vehicle_inspections_branch_id_fkey"
             columns: ["branch_id"]
@@ -877,11 +1967,53 @@ export type Database = {
           },
         ]
       }
+      vehicle_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          effective_date: string
+          id: string
+          previous_status: string | null
+          status: string
+          vehicle_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          effective_date: string
+          id?: string
+          previous_status?: string | null
+          status: string
+          vehicle_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          effective_date?: string
+          id?: string
+          previous_status?: string | null
+          status?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_status_history_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vehicles: {
         Row: {
+          branch_changed_on: string | null
           branch_id: string | null
+          buyer_name: string | null
           created_at: string
           current_tire_type: string | null
+          disposal_date: string | null
+          final_odometer_km: number | null
           id: string
           last_oil_change_km: number | null
           last_tire_change_date: string | null
@@ -890,7 +2022,10 @@ export type Database = {
           notes: string | null
           odometer_km: number | null
           plate: string
+          sale_price: number | null
           status: string | null
+          status_before_work_order: string | null
+          status_changed_on: string | null
           summer_tire_brand: string | null
           summer_tire_condition: string | null
           summer_tire_location: string | null
@@ -898,6 +2033,7 @@ export type Database = {
           tire_notes: string | null
           transponder_407: string | null
           updated_at: string
+          vehicle_type: string | null
           vin: string
           winter_tire_brand: string | null
           winter_tire_condition: string | null
@@ -906,9 +2042,13 @@ export type Database = {
           year: number | null
         }
         Insert: {
+          branch_changed_on?: string | null
           branch_id?: string | null
+          buyer_name?: string | null
           created_at?: string
           current_tire_type?: string | null
+          disposal_date?: string | null
+          final_odometer_km?: number | null
           id?: string
           last_oil_change_km?: number | null
           last_tire_change_date?: string | null
@@ -917,7 +2057,10 @@ export type Database = {
           notes?: string | null
           odometer_km?: number | null
           plate: string
+          sale_price?: number | null
           status?: string | null
+          status_before_work_order?: string | null
+          status_changed_on?: string | null
           summer_tire_brand?: string | null
           summer_tire_condition?: string | null
           summer_tire_location?: string | null
@@ -925,6 +2068,7 @@ export type Database = {
           tire_notes?: string | null
           transponder_407?: string | null
           updated_at?: string
+          vehicle_type?: string | null
           vin: string
           winter_tire_brand?: string | null
           winter_tire_condition?: string | null
@@ -933,9 +2077,13 @@ export type Database = {
           year?: number | null
         }
         Update: {
+          branch_changed_on?: string | null
           branch_id?: string | null
+          buyer_name?: string | null
           created_at?: string
           current_tire_type?: string | null
+          disposal_date?: string | null
+          final_odometer_km?: number | null
           id?: string
           last_oil_change_km?: number | null
           last_tire_change_date?: string | null
@@ -944,7 +2092,10 @@ export type Database = {
           notes?: string | null
           odometer_km?: number | null
           plate?: string
+          sale_price?: number | null
           status?: string | null
+          status_before_work_order?: string | null
+          status_changed_on?: string | null
           summer_tire_brand?: string | null
           summer_tire_condition?: string | null
           summer_tire_location?: string | null
@@ -952,6 +2103,7 @@ export type Database = {
           tire_notes?: string | null
           transponder_407?: string | null
           updated_at?: string
+          vehicle_type?: string | null
           vin?: string
           winter_tire_brand?: string | null
           winter_tire_condition?: string | null
@@ -969,6 +2121,53 @@ export type Database = {
           },
         ]
       }
+      vendor_reconciliations: {
+        Row: {
+          action: string
+          created_at: string
+          expenses_updated: number
+          fuel_receipts_updated: number
+          id: string
+          performed_by: string | null
+          source_names: string[]
+          source_vendor_ids: string[]
+          vendor_id: string | null
+          vendor_name: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          expenses_updated?: number
+          fuel_receipts_updated?: number
+          id?: string
+          performed_by?: string | null
+          source_names?: string[]
+          source_vendor_ids?: string[]
+          vendor_id?: string | null
+          vendor_name: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          expenses_updated?: number
+          fuel_receipts_updated?: number
+          id?: string
+          performed_by?: string | null
+          source_names?: string[]
+          source_vendor_ids?: string[]
+          vendor_id?: string | null
+          vendor_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_reconciliations_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vendors: {
         Row: {
           address: string | null
@@ -1025,14 +2224,502 @@ export type Database = {
           },
         ]
       }
+      work_orders: {
+        Row: {
+          actual_cost: number | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          description: string
+          estimated_cost: number | null
+          id: string
+          notes: string | null
+          odometer_km: number | null
+          opened_at: string
+          status: string
+          updated_at: string
+          vehicle_id: string
+          vendor_id: string | null
+          vendor_name: string | null
+        }
+        Insert: {
+          actual_cost?: number | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description: string
+          estimated_cost?: number | null
+          id?: string
+          notes?: string | null
+          odometer_km?: number | null
+          opened_at?: string
+          status?: string
+          updated_at?: string
+          vehicle_id: string
+          vendor_id?: string | null
+          vendor_name?: string | null
+        }
+        Update: {
+          actual_cost?: number | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          estimated_cost?: number | null
+          id?: string
+          notes?: string | null
+          odometer_km?: number | null
+          opened_at?: string
+          status?: string
+          updated_at?: string
+          vehicle_id?: string
+          vendor_id?: string | null
+          vendor_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_orders_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      approve_expense_step: {
+        Args: { _comment?: string; _expense_id: string }
+        Returns: string
+      }
+      approve_rejected_expense: {
+        Args: { _comment?: string; _expense_id: string }
+        Returns: string
+      }
+      can_act_on_approval_step: {
+        Args: {
+          _approver_role: string
+          _approver_user_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      close_accounting_period: {
+        Args: { _period_month: string }
+        Returns: string
+      }
+      filtered_expenses: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: Database["public"]["Tables"]["expenses"]["Row"][]
+      }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
       is_admin_or_manager: { Args: { _user_id: string }; Returns: boolean }
+      is_period_closed: { Args: { _date: string }; Returns: boolean }
       is_user_approved: { Args: { _user_id: string }; Returns: boolean }
+      flag_duplicate_expenses: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      latest_service_records: {
+        Args: { _category_ids: string[]; _vehicle_id?: string }
+        Returns: {
+          category_id: string
+          date: string
+          odometer_reading: number
+          vehicle_id: string
+        }[]
+      }
+      link_vendor_names: {
+        Args: { _names: string[]; _vendor_id: string }
+        Returns: string
+      }
+      merge_duplicate_expense: {
+        Args: { _flag_id: string; _keep_flagged?: boolean }
+        Returns: string
+      }
+      merge_vendors: {
+        Args: { _source_vendor_ids: string[]; _target_vendor_id: string }
+        Returns: string
+      }
+      reject_expense_step: {
+        Args: { _comment: string; _expense_id: string }
+        Returns: string
+      }
+      reopen_accounting_period: {
+        Args: { _period_month: string; _reason: string }
+        Returns: string
+      }
+      report_budget_actuals: {
+        Args: { _year: number }
+        Returns: {
+          actual: number
+          budget_id: string
+        }[]
+      }
+      report_expense_rows: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          amount: number
+          approval_status: string
+          branch_id: string
+          category_id: string
+          date: string
+          expense_id: string
+          vehicle_id: string
+        }[]
+      }
+      report_expenses_by_branch: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          expense_count: number
+          total: number
+          vehicle_count: number
+        }[]
+      }
+      report_expenses_by_category: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          category_name: string
+          category_type: string
+          expense_count: number
+          total: number
+        }[]
+      }
+      report_expenses_by_month: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          expense_count: number
+          month: string
+          total: number
+        }[]
+      }
+      report_expenses_by_status: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          approval_status: string
+          expense_count: number
+          total: number
+        }[]
+      }
+      report_expenses_by_vehicle: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          expense_count: number
+          make: string
+          model: string
+          plate: string
+          total: number
+          vehicle_id: string
+        }[]
+      }
+      report_fleet_km: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          kilometers: number
+          make: string
+          model: string
+          plate: string
+          vehicle_id: string
+        }[]
+      }
+      report_fuel_by_branch: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          economy_km: number
+          economy_litres: number
+          litres: number
+          receipt_count: number
+          total: number
+        }[]
+      }
+      report_fuel_by_staff: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          receipt_count: number
+          staff_name: string
+          total: number
+        }[]
+      }
+      report_fuel_by_vehicle: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          economy_km: number
+          economy_litres: number
+          litres: number
+          make: string
+          model: string
+          plate: string
+          receipt_count: number
+          recent_km: number
+          recent_litres: number
+          segment_count: number
+          total: number
+          vehicle_id: string
+        }[]
+      }
+      report_fuel_economy_by_month: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          distance_km: number
+          litres: number
+          month: string
+        }[]
+      }
+      report_fuel_economy_segments: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          branch_id: string
+          date: string
+          distance_km: number
+          litres: number
+          recent: boolean
+          vehicle_id: string
+        }[]
+      }
+      report_fuel_rows: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          amount: number
+          branch_id: string
+          date: string
+          litres: number
+          odometer_km: number
+          receipt_id: string
+          staff_name: string
+          vehicle_id: string
+        }[]
+      }
+      report_inspection_compliance: {
+        Args: {
+          _month_from: string
+          _month_to: string
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          last_inspection_date: string
+          make: string
+          model: string
+          months: Json
+          plate: string
+          status: string
+          vehicle_id: string
+        }[]
+      }
+      report_tax_credits: {
+        Args: {
+          _branch_id?: string
+          _date_from?: string
+          _date_to?: string
+          _interval?: string
+          _vehicle_id?: string
+        }
+        Returns: {
+          component: string
+          expense_tax: number
+          fuel_tax: number
+          period: string
+          recoverable: boolean
+          total: number
+        }[]
+      }
+      report_unlinked_vendor_names: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          expense_count: number
+          fuel_receipt_count: number
+          name: string
+          spellings: string[]
+          total: number
+        }[]
+      }
+      report_vehicle_cost_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          category_name: string
+          category_type: string
+          first_date: string
+          total: number
+          vehicle_id: string
+        }[]
+      }
+      report_vehicle_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          fuel_total: number
+          gps_km: number
+          max_odometer: number
+          min_odometer: number
+          reading_count: number
+          vehicle_id: string
+        }[]
+      }
+      report_vendor_jobs: {
+        Args: {
+          _date_from: string
+          _date_to: string
+          _repeat_window_days?: number
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          category_id: string
+          category_name: string
+          category_type: string
+          job_count: number
+          max_amount: number
+          min_amount: number
+          monthly: Json
+          repeat_jobs: Json
+          total: number
+          vendor_id: string
+          vendor_key: string
+          vendor_name: string
+        }[]
+      }
+      submit_inspection: {
+        Args: {
+          _branch_id: string
+          _general_notes: string
+          _kilometers: number
+          _results: Json
+          _template_id: string
+          _vehicle_id: string
+        }
+        Returns: string
+      }
+      swap_tire_sets: {
+        Args: {
+          _change_date: string
+          _dismount_tread_mm?: number
+          _mount_set_id?: string
+          _mount_tread_mm?: number
+          _notes?: string
+          _odometer_km: number
+          _storage_location?: string
+          _vehicle_id: string
+        }
+        Returns: undefined
+      }
+      vehicle_branch_history_between: {
+        Args: {
+          _date_from: string
+          _date_to: string
+        }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          created_at: string
+          effective_date: string
+          vehicle_id: string
+        }[]
+      }
+      vehicle_branch_on: {
+        Args: { _date: string; _vehicle_id: string }
+        Returns: string
+      }
+      vehicle_status_history_between: {
+        Args: {
+          _date_from: string
+          _date_to: string
+        }
+        Returns: {
+          created_at: string
+          effective_date: string
+          status: string
+          vehicle_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
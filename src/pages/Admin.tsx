@@ -6,10 +6,18 @@ import { Layout } from '@/components/Layout';
 import { BranchManager } from '@/components/BranchManager';
 import { CategoryManager } from '@/components/CategoryManager';
 import { VendorManager } from '@/components/VendorManager';
+import { VendorReconciliation } from '@/components/VendorReconciliation';
 import { BackupRestore } from '@/components/BackupRestore';
 import { PreapprovalRulesManager } from '@/components/PreapprovalRulesManager';
+import { ApprovalChainManager } from '@/components/ApprovalChainManager';
+import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { MaintenanceScheduleManager } from '@/components/MaintenanceScheduleManager';
+import { InspectionTemplateManager } from '@/components/InspectionTemplateManager';
+import { BudgetManager } from '@/components/BudgetManager';
+import { FiscalYearSettings } from '@/components/FiscalYearSettings';
+import { AccountingPeriodsManager } from '@/components/AccountingPeriodsManager';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Shield, Building2, Tag, CheckSquare, Users, Database, FileText, Download, Eye, Store, Trash2, RotateCcw, ShieldCheck } from 'lucide-react';
+import { Shield, Building2, Tag, CheckSquare, Users, Database, FileText, Download, Eye, Store, Trash2, RotateCcw, ShieldCheck, History, Wrench, PiggyBank, ClipboardCheck, Lock } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -455,24 +463,22 @@ const Admin = () => {
 
   const handleApproval = async (expenseId: string, status: 'approved' | 'rejected', rejectionReason?: string) => {
     try {
-      const { error } = await supabase
-        .from('expenses')
-        .update({
-          approval_status: status,
-          approved_by: user?.id,
-          approved_at: new Date().toISOString(),
-          rejection_reason: status === 'rejected' ? rejectionReason : null,
-        })
-        .eq('id', expenseId);
+      // Decisions go through the approval chain so each step is recorded
+      const { data: result, error } = status === 'approved'
+        ? await supabase.rpc('approve_expense_step', { _expense_id: expenseId })
+        : await supabase.rpc('reject_expense_step', { _expense_id: expenseId, _comment: rejectionReason || null });
 
       if (error) throw error;
 
       toast({
         title: 'Success',
-        description: `Expense ${status} successfully`,
+        description: result === 'pending'
+          ? 'Step approved. The expense has moved to the next approver.'
+          : `Expense ${status} successfully`,
       });
 
       fetchPendingExpenses();
+      emitExpensesChanged();
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -654,7 +660,7 @@ const Admin = () => {
         </div>
 
         <Tabs defaultValue="branches" className="w-full">
-          <TabsList className="grid w-full grid-cols-8">
+          <TabsList className="grid w-full grid-cols-[repeat(13,minmax(0,1fr))]">
             <TabsTrigger value="branches" className="gap-2">
               <Building2 className="h-4 w-4" />
               <span className="hidden sm:inline">Branches</span>
@@ -671,6 +677,22 @@ const Admin = () => {
               <ShieldCheck className="h-4 w-4" />
               <span className="hidden sm:inline">Pre-Approval</span>
             </TabsTrigger>
+            <TabsTrigger value="maintenance" className="gap-2">
+              <Wrench className="h-4 w-4" />
+              <span className="hidden sm:inline">Maintenance</span>
+            </TabsTrigger>
+            <TabsTrigger value="inspections" className="gap-2">
+              <ClipboardCheck className="h-4 w-4" />
+              <span className="hidden sm:inline">Inspections</span>
+            </TabsTrigger>
+            <TabsTrigger value="budgets" className="gap-2">
+              <PiggyBank className="h-4 w-4" />
+              <span className="hidden sm:inline">Budgets</span>
+            </TabsTrigger>
+            <TabsTrigger value="accounting" className="gap-2">
+              <Lock className="h-4 w-4" />
+              <span className="hidden sm:inline">Accounting</span>
+            </TabsTrigger>
             <TabsTrigger value="approvals" className="gap-2">
               <CheckSquare className="h-4 w-4" />
               <span className="hidden sm:inline">Approvals</span>
@@ -692,6 +714,10 @@ const Admin = () => {
                 <Badge variant="secondary" className="ml-1 bg-amber-500 text-white hover:bg-amber-500">{users.filter(u => !u.is_approved && !u.is_blocked).length}</Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="audit" className="gap-2">
+              <History className="h-4 w-4" />
+              <span className="hidden sm:inline">Audit Log</span>
+            </TabsTrigger>
             <TabsTrigger value="backup" className="gap-2">
               <Database className="h-4 w-4" />
               <span className="hidden sm:inline">Backup</span>
@@ -704,6 +730,7 @@ const Admin = () => {
 
           <TabsContent value="vendors" className="space-y-4">
             <VendorManager />
+            <VendorReconciliation />
           </TabsContent>
 
           <TabsContent value="categories" className="space-y-4">
@@ -712,6 +739,24 @@ const Admin = () => {
 
           <TabsContent value="preapproval" className="space-y-4">
             <PreapprovalRulesManager />
+            <ApprovalChainManager />
+          </TabsContent>
+
+          <TabsContent value="maintenance" className="space-y-4">
+            <MaintenanceScheduleManager />
+          </TabsContent>
+
+          <TabsContent value="inspections" className="space-y-4">
+            <InspectionTemplateManager />
+          </TabsContent>
+
+          <TabsContent value="budgets" className="space-y-4">
+            <BudgetManager />
+          </TabsContent>
+
+          <TabsContent value="accounting" className="space-y-4">
+            <FiscalYearSettings />
+            <AccountingPeriodsManager />
           </TabsContent>
 
           <TabsContent value="approvals" className="space-y-4">
@@ -1153,6 +1198,10 @@ const Admin = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="audit" className="space-y-4">
+            <AuditLogViewer />
+          </TabsContent>
+
           <TabsContent value="backup" className="space-y-4">
             <BackupRestore />
           </TabsContent>
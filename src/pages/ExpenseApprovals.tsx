@@ -11,9 +11,21 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, XCircle, Clock, DollarSign, FileText, Download, Eye, RefreshCw, AlertTriangle } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, DollarSign, FileText, Download, Eye, RefreshCw, AlertTriangle, ListChecks, Copy, Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { EditExpenseDialog } from '@/components/EditExpenseDialog';
+import { ApprovalStepsTimeline } from '@/components/ApprovalStepsTimeline';
+import { DuplicateReviewDialog, PossibleDuplicateBadge } from '@/components/DuplicateReviewDialog';
+import { useDuplicateFlags } from '@/hooks/useDuplicateFlags';
+import { emitExpensesChanged } from '@/utils/expensesEvents';
+import {
+  APPROVER_ROLE_LABELS,
+  ExpenseApprovalStep,
+  canActOnStep,
+  isBarredFromApproving,
+  getCurrentStep,
+  isWaitingOnUser,
+} from '@/utils/approvalChain';
 
 interface Document {
   id: string;
@@ -32,6 +44,7 @@ interface ExpenseWithDetails {
   description: string;
   approval_status: string;
   created_at: string;
+  created_by: string | null;
   vehicle_id: string;
   category_id: string | null;
   branch_id: string | null;
@@ -57,7 +70,7 @@ interface ExpenseWithDetails {
 
 export default function ExpenseApprovals() {
   const { user, loading: authLoading } = useAuth();
-  const { isAdminOrManager, loading: roleLoading } = useUserRole();
+  const { isAdmin, isManager, isAdminOrManager, loading: roleLoading } = useUserRole();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [expenses, setExpenses] = useState<ExpenseWithDetails[]>([]);
@@ -69,6 +82,13 @@ export default function ExpenseApprovals() {
   const [downloadingFile, setDownloadingFile] = useState<string | null>(null);
   const [editExpense, setEditExpense] = useState<ExpenseWithDetails | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
+  const [approvalSteps, setApprovalSteps] = useState<Record<string, ExpenseApprovalStep[]>>({});
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [showApproveDialog, setShowApproveDialog] = useState(false);
+  const [approvalComment, setApprovalComment] = useState('');
+  const [duplicateReviewId, setDuplicateReviewId] = useState<string | null>(null);
+  const [scanningDuplicates, setScanningDuplicates] = useState(false);
+  const { flagsByExpense, dismissFlag, mergeFlag, scanForDuplicates } = useDuplicateFlags();
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -112,6 +132,7 @@ export default function ExpenseApprovals() {
       })) || [];
 
       setExpenses(formattedExpenses);
+      await fetchApprovalSteps(formattedExpenses.map(e => e.id));
     } catch (error: any) {
       console.error('Error fetching expenses:', error);
       toast({
@@ -153,11 +174,74 @@ export default function ExpenseApprovals() {
     }
   };
 
+  const fetchApprovalSteps = async (expenseIds: string[]) => {
+    if (expenseIds.length === 0) {
+      setApprovalSteps({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('expense_approval_steps')
+      .select('*')
+      .in('expense_id', expenseIds)
+      .order('step_order');
+
+    if (error) {
+      console.error('Error fetching approval steps:', error);
+      return;
+    }
+
+    const stepsByExpense: Record<string, ExpenseApprovalStep[]> = {};
+    (data || []).forEach(step => {
+      stepsByExpense[step.expense_id] = [...(stepsByExpense[step.expense_id] || []), step];
+    });
+    setApprovalSteps(stepsByExpense);
+
+    // Resolve names of named approvers and of people who already acted
+    const userIds = [...new Set((data || []).flatMap(step => [step.acted_by, step.approver_user_id]).filter(Boolean))] as string[];
+    if (userIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', userIds);
+      setUserNames((profiles || []).reduce((acc, p) => {
+        acc[p.id] = p.full_name || p.email;
+        return acc;
+      }, {} as Record<string, string>));
+    }
+  };
+
   const handleRefreshAll = () => {
     fetchPendingExpenses();
     fetchRejectedExpenses();
   };
 
+  const handleScanDuplicates = async () => {
+    setScanningDuplicates(true);
+    try {
+      const flagged = await scanForDuplicates();
+      toast({
+        title: 'Duplicate Scan Complete',
+        description: flagged > 0
+          ? `${flagged} possible duplicate${flagged === 1 ? '' : 's'} flagged for review.`
+          : 'No new possible duplicates found.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to scan for duplicates.',
+        variant: 'destructive',
+      });
+    } finally {
+      setScanningDuplicates(false);
+    }
+  };
+
+  const handleMergeDuplicate = async (flagId: string, keepFlagged: boolean) => {
+    await mergeFlag(flagId, keepFlagged);
+    handleRefreshAll();
+  };
+
   const handleDownloadDocument = async (document: Document) => {
     try {
       setDownloadingFile(document.id);
@@ -225,31 +309,62 @@ export default function ExpenseApprovals() {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
-  const handleApprove = async (expenseId: string) => {
+  const handleApprove = async () => {
+    if (!selectedExpense) return;
+
     try {
-      const { error } = await supabase
-        .from('expenses')
-        .update({
-          approval_status: 'approved',
-          approved_by: user?.id,
-          approved_at: new Date().toISOString(),
-        })
-        .eq('id', expenseId);
+      const { data: result, error } = await supabase.rpc('approve_expense_step', {
+        _expense_id: selectedExpense.id,
+        _comment: approvalComment.trim() || null,
+      });
 
       if (error) throw error;
 
       toast({
         title: 'Success',
-        description: 'Expense approved successfully.',
+        description: result === 'approved'
+          ? 'Expense approved successfully.'
+          : 'Step approved. The expense has moved to the next approver.',
       });
 
+      setShowApproveDialog(false);
+      setSelectedExpense(null);
+      setApprovalComment('');
       fetchPendingExpenses();
+      emitExpensesChanged();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to approve expense.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Back to pending so the approval steps are built again, then approve the first step
+  const handleApproveAsIs = async (expenseId: string) => {
+    try {
+      const { data: result, error } = await supabase.rpc('approve_rejected_expense', {
+        _expense_id: expenseId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: result === 'approved'
+          ? 'Expense approved successfully.'
+          : 'Step approved. The expense has moved to the next approver.',
+      });
     } catch (error: any) {
       toast({
         title: 'Error',
         description: error.message || 'Failed to approve expense.',
         variant: 'destructive',
       });
+    } finally {
+      handleRefreshAll();
+      emitExpensesChanged();
     }
   };
 
@@ -264,15 +379,10 @@ export default function ExpenseApprovals() {
     }
 
     try {
-      const { error } = await supabase
-        .from('expenses')
-        .update({
-          approval_status: 'rejected',
-          approved_by: user?.id,
-          approved_at: new Date().toISOString(),
-          rejection_reason: rejectionReason,
-        })
-        .eq('id', selectedExpense.id);
+      const { error } = await supabase.rpc('reject_expense_step', {
+        _expense_id: selectedExpense.id,
+        _comment: rejectionReason,
+      });
 
       if (error) throw error;
 
@@ -284,7 +394,8 @@ export default function ExpenseApprovals() {
       setShowRejectDialog(false);
       setSelectedExpense(null);
       setRejectionReason('');
-      fetchPendingExpenses();
+      handleRefreshAll();
+      emitExpensesChanged();
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -294,6 +405,176 @@ export default function ExpenseApprovals() {
     }
   };
 
+  // Items waiting at a step this user is responsible for
+  const waitingExpenses = expenses.filter(expense =>
+    isWaitingOnUser(approvalSteps[expense.id] || [], user?.id, { isAdmin, isManager, isAdminOrManager })
+  );
+
+  const renderPendingExpense = (expense: ExpenseWithDetails) => {
+    const steps = approvalSteps[expense.id] || [];
+    const currentStep = getCurrentStep(steps);
+    const canAct = currentStep
+      ? canActOnStep(currentStep, user?.id, { isAdmin, isAdminOrManager })
+      : isAdminOrManager;
+    const canApprove = canAct && !isBarredFromApproving(steps, expense.created_by, user?.id);
+
+    return (
+      <Card key={expense.id}>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div className="space-y-1">
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                ${expense.amount.toLocaleString()}
+              </CardTitle>
+              <CardDescription>
+                Submitted by {expense.profiles?.full_name || 'Unknown'} on{' '}
+                {format(new Date(expense.created_at), 'MMM dd, yyyy')}
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {flagsByExpense[expense.id] && (
+                <PossibleDuplicateBadge onClick={() => setDuplicateReviewId(expense.id)} />
+              )}
+              <Badge variant="secondary">
+                <Clock className="h-3 w-3 mr-1" />
+                {currentStep
+                  ? `Waiting on ${currentStep.approver_user_id
+                    ? userNames[currentStep.approver_user_id] || 'named approver'
+                    : APPROVER_ROLE_LABELS[currentStep.approver_role] || currentStep.approver_role}`
+                  : 'Pending'}
+              </Badge>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium mb-1">Vehicle</p>
+              <p className="text-sm text-muted-foreground">
+                {expense.vehicles
+                  ? `${expense.vehicles.make} ${expense.vehicles.model} (${expense.vehicles.plate})`
+                  : 'N/A'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">Category</p>
+              <p className="text-sm text-muted-foreground">
+                {expense.expense_categories?.name || 'N/A'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">Date</p>
+              <p className="text-sm text-muted-foreground">
+                {format(new Date(expense.date), 'MMM dd, yyyy')}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-1">Submitted By</p>
+              <p className="text-sm text-muted-foreground">
+                {expense.profiles?.email || 'N/A'}
+              </p>
+            </div>
+          </div>
+          {expense.description && (
+            <div>
+              <p className="text-sm font-medium mb-1">Description</p>
+              <p className="text-sm text-muted-foreground">{expense.description}</p>
+            </div>
+          )}
+
+          {/* Documents Section */}
+          {expense.documents && expense.documents.length > 0 && (
+            <div className="border-t pt-4">
+              <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Attached Documents ({expense.documents.length})
+              </p>
+              <div className="space-y-2">
+                {expense.documents.map((doc) => (
+                  <div
+                    key={doc.id}
+                    className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <FileText className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{doc.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {doc.file_type || 'Unknown type'} • {formatFileSize(doc.file_size)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleViewDocument(doc)}
+                        disabled={downloadingFile === doc.id}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownloadDocument(doc)}
+                        disabled={downloadingFile === doc.id}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <ApprovalStepsTimeline steps={steps} userNames={userNames} />
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              onClick={() => {
+                setSelectedExpense(expense);
+                setShowApproveDialog(true);
+              }}
+              className="gap-2"
+              size="sm"
+              disabled={!canApprove}
+            >
+              <CheckCircle className="h-4 w-4" />
+              Approve
+            </Button>
+            <Button
+              onClick={() => {
+                setEditExpense(expense);
+                setShowEditDialog(true);
+              }}
+              variant="outline"
+              size="sm"
+              className="gap-2"
+            >
+              <RefreshCw className="h-4 w-4" />
+              Edit
+            </Button>
+            <Button
+              onClick={() => {
+                setSelectedExpense(expense);
+                setShowRejectDialog(true);
+              }}
+              variant="destructive"
+              size="sm"
+              className="gap-2"
+              disabled={!canAct}
+            >
+              <XCircle className="h-4 w-4" />
+              Reject
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
   if (authLoading || roleLoading) {
     return (
       <Layout>
@@ -327,16 +608,31 @@ export default function ExpenseApprovals() {
   return (
     <Layout>
       <div className="space-y-8">
-        <div>
-          <h1 className="text-3xl font-bold mb-2">Expense Approvals</h1>
-          <p className="text-muted-foreground">Review and approve pending expense submissions</p>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Expense Approvals</h1>
+            <p className="text-muted-foreground">Review and approve pending expense submissions</p>
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={handleScanDuplicates}
+            disabled={scanningDuplicates}
+          >
+            {scanningDuplicates ? <Loader2 className="h-4 w-4 animate-spin" /> : <Copy className="h-4 w-4" />}
+            {scanningDuplicates ? 'Scanning...' : 'Scan for Duplicates'}
+          </Button>
         </div>
 
         <Tabs defaultValue="pending" className="space-y-4">
           <TabsList>
             <TabsTrigger value="pending" className="gap-2">
               <Clock className="h-4 w-4" />
-              Pending ({expenses.length})
+              Waiting for You ({waitingExpenses.length})
+            </TabsTrigger>
+            <TabsTrigger value="all" className="gap-2">
+              <ListChecks className="h-4 w-4" />
+              All Pending ({expenses.length})
             </TabsTrigger>
             <TabsTrigger value="rejected" className="gap-2">
               <XCircle className="h-4 w-4" />
@@ -345,6 +641,27 @@ export default function ExpenseApprovals() {
           </TabsList>
 
           <TabsContent value="pending">
+            {loading ? (
+              <Card>
+                <CardContent className="p-8 text-center text-muted-foreground">
+                  Loading pending expenses...
+                </CardContent>
+              </Card>
+            ) : waitingExpenses.length === 0 ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Clock className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">No expenses are waiting at your approval step</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-4">
+                {waitingExpenses.map(renderPendingExpense)}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="all">
             {loading ? (
               <Card>
                 <CardContent className="p-8 text-center text-muted-foreground">
@@ -360,145 +677,7 @@ export default function ExpenseApprovals() {
               </Card>
             ) : (
               <div className="space-y-4">
-                {expenses.map((expense) => (
-                  <Card key={expense.id}>
-                    <CardHeader>
-                      <div className="flex items-start justify-between">
-                        <div className="space-y-1">
-                          <CardTitle className="flex items-center gap-2">
-                            <DollarSign className="h-5 w-5" />
-                            ${expense.amount.toLocaleString()}
-                          </CardTitle>
-                          <CardDescription>
-                            Submitted by {expense.profiles?.full_name || 'Unknown'} on{' '}
-                            {format(new Date(expense.created_at), 'MMM dd, yyyy')}
-                          </CardDescription>
-                        </div>
-                        <Badge variant="secondary">
-                          <Clock className="h-3 w-3 mr-1" />
-                          Pending
-                        </Badge>
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="grid md:grid-cols-2 gap-4">
-                        <div>
-                          <p className="text-sm font-medium mb-1">Vehicle</p>
-                          <p className="text-sm text-muted-foreground">
-                            {expense.vehicles
-                              ? `${expense.vehicles.make} ${expense.vehicles.model} (${expense.vehicles.plate})`
-                              : 'N/A'}
-                          </p>
-                        </div>
-                        <div>
-                          <p className="text-sm font-medium mb-1">Category</p>
-                          <p className="text-sm text-muted-foreground">
-                            {expense.expense_categories?.name || 'N/A'}
-                          </p>
-                        </div>
-                        <div>
-                          <p className="text-sm font-medium mb-1">Date</p>
-                          <p className="text-sm text-muted-foreground">
-                            {format(new Date(expense.date), 'MMM dd, yyyy')}
-                          </p>
-                        </div>
-                        <div>
-                          <p className="text-sm font-medium mb-1">Submitted By</p>
-                          <p className="text-sm text-muted-foreground">
-                            {expense.profiles?.email || 'N/A'}
-                          </p>
-                        </div>
-                      </div>
-                      {expense.description && (
-                        <div>
-                          <p className="text-sm font-medium mb-1">Description</p>
-                          <p className="text-sm text-muted-foreground">{expense.description}</p>
-                        </div>
-                      )}
-
-                      {/* Documents Section */}
-                      {expense.documents && expense.documents.length > 0 && (
-                        <div className="border-t pt-4">
-                          <p className="text-sm font-medium mb-2 flex items-center gap-2">
-                            <FileText className="h-4 w-4" />
-                            Attached Documents ({expense.documents.length})
-                          </p>
-                          <div className="space-y-2">
-                            {expense.documents.map((doc) => (
-                              <div
-                                key={doc.id}
-                                className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
-                              >
-                                <div className="flex items-center gap-3 min-w-0">
-                                  <FileText className="h-5 w-5 text-muted-foreground flex-shrink-0" />
-                                  <div className="min-w-0">
-                                    <p className="text-sm font-medium truncate">{doc.file_name}</p>
-                                    <p className="text-xs text-muted-foreground">
-                                      {doc.file_type || 'Unknown type'} • {formatFileSize(doc.file_size)}
-                                    </p>
-                                  </div>
-                                </div>
-                                <div className="flex gap-2 flex-shrink-0">
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => handleViewDocument(doc)}
-                                    disabled={downloadingFile === doc.id}
-                                  >
-                                    <Eye className="h-4 w-4" />
-                                  </Button>
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => handleDownloadDocument(doc)}
-                                    disabled={downloadingFile === doc.id}
-                                  >
-                                    <Download className="h-4 w-4" />
-                                  </Button>
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
-
-                      <div className="flex gap-2 pt-2">
-                        <Button
-                          onClick={() => handleApprove(expense.id)}
-                          className="gap-2"
-                          size="sm"
-                        >
-                          <CheckCircle className="h-4 w-4" />
-                          Approve
-                        </Button>
-                        <Button
-                          onClick={() => {
-                            setEditExpense(expense);
-                            setShowEditDialog(true);
-                          }}
-                          variant="outline"
-                          size="sm"
-                          className="gap-2"
-                        >
-                          <RefreshCw className="h-4 w-4" />
-                          Edit
-                        </Button>
-                        <Button
-                          onClick={() => {
-                            setSelectedExpense(expense);
-                            setShowRejectDialog(true);
-                          }}
-                          variant="destructive"
-                          size="sm"
-                          className="gap-2"
-                        >
-                          <XCircle className="h-4 w-4" />
-                          Reject
-                        </Button>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                {expenses.map(renderPendingExpense)}
               </div>
             )}
           </TabsContent>
@@ -527,10 +706,15 @@ export default function ExpenseApprovals() {
                             {format(new Date(expense.created_at), 'MMM dd, yyyy')}
                           </CardDescription>
                         </div>
-                        <Badge variant="destructive">
-                          <XCircle className="h-3 w-3 mr-1" />
-                          Rejected
-                        </Badge>
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {flagsByExpense[expense.id] && (
+                            <PossibleDuplicateBadge onClick={() => setDuplicateReviewId(expense.id)} />
+                          )}
+                          <Badge variant="destructive">
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Rejected
+                          </Badge>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -640,7 +824,7 @@ export default function ExpenseApprovals() {
                           Edit & Re-submit
                         </Button>
                         <Button
-                          onClick={() => handleApprove(expense.id)}
+                          onClick={() => handleApproveAsIs(expense.id)}
                           size="sm"
                           className="gap-2"
                         >
@@ -656,6 +840,33 @@ export default function ExpenseApprovals() {
           </TabsContent>
         </Tabs>
 
+        <Dialog open={showApproveDialog} onOpenChange={setShowApproveDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Approve Expense</DialogTitle>
+              <DialogDescription>
+                Add an optional comment. It is kept with this approval step.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <Textarea
+                placeholder="Comment (optional)..."
+                value={approvalComment}
+                onChange={(e) => setApprovalComment(e.target.value)}
+                rows={3}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setShowApproveDialog(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleApprove}>
+                  Approve
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
           <DialogContent>
             <DialogHeader>
@@ -689,6 +900,14 @@ export default function ExpenseApprovals() {
           onOpenChange={setShowEditDialog}
           onExpenseUpdated={handleRefreshAll}
         />
+
+        <DuplicateReviewDialog
+          flags={duplicateReviewId ? flagsByExpense[duplicateReviewId] || [] : []}
+          open={!!duplicateReviewId}
+          onOpenChange={(open) => !open && setDuplicateReviewId(null)}
+          onDismiss={dismissFlag}
+          onMerge={handleMergeDuplicate}
+        />
       </div>
     </Layout>
   );
@@ -12,12 +12,13 @@ import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Toolti
 import { Download, FileDown, Filter, CalendarIcon, DollarSign, TrendingUp, Building2, Car, Receipt, Fuel, ChevronDown, ChevronRight } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
-import { format, startOfYear } from 'date-fns';
+import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { AddExpenseDialog } from '@/components/AddExpenseDialog';
 import { ReceiptHistory } from '@/components/ReceiptHistory';
 import { FuelReceiptHistory } from '@/components/FuelReceiptHistory';
 import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
 
 interface Branch {
   id: string;
@@ -60,6 +61,12 @@ interface CategorySummary {
   amount: number;
 }
 
+interface StatusTotal {
+  status: string;
+  amount: number;
+  count: number;
+}
+
 interface VehicleSummary {
   vehicle: string;
   amount: number;
@@ -82,6 +89,7 @@ export default function Expenses() {
   const [branchSummaries, setBranchSummaries] = useState<BranchExpenseSummary[]>([]);
   const [categorySummaries, setCategorySummaries] = useState<CategorySummary[]>([]);
   const [vehicleSummaries, setVehicleSummaries] = useState<VehicleSummary[]>([]);
+  const [statusTotals, setStatusTotals] = useState<StatusTotal[]>([]);
   const [fuelExpenses, setFuelExpenses] = useState<FuelExpense>({ totalAmount: 0, receiptCount: 0, byBranch: [], byVehicle: [] });
   const [expandedFuelBranches, setExpandedFuelBranches] = useState<Set<string>>(new Set());
   const [fuelSummaryOpen, setFuelSummaryOpen] = useState(false);
@@ -89,8 +97,9 @@ export default function Expenses() {
   
   const [selectedBranch, setSelectedBranch] = useState<string>('all');
   const [selectedVehicle, setSelectedVehicle] = useState<string>('all');
-  const [startDate, setStartDate] = useState<Date | undefined>(startOfYear(new Date()));
+  const [startDate, setStartDate] = useState<Date | undefined>();
   const [endDate, setEndDate] = useState<Date | undefined>(new Date());
+  const { fiscalYearStart, loading: fiscalYearLoading } = useFiscalYear();
   
   const { toast } = useToast();
 
@@ -110,10 +119,18 @@ export default function Expenses() {
     fetchBranchesAndVehicles();
   }, []);
 
+  // Default the range to the fiscal year to date once the fiscal year start is known
+  useEffect(() => {
+    if (!fiscalYearLoading) {
+      setStartDate(prev => (prev?.getTime() === fiscalYearStart.getTime() ? prev : fiscalYearStart));
+    }
+  }, [fiscalYearLoading, fiscalYearStart]);
+
   useEffect(() => {
+    if (fiscalYearLoading) return;
     fetchExpenseData();
     fetchFuelExpenses();
-  }, [selectedBranch, selectedVehicle, startDate, endDate]);
+  }, [fiscalYearLoading, selectedBranch, selectedVehicle, startDate, endDate]);
 
   useEffect(() => {
     const onExpensesChanged = () => {
@@ -155,12 +172,21 @@ export default function Expenses() {
 
   const fetchExpenseData = async () => {
     setLoading(true);
-    const dateStart = startDate ? format(startDate, 'yyyy-MM-dd') : `${new Date().getFullYear()}-01-01`;
+    const dateStart = format(startDate || fiscalYearStart, 'yyyy-MM-dd');
     const dateEnd = endDate ? format(endDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
 
-    // Build query
-    let query = supabase
-      .from('expenses')
+    // Expenses count towards the branch their vehicle belonged to on the expense date. The list
+    // stops at the row limit, so the totals and charts are summed in the database; the
+    // breakdowns exclude rejected expenses.
+    const filters = {
+      _date_from: dateStart,
+      _date_to: dateEnd,
+      _branch_id: selectedBranch !== 'all' ? selectedBranch : undefined,
+      _vehicle_id: selectedVehicle !== 'all' ? selectedVehicle : undefined,
+    };
+
+    const query = supabase
+      .rpc('filtered_expenses', filters)
       .select(`
         id,
         amount,
@@ -171,25 +197,20 @@ export default function Expenses() {
         staff_name,
         subtotal,
         tax_amount,
-        vehicles!inner (plate, make, model, branch_id),
+        vehicles (plate, make, model, branch_id),
         expense_categories (name, type),
         branches (name),
         manager_approvers (name)
       `)
-      .is('deleted_at', null)
-      .gte('date', dateStart)
-      .lte('date', dateEnd)
       .order('date', { ascending: false });
 
-    if (selectedBranch !== 'all') {
-      query = query.eq('vehicles.branch_id', selectedBranch);
-    }
-
-    if (selectedVehicle !== 'all') {
-      query = query.eq('vehicle_id', selectedVehicle);
-    }
-
-    const { data } = await query;
+    const [{ data }, statusRes, branchRes, categoryRes, vehicleRes] = await Promise.all([
+      query,
+      supabase.rpc('report_expenses_by_status', filters),
+      supabase.rpc('report_expenses_by_branch', filters),
+      supabase.rpc('report_expenses_by_category', filters),
+      supabase.rpc('report_expenses_by_vehicle', filters),
+    ]);
 
     if (data) {
       const formattedExpenses: ExpenseRecord[] = data.map((exp: any) => ({
@@ -208,162 +229,86 @@ export default function Expenses() {
         manager_approver: exp.manager_approvers
       }));
       setExpenses(formattedExpenses);
-
-      // Calculate branch summaries
-      const branchMap = new Map<string, { name: string; amount: number; count: number }>();
-      formattedExpenses.forEach(exp => {
-        const branchName = exp.branch?.name || 'Unassigned';
-        const current = branchMap.get(branchName) || { name: branchName, amount: 0, count: 0 };
-        current.amount += exp.amount;
-        current.count += 1;
-        branchMap.set(branchName, current);
-      });
-      setBranchSummaries(
-        Array.from(branchMap.entries()).map(([id, data]) => ({
-          branchId: id,
-          branchName: data.name,
-          totalAmount: data.amount,
-          expenseCount: data.count
-        })).sort((a, b) => b.totalAmount - a.totalAmount)
-      );
-
-      // Calculate category summaries
-      const categoryMap = new Map<string, number>();
-      formattedExpenses.forEach(exp => {
-        const categoryName = exp.category?.name || 'Uncategorized';
-        categoryMap.set(categoryName, (categoryMap.get(categoryName) || 0) + exp.amount);
-      });
-      setCategorySummaries(
-        Array.from(categoryMap.entries()).map(([category, amount]) => ({
-          category,
-          amount
-        })).sort((a, b) => b.amount - a.amount)
-      );
-
-      // Calculate vehicle summaries
-      const vehicleMap = new Map<string, number>();
-      formattedExpenses.forEach(exp => {
-        const vehicleName = exp.vehicle 
-          ? `${exp.vehicle.make || ''} ${exp.vehicle.model || ''} (${exp.vehicle.plate})`.trim()
-          : 'Unknown';
-        vehicleMap.set(vehicleName, (vehicleMap.get(vehicleName) || 0) + exp.amount);
-      });
-      setVehicleSummaries(
-        Array.from(vehicleMap.entries()).map(([vehicle, amount]) => ({
-          vehicle,
-          amount
-        })).sort((a, b) => b.amount - a.amount).slice(0, 10) // Top 10 vehicles
-      );
     } else {
       setExpenses([]);
-      setBranchSummaries([]);
-      setCategorySummaries([]);
-      setVehicleSummaries([]);
     }
 
+    setStatusTotals((statusRes.data || []).map((row) => ({
+      status: row.approval_status,
+      amount: Number(row.total),
+      count: row.expense_count,
+    })));
+
+    setBranchSummaries((branchRes.data || []).map((row) => ({
+      branchId: row.branch_id || 'unassigned',
+      branchName: row.branch_name,
+      totalAmount: Number(row.total),
+      expenseCount: row.expense_count,
+    })));
+
+    setCategorySummaries((categoryRes.data || []).map((row) => ({
+      category: row.category_name,
+      amount: Number(row.total),
+    })));
+
+    setVehicleSummaries((vehicleRes.data || []).slice(0, 10).map((row) => ({ // Top 10 vehicles
+      vehicle: `${row.make || ''} ${row.model || ''} (${row.plate})`.trim(),
+      amount: Number(row.total),
+    })));
+
     setLoading(false);
   };
 
   const fetchFuelExpenses = async () => {
-    const dateStart = startDate ? format(startDate, 'yyyy-MM-dd') : `${new Date().getFullYear()}-01-01`;
+    const dateStart = format(startDate || fiscalYearStart, 'yyyy-MM-dd');
     const dateEnd = endDate ? format(endDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
 
-    let fuelQuery = supabase
-      .from('fuel_receipts')
-      .select(`
-        id,
-        amount,
-        date,
-        vehicle_id,
-        branch_id,
-        vehicles (id, plate, make, model, branch_id),
-        branches (id, name)
-      `)
-      .gte('date', dateStart)
-      .lte('date', dateEnd);
-
-    if (selectedBranch !== 'all') {
-      fuelQuery = fuelQuery.eq('branch_id', selectedBranch);
-    }
+    const filters = {
+      _date_from: dateStart,
+      _date_to: dateEnd,
+      _branch_id: selectedBranch !== 'all' ? selectedBranch : undefined,
+      _vehicle_id: selectedVehicle !== 'all' ? selectedVehicle : undefined,
+    };
 
-    if (selectedVehicle !== 'all') {
-      fuelQuery = fuelQuery.eq('vehicle_id', selectedVehicle);
-    }
+    const [branchRes, vehicleRes] = await Promise.all([
+      supabase.rpc('report_fuel_by_branch', filters),
+      supabase.rpc('report_fuel_by_vehicle', filters),
+    ]);
 
-    const { data: fuelData } = await fuelQuery;
-
-    if (fuelData && fuelData.length > 0) {
-      let totalAmount = 0;
-      const branchMap = new Map<string, { name: string; amount: number; count: number }>();
-      const vehicleMap = new Map<string, { plate: string; make: string | null; model: string | null; branchName: string; branchId: string; amount: number; count: number }>();
-
-      fuelData.forEach((fuel: any) => {
-        const amount = Number(fuel.amount) || 0;
-        totalAmount += amount;
-
-        // By branch
-        const branchId = fuel.branch_id || fuel.vehicles?.branch_id || 'unassigned';
-        const branchName = fuel.branches?.name || 'Unassigned';
-        const branchCurrent = branchMap.get(branchId) || { name: branchName, amount: 0, count: 0 };
-        branchCurrent.amount += amount;
-        branchCurrent.count += 1;
-        branchMap.set(branchId, branchCurrent);
-
-        // By vehicle
-        if (fuel.vehicle_id && fuel.vehicles) {
-          const vehicleCurrent = vehicleMap.get(fuel.vehicle_id) || {
-            plate: fuel.vehicles.plate,
-            make: fuel.vehicles.make,
-            model: fuel.vehicles.model,
-            branchName: branchName,
-            branchId: branchId,
-            amount: 0,
-            count: 0,
-          };
-          vehicleCurrent.amount += amount;
-          vehicleCurrent.count += 1;
-          vehicleMap.set(fuel.vehicle_id, vehicleCurrent);
-        }
-      });
-
-      const byBranch = Array.from(branchMap.entries())
-        .map(([branchId, data]) => ({
-          branchId,
-          branchName: data.name,
-          amount: data.amount,
-          receiptCount: data.count,
-        }))
-        .sort((a, b) => b.amount - a.amount);
-
-      const byVehicle = Array.from(vehicleMap.entries())
-        .map(([vehicleId, data]) => ({
-          vehicleId,
-          plate: data.plate,
-          make: data.make,
-          model: data.model,
-          branchName: data.branchName,
-          branchId: data.branchId,
-          amount: data.amount,
-          receiptCount: data.count,
-        }))
-        .sort((a, b) => b.amount - a.amount);
-
-      setFuelExpenses({
-        totalAmount,
-        receiptCount: fuelData.length,
-        byBranch,
-        byVehicle,
-      });
-    } else {
-      setFuelExpenses({ totalAmount: 0, receiptCount: 0, byBranch: [], byVehicle: [] });
-    }
+    const byBranch = (branchRes.data || []).map((row) => ({
+      branchId: row.branch_id || 'unassigned',
+      branchName: row.branch_name,
+      amount: Number(row.total),
+      receiptCount: row.receipt_count,
+    }));
+
+    const byVehicle = (vehicleRes.data || []).map((row) => ({
+      vehicleId: row.vehicle_id,
+      plate: row.plate,
+      make: row.make,
+      model: row.model,
+      branchName: row.branch_name,
+      branchId: row.branch_id || 'unassigned',
+      amount: Number(row.total),
+      receiptCount: row.receipt_count,
+    }));
+
+    setFuelExpenses({
+      totalAmount: byBranch.reduce((sum, b) => sum + b.amount, 0),
+      receiptCount: byBranch.reduce((sum, b) => sum + b.receiptCount, 0),
+      byBranch,
+      byVehicle,
+    });
   };
 
+  const getStatusTotal = (status: string) => statusTotals.find(t => t.status === status)?.amount || 0;
+
+  const approvedTotal = getStatusTotal('approved');
+  const pendingTotal = getStatusTotal('pending');
+  const rejectedTotal = getStatusTotal('rejected');
   // Exclude rejected from YTD total
-  const totalYTD = expenses.filter(e => e.approval_status !== 'rejected').reduce((sum, exp) => sum + exp.amount, 0);
-  const approvedTotal = expenses.filter(e => e.approval_status === 'approved').reduce((sum, exp) => sum + exp.amount, 0);
-  const pendingTotal = expenses.filter(e => e.approval_status === 'pending').reduce((sum, exp) => sum + exp.amount, 0);
-  const rejectedTotal = expenses.filter(e => e.approval_status === 'rejected').reduce((sum, exp) => sum + exp.amount, 0);
+  const totalYTD = statusTotals.reduce((sum, t) => sum + t.amount, 0) - rejectedTotal;
+  const transactionCount = statusTotals.reduce((sum, t) => sum + t.count, 0);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
@@ -487,7 +432,7 @@ export default function Expenses() {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Transactions</p>
-                  <p className="text-2xl font-bold">{expenses.length}</p>
+                  <p className="text-2xl font-bold">{transactionCount}</p>
                 </div>
               </div>
             </CardContent>
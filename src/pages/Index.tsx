@@ -7,6 +7,9 @@ import { BranchManager } from '@/components/BranchManager';
 import { RecentExpensesFeed } from '@/components/RecentExpensesFeed';
 import { BulkImportDialog } from '@/components/BulkImportDialog';
 import { GPSUploadSection } from '@/components/GPSUploadSection';
+import { MaintenanceDueList } from '@/components/MaintenanceDueList';
+import { BudgetStatusList } from '@/components/BudgetStatusList';
+import { FleetDowntimeCard } from '@/components/FleetDowntimeCard';
 
 const Index = () => {
   const { user, loading } = useAuth();
@@ -42,6 +45,12 @@ const Index = () => {
         
         <DashboardStats />
 
+        <BudgetStatusList />
+
+        <MaintenanceDueList />
+
+        <FleetDowntimeCard />
+
         <div className="flex justify-between items-center">
           <h2 className="text-2xl font-semibold">Management Tools</h2>
           <BulkImportDialog />
@@ -8,28 +8,42 @@ import { Calendar } from '@/components/ui/calendar';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
 import { supabase } from '@/integrations/supabase/client';
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Download, FileDown, TrendingUp, Filter, CalendarIcon, Building2, Navigation, AlertTriangle, Receipt, ChevronDown, ChevronRight, ChevronsUpDown, Printer, Fuel } from 'lucide-react';
+import { Download, FileDown, TrendingUp, Filter, CalendarIcon, Building2, Navigation, AlertTriangle, Receipt, ChevronDown, ChevronRight, ChevronsUpDown, Printer, Fuel, PiggyBank, Scale, Store, Wrench, Percent } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { GPSReportSection } from '@/components/GPSReportSection';
 import { InspectionReports } from '@/components/InspectionReports';
+import { BudgetReportSection } from '@/components/BudgetReportSection';
+import { TCOReportSection } from '@/components/TCOReportSection';
+import { VendorPerformanceSection } from '@/components/VendorPerformanceSection';
+import { AvailabilityReportSection } from '@/components/AvailabilityReportSection';
+import { TaxReportSection } from '@/components/TaxReportSection';
 import { useToast } from '@/hooks/use-toast';
-import { format } from 'date-fns';
+import { format, startOfMonth, subMonths, subYears } from 'date-fns';
 import { cn } from '@/lib/utils';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { VehicleEconomyTotals, findEconomyDrops, toLitresPer100Km } from '@/utils/fuelEconomy';
+import { INSPECTION_ITEM_TYPE_LABELS, InspectionItemType } from '@/utils/inspectionTemplates';
+import {
+  EMPTY_TREND_TOTALS,
+  ExpenseTrendTotals,
+  REPORT_INTERVAL_LABELS,
+  ReportInterval,
+  buildTrendSeries,
+  percentChange,
+  toMonthlyTotals,
+} from '@/utils/reportTimeSeries';
 
 interface ExpenseByCategory {
   category: string;
   amount: number;
+  /** Spend in the same range a year earlier */
+  previousAmount: number;
   type: string;
 }
 
-interface MonthlyExpense {
-  month: string;
-  amount: number;
-}
-
 interface Branch {
   id: string;
   name: string;
@@ -48,6 +62,7 @@ interface BranchExpense {
   branchId: string;
   branchName: string;
   totalAmount: number;
+  previousAmount: number;
   vehicleCount: number;
   expenseCount: number;
 }
@@ -61,30 +76,48 @@ interface FleetKilometers {
 interface FuelExpense {
   totalAmount: number;
   receiptCount: number;
-  byBranch: { branchId: string; branchName: string; amount: number; receiptCount: number }[];
-  byVehicle: { vehicleId: string; plate: string; make: string | null; model: string | null; branchName: string; amount: number; receiptCount: number }[];
+  totalLitres: number;
+  litresPer100Km: number | null;
+  byBranch: { branchId: string; branchName: string; amount: number; receiptCount: number; litres: number; litresPer100Km: number | null }[];
+  byVehicle: { vehicleId: string; plate: string; make: string | null; model: string | null; branchName: string; amount: number; receiptCount: number; litres: number; litresPer100Km: number | null }[];
   byUser: { staffName: string; amount: number; receiptCount: number }[];
+  economyTrend: { month: string; litresPer100Km: number }[];
+  economyAlerts: { vehicleId: string; plate: string; make: string | null; model: string | null; branchName: string; baseline: number; recent: number; changePercent: number }[];
 }
 
+const EMPTY_FUEL_EXPENSES: FuelExpense = {
+  totalAmount: 0,
+  receiptCount: 0,
+  totalLitres: 0,
+  litresPer100Km: null,
+  byBranch: [],
+  byVehicle: [],
+  byUser: [],
+  economyTrend: [],
+  economyAlerts: [],
+};
+
 const COLORS = ['hsl(var(--secondary))', 'hsl(var(--accent))', 'hsl(var(--primary))', 'hsl(var(--destructive))', '#8884d8', '#82ca9d'];
 
 export default function Reports() {
   const [expensesByCategory, setExpensesByCategory] = useState<ExpenseByCategory[]>([]);
-  const [monthlyExpenses, setMonthlyExpenses] = useState<MonthlyExpense[]>([]);
+  const [expenseTrend, setExpenseTrend] = useState<ExpenseTrendTotals>(EMPTY_TREND_TOTALS);
+  const [trendInterval, setTrendInterval] = useState<ReportInterval>('month');
   const [loading, setLoading] = useState(true);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [filteredVehicles, setFilteredVehicles] = useState<Vehicle[]>([]);
   const [selectedBranch, setSelectedBranch] = useState<string>('all');
   const [selectedVehicle, setSelectedVehicle] = useState<string>('all');
-  const [startDate, setStartDate] = useState<Date | undefined>(new Date(new Date().getFullYear(), 0, 1));
+  const [startDate, setStartDate] = useState<Date | undefined>();
   const [endDate, setEndDate] = useState<Date | undefined>(new Date());
   const [branchExpenses, setBranchExpenses] = useState<BranchExpense[]>([]);
   const [fleetKilometers, setFleetKilometers] = useState<FleetKilometers>({ totalKm: 0, byBranch: [], byVehicle: [] });
-  const [fuelExpenses, setFuelExpenses] = useState<FuelExpense>({ totalAmount: 0, receiptCount: 0, byBranch: [], byVehicle: [], byUser: [] });
+  const [fuelExpenses, setFuelExpenses] = useState<FuelExpense>(EMPTY_FUEL_EXPENSES);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['expenses-trend']));
   const [expandedBranches, setExpandedBranches] = useState<Set<string>>(new Set());
   const [expandedFuelBranches, setExpandedFuelBranches] = useState<Set<string>>(new Set());
+  const { fiscalYearStart, loading: fiscalYearLoading } = useFiscalYear();
   const { toast } = useToast();
 
   const toggleSection = (section: string) => {
@@ -123,7 +156,7 @@ export default function Reports() {
     });
   };
 
-  const allSectionKeys = ['fleet-km', 'branch-expenses', 'fuel-expenses', 'gps-report', 'inspections'];
+  const allSectionKeys = ['fleet-km', 'budgets', 'vehicle-tco', 'vendor-performance', 'fleet-availability', 'tax-credits', 'branch-expenses', 'fuel-expenses', 'gps-report', 'inspections'];
   
   const expandAllSections = () => {
     setExpandedSections(new Set(allSectionKeys));
@@ -141,9 +174,17 @@ export default function Reports() {
     fetchBranchesAndVehicles();
   }, []);
 
+  // Default the range to the fiscal year to date once the fiscal year start is known
   useEffect(() => {
+    if (!fiscalYearLoading) {
+      setStartDate(prev => (prev?.getTime() === fiscalYearStart.getTime() ? prev : fiscalYearStart));
+    }
+  }, [fiscalYearLoading, fiscalYearStart]);
+
+  useEffect(() => {
+    if (fiscalYearLoading) return;
     fetchReportData();
-  }, [selectedBranch, selectedVehicle, startDate, endDate]);
+  }, [fiscalYearLoading, selectedBranch, selectedVehicle, startDate, endDate]);
 
   useEffect(() => {
     const onExpensesChanged = () => {
@@ -185,150 +226,73 @@ export default function Reports() {
 
   const fetchReportData = async () => {
     setLoading(true);
-    const dateStart = startDate ? format(startDate, 'yyyy-MM-dd') : `${new Date().getFullYear()}-01-01`;
+    const dateStart = format(startDate || fiscalYearStart, 'yyyy-MM-dd');
     const dateEnd = endDate ? format(endDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd');
 
-    // Build query with filters - exclude rejected expenses from reports
-    let query = supabase
-      .from('expenses')
-      .select(`
-        amount,
-        vehicle_id,
-        approval_status,
-        expense_categories (
-          name,
-          type
-        ),
-        vehicles!inner (
-          branch_id
-        )
-      `)
-      .is('deleted_at', null)
-      .neq('approval_status', 'rejected')
-      .gte('date', dateStart)
-      .lte('date', dateEnd);
-
-    if (selectedBranch !== 'all') {
-      query = query.eq('vehicles.branch_id', selectedBranch);
-    }
-
-    if (selectedVehicle !== 'all') {
-      query = query.eq('vehicle_id', selectedVehicle);
-    }
+    // Totals are summed in the database so they cover every expense, not just the first page of rows.
+    // The report functions exclude rejected expenses.
+    const filters = {
+      _date_from: dateStart,
+      _date_to: dateEnd,
+      _branch_id: selectedBranch !== 'all' ? selectedBranch : undefined,
+      _vehicle_id: selectedVehicle !== 'all' ? selectedVehicle : undefined,
+    };
 
-    const { data: expenses } = await query;
+    // The same range a year earlier, and the 11 months before the range for rolling totals
+    const rangeStart = new Date(`${dateStart}T00:00:00`);
+    const rangeEnd = new Date(`${dateEnd}T00:00:00`);
+    const previousYearFilters = {
+      ...filters,
+      _date_from: format(subYears(rangeStart, 1), 'yyyy-MM-dd'),
+      _date_to: format(subYears(rangeEnd, 1), 'yyyy-MM-dd'),
+    };
+    const trailingFilters = {
+      ...filters,
+      _date_from: format(startOfMonth(subMonths(rangeStart, 11)), 'yyyy-MM-dd'),
+    };
 
-    if (expenses) {
-      const categoryMap = new Map<string, { amount: number; type: string }>();
-      expenses.forEach((exp: any) => {
-        const categoryName = exp.expense_categories?.name || 'Uncategorized';
-        const type = exp.expense_categories?.type || 'other';
-        const current = categoryMap.get(categoryName) || { amount: 0, type };
-        categoryMap.set(categoryName, {
-          amount: current.amount + Number(exp.amount),
-          type,
-        });
-      });
+    const [categoryRes, previousCategoryRes, monthlyRes, previousMonthlyRes, trailingMonthlyRes] = await Promise.all([
+      supabase.rpc('report_expenses_by_category', filters),
+      supabase.rpc('report_expenses_by_category', previousYearFilters),
+      supabase.rpc('report_expenses_by_month', filters),
+      supabase.rpc('report_expenses_by_month', previousYearFilters),
+      supabase.rpc('report_expenses_by_month', trailingFilters),
+    ]);
 
-      const categoryData = Array.from(categoryMap.entries()).map(([category, data]) => ({
-        category,
-        amount: data.amount,
-        type: data.type,
-      }));
-      setExpensesByCategory(categoryData);
+    if (categoryRes.data) {
+      const previousByCategory = new Map((previousCategoryRes.data || []).map(row => [row.category_name, Number(row.total)]));
+      setExpensesByCategory(categoryRes.data.map((row) => ({
+        category: row.category_name,
+        amount: Number(row.total),
+        previousAmount: previousByCategory.get(row.category_name) || 0,
+        type: row.category_type,
+      })));
     } else {
       setExpensesByCategory([]);
     }
 
-    // Fetch monthly expenses with filters - exclude rejected
-    let monthlyQuery = supabase
-      .from('expenses')
-      .select(`
-        amount, 
-        date,
-        vehicle_id,
-        vehicles!inner (branch_id)
-      `)
-      .is('deleted_at', null)
-      .neq('approval_status', 'rejected')
-      .gte('date', dateStart)
-      .lte('date', dateEnd)
-      .order('date');
-
-    if (selectedBranch !== 'all') {
-      monthlyQuery = monthlyQuery.eq('vehicles.branch_id', selectedBranch);
-    }
-
-    if (selectedVehicle !== 'all') {
-      monthlyQuery = monthlyQuery.eq('vehicle_id', selectedVehicle);
-    }
-
-    const { data: monthlyData } = await monthlyQuery;
-
-    if (monthlyData) {
-      const monthlyMap = new Map<string, number>();
-      monthlyData.forEach((exp: any) => {
-        const month = new Date(exp.date).toLocaleDateString('en-US', { month: 'short' });
-        monthlyMap.set(month, (monthlyMap.get(month) || 0) + Number(exp.amount));
-      });
-
-      const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      const monthlyChartData = months.map(month => ({
-        month,
-        amount: monthlyMap.get(month) || 0,
-      }));
-      setMonthlyExpenses(monthlyChartData);
-    } else {
-      setMonthlyExpenses([]);
-    }
+    setExpenseTrend({
+      current: toMonthlyTotals(monthlyRes.data || []),
+      previousYear: toMonthlyTotals(previousMonthlyRes.data || []),
+      trailing: toMonthlyTotals(trailingMonthlyRes.data || []),
+    });
 
     // Fetch branch breakdown (only when not filtering by specific branch/vehicle)
     if (selectedBranch === 'all' && selectedVehicle === 'all') {
-      const { data: branchData } = await supabase
-        .from('expenses')
-        .select(`
-          amount,
-          vehicle_id,
-          vehicles!inner (
-            branch_id,
-            branches (
-              id,
-              name
-            )
-          )
-        `)
-        .is('deleted_at', null)
-        .neq('approval_status', 'rejected')
-        .gte('date', dateStart)
-        .lte('date', dateEnd);
-
-      if (branchData) {
-        const branchMap = new Map<string, { name: string; amount: number; vehicles: Set<string>; count: number }>();
-        
-        branchData.forEach((exp: any) => {
-          const branchId = exp.vehicles?.branch_id || 'unassigned';
-          const branchName = exp.vehicles?.branches?.name || 'Unassigned';
-          const current = branchMap.get(branchId) || { name: branchName, amount: 0, vehicles: new Set<string>(), count: 0 };
-          current.amount += Number(exp.amount);
-          current.vehicles.add(exp.vehicle_id);
-          current.count += 1;
-          branchMap.set(branchId, current);
-        });
-
-        const branchBreakdown = Array.from(branchMap.entries())
-          .map(([branchId, data]) => ({
-            branchId,
-            branchName: data.name,
-            totalAmount: data.amount,
-            vehicleCount: data.vehicles.size,
-            expenseCount: data.count,
-          }))
-          .sort((a, b) => b.totalAmount - a.totalAmount);
-
-        setBranchExpenses(branchBreakdown);
-      } else {
-        setBranchExpenses([]);
-      }
+      const [{ data: branchData }, { data: previousBranchData }] = await Promise.all([
+        supabase.rpc('report_expenses_by_branch', filters),
+        supabase.rpc('report_expenses_by_branch', previousYearFilters),
+      ]);
+      const previousByBranch = new Map((previousBranchData || []).map(row => [row.branch_id, Number(row.total)]));
+
+      setBranchExpenses((branchData || []).map((row) => ({
+        branchId: row.branch_id || 'unassigned',
+        branchName: row.branch_name,
+        totalAmount: Number(row.total),
+        previousAmount: previousByBranch.get(row.branch_id) || 0,
+        vehicleCount: row.vehicle_count,
+        expenseCount: row.expense_count,
+      })));
     } else {
       setBranchExpenses([]);
     }
@@ -337,185 +301,124 @@ export default function Reports() {
     await fetchFleetKilometers();
 
     // Fetch fuel receipts data
-    await fetchFuelExpenses(dateStart, dateEnd);
+    await fetchFuelExpenses(filters);
 
     setLoading(false);
   };
 
-  const fetchFuelExpenses = async (dateStart: string, dateEnd: string) => {
-    let fuelQuery = supabase
-      .from('fuel_receipts')
-      .select(`
-        id,
-        amount,
-        staff_name,
-        vehicle_id,
-        branch_id,
-        vehicles (
-          id,
-          plate,
-          make,
-          model,
-          branch_id,
-          branches (
-            id,
-            name
-          )
-        ),
-        branches (
-          id,
-          name
-        )
-      `)
-      .gte('date', dateStart)
-      .lte('date', dateEnd);
-
-    if (selectedBranch !== 'all') {
-      fuelQuery = fuelQuery.eq('branch_id', selectedBranch);
-    }
+  const fetchFuelExpenses = async (filters: { _date_from: string; _date_to: string; _branch_id?: string; _vehicle_id?: string }) => {
+    const [branchRes, vehicleRes, staffRes, trendRes] = await Promise.all([
+      supabase.rpc('report_fuel_by_branch', filters),
+      supabase.rpc('report_fuel_by_vehicle', filters),
+      supabase.rpc('report_fuel_by_staff', filters),
+      supabase.rpc('report_fuel_economy_by_month', filters),
+    ]);
 
-    if (selectedVehicle !== 'all') {
-      fuelQuery = fuelQuery.eq('vehicle_id', selectedVehicle);
+    const branchRows = branchRes.data || [];
+    if (branchRows.length === 0) {
+      setFuelExpenses(EMPTY_FUEL_EXPENSES);
+      return;
     }
 
-    const { data: fuelData } = await fuelQuery;
-
-    if (fuelData && fuelData.length > 0) {
-      let totalAmount = 0;
-      const branchMap = new Map<string, { name: string; amount: number; count: number }>();
-      const vehicleMap = new Map<string, { plate: string; make: string | null; model: string | null; branchName: string; amount: number; count: number }>();
-      const userMap = new Map<string, { amount: number; count: number }>();
-
-      fuelData.forEach((fuel: any) => {
-        const amount = Number(fuel.amount) || 0;
-        totalAmount += amount;
-
-        // By branch
-        const branchId = fuel.branch_id || fuel.vehicles?.branch_id || 'unassigned';
-        const branchName = fuel.branches?.name || fuel.vehicles?.branches?.name || 'Unassigned';
-        const branchCurrent = branchMap.get(branchId) || { name: branchName, amount: 0, count: 0 };
-        branchCurrent.amount += amount;
-        branchCurrent.count += 1;
-        branchMap.set(branchId, branchCurrent);
-
-        // By vehicle
-        if (fuel.vehicle_id && fuel.vehicles) {
-          const vehicleCurrent = vehicleMap.get(fuel.vehicle_id) || {
-            plate: fuel.vehicles.plate,
-            make: fuel.vehicles.make,
-            model: fuel.vehicles.model,
-            branchName: branchName,
-            amount: 0,
-            count: 0
-          };
-          vehicleCurrent.amount += amount;
-          vehicleCurrent.count += 1;
-          vehicleMap.set(fuel.vehicle_id, vehicleCurrent);
-        }
-
-        // By user
-        const staffName = fuel.staff_name || 'Unknown';
-        const userCurrent = userMap.get(staffName) || { amount: 0, count: 0 };
-        userCurrent.amount += amount;
-        userCurrent.count += 1;
-        userMap.set(staffName, userCurrent);
-      });
-
-      const byBranch = Array.from(branchMap.entries())
-        .map(([branchId, data]) => ({
-          branchId,
-          branchName: data.name,
-          amount: data.amount,
-          receiptCount: data.count,
-        }))
-        .sort((a, b) => b.amount - a.amount);
-
-      const byVehicle = Array.from(vehicleMap.entries())
-        .map(([vehicleId, data]) => ({
-          vehicleId,
-          plate: data.plate,
-          make: data.make,
-          model: data.model,
-          branchName: data.branchName,
-          amount: data.amount,
-          receiptCount: data.count,
-        }))
-        .sort((a, b) => b.amount - a.amount);
+    const vehicleRows = vehicleRes.data || [];
+
+    // Fuel economy (L/100 km) from consecutive fill-ups with litres and odometer
+    const economy = (litres: number, distanceKm: number) =>
+      distanceKm > 0 ? toLitresPer100Km(Number(litres), distanceKm) : null;
+
+    const byBranch = branchRows.map((row) => ({
+      branchId: row.branch_id || 'unassigned',
+      branchName: row.branch_name,
+      amount: Number(row.total),
+      receiptCount: row.receipt_count,
+      litres: Number(row.litres),
+      litresPer100Km: economy(row.economy_litres, row.economy_km),
+    }));
+
+    const byVehicle = vehicleRows.map((row) => ({
+      vehicleId: row.vehicle_id,
+      plate: row.plate,
+      make: row.make,
+      model: row.model,
+      branchName: row.branch_name,
+      amount: Number(row.total),
+      receiptCount: row.receipt_count,
+      litres: Number(row.litres),
+      litresPer100Km: economy(row.economy_litres, row.economy_km),
+    }));
+
+    const economyTrend = (trendRes.data || []).map((row) => ({
+      month: format(new Date(`${row.month}T00:00:00`), 'MMM yyyy'),
+      litresPer100Km: Number(toLitresPer100Km(Number(row.litres), row.distance_km).toFixed(2)),
+    }));
+
+    // A vehicle that moved has a row per branch; its economy is compared across all of them
+    const economyByVehicle = new Map<string, VehicleEconomyTotals>();
+    vehicleRows.forEach((row) => {
+      const current = economyByVehicle.get(row.vehicle_id) || {
+        vehicleId: row.vehicle_id,
+        economyLitres: 0,
+        economyKm: 0,
+        segmentCount: 0,
+        recentLitres: 0,
+        recentKm: 0,
+      };
+      current.economyLitres += Number(row.economy_litres);
+      current.economyKm += row.economy_km;
+      current.segmentCount += row.segment_count;
+      current.recentLitres += Number(row.recent_litres);
+      current.recentKm += row.recent_km;
+      economyByVehicle.set(row.vehicle_id, current);
+    });
 
-      const byUser = Array.from(userMap.entries())
-        .map(([staffName, data]) => ({
-          staffName,
-          amount: data.amount,
-          receiptCount: data.count,
-        }))
-        .sort((a, b) => b.amount - a.amount);
+    const economyAlerts = findEconomyDrops(Array.from(economyByVehicle.values())).map(drop => {
+      const vehicle = byVehicle.find(v => v.vehicleId === drop.vehicleId)!;
+      return {
+        ...drop,
+        plate: vehicle.plate,
+        make: vehicle.make,
+        model: vehicle.model,
+        branchName: vehicle.branchName,
+      };
+    });
 
-      setFuelExpenses({
-        totalAmount,
-        receiptCount: fuelData.length,
-        byBranch,
-        byVehicle,
-        byUser,
-      });
-    } else {
-      setFuelExpenses({ totalAmount: 0, receiptCount: 0, byBranch: [], byVehicle: [], byUser: [] });
-    }
+    const byUser = (staffRes.data || []).map((row) => ({
+      staffName: row.staff_name,
+      amount: Number(row.total),
+      receiptCount: row.receipt_count,
+    }));
+
+    setFuelExpenses({
+      totalAmount: byBranch.reduce((sum, b) => sum + b.amount, 0),
+      receiptCount: byBranch.reduce((sum, b) => sum + b.receiptCount, 0),
+      totalLitres: byBranch.reduce((sum, b) => sum + b.litres, 0),
+      litresPer100Km: economy(
+        branchRows.reduce((sum, b) => sum + Number(b.economy_litres), 0),
+        branchRows.reduce((sum, b) => sum + b.economy_km, 0)
+      ),
+      byBranch,
+      byVehicle,
+      byUser,
+      economyTrend,
+      economyAlerts,
+    });
   };
 
   const fetchFleetKilometers = async () => {
-    // Get all vehicles with their odometer and branch info
-    let vehiclesQuery = supabase
-      .from('vehicles')
-      .select(`
-        id,
-        plate,
-        make,
-        model,
-        odometer_km,
-        branch_id,
-        branches (
-          id,
-          name
-        )
-      `);
-
-    if (selectedBranch !== 'all') {
-      vehiclesQuery = vehiclesQuery.eq('branch_id', selectedBranch);
-    }
-
-    if (selectedVehicle !== 'all') {
-      vehiclesQuery = vehiclesQuery.eq('id', selectedVehicle);
-    }
-
-    const { data: vehiclesData } = await vehiclesQuery;
+    // Kilometres driven over each vehicle's life, counted towards the branch it was at when driven
+    const { data: kmData } = await supabase.rpc('report_fleet_km', {
+      _branch_id: selectedBranch !== 'all' ? selectedBranch : undefined,
+      _vehicle_id: selectedVehicle !== 'all' ? selectedVehicle : undefined,
+    });
 
-    if (vehiclesData) {
-      // Calculate totals
-      let totalKm = 0;
+    if (kmData) {
       const branchMap = new Map<string, { name: string; km: number; vehicles: Set<string> }>();
-      const vehicleKmList: FleetKilometers['byVehicle'] = [];
-
-      vehiclesData.forEach((v: any) => {
-        const km = v.odometer_km || 0;
-        totalKm += km;
-
-        // By branch
-        const branchId = v.branch_id || 'unassigned';
-        const branchName = v.branches?.name || 'Unassigned';
-        const current = branchMap.get(branchId) || { name: branchName, km: 0, vehicles: new Set<string>() };
-        current.km += km;
-        current.vehicles.add(v.id);
+      kmData.forEach((row) => {
+        const branchId = row.branch_id || 'unassigned';
+        const current = branchMap.get(branchId) || { name: row.branch_name, km: 0, vehicles: new Set<string>() };
+        current.km += row.kilometers;
+        current.vehicles.add(row.vehicle_id);
         branchMap.set(branchId, current);
-
-        // By vehicle
-        vehicleKmList.push({
-          vehicleId: v.id,
-          plate: v.plate,
-          make: v.make,
-          model: v.model,
-          branchName: branchName,
-          kilometers: km,
-        });
       });
 
       const byBranch = Array.from(branchMap.entries())
@@ -527,9 +430,20 @@ export default function Reports() {
         }))
         .sort((a, b) => b.kilometers - a.kilometers);
 
-      const byVehicle = vehicleKmList.sort((a, b) => b.kilometers - a.kilometers);
+      const byVehicle = kmData.map((row) => ({
+        vehicleId: row.vehicle_id,
+        plate: row.plate,
+        make: row.make,
+        model: row.model,
+        branchName: row.branch_name,
+        kilometers: row.kilometers,
+      }));
 
-      setFleetKilometers({ totalKm, byBranch, byVehicle });
+      setFleetKilometers({
+        totalKm: kmData.reduce((sum, row) => sum + row.kilometers, 0),
+        byBranch,
+        byVehicle,
+      });
     } else {
       setFleetKilometers({ totalKm: 0, byBranch: [], byVehicle: [] });
     }
@@ -538,27 +452,22 @@ export default function Reports() {
   const exportToCSV = async () => {
     try {
       // Fetch expenses
-      let expenseQuery = supabase
-        .from('expenses')
+      const expenseQuery = supabase
+        .rpc('filtered_expenses', {
+          _branch_id: selectedBranch !== 'all' ? selectedBranch : undefined,
+          _vehicle_id: selectedVehicle !== 'all' ? selectedVehicle : undefined,
+        })
         .select(`
           date,
           amount,
           description,
           odometer_reading,
           vehicle_id,
-          vehicles!inner (plate, make, model, branch_id),
+          vehicles (plate, make, model, branch_id),
           expense_categories (name, type)
         `)
         .order('date', { ascending: false });
 
-      if (selectedBranch !== 'all') {
-        expenseQuery = expenseQuery.eq('vehicles.branch_id', selectedBranch);
-      }
-
-      if (selectedVehicle !== 'all') {
-        expenseQuery = expenseQuery.eq('vehicle_id', selectedVehicle);
-      }
-
       // Fetch GPS data
       const { data: gpsData } = await supabase
         .from('gps_uploads')
@@ -578,17 +487,10 @@ export default function Reports() {
         .select(`
           inspection_date,
           kilometers,
-          brakes_pass, brakes_notes,
-          engine_pass, engine_notes,
-          transmission_pass, transmission_notes,
-          tires_pass, tires_notes,
-          headlights_pass, headlights_notes,
-          signal_lights_pass, signal_lights_notes,
-          oil_level_pass, oil_level_notes,
-          windshield_fluid_pass, windshield_fluid_notes,
-          wipers_pass, wipers_notes,
           vehicles (plate, make, model),
-          branches (name)
+          branches (name),
+          inspection_templates (name),
+          inspection_results (position, label, item_type, passed, numeric_value, unit, notes)
         `)
         .order('inspection_date', { ascending: false });
 
@@ -637,37 +539,26 @@ export default function Reports() {
 
       // Section 3: Inspections
       csvContent += '\n=== VEHICLE INSPECTIONS REPORT ===\n';
-      const inspectionHeaders = ['Date', 'Vehicle', 'Location', 'Kilometers', 'Brakes', 'Engine', 'Transmission', 'Tires', 'Headlights', 'Signal Lights', 'Oil Level', 'Windshield Fluid', 'Wipers', 'Failed Items Notes'];
+      // One row per checklist item, since each template has its own items
+      const inspectionHeaders = ['Date', 'Vehicle', 'Location', 'Kilometers', 'Template', 'Item', 'Type', 'Result', 'Reading', 'Notes'];
       csvContent += inspectionHeaders.join(',') + '\n';
-      inspections.forEach((insp: any) => {
-        const failedNotes: string[] = [];
-        if (!insp.brakes_pass && insp.brakes_notes) failedNotes.push(`Brakes: ${insp.brakes_notes}`);
-        if (!insp.engine_pass && insp.engine_notes) failedNotes.push(`Engine: ${insp.engine_notes}`);
-        if (!insp.transmission_pass && insp.transmission_notes) failedNotes.push(`Transmission: ${insp.transmission_notes}`);
-        if (!insp.tires_pass && insp.tires_notes) failedNotes.push(`Tires: ${insp.tires_notes}`);
-        if (!insp.headlights_pass && insp.headlights_notes) failedNotes.push(`Headlights: ${insp.headlights_notes}`);
-        if (!insp.signal_lights_pass && insp.signal_lights_notes) failedNotes.push(`Signal Lights: ${insp.signal_lights_notes}`);
-        if (!insp.oil_level_pass && insp.oil_level_notes) failedNotes.push(`Oil Level: ${insp.oil_level_notes}`);
-        if (!insp.windshield_fluid_pass && insp.windshield_fluid_notes) failedNotes.push(`Windshield Fluid: ${insp.windshield_fluid_notes}`);
-        if (!insp.wipers_pass && insp.wipers_notes) failedNotes.push(`Wipers: ${insp.wipers_notes}`);
-
-        const row = [
-          insp.inspection_date,
-          insp.vehicles ? `${insp.vehicles.make || ''} ${insp.vehicles.model || ''} (${insp.vehicles.plate})` : 'N/A',
-          insp.branches?.name || 'N/A',
-          insp.kilometers || '',
-          insp.brakes_pass ? 'Pass' : 'Fail',
-          insp.engine_pass ? 'Pass' : 'Fail',
-          insp.transmission_pass ? 'Pass' : 'Fail',
-          insp.tires_pass ? 'Pass' : 'Fail',
-          insp.headlights_pass ? 'Pass' : 'Fail',
-          insp.signal_lights_pass ? 'Pass' : 'Fail',
-          insp.oil_level_pass ? 'Pass' : 'Fail',
-          insp.windshield_fluid_pass ? 'Pass' : 'Fail',
-          insp.wipers_pass ? 'Pass' : 'Fail',
-          failedNotes.join(' | '),
-        ];
-        csvContent += row.map(cell => `"${cell}"`).join(',') + '\n';
+      inspections.forEach((insp) => {
+        const results = [...(insp.inspection_results || [])].sort((a, b) => a.position - b.position);
+        results.forEach((result) => {
+          const row = [
+            insp.inspection_date,
+            insp.vehicles ? `${insp.vehicles.make || ''} ${insp.vehicles.model || ''} (${insp.vehicles.plate})` : 'N/A',
+            insp.branches?.name || 'N/A',
+            insp.kilometers || '',
+            insp.inspection_templates?.name || '',
+            result.label,
+            INSPECTION_ITEM_TYPE_LABELS[result.item_type as InspectionItemType] || result.item_type,
+            result.passed ? 'Pass' : 'Fail',
+            result.numeric_value !== null ? `${result.numeric_value}${result.unit ? ` ${result.unit}` : ''}` : '',
+            result.notes || '',
+          ];
+          csvContent += row.map(cell => `"${cell}"`).join(',') + '\n';
+        });
       });
 
       const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -812,6 +703,25 @@ export default function Reports() {
     }).format(value);
   };
 
+  const formatLitres = (value: number) => `${value.toLocaleString('en-US', { maximumFractionDigits: 1 })} L`;
+
+  const formatEconomy = (value: number | null) => value ? `${value.toFixed(1)} L/100 km` : '—';
+
+  const formatChange = (value: number | null) => value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+  // Increases in spend are shown in red, decreases in green
+  const getChangeColor = (value: number | null) =>
+    value === null ? 'text-muted-foreground' : value > 0 ? 'text-destructive' : 'text-green-600';
+
+  const trendSeries = buildTrendSeries(
+    expenseTrend,
+    startDate || fiscalYearStart,
+    endDate || new Date(),
+    trendInterval
+  );
+  const trendTotal = Object.values(expenseTrend.current).reduce((sum, amount) => sum + amount, 0);
+  const trendPreviousTotal = Object.values(expenseTrend.previousYear).reduce((sum, amount) => sum + amount, 0);
+
   const getFilterLabel = () => {
     const parts = [];
     if (selectedBranch !== 'all') {
@@ -989,21 +899,42 @@ export default function Reports() {
             <>
               <Card className="shadow-card">
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <TrendingUp className="h-5 w-5 text-primary" />
-                    Monthly Expense Trend
-                  </CardTitle>
-                  <CardDescription>Total expenses by month ({getDateRangeLabel()}) - {getFilterLabel()}</CardDescription>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <TrendingUp className="h-5 w-5 text-primary" />
+                        {REPORT_INTERVAL_LABELS[trendInterval]} Expense Trend
+                      </CardTitle>
+                      <CardDescription>
+                        Total expenses by {trendInterval} ({getDateRangeLabel()}) - {getFilterLabel()}
+                        {' • '}
+                        {formatChange(percentChange(trendTotal, trendPreviousTotal))} vs same period last year
+                      </CardDescription>
+                    </div>
+                    <Select value={trendInterval} onValueChange={(value) => setTrendInterval(value as ReportInterval)}>
+                      <SelectTrigger className="w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(REPORT_INTERVAL_LABELS) as ReportInterval[]).map((interval) => (
+                          <SelectItem key={interval} value={interval}>{REPORT_INTERVAL_LABELS[interval]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
-                    <LineChart data={monthlyExpenses}>
+                    <LineChart data={trendSeries}>
                       <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="month" />
-                      <YAxis tickFormatter={(value) => `$${value.toLocaleString()}`} />
+                      <XAxis dataKey="label" />
+                      <YAxis yAxisId="period" tickFormatter={(value) => `$${value.toLocaleString()}`} />
+                      <YAxis yAxisId="rolling" orientation="right" tickFormatter={(value) => `$${value.toLocaleString()}`} />
                       <Tooltip formatter={(value) => formatCurrency(Number(value))} />
                       <Legend />
-                      <Line type="monotone" dataKey="amount" stroke="hsl(var(--primary))" strokeWidth={2} name="Expenses" />
+                      <Line yAxisId="period" type="monotone" dataKey="amount" stroke="hsl(var(--primary))" strokeWidth={2} name="Expenses" />
+                      <Line yAxisId="period" type="monotone" dataKey="previousYear" stroke="hsl(var(--muted-foreground))" strokeDasharray="5 5" name="Same period last year" />
+                      <Line yAxisId="rolling" type="monotone" dataKey="rolling12" stroke="hsl(var(--accent))" dot={false} name="Rolling 12 months" />
                     </LineChart>
                   </ResponsiveContainer>
                 </CardContent>
@@ -1165,6 +1096,40 @@ export default function Reports() {
 
               </div>
 
+              {expensesByCategory.length > 0 && (
+                <Card className="shadow-card">
+                  <CardHeader>
+                    <CardTitle>Year-over-Year by Category</CardTitle>
+                    <CardDescription>Spend in the selected range against the same range a year earlier</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">This Period</TableHead>
+                          <TableHead className="text-right">Last Year</TableHead>
+                          <TableHead className="text-right">Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {expensesByCategory.map((category) => {
+                          const change = percentChange(category.amount, category.previousAmount);
+                          return (
+                            <TableRow key={category.category}>
+                              <TableCell className="font-medium">{category.category}</TableCell>
+                              <TableCell className="text-right font-semibold">{formatCurrency(category.amount)}</TableCell>
+                              <TableCell className="text-right text-muted-foreground">{formatCurrency(category.previousAmount)}</TableCell>
+                              <TableCell className={cn('text-right', getChangeColor(change))}>{formatChange(change)}</TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
               <Card className="shadow-card">
                 <CardHeader>
                   <CardTitle>Summary Statistics</CardTitle>
@@ -1185,7 +1150,7 @@ export default function Reports() {
                     <div className="p-4 bg-muted rounded-lg">
                       <p className="text-sm text-muted-foreground">Avg Monthly</p>
                       <p className="text-2xl font-bold">
-                        {formatCurrency(monthlyExpenses.reduce((sum, m) => sum + m.amount, 0) / Math.max(monthlyExpenses.filter(m => m.amount > 0).length, 1))}
+                        {formatCurrency(trendTotal / Math.max(Object.values(expenseTrend.current).filter(amount => amount > 0).length, 1))}
                       </p>
                     </div>
                     <div className="p-4 bg-muted rounded-lg">
@@ -1220,7 +1185,7 @@ export default function Reports() {
                               Fleet Kilometers Report
                             </CardTitle>
                             <CardDescription>
-                              {fleetKilometers.totalKm.toLocaleString()} km across {fleetKilometers.byBranch.length} branches • {fleetKilometers.byVehicle.length} vehicles
+                              {fleetKilometers.totalKm.toLocaleString()} km across {fleetKilometers.byBranch.length} branches • {new Set(fleetKilometers.byVehicle.map(v => v.vehicleId)).size} vehicles
                             </CardDescription>
                           </div>
                           {expandedSections.has('fleet-km') ? (
@@ -1300,6 +1265,176 @@ export default function Reports() {
                 </Collapsible>
               )}
 
+              {/* Budget vs Actual */}
+              <Collapsible 
+                open={expandedSections.has('budgets')} 
+                onOpenChange={() => toggleSection('budgets')}
+              >
+                <Card className="shadow-card">
+                  <CollapsibleTrigger asChild>
+                    <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <CardTitle className="flex items-center gap-2">
+                            <PiggyBank className="h-5 w-5 text-primary" />
+                            Budget vs Actual
+                          </CardTitle>
+                          <CardDescription>Spend against budgets, variance and projected period-end spend</CardDescription>
+                        </div>
+                        {expandedSections.has('budgets') ? (
+                          <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                        ) : (
+                          <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </div>
+                    </CardHeader>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <CardContent className="pt-0">
+                      <BudgetReportSection branchId={selectedBranch} vehicleId={selectedVehicle} />
+                    </CardContent>
+                  </CollapsibleContent>
+                </Card>
+              </Collapsible>
+
+              {/* Vehicle Total Cost of Ownership */}
+              <Collapsible 
+                open={expandedSections.has('vehicle-tco')} 
+                onOpenChange={() => toggleSection('vehicle-tco')}
+              >
+                <Card className="shadow-card">
+                  <CollapsibleTrigger asChild>
+                    <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <CardTitle className="flex items-center gap-2">
+                            <Scale className="h-5 w-5 text-primary" />
+                            Vehicle Cost of Ownership
+                          </CardTitle>
+                          <CardDescription>Lifetime cost per vehicle ranked by running cost per km, with replace-vs-keep indicator</CardDescription>
+                        </div>
+                        {expandedSections.has('vehicle-tco') ? (
+                          <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                        ) : (
+                          <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </div>
+                    </CardHeader>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <CardContent className="pt-0">
+                      <TCOReportSection branchId={selectedBranch} vehicleId={selectedVehicle} />
+                    </CardContent>
+                  </CollapsibleContent>
+                </Card>
+              </Collapsible>
+
+              {/* Vendor Performance */}
+              <Collapsible 
+                open={expandedSections.has('vendor-performance')} 
+                onOpenChange={() => toggleSection('vendor-performance')}
+              >
+                <Card className="shadow-card">
+                  <CollapsibleTrigger asChild>
+                    <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <CardTitle className="flex items-center gap-2">
+                            <Store className="h-5 w-5 text-primary" />
+                            Vendor Performance
+                          </CardTitle>
+                          <CardDescription>Spend, average invoice and repeat repairs per vendor, with price benchmarks across branches</CardDescription>
+                        </div>
+                        {expandedSections.has('vendor-performance') ? (
+                          <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                        ) : (
+                          <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </div>
+                    </CardHeader>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <CardContent className="pt-0">
+                      <VendorPerformanceSection branchId={selectedBranch} startDate={startDate} endDate={endDate} />
+                    </CardContent>
+                  </CollapsibleContent>
+                </Card>
+              </Collapsible>
+
+              {/* Fleet Availability */}
+              <Collapsible 
+                open={expandedSections.has('fleet-availability')} 
+                onOpenChange={() => toggleSection('fleet-availability')}
+              >
+                <Card className="shadow-card">
+                  <CollapsibleTrigger asChild>
+                    <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <CardTitle className="flex items-center gap-2">
+                            <Wrench className="h-5 w-5 text-primary" />
+                            Fleet Availability
+                          </CardTitle>
+                          <CardDescription>Days each vehicle spent in the shop or out of service, per branch and vehicle</CardDescription>
+                        </div>
+                        {expandedSections.has('fleet-availability') ? (
+                          <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                        ) : (
+                          <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </div>
+                    </CardHeader>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <CardContent className="pt-0">
+                      <AvailabilityReportSection
+                        branchId={selectedBranch}
+                        vehicleId={selectedVehicle}
+                        startDate={startDate}
+                        endDate={endDate}
+                      />
+                    </CardContent>
+                  </CollapsibleContent>
+                </Card>
+              </Collapsible>
+
+              {/* Input Tax Credits */}
+              <Collapsible 
+                open={expandedSections.has('tax-credits')} 
+                onOpenChange={() => toggleSection('tax-credits')}
+              >
+                <Card className="shadow-card">
+                  <CollapsibleTrigger asChild>
+                    <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <CardTitle className="flex items-center gap-2">
+                            <Percent className="h-5 w-5 text-primary" />
+                            Input Tax Credits
+                          </CardTitle>
+                          <CardDescription>Recoverable GST, HST and QST per period, with the non-recoverable PST and US sales tax</CardDescription>
+                        </div>
+                        {expandedSections.has('tax-credits') ? (
+                          <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                        ) : (
+                          <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </div>
+                    </CardHeader>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <CardContent className="pt-0">
+                      <TaxReportSection
+                        branchId={selectedBranch}
+                        vehicleId={selectedVehicle}
+                        startDate={startDate}
+                        endDate={endDate}
+                      />
+                    </CardContent>
+                  </CollapsibleContent>
+                </Card>
+              </Collapsible>
+
               {/* Expense Breakdown by Branch */}
               {branchExpenses.length > 0 && (
                 <Collapsible 
@@ -1336,17 +1471,24 @@ export default function Reports() {
                               <TableHead className="text-right">Vehicles</TableHead>
                               <TableHead className="text-right">Expenses</TableHead>
                               <TableHead className="text-right">Total Amount</TableHead>
+                              <TableHead className="text-right">Last Year</TableHead>
+                              <TableHead className="text-right">Change</TableHead>
                             </TableRow>
                           </TableHeader>
                           <TableBody>
-                            {branchExpenses.map((branch) => (
-                              <TableRow key={branch.branchId}>
-                                <TableCell className="font-medium">{branch.branchName}</TableCell>
-                                <TableCell className="text-right">{branch.vehicleCount}</TableCell>
-                                <TableCell className="text-right">{branch.expenseCount}</TableCell>
-                                <TableCell className="text-right font-semibold">{formatCurrency(branch.totalAmount)}</TableCell>
-                              </TableRow>
-                            ))}
+                            {branchExpenses.map((branch) => {
+                              const change = percentChange(branch.totalAmount, branch.previousAmount);
+                              return (
+                                <TableRow key={branch.branchId}>
+                                  <TableCell className="font-medium">{branch.branchName}</TableCell>
+                                  <TableCell className="text-right">{branch.vehicleCount}</TableCell>
+                                  <TableCell className="text-right">{branch.expenseCount}</TableCell>
+                                  <TableCell className="text-right font-semibold">{formatCurrency(branch.totalAmount)}</TableCell>
+                                  <TableCell className="text-right text-muted-foreground">{formatCurrency(branch.previousAmount)}</TableCell>
+                                  <TableCell className={cn('text-right', getChangeColor(change))}>{formatChange(change)}</TableCell>
+                                </TableRow>
+                              );
+                            })}
                           </TableBody>
                           <TableFooter>
                             <TableRow>
@@ -1360,6 +1502,18 @@ export default function Reports() {
                               <TableCell className="text-right font-bold">
                                 {formatCurrency(branchExpenses.reduce((sum, b) => sum + b.totalAmount, 0))}
                               </TableCell>
+                              <TableCell className="text-right font-bold">
+                                {formatCurrency(branchExpenses.reduce((sum, b) => sum + b.previousAmount, 0))}
+                              </TableCell>
+                              {(() => {
+                                const change = percentChange(
+                                  branchExpenses.reduce((sum, b) => sum + b.totalAmount, 0),
+                                  branchExpenses.reduce((sum, b) => sum + b.previousAmount, 0)
+                                );
+                                return (
+                                  <TableCell className={cn('text-right font-bold', getChangeColor(change))}>{formatChange(change)}</TableCell>
+                                );
+                              })()}
                             </TableRow>
                           </TableFooter>
                         </Table>
@@ -1385,7 +1539,8 @@ export default function Reports() {
                               Fuel Expenses Report
                             </CardTitle>
                             <CardDescription>
-                              {formatCurrency(fuelExpenses.totalAmount)} across {fuelExpenses.receiptCount} receipts • {fuelExpenses.byBranch.length} branches • {fuelExpenses.byVehicle.length} vehicles
+                              {formatCurrency(fuelExpenses.totalAmount)} across {fuelExpenses.receiptCount} receipts • {fuelExpenses.byBranch.length} branches • {new Set(fuelExpenses.byVehicle.map(v => v.vehicleId)).size} vehicles
+                              {fuelExpenses.economyAlerts.length > 0 && ` • ${fuelExpenses.economyAlerts.length} economy alerts`}
                             </CardDescription>
                           </div>
                           {expandedSections.has('fuel-expenses') ? (
@@ -1399,7 +1554,7 @@ export default function Reports() {
                     <CollapsibleContent>
                       <CardContent className="pt-0 space-y-6">
                         {/* Summary Cards */}
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
                           <div className="p-4 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg">
                             <p className="text-sm text-amber-700 dark:text-amber-300">Total Fuel Spend</p>
                             <p className="text-2xl font-bold text-amber-900 dark:text-amber-100">{formatCurrency(fuelExpenses.totalAmount)}</p>
@@ -1416,8 +1571,53 @@ export default function Reports() {
                                 : '$0.00'}
                             </p>
                           </div>
+                          <div className="p-4 bg-muted rounded-lg">
+                            <p className="text-sm text-muted-foreground">Total Litres</p>
+                            <p className="text-2xl font-bold">{formatLitres(fuelExpenses.totalLitres)}</p>
+                          </div>
+                          <div className="p-4 bg-muted rounded-lg">
+                            <p className="text-sm text-muted-foreground">Fleet Avg Economy</p>
+                            <p className="text-2xl font-bold">{formatEconomy(fuelExpenses.litresPer100Km)}</p>
+                          </div>
                         </div>
 
+                        {/* Economy Alerts */}
+                        {fuelExpenses.economyAlerts.length > 0 && (
+                          <div className="space-y-2 p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-lg">
+                            <p className="font-semibold text-sm text-red-800 dark:text-red-200 flex items-center gap-2">
+                              <AlertTriangle className="h-4 w-4" />
+                              Fuel Economy Drops
+                            </p>
+                            {fuelExpenses.economyAlerts.map((alert) => (
+                              <div key={alert.vehicleId} className="flex items-center justify-between text-sm">
+                                <span>
+                                  {alert.make} {alert.model} ({alert.plate}) • {alert.branchName}
+                                </span>
+                                <span className="font-medium text-red-700 dark:text-red-300">
+                                  {alert.baseline.toFixed(1)} → {alert.recent.toFixed(1)} L/100 km (+{alert.changePercent.toFixed(0)}%)
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* Economy Trend */}
+                        {fuelExpenses.economyTrend.length > 0 && (
+                          <div className="space-y-3">
+                            <h4 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Fuel Economy Trend</h4>
+                            <ResponsiveContainer width="100%" height={250}>
+                              <LineChart data={fuelExpenses.economyTrend}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="month" />
+                                <YAxis tickFormatter={(value) => `${value}`} />
+                                <Tooltip formatter={(value) => formatEconomy(Number(value))} />
+                                <Legend />
+                                <Line type="monotone" dataKey="litresPer100Km" stroke="#f59e0b" strokeWidth={2} name="L/100 km" />
+                              </LineChart>
+                            </ResponsiveContainer>
+                          </div>
+                        )}
+
                         {/* By Branch */}
                         {fuelExpenses.byBranch.length > 0 && (
                           <div className="space-y-3">
@@ -1443,7 +1643,9 @@ export default function Reports() {
                                           )}
                                           <div>
                                             <p className="font-semibold">{branch.branchName}</p>
-                                            <p className="text-sm text-muted-foreground">{branch.receiptCount} receipts</p>
+                                            <p className="text-sm text-muted-foreground">
+                                              {branch.receiptCount} receipts • {formatLitres(branch.litres)} • {formatEconomy(branch.litresPer100Km)}
+                                            </p>
                                           </div>
                                         </div>
                                         <p className="text-lg font-bold">{formatCurrency(branch.amount)}</p>
@@ -1456,6 +1658,8 @@ export default function Reports() {
                                             <TableRow>
                                               <TableHead className="pl-12">Vehicle</TableHead>
                                               <TableHead className="text-right">Receipts</TableHead>
+                                              <TableHead className="text-right">Litres</TableHead>
+                                              <TableHead className="text-right">L/100 km</TableHead>
                                               <TableHead className="text-right">Amount</TableHead>
                                             </TableRow>
                                           </TableHeader>
@@ -1468,6 +1672,16 @@ export default function Reports() {
                                                 <TableCell className="text-right">
                                                   {vehicle.receiptCount}
                                                 </TableCell>
+                                                <TableCell className="text-right">
+                                                  {formatLitres(vehicle.litres)}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                  {fuelExpenses.economyAlerts.some(a => a.vehicleId === vehicle.vehicleId) ? (
+                                                    <span className="text-red-600 font-medium">{formatEconomy(vehicle.litresPer100Km)}</span>
+                                                  ) : (
+                                                    formatEconomy(vehicle.litresPer100Km)
+                                                  )}
+                                                </TableCell>
                                                 <TableCell className="text-right font-medium">
                                                   {formatCurrency(vehicle.amount)}
                                                 </TableCell>
@@ -16,6 +16,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useUserRole } from '@/hooks/useUserRole';
+import { TireSetsSection } from '@/components/TireSetsSection';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
 import { ChevronDown, ChevronRight, AlertTriangle, CheckCircle, Clock, Snowflake, Sun, Car, Plus, Trash2, Disc3, ArrowRight, Check, X, Pencil } from 'lucide-react';
 import { format, differenceInDays, isWithinInterval, startOfDay } from 'date-fns';
 
@@ -24,6 +26,7 @@ interface Vehicle {
   plate: string;
   make: string | null;
   model: string | null;
+  odometer_km: number;
   current_tire_type: string | null;
   summer_tire_location: string | null;
   winter_tire_location: string | null;
@@ -140,10 +143,14 @@ export default function TireManagement() {
 
   useEffect(() => {
     fetchData();
+
+    // Tire set swaps change the vehicle's current tire type
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchData);
+    return () => window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchData);
   }, []);
 
+  // Only the first load shows the loading state, so refreshes keep the open tab
   const fetchData = async () => {
-    setLoading(true);
     try {
       const [vehiclesRes, branchesRes, changesRes, inventoryRes, claimsRes] = await Promise.all([
         supabase.from('vehicles').select('*, branches(name)').order('plate'),
@@ -616,6 +623,7 @@ export default function TireManagement() {
             <Tabs defaultValue="overview" className="space-y-4">
               <TabsList>
                 <TabsTrigger value="overview">Overview by Branch</TabsTrigger>
+                <TabsTrigger value="sets">Tire Sets</TabsTrigger>
                 <TabsTrigger value="history">Change History</TabsTrigger>
                 {isAdmin && (
                   <TabsTrigger value="claims" className="relative">
@@ -840,6 +848,10 @@ export default function TireManagement() {
                 )}
               </TabsContent>
 
+              <TabsContent value="sets">
+                <TireSetsSection branches={branches} vehicles={vehicles} />
+              </TabsContent>
+
               <TabsContent value="history" className="space-y-4">
                 <Card>
                   <CardHeader>
@@ -9,9 +9,23 @@ import { useUserRole } from '@/hooks/useUserRole';
 import { AddExpenseDialog } from '@/components/AddExpenseDialog';
 import { EditVehicleDialog } from '@/components/EditVehicleDialog';
 import { EditExpenseDialog } from '@/components/EditExpenseDialog';
+import { RecordHistoryDrawer } from '@/components/RecordHistoryDrawer';
+import { MaintenanceDueList } from '@/components/MaintenanceDueList';
+import { VehicleTCOCard } from '@/components/VehicleTCOCard';
+import { VehicleStatusHistory } from '@/components/VehicleStatusHistory';
+import { VehicleBranchHistory } from '@/components/VehicleBranchHistory';
+import { OdometerHistoryCard } from '@/components/OdometerHistoryCard';
+import { WorkOrderList } from '@/components/WorkOrderList';
+import { VehicleDefectsList } from '@/components/VehicleDefectsList';
+import { useVehicleDefects } from '@/hooks/useVehicleDefects';
 
 import { ArrowLeft, MapPin, Calendar, Gauge, FileText, Download, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { getVehicleStatusColor, getVehicleStatusLabel } from '@/utils/vehicleStatus';
+import { getVehicleTypeLabel } from '@/utils/vehicleTypes';
+import { isRoadworthy } from '@/utils/vehicleDefects';
+import { EXPENSES_CHANGED_EVENT } from '@/utils/expensesEvents';
+import { VEHICLES_CHANGED_EVENT } from '@/utils/vehiclesEvents';
 
 interface Vehicle {
   id: string;
@@ -26,7 +40,12 @@ interface Vehicle {
   status: string;
   notes: string | null;
   branch_id: string | null;
+  vehicle_type: string | null;
   transponder_407: string | null;
+  disposal_date: string | null;
+  sale_price: number | null;
+  buyer_name: string | null;
+  final_odometer_km: number | null;
   branches: { name: string; location: string | null } | null;
 }
 
@@ -43,6 +62,7 @@ interface Expense {
   rejection_reason: string | null;
   vendor_name: string | null;
   staff_name: string | null;
+  work_order_id: string | null;
   subtotal: number | null;
   tax_amount: number | null;
   expense_categories: { name: string; type: string } | null;
@@ -58,13 +78,22 @@ export default function VehicleDetails() {
   const [editExpense, setEditExpense] = useState<Expense | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const { toast } = useToast();
-  const { isAdminOrManager } = useUserRole();
+  const { isAdmin, isAdminOrManager } = useUserRole();
+  const { defects } = useVehicleDefects(id);
 
   useEffect(() => {
     if (id) {
       fetchVehicleDetails();
       fetchExpenses();
     }
+
+    // Work orders move the vehicle in and out of the shop and attach expenses
+    window.addEventListener(VEHICLES_CHANGED_EVENT, fetchVehicleDetails);
+    window.addEventListener(EXPENSES_CHANGED_EVENT, fetchExpenses);
+    return () => {
+      window.removeEventListener(VEHICLES_CHANGED_EVENT, fetchVehicleDetails);
+      window.removeEventListener(EXPENSES_CHANGED_EVENT, fetchExpenses);
+    };
   }, [id]);
 
   const fetchVehicleDetails = async () => {
@@ -139,18 +168,6 @@ export default function VehicleDetails() {
     a.click();
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'active':
-        return 'bg-secondary text-secondary-foreground';
-      case 'maintenance':
-        return 'bg-accent text-accent-foreground';
-      case 'retired':
-        return 'bg-muted text-muted-foreground';
-      default:
-        return 'bg-muted';
-    }
-  };
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -187,10 +204,18 @@ export default function VehicleDetails() {
             <p className="text-muted-foreground">VIN: {vehicle.vin}</p>
           </div>
           <div className="flex items-center gap-2">
+            {isAdmin && (
+              <RecordHistoryDrawer
+                tableName="vehicles"
+                recordId={vehicle.id}
+                title={`${vehicle.plate} · all recorded changes to this vehicle`}
+              />
+            )}
             {isAdminOrManager && (
               <EditVehicleDialog vehicle={vehicle} onVehicleUpdated={fetchVehicleDetails} />
             )}
-            <Badge className={getStatusColor(vehicle.status)}>{vehicle.status}</Badge>
+            {!isRoadworthy(defects) && <Badge variant="destructive">Not Roadworthy</Badge>}
+            <Badge className={getVehicleStatusColor(vehicle.status)}>{getVehicleStatusLabel(vehicle.status)}</Badge>
           </div>
         </div>
 
@@ -229,12 +254,36 @@ export default function VehicleDetails() {
                   </div>
                 </div>
               )}
+              {vehicle.vehicle_type && (
+                <div>
+                  <p className="text-muted-foreground">Type</p>
+                  <p className="font-semibold">{getVehicleTypeLabel(vehicle.vehicle_type)}</p>
+                </div>
+              )}
               {vehicle.transponder_407 && (
                 <div>
                   <p className="text-muted-foreground">407 Transponder</p>
                   <p className="font-semibold font-mono">{vehicle.transponder_407}</p>
                 </div>
               )}
+              {vehicle.disposal_date && (
+                <div>
+                  <p className="text-muted-foreground">
+                    {vehicle.status === 'sold' ? 'Sold' : 'Disposed'} on {new Date(`${vehicle.disposal_date}T00:00:00`).toLocaleDateString()}
+                  </p>
+                  {vehicle.sale_price !== null && (
+                    <p className="font-semibold">
+                      {formatCurrency(Number(vehicle.sale_price))}
+                      {vehicle.buyer_name && ` to ${vehicle.buyer_name}`}
+                    </p>
+                  )}
+                  {vehicle.final_odometer_km !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      Final odometer {vehicle.final_odometer_km.toLocaleString()} km
+                    </p>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -298,7 +347,26 @@ export default function VehicleDetails() {
           </Card>
         </div>
 
-        
+        <VehicleTCOCard vehicleId={vehicle.id} />
+
+        <VehicleStatusHistory vehicleId={vehicle.id} />
+
+        <VehicleBranchHistory vehicleId={vehicle.id} />
+
+        <OdometerHistoryCard vehicleId={vehicle.id} />
+
+        <VehicleDefectsList
+          vehicleId={vehicle.id}
+          repairExpenses={expenses.filter(e => e.approval_status !== 'rejected')}
+        />
+
+        <WorkOrderList
+          vehicleId={vehicle.id}
+          odometerKm={vehicle.odometer_km}
+          unlinkedExpenses={expenses.filter(e => !e.work_order_id && e.approval_status !== 'rejected')}
+        />
+
+        <MaintenanceDueList vehicleId={vehicle.id} />
 
         <Card className="shadow-card">
           <CardHeader>
@@ -0,0 +1,69 @@
+export interface ExpenseApprovalStep {
+  id: string;
+  expense_id: string;
+  step_order: number;
+  approver_role: string;
+  approver_user_id: string | null;
+  status: string;
+  acted_by: string | null;
+  acted_at: string | null;
+  comment: string | null;
+}
+
+export const APPROVER_ROLE_LABELS: Record<string, string> = {
+  manager: 'Branch Manager',
+  admin: 'Admin',
+};
+
+/** The first step still waiting for a decision, or null when none are outstanding */
+export const getCurrentStep = (steps: ExpenseApprovalStep[]) =>
+  [...steps]
+    .sort((a, b) => a.step_order - b.step_order)
+    .find((step) => step.status === 'pending') || null;
+
+/**
+ * Mirrors can_act_on_approval_step in the database: a named approver (or an admin)
+ * acts on their step, otherwise the step's role decides.
+ */
+export const canActOnStep = (
+  step: Pick<ExpenseApprovalStep, 'approver_role' | 'approver_user_id'>,
+  userId: string | undefined,
+  roles: { isAdmin: boolean; isAdminOrManager: boolean }
+) => {
+  if (!userId) return false;
+  if (step.approver_user_id) return step.approver_user_id === userId || roles.isAdmin;
+  if (step.approver_role === 'admin') return roles.isAdmin;
+  return roles.isAdminOrManager;
+};
+
+/**
+ * Whether the expense is waiting at a step the user should act on. Expenses without
+ * approval steps use the original single-step approval by any admin or manager.
+ * Admins are not shown manager steps here, although they can still act on them.
+ */
+export const isWaitingOnUser = (
+  steps: ExpenseApprovalStep[],
+  userId: string | undefined,
+  roles: { isAdmin: boolean; isManager: boolean; isAdminOrManager: boolean }
+) => {
+  if (steps.length === 0) return roles.isAdminOrManager;
+  const current = getCurrentStep(steps);
+  if (!current) return false;
+  if (current.approver_user_id) return current.approver_user_id === userId;
+  if (current.approver_role === 'manager') return roles.isManager;
+  return roles.isAdmin;
+};
+
+/**
+ * Mirrors the separation of duties in approve_expense_step: the submitter never approves
+ * their own expense, and nobody approves two steps of the same chain.
+ */
+export const isBarredFromApproving = (
+  steps: ExpenseApprovalStep[],
+  createdBy: string | null,
+  userId: string | undefined
+) => {
+  if (!userId) return true;
+  if (createdBy === userId) return true;
+  return steps.some((step) => step.status === 'approved' && step.acted_by === userId);
+};
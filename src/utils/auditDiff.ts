@@ -0,0 +1,58 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export interface AuditFieldChange {
+  field: string;
+  oldValue: Json | undefined;
+  newValue: Json | undefined;
+}
+
+// Bookkeeping columns that change on every write and only add noise to a diff
+const IGNORED_FIELDS = ['updated_at', 'modified_at'];
+
+export const AUDITED_TABLES: Record<string, string> = {
+  vehicles: 'Vehicles',
+  expenses: 'Expenses',
+  fuel_receipts: 'Fuel Receipts',
+  branches: 'Branches',
+  vendors: 'Vendors',
+  expense_categories: 'Categories',
+  expense_preapproval_rules: 'Pre-Approval Rules',
+  vehicle_inspections: 'Inspections',
+  tire_changes: 'Tire Changes',
+  user_roles: 'User Roles',
+  accounting_periods: 'Accounting Periods',
+  organization_settings: 'Settings',
+};
+
+export const ACTION_BADGE_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  INSERT: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+};
+
+const asRecord = (data: Json | null): Record<string, Json | undefined> =>
+  data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+
+/**
+ * Compare the old and new row snapshots of an audit entry field by field.
+ * Inserts list every populated field, deletes list every field that was removed.
+ */
+export const diffAuditData = (oldData: Json | null, newData: Json | null): AuditFieldChange[] => {
+  const before = asRecord(oldData);
+  const after = asRecord(newData);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, oldValue: before[field], newValue: after[field] }));
+};
+
+export const formatAuditValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const formatFieldName = (field: string) =>
+  field.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
@@ -0,0 +1,109 @@
+import { differenceInCalendarDays, endOfMonth, format } from 'date-fns';
+import { DEFAULT_FISCAL_YEAR_START_MONTH, formatFiscalYear, getFiscalYearEnd } from '@/utils/fiscalYear';
+
+export interface Budget {
+  id: string;
+  period_type: string;
+  year: number;
+  month: number | null;
+  branch_id: string | null;
+  category_id: string | null;
+  vehicle_id: string | null;
+  amount: number;
+  warning_threshold_percent: number;
+  notes: string | null;
+}
+
+export type BudgetStatus = 'over' | 'warning' | 'ok';
+
+export interface BudgetProgress {
+  budget: Budget;
+  periodStart: Date;
+  periodEnd: Date;
+  actual: number;
+  remaining: number;
+  usedPercent: number;
+  /** Actual spend against the budget, e.g. +12 means 12% over */
+  variancePercent: number;
+  /** Spend at the end of the period if the current daily run rate continues */
+  projected: number;
+  projectedVariancePercent: number;
+  status: BudgetStatus;
+}
+
+/**
+ * First and last day of a budget. Monthly budgets cover the calendar month, annual
+ * budgets the fiscal year that starts in the budget's year.
+ */
+export const getBudgetPeriod = (
+  budget: Pick<Budget, 'period_type' | 'year' | 'month'>,
+  fiscalYearStartMonth = DEFAULT_FISCAL_YEAR_START_MONTH
+) => {
+  if (budget.period_type === 'monthly' && budget.month) {
+    const start = new Date(budget.year, budget.month - 1, 1);
+    return { start, end: endOfMonth(start) };
+  }
+  const start = new Date(budget.year, fiscalYearStartMonth - 1, 1);
+  return { start, end: getFiscalYearEnd(start, fiscalYearStartMonth) };
+};
+
+export const formatBudgetPeriod = (
+  budget: Pick<Budget, 'period_type' | 'year' | 'month'>,
+  fiscalYearStartMonth = DEFAULT_FISCAL_YEAR_START_MONTH
+) =>
+  budget.period_type === 'monthly' && budget.month
+    ? format(new Date(budget.year, budget.month - 1, 1), 'MMM yyyy')
+    : formatFiscalYear(new Date(budget.year, fiscalYearStartMonth - 1, 1), fiscalYearStartMonth);
+
+/**
+ * Compare each budget with the matching spend in its period and project the
+ * period-end total from the run rate so far.
+ * @param actuals - Spend in each budget's period and scope, by budget id
+ * @param fiscalYearStartMonth - First month of the fiscal year annual budgets cover (1-based)
+ * @param today - Reference date for the projection (defaults to now)
+ */
+export function computeBudgetProgress(
+  budgets: Budget[],
+  actuals: Record<string, number>,
+  fiscalYearStartMonth = DEFAULT_FISCAL_YEAR_START_MONTH,
+  today: Date = new Date()
+): BudgetProgress[] {
+  return budgets.map((budget) => {
+    const { start, end } = getBudgetPeriod(budget, fiscalYearStartMonth);
+    const actual = actuals[budget.id] || 0;
+
+    const amount = Number(budget.amount);
+    const totalDays = differenceInCalendarDays(end, start) + 1;
+    const elapsedDays = Math.min(Math.max(differenceInCalendarDays(today, start) + 1, 0), totalDays);
+    // Nothing to extrapolate from before the period starts or once it has ended
+    const projected = elapsedDays > 0 && elapsedDays < totalDays
+      ? (actual / elapsedDays) * totalDays
+      : actual;
+
+    const usedPercent = (actual / amount) * 100;
+    let status: BudgetStatus = 'ok';
+    if (actual > amount) {
+      status = 'over';
+    } else if (usedPercent >= Number(budget.warning_threshold_percent)) {
+      status = 'warning';
+    }
+
+    return {
+      budget,
+      periodStart: start,
+      periodEnd: end,
+      actual,
+      remaining: amount - actual,
+      usedPercent,
+      variancePercent: ((actual - amount) / amount) * 100,
+      projected,
+      projectedVariancePercent: ((projected - amount) / amount) * 100,
+      status,
+    };
+  });
+}
+
+export const formatBudgetScope = (scope: { branchName: string | null; categoryName: string | null; vehiclePlate: string | null }) => {
+  const parts = [scope.branchName, scope.categoryName, scope.vehiclePlate].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Whole fleet';
+};
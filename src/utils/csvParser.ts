@@ -1,88 +1,249 @@
-export const parseCSVFile = async (file: File): Promise<{ records: any[], errors: string[] }> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    const records: any[] = [];
-    const errors: string[] = [];
-
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const lines = text.split('\n').filter(line => line.trim());
-        
-        if (lines.length < 2) {
-          errors.push('File appears to be empty or invalid');
-          resolve({ records, errors });
-          return;
-        }
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
 
-        const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-        
-        // Expected columns (flexible matching)
-        const dateCol = headers.findIndex(h => h.includes('date'));
-        const vehicleCol = headers.findIndex(h => h.includes('vehicle') || h.includes('vin') || h.includes('plate'));
-        const branchCol = headers.findIndex(h => h.includes('branch') || h.includes('location'));
-        const categoryCol = headers.findIndex(h => h.includes('category') || h.includes('type'));
-        const amountCol = headers.findIndex(h => h.includes('amount') || h.includes('cost') || h.includes('total'));
-        const descCol = headers.findIndex(h => h.includes('description') || h.includes('notes'));
-        const odometerCol = headers.findIndex(h => h.includes('odometer') || h.includes('km') || h.includes('mileage'));
-
-        for (let i = 1; i < lines.length; i++) {
-          const line = lines[i];
-          if (!line.trim()) continue;
-
-          // Handle CSV with potential commas in quoted fields
-          const values = line.match(/(".*?"|[^",\s]+)(?=\s*,|\s*$)/g)?.map(v => v.replace(/^"|"$/g, '').trim()) || [];
-          
-          if (values.length < 3) {
-            errors.push(`Line ${i + 1}: Insufficient data`);
-            continue;
-          }
-
-          const record: any = {
-            date: dateCol >= 0 ? values[dateCol] : null,
-            vehicle: vehicleCol >= 0 ? values[vehicleCol] : null,
-            branch: branchCol >= 0 ? values[branchCol] : null,
-            category: categoryCol >= 0 ? values[categoryCol] : 'Uncategorized',
-            amount: amountCol >= 0 ? parseFloat(values[amountCol].replace(/[^0-9.-]/g, '')) : 0,
-            description: descCol >= 0 ? values[descCol] : '',
-            odometer: odometerCol >= 0 ? parseInt(values[odometerCol].replace(/[^0-9]/g, '')) : null,
-            lineNumber: i + 1
-          };
-
-          // Validation
-          if (!record.date || !record.vehicle || !record.amount) {
-            errors.push(`Line ${i + 1}: Missing required fields (date, vehicle, or amount)`);
-            continue;
-          }
-
-          // Validate and format date
-          const parsedDate = new Date(record.date);
-          if (isNaN(parsedDate.getTime())) {
-            errors.push(`Line ${i + 1}: Invalid date format "${record.date}"`);
-            continue;
-          }
-          record.date = parsedDate.toISOString().split('T')[0];
-
-          if (record.amount <= 0) {
-            errors.push(`Line ${i + 1}: Invalid amount "${record.amount}"`);
-            continue;
-          }
-
-          records.push(record);
-        }
+export const CSV_DELIMITERS: { value: CSVDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export interface CSVRow {
+  /** Line in the file where the row starts (quoted fields can span lines) */
+  line: number;
+  values: string[];
+}
+
+export interface ParsedCSV {
+  headers: string[];
+  rows: CSVRow[];
+  delimiter: CSVDelimiter;
+}
+
+/**
+ * Pick the delimiter that occurs most often outside quotes on the first line.
+ * Falls back to a comma.
+ */
+export function detectDelimiter(text: string): CSVDelimiter {
+  const counts = new Map<CSVDelimiter, number>(CSV_DELIMITERS.map(d => [d.value, 0]));
+  let inQuotes = false;
+
+  for (const char of text.replace(/^\uFEFF/, '')) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as CSVDelimiter)) {
+      counts.set(char as CSVDelimiter, (counts.get(char as CSVDelimiter) || 0) + 1);
+    }
+  }
+
+  let best: CSVDelimiter = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > (counts.get(best) || 0)) best = delimiter;
+  });
+  return best;
+}
+
+/**
+ * Split CSV text into rows following RFC 4180: quoted fields may contain
+ * delimiters, line breaks and escaped quotes (""), and lines may end in CRLF,
+ * LF or CR. A leading byte order mark is dropped and blank lines are skipped.
+ * Values are not trimmed.
+ */
+export function parseCSVRows(text: string, delimiter: CSVDelimiter): CSVRow[] {
+  const input = text.replace(/^\uFEFF/, '');
+  const records: CSVRow[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
 
-        resolve({ records, errors });
-      } catch (error) {
-        errors.push(`Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        resolve({ records, errors });
+  const endField = () => {
+    values.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    // A row with a single empty field is a blank line
+    if (values.length > 1 || values[0] !== '') {
+      records.push({ line: rowLine, values });
+    }
+    values = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
       }
-    };
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
 
-    reader.onerror = () => {
-      errors.push('Failed to read file');
-      resolve({ records, errors });
-    };
+  if (field !== '' || values.length > 0) {
+    endRow();
+  }
 
+  return records;
+}
+
+/**
+ * Parse CSV text into a header row and trimmed data rows.
+ * @param delimiter - Field separator (detected from the header line when omitted)
+ */
+export function parseCSV(text: string, delimiter: CSVDelimiter = detectDelimiter(text)): ParsedCSV {
+  const [headerRow, ...rows] = parseCSVRows(text, delimiter);
+  return {
+    headers: (headerRow?.values || []).map(header => header.trim()),
+    rows: rows.map(row => ({ ...row, values: row.values.map(value => value.trim()) })),
+    delimiter,
+  };
+}
+
+export const readFileAsText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read file'));
     reader.readAsText(file);
   });
+
+export type ImportField = 'date' | 'vehicle' | 'branch' | 'category' | 'amount' | 'description' | 'odometer';
+
+/** Target field → source column header */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'vehicle', label: 'Vehicle (VIN/Plate)', required: true },
+  { key: 'amount', label: 'Amount', required: true },
+  { key: 'branch', label: 'Branch', required: false },
+  { key: 'category', label: 'Category', required: false },
+  { key: 'description', label: 'Description', required: false },
+  { key: 'odometer', label: 'Odometer', required: false },
+];
+
+// Whole header names only, so "vehicle type" is not taken for the category
+const FIELD_SYNONYMS: Record<ImportField, string[]> = {
+  date: ['date', 'expense date', 'invoice date', 'transaction date', 'service date', 'work order date'],
+  vehicle: ['vehicle', 'vin', 'plate', 'license plate', 'licence plate', 'unit', 'unit number', 'vehicle id', 'vehicle plate'],
+  branch: ['branch', 'location', 'branch name', 'site'],
+  category: ['category', 'expense category', 'expense type', 'type', 'service type'],
+  amount: ['amount', 'total', 'cost', 'total amount', 'invoice total', 'amount due', 'total cost'],
+  description: ['description', 'notes', 'details', 'memo', 'work performed'],
+  odometer: ['odometer', 'mileage', 'km', 'kms', 'odometer km', 'odometer reading'],
 };
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Suggest a mapping from header names; each source column is used at most once */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const header = headers.find(h => !used.has(h) && FIELD_SYNONYMS[key].includes(normalizeHeader(h)));
+    if (header) {
+      mapping[key] = header;
+      used.add(header);
+    }
+  });
+
+  return mapping;
+}
+
+export interface ParsedExpenseRecord {
+  date: string;
+  vehicle: string;
+  branch: string;
+  category: string;
+  amount: number;
+  description: string;
+  odometer: number | null;
+  lineNumber: number;
+}
+
+/**
+ * Turn CSV rows into expense records using a column mapping, skipping rows
+ * that are missing required fields or have an invalid date or amount.
+ */
+export function mapCSVRecords(
+  parsed: ParsedCSV,
+  mapping: ColumnMapping
+): { records: ParsedExpenseRecord[]; errors: string[] } {
+  const records: ParsedExpenseRecord[] = [];
+  const errors: string[] = [];
+
+  const columnIndex = (field: ImportField) => (mapping[field] ? parsed.headers.indexOf(mapping[field]!) : -1);
+  const indexes = Object.fromEntries(IMPORT_FIELDS.map(({ key }) => [key, columnIndex(key)])) as Record<ImportField, number>;
+  const valueOf = (row: CSVRow, field: ImportField) => (indexes[field] >= 0 ? row.values[indexes[field]] || '' : '');
+
+  parsed.rows.forEach(row => {
+    const rawDate = valueOf(row, 'date');
+    const vehicle = valueOf(row, 'vehicle');
+    const rawAmount = valueOf(row, 'amount');
+    const rawOdometer = valueOf(row, 'odometer');
+
+    if (!rawDate || !vehicle || !rawAmount) {
+      errors.push(`Line ${row.line}: Missing required fields (date, vehicle, or amount)`);
+      return;
+    }
+
+    const parsedDate = new Date(rawDate);
+    if (isNaN(parsedDate.getTime())) {
+      errors.push(`Line ${row.line}: Invalid date format "${rawDate}"`);
+      return;
+    }
+
+    const amount = parseFloat(rawAmount.replace(/[^0-9.-]/g, ''));
+    if (isNaN(amount) || amount <= 0) {
+      errors.push(`Line ${row.line}: Invalid amount "${rawAmount}"`);
+      return;
+    }
+
+    const odometer = rawOdometer ? parseInt(rawOdometer.replace(/[^0-9]/g, '')) : NaN;
+
+    records.push({
+      date: parsedDate.toISOString().split('T')[0],
+      vehicle,
+      branch: valueOf(row, 'branch'),
+      category: valueOf(row, 'category') || 'Uncategorized',
+      amount,
+      description: valueOf(row, 'description'),
+      odometer: isNaN(odometer) ? null : odometer,
+      lineNumber: row.line,
+    });
+  });
+
+  return { records, errors };
+}
+
+/** Whether every column a mapping refers to exists in the file */
+export const mappingFitsHeaders = (mapping: ColumnMapping, headers: string[]) =>
+  Object.values(mapping).length > 0 &&
+  Object.values(mapping).every(header => !header || headers.includes(header));
@@ -0,0 +1,67 @@
+export type ReceiptSource = 'expense' | 'fuel_receipt';
+
+/** The parts of an expense or fuel receipt that are compared to spot a second copy */
+export interface ReceiptFingerprint {
+  id: string;
+  source: ReceiptSource;
+  date: string;
+  amount: number;
+  vendor_name: string | null;
+  vehicle_id: string;
+  created_at: string;
+  fileHashes: string[];
+}
+
+export type DuplicateReason = 'document' | 'amount' | 'date' | 'vendor' | 'vehicle';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  document: 'Same document',
+  amount: 'Same amount',
+  date: 'Same date',
+  vendor: 'Same vendor',
+  vehicle: 'Same vehicle',
+};
+
+export const RECEIPT_SOURCE_LABELS: Record<ReceiptSource, string> = {
+  expense: 'Expense',
+  fuel_receipt: 'Fuel receipt',
+};
+
+const normalizeVendor = (name: string | null) => (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Scanned vendor names vary ("Shell" vs "Shell Canada #123"), so one containing the other counts
+const sameVendor = (a: string | null, b: string | null) => {
+  const left = normalizeVendor(a);
+  const right = normalizeVendor(b);
+  return left.length > 0 && right.length > 0 && (left.includes(right) || right.includes(left));
+};
+
+const amountInCents = (amount: number) => Math.round(Number(amount) * 100);
+
+export function getDuplicateReasons(a: ReceiptFingerprint, b: ReceiptFingerprint): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  if (a.fileHashes.some(hash => b.fileHashes.includes(hash))) reasons.push('document');
+  if (amountInCents(a.amount) === amountInCents(b.amount)) reasons.push('amount');
+  if (a.date === b.date) reasons.push('date');
+  if (sameVendor(a.vendor_name, b.vendor_name)) reasons.push('vendor');
+  if (a.vehicle_id === b.vehicle_id) reasons.push('vehicle');
+  return reasons;
+}
+
+/**
+ * The same uploaded file is always a duplicate. Otherwise the amount and date
+ * must match along with the vendor or the vehicle. flag_duplicate_expenses
+ * applies the same rules when scanning existing records.
+ */
+export const isLikelyDuplicate = (reasons: DuplicateReason[]) =>
+  reasons.includes('document') ||
+  (reasons.includes('amount') && reasons.includes('date') &&
+    (reasons.includes('vendor') || reasons.includes('vehicle')));
+
+/** SHA-256 of a file's contents as a hex string */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
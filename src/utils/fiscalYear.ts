@@ -0,0 +1,28 @@
+import { addMonths, endOfMonth, format, startOfMonth } from 'date-fns';
+
+// Calendar year until an admin sets another start month
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1;
+
+/**
+ * First day of the fiscal year the date falls in. startMonth is 1-based (1 = January).
+ */
+export const getFiscalYearStart = (date: Date, startMonth = DEFAULT_FISCAL_YEAR_START_MONTH) => {
+  const year = date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, startMonth - 1, 1);
+};
+
+export const getFiscalYearEnd = (date: Date, startMonth = DEFAULT_FISCAL_YEAR_START_MONTH) =>
+  endOfMonth(addMonths(getFiscalYearStart(date, startMonth), 11));
+
+/**
+ * "FY 2026" for a calendar fiscal year, "FY 2026/27" for one that spans two calendar years.
+ */
+export const formatFiscalYear = (date: Date, startMonth = DEFAULT_FISCAL_YEAR_START_MONTH) => {
+  const start = getFiscalYearStart(date, startMonth);
+  if (startMonth === 1) return `FY ${start.getFullYear()}`;
+  return `FY ${start.getFullYear()}/${String((start.getFullYear() + 1) % 100).padStart(2, '0')}`;
+};
+
+/** The accounting period a date is booked in, as the yyyy-MM-01 key stored in accounting_periods */
+export const toPeriodMonth = (date: Date | string) =>
+  format(startOfMonth(typeof date === 'string' ? new Date(`${date.substring(0, 10)}T00:00:00`) : date), 'yyyy-MM-dd');
@@ -0,0 +1,204 @@
+import { addDays, differenceInCalendarDays, max, min } from 'date-fns';
+import { FLEET_STATUSES, VehicleStatus } from '@/utils/vehicleStatus';
+
+export interface StatusChange {
+  vehicle_id: string;
+  status: string;
+  effective_date: string;
+  created_at: string;
+}
+
+export interface BranchAssignment {
+  vehicle_id: string;
+  branch_id: string | null;
+  branchName: string | null;
+  effective_date: string;
+  created_at: string;
+}
+
+export interface AvailabilityVehicle {
+  id: string;
+  plate: string;
+  make: string | null;
+  model: string | null;
+  branch_id: string | null;
+  branchName: string | null;
+}
+
+export interface VehicleAvailability {
+  vehicle: AvailabilityVehicle;
+  /** Days in the range the vehicle was part of the working fleet */
+  fleetDays: number;
+  /** Days in the range the vehicle was in the shop or otherwise out of service */
+  downtimeDays: number;
+  availabilityPercent: number | null;
+  shopVisits: number;
+  /** The same days split by the branch the vehicle belonged to on each day */
+  byBranch: BranchDays[];
+}
+
+export interface BranchDays {
+  branchId: string | null;
+  branchName: string | null;
+  fleetDays: number;
+  downtimeDays: number;
+  shopVisits: number;
+}
+
+export interface BranchAvailability {
+  branchId: string | null;
+  branchName: string;
+  vehicles: number;
+  fleetDays: number;
+  downtimeDays: number;
+  availabilityPercent: number | null;
+  shopVisits: number;
+}
+
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+const availabilityOf = (fleetDays: number, downtimeDays: number) =>
+  fleetDays > 0 ? ((fleetDays - downtimeDays) / fleetDays) * 100 : null;
+
+/**
+ * The branches a vehicle belonged to as consecutive spans, following
+ * vehicle_branch_on: days before the first transfer belong to the first branch
+ * and a vehicle without history stays at its current branch.
+ */
+const branchSpans = (vehicle: AvailabilityVehicle, branchHistory: BranchAssignment[]) => {
+  const assignments = branchHistory
+    .filter(assignment => assignment.vehicle_id === vehicle.id)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date) || a.created_at.localeCompare(b.created_at));
+
+  if (assignments.length === 0) {
+    return [{ branchId: vehicle.branch_id, branchName: vehicle.branchName, start: null, end: null }];
+  }
+
+  return assignments.map((assignment, index) => {
+    const next = assignments[index + 1];
+    return {
+      branchId: assignment.branch_id,
+      branchName: assignment.branchName,
+      start: index > 0 ? toDate(assignment.effective_date) : null,
+      end: next ? toDate(next.effective_date) : null,
+    };
+  });
+};
+
+/**
+ * Work out how many days of the range each vehicle spent in the working fleet
+ * and how many of those it was out of service, from its dated status changes.
+ * Days are also split by the branch the vehicle belonged to at the time.
+ * @param rangeStart - First day of the range (yyyy-MM-dd)
+ * @param rangeEnd - Last day of the range, inclusive (yyyy-MM-dd)
+ */
+export function computeVehicleAvailability(
+  vehicles: AvailabilityVehicle[],
+  history: StatusChange[],
+  branchHistory: BranchAssignment[],
+  rangeStart: string,
+  rangeEnd: string
+): VehicleAvailability[] {
+  const start = toDate(rangeStart);
+  const end = addDays(toDate(rangeEnd), 1);
+
+  return vehicles
+    .map((vehicle) => {
+      const changes = history
+        .filter(change => change.vehicle_id === vehicle.id)
+        .sort((a, b) => a.effective_date.localeCompare(b.effective_date) || a.created_at.localeCompare(b.created_at));
+
+      const spans = branchSpans(vehicle, branchHistory);
+      const byBranch = new Map<string, BranchDays>();
+
+      let fleetDays = 0;
+      let downtimeDays = 0;
+      let shopVisits = 0;
+
+      changes.forEach((change, index) => {
+        const next = changes[index + 1];
+        const periodStart = max([toDate(change.effective_date), start]);
+        const periodEnd = min([next ? toDate(next.effective_date) : end, end]);
+        const days = differenceInCalendarDays(periodEnd, periodStart);
+        if (days <= 0) return;
+
+        const inFleet = FLEET_STATUSES.includes(change.status as VehicleStatus);
+        const inShop = change.status === 'maintenance';
+        if (inFleet) fleetDays += days;
+        if (inShop) {
+          downtimeDays += days;
+          shopVisits += 1;
+        }
+
+        // A shop visit counts at the branch the vehicle was at when it went in
+        let visitCounted = false;
+        spans.forEach(span => {
+          const spanDays = differenceInCalendarDays(
+            span.end ? min([periodEnd, span.end]) : periodEnd,
+            span.start ? max([periodStart, span.start]) : periodStart
+          );
+          if (spanDays <= 0) return;
+
+          const key = span.branchId || '';
+          const branch = byBranch.get(key) || {
+            branchId: span.branchId,
+            branchName: span.branchName,
+            fleetDays: 0,
+            downtimeDays: 0,
+            shopVisits: 0,
+          };
+          if (inFleet) branch.fleetDays += spanDays;
+          if (inShop) {
+            branch.downtimeDays += spanDays;
+            if (!visitCounted) branch.shopVisits += 1;
+            visitCounted = true;
+          }
+          byBranch.set(key, branch);
+        });
+      });
+
+      return {
+        vehicle,
+        fleetDays,
+        downtimeDays,
+        availabilityPercent: availabilityOf(fleetDays, downtimeDays),
+        shopVisits,
+        byBranch: Array.from(byBranch.values()),
+      };
+    })
+    .filter(item => item.fleetDays > 0);
+}
+
+/**
+ * Add up vehicle availability per branch, lowest availability first. A vehicle
+ * that was transferred counts at each branch for the days it spent there.
+ */
+export function summarizeAvailabilityByBranch(items: VehicleAvailability[]): BranchAvailability[] {
+  const byBranch = new Map<string, BranchAvailability>();
+
+  items.forEach(item => {
+    item.byBranch
+      .filter(days => days.fleetDays > 0)
+      .forEach(days => {
+        const key = days.branchId || '';
+        const branch = byBranch.get(key) || {
+          branchId: days.branchId,
+          branchName: days.branchName || 'Unassigned',
+          vehicles: 0,
+          fleetDays: 0,
+          downtimeDays: 0,
+          availabilityPercent: null,
+          shopVisits: 0,
+        };
+        branch.vehicles += 1;
+        branch.fleetDays += days.fleetDays;
+        branch.downtimeDays += days.downtimeDays;
+        branch.shopVisits += days.shopVisits;
+        byBranch.set(key, branch);
+      });
+  });
+
+  return Array.from(byBranch.values())
+    .map(branch => ({ ...branch, availabilityPercent: availabilityOf(branch.fleetDays, branch.downtimeDays) }))
+    .sort((a, b) => (a.availabilityPercent ?? 100) - (b.availabilityPercent ?? 100));
+}
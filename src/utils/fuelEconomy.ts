@@ -0,0 +1,58 @@
+/**
+ * A vehicle's fuel economy totals as returned by report_fuel_by_vehicle. Segments are
+ * built in the database by the full-tank method: the litres bought at a fill-up are the
+ * fuel burned since the previous fill-up. The recent figures cover the last
+ * RECENT_SEGMENT_COUNT segments.
+ */
+export interface VehicleEconomyTotals {
+  vehicleId: string;
+  economyLitres: number;
+  economyKm: number;
+  segmentCount: number;
+  recentLitres: number;
+  recentKm: number;
+}
+
+export interface EconomyDrop {
+  vehicleId: string;
+  baseline: number;
+  recent: number;
+  changePercent: number;
+}
+
+// A vehicle is flagged when its recent economy is this much worse than its own baseline
+export const ECONOMY_DROP_THRESHOLD = 0.2;
+
+// Number of most recent segments compared against the rest of the vehicle's history
+export const RECENT_SEGMENT_COUNT = 3;
+
+export const toLitresPer100Km = (litres: number, distanceKm: number) =>
+  distanceKm > 0 ? (litres / distanceKm) * 100 : 0;
+
+/**
+ * Compare each vehicle's most recent segments with its earlier history and
+ * return the vehicles whose L/100 km has worsened by more than the threshold.
+ */
+export const findEconomyDrops = (vehicles: VehicleEconomyTotals[], threshold = ECONOMY_DROP_THRESHOLD) => {
+  const drops: EconomyDrop[] = [];
+  vehicles.forEach((vehicle) => {
+    if (vehicle.segmentCount <= RECENT_SEGMENT_COUNT) return;
+
+    const baseline = toLitresPer100Km(
+      vehicle.economyLitres - vehicle.recentLitres,
+      vehicle.economyKm - vehicle.recentKm
+    );
+    const recentEconomy = toLitresPer100Km(vehicle.recentLitres, vehicle.recentKm);
+
+    if (baseline > 0 && recentEconomy > baseline * (1 + threshold)) {
+      drops.push({
+        vehicleId: vehicle.vehicleId,
+        baseline,
+        recent: recentEconomy,
+        changePercent: ((recentEconomy - baseline) / baseline) * 100,
+      });
+    }
+  });
+
+  return drops.sort((a, b) => b.changePercent - a.changePercent);
+};
@@ -0,0 +1,172 @@
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { AVAILABLE_STATUSES, VehicleStatus } from '@/utils/vehicleStatus';
+
+export type ComplianceStatus = 'inspected' | 'issues' | 'missing' | 'pending' | 'not_due';
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceStatus, string> = {
+  inspected: 'Inspected',
+  issues: 'Issues found',
+  missing: 'Missing',
+  pending: 'Due this month',
+  not_due: 'Not in service',
+};
+
+export const getComplianceStatusColor = (status: ComplianceStatus) => {
+  switch (status) {
+    case 'inspected':
+      return 'bg-green-500';
+    case 'issues':
+      return 'bg-amber-500';
+    case 'missing':
+      return 'bg-destructive';
+    case 'pending':
+      return 'border-2 border-dashed border-muted-foreground/50';
+    default:
+      return 'bg-muted';
+  }
+};
+
+export interface ComplianceVehicle {
+  id: string;
+  plate: string;
+  make: string | null;
+  model: string | null;
+  status: string;
+  branch_id: string | null;
+  branchName: string | null;
+}
+
+/** A vehicle's inspections in one month, counted by report_inspection_compliance */
+export interface ComplianceMonth {
+  month: string;
+  inspections: number;
+  hasIssues: boolean;
+  /** Active or a loaner on any day of the month, so due for its inspection */
+  inService: boolean;
+}
+
+export interface ComplianceRecord {
+  vehicle: ComplianceVehicle;
+  months: ComplianceMonth[];
+  lastInspectionDate: string | null;
+}
+
+export interface VehicleCompliance {
+  vehicle: ComplianceVehicle;
+  /** Status per inspection month (yyyy-MM-01), in the order of the months given */
+  months: { month: string; status: ComplianceStatus }[];
+  lastInspectionDate: string | null;
+  /** Complete months in a row, counting back from the latest, without an inspection */
+  monthsMissed: number;
+}
+
+export interface BranchCompliance {
+  branchId: string | null;
+  branchName: string;
+  due: number;
+  inspected: number;
+  compliancePercent: number | null;
+}
+
+/**
+ * The inspection months (yyyy-MM-01) of the given number of months up to and
+ * including the end month, oldest first.
+ */
+export const inspectionMonths = (endMonth: string, count: number) =>
+  Array.from({ length: count }, (_, i) =>
+    format(subMonths(new Date(`${endMonth}T00:00:00`), count - 1 - i), 'yyyy-MM-dd')
+  );
+
+/**
+ * The last months as filter options, most recent first.
+ */
+export const recentMonthOptions = (count: number) =>
+  Array.from({ length: count }, (_, i) => {
+    const date = subMonths(new Date(), i);
+    return {
+      value: format(startOfMonth(date), 'yyyy-MM-dd'),
+      label: format(date, 'MMMM yyyy'),
+    };
+  });
+
+/**
+ * Work out, for each vehicle and month, whether it was inspected, inspected with
+ * failed items, or missed its inspection. The current month is only pending
+ * until it ends.
+ * @param currentMonth - The inspection month in progress (yyyy-MM-01)
+ */
+export function computeInspectionCompliance(
+  records: ComplianceRecord[],
+  months: string[],
+  currentMonth: string
+): VehicleCompliance[] {
+  return records
+    .map(({ vehicle, months: counted, lastInspectionDate }) => {
+      const monthStatuses = months.map((month) => {
+        const entry = counted.find(c => c.month === month);
+        let status: ComplianceStatus;
+        if (entry && entry.inspections > 0) {
+          status = entry.hasIssues ? 'issues' : 'inspected';
+        } else if (!entry?.inService) {
+          status = 'not_due';
+        } else {
+          status = month >= currentMonth ? 'pending' : 'missing';
+        }
+        return { month, status };
+      });
+
+      let monthsMissed = 0;
+      for (const { status } of [...monthStatuses].reverse()) {
+        if (status === 'pending') continue;
+        if (status !== 'missing') break;
+        monthsMissed += 1;
+      }
+
+      return { vehicle, months: monthStatuses, lastInspectionDate, monthsMissed };
+    })
+    .filter(item => item.months.some(({ status }) => status !== 'not_due'))
+    .sort((a, b) =>
+      (a.vehicle.branchName || '').localeCompare(b.vehicle.branchName || '') || a.vehicle.plate.localeCompare(b.vehicle.plate)
+    );
+}
+
+/**
+ * Share of due inspections that were done per branch, least compliant first.
+ * Vehicles not yet inspected in the month in progress do not count against it.
+ */
+export function summarizeComplianceByBranch(items: VehicleCompliance[]): BranchCompliance[] {
+  const byBranch = new Map<string, BranchCompliance>();
+
+  items.forEach(item => {
+    const key = item.vehicle.branch_id || '';
+    const branch = byBranch.get(key) || {
+      branchId: item.vehicle.branch_id,
+      branchName: item.vehicle.branchName || 'Unassigned',
+      due: 0,
+      inspected: 0,
+      compliancePercent: null,
+    };
+    item.months.forEach(({ status }) => {
+      if (status === 'inspected' || status === 'issues') {
+        branch.due += 1;
+        branch.inspected += 1;
+      } else if (status === 'missing') {
+        branch.due += 1;
+      }
+    });
+    byBranch.set(key, branch);
+  });
+
+  return Array.from(byBranch.values())
+    .map(branch => ({ ...branch, compliancePercent: branch.due > 0 ? (branch.inspected / branch.due) * 100 : null }))
+    .sort((a, b) => (a.compliancePercent ?? 100) - (b.compliancePercent ?? 100));
+}
+
+/**
+ * Vehicles still in service that missed the inspection of their latest
+ * complete month, longest overdue first.
+ */
+export const getOverdueVehicles = (items: VehicleCompliance[]) =>
+  items
+    .filter(item => item.monthsMissed > 0 && AVAILABLE_STATUSES.includes(item.vehicle.status as VehicleStatus))
+    .sort((a, b) => b.monthsMissed - a.monthsMissed || a.vehicle.plate.localeCompare(b.vehicle.plate));
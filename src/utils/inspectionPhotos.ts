@@ -0,0 +1,97 @@
+// Phone cameras produce 4000px+ images; this is plenty to see damage and keeps uploads small
+const MAX_PHOTO_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.85;
+
+export type MarkupTool = 'arrow' | 'circle';
+
+/** A mark drawn on a photo, in the photo's own pixel coordinates */
+export interface PhotoMark {
+  tool: MarkupTool;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** A photo taken on the inspection form that has not been uploaded yet */
+export interface PendingPhoto {
+  id: string;
+  blob: Blob;
+  previewUrl: string;
+  annotated: boolean;
+}
+
+export async function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Draw an image onto a canvas scaled down to fit the maximum photo size */
+export function drawScaledImage(canvas: HTMLCanvasElement, image: HTMLImageElement) {
+  const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+}
+
+export function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode photo'))),
+      'image/jpeg',
+      PHOTO_QUALITY
+    );
+  });
+}
+
+/** Re-encode a camera photo as a JPEG no larger than the maximum photo size */
+export async function compressPhoto(file: Blob): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  drawScaledImage(canvas, await loadImage(file));
+  return canvasToJpeg(canvas);
+}
+
+/** Draw a mark in red, with a line width that stays visible on large photos */
+export function drawMark(ctx: CanvasRenderingContext2D, mark: PhotoMark) {
+  const lineWidth = Math.max(3, Math.round(Math.max(ctx.canvas.width, ctx.canvas.height) / 200));
+  ctx.strokeStyle = '#ef4444';
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+
+  if (mark.tool === 'circle') {
+    // The drag spans the bounding box of the ellipse
+    ctx.ellipse(
+      (mark.x1 + mark.x2) / 2,
+      (mark.y1 + mark.y2) / 2,
+      Math.abs(mark.x2 - mark.x1) / 2,
+      Math.abs(mark.y2 - mark.y1) / 2,
+      0,
+      0,
+      Math.PI * 2
+    );
+  } else {
+    // The arrow points where the drag ended
+    const angle = Math.atan2(mark.y2 - mark.y1, mark.x2 - mark.x1);
+    const head = lineWidth * 5;
+    ctx.moveTo(mark.x1, mark.y1);
+    ctx.lineTo(mark.x2, mark.y2);
+    ctx.moveTo(mark.x2 - head * Math.cos(angle - Math.PI / 6), mark.y2 - head * Math.sin(angle - Math.PI / 6));
+    ctx.lineTo(mark.x2, mark.y2);
+    ctx.lineTo(mark.x2 - head * Math.cos(angle + Math.PI / 6), mark.y2 - head * Math.sin(angle + Math.PI / 6));
+  }
+
+  ctx.stroke();
+}
+
+/** Storage path of an inspection photo in the vehicle-documents bucket */
+export const inspectionPhotoPath = (vehicleId: string, inspectionId: string, index: number) =>
+  `inspections/${vehicleId}/${inspectionId}/${Date.now()}-${index}.jpg`;
@@ -0,0 +1,95 @@
+import { DefectSeverity } from '@/utils/vehicleDefects';
+
+export type InspectionItemType = 'pass_fail' | 'numeric' | 'photo';
+
+export const INSPECTION_ITEM_TYPES: InspectionItemType[] = ['pass_fail', 'numeric', 'photo'];
+
+export const INSPECTION_ITEM_TYPE_LABELS: Record<InspectionItemType, string> = {
+  pass_fail: 'Pass / Fail',
+  numeric: 'Numeric Reading',
+  photo: 'Photo Required',
+};
+
+export interface InspectionTemplateItem {
+  id: string;
+  template_id: string;
+  position: number;
+  item_key: string;
+  label: string;
+  item_type: InspectionItemType;
+  hint: string | null;
+  unit: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  severity: DefectSeverity;
+  due_days: number;
+}
+
+export interface InspectionTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  branch_id: string | null;
+  vehicle_type: string | null;
+  is_active: boolean;
+  items: InspectionTemplateItem[];
+}
+
+interface InspectedVehicle {
+  branch_id: string | null;
+  vehicle_type: string | null;
+}
+
+// Higher is more specific: branch + vehicle type > vehicle type > branch > fleet-wide
+const templateSpecificity = (template: InspectionTemplate, vehicle: InspectedVehicle) => {
+  if (template.vehicle_type && template.vehicle_type !== vehicle.vehicle_type) return -1;
+  if (template.branch_id && template.branch_id !== vehicle.branch_id) return -1;
+  if (template.vehicle_type && template.branch_id) return 3;
+  if (template.vehicle_type) return 2;
+  if (template.branch_id) return 1;
+  return 0;
+};
+
+/**
+ * Pick the checklist for a vehicle: the most specific active template that
+ * matches its branch and type, or null when none applies.
+ */
+export const templateForVehicle = (templates: InspectionTemplate[], vehicle: InspectedVehicle) => {
+  let best: { template: InspectionTemplate; specificity: number } | null = null;
+  for (const template of templates) {
+    if (!template.is_active) continue;
+    const specificity = templateSpecificity(template, vehicle);
+    if (specificity >= 0 && (!best || specificity > best.specificity)) {
+      best = { template, specificity };
+    }
+  }
+  return best?.template || null;
+};
+
+/**
+ * A numeric reading passes when it is inside the item's range; items without a
+ * range only record the value.
+ */
+export const isReadingInRange = (item: Pick<InspectionTemplateItem, 'min_value' | 'max_value'>, value: number) =>
+  (item.min_value === null || value >= item.min_value) && (item.max_value === null || value <= item.max_value);
+
+export const describeRange = (item: Pick<InspectionTemplateItem, 'min_value' | 'max_value' | 'unit'>) => {
+  const unit = item.unit ? ` ${item.unit}` : '';
+  if (item.min_value !== null && item.max_value !== null) return `${item.min_value}–${item.max_value}${unit}`;
+  if (item.min_value !== null) return `at least ${item.min_value}${unit}`;
+  if (item.max_value !== null) return `at most ${item.max_value}${unit}`;
+  return null;
+};
+
+/**
+ * Stable key for a new checklist item, derived from its label. Items with the
+ * same key on different templates share defect history.
+ */
+export const toItemKey = (label: string, takenKeys: string[]) => {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'item';
+  let key = base;
+  for (let suffix = 2; takenKeys.includes(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  return key;
+};
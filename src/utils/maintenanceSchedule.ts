@@ -0,0 +1,150 @@
+import { addMonths, differenceInCalendarDays } from 'date-fns';
+
+export interface MaintenanceSchedule {
+  id: string;
+  name: string;
+  category_id: string;
+  vehicle_id: string | null;
+  make: string | null;
+  model: string | null;
+  interval_km: number | null;
+  interval_months: number | null;
+  is_active: boolean;
+}
+
+export interface ScheduledVehicle {
+  id: string;
+  plate: string;
+  make: string | null;
+  model: string | null;
+  branch_id: string | null;
+  odometer_km: number;
+  last_oil_change_km: number | null;
+}
+
+export interface ServiceRecord {
+  vehicle_id: string;
+  category_id: string | null;
+  date: string;
+  odometer_reading: number | null;
+}
+
+export type MaintenanceStatus = 'overdue' | 'due_soon' | 'ok' | 'no_history';
+
+export interface MaintenanceDueItem {
+  schedule: MaintenanceSchedule;
+  vehicle: ScheduledVehicle;
+  status: MaintenanceStatus;
+  lastServiceDate: string | null;
+  lastServiceKm: number | null;
+  nextDueKm: number | null;
+  nextDueDate: Date | null;
+  kmRemaining: number | null;
+  daysRemaining: number | null;
+}
+
+// A service is "due soon" within this many km or days of its interval
+export const DUE_SOON_KM = 1000;
+export const DUE_SOON_DAYS = 30;
+
+const STATUS_ORDER: Record<MaintenanceStatus, number> = { overdue: 0, due_soon: 1, no_history: 2, ok: 3 };
+
+const sameText = (a: string | null, b: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+// Higher is more specific: vehicle > make + model > make > fleet-wide
+const scheduleSpecificity = (schedule: MaintenanceSchedule, vehicle: ScheduledVehicle) => {
+  if (schedule.vehicle_id) return schedule.vehicle_id === vehicle.id ? 3 : -1;
+  if (schedule.make && !sameText(schedule.make, vehicle.make)) return -1;
+  if (schedule.model && !sameText(schedule.model, vehicle.model)) return -1;
+  if (schedule.make && schedule.model) return 2;
+  if (schedule.make || schedule.model) return 1;
+  return 0;
+};
+
+/**
+ * Pick the schedules that apply to a vehicle. When several schedules cover
+ * the same service category, the most specific one wins.
+ */
+export const schedulesForVehicle = (schedules: MaintenanceSchedule[], vehicle: ScheduledVehicle) => {
+  const byCategory = new Map<string, { schedule: MaintenanceSchedule; specificity: number }>();
+  schedules.forEach((schedule) => {
+    if (!schedule.is_active) return;
+    const specificity = scheduleSpecificity(schedule, vehicle);
+    if (specificity < 0) return;
+    const current = byCategory.get(schedule.category_id);
+    if (!current || specificity > current.specificity) {
+      byCategory.set(schedule.category_id, { schedule, specificity });
+    }
+  });
+  return Array.from(byCategory.values()).map((entry) => entry.schedule);
+};
+
+/**
+ * Work out when each applicable service is next due for each vehicle, based on the
+ * latest expense recorded in the schedule's category and the vehicle's current odometer.
+ */
+export const computeMaintenanceDue = (
+  schedules: MaintenanceSchedule[],
+  vehicles: ScheduledVehicle[],
+  serviceRecords: ServiceRecord[],
+  today: Date = new Date()
+): MaintenanceDueItem[] => {
+  // Latest service per vehicle + category
+  const lastService = new Map<string, ServiceRecord>();
+  serviceRecords.forEach((record) => {
+    if (!record.category_id) return;
+    const key = `${record.vehicle_id}:${record.category_id}`;
+    const current = lastService.get(key);
+    if (!current || record.date > current.date) {
+      lastService.set(key, record);
+    }
+  });
+
+  const items: MaintenanceDueItem[] = [];
+  vehicles.forEach((vehicle) => {
+    schedulesForVehicle(schedules, vehicle).forEach((schedule) => {
+      const record = lastService.get(`${vehicle.id}:${schedule.category_id}`);
+      const lastServiceDate = record?.date || null;
+      // Fall back to the vehicle's recorded oil change km for oil change schedules
+      const lastServiceKm = record?.odometer_reading
+        ?? (/oil/i.test(schedule.name) ? vehicle.last_oil_change_km : null);
+
+      const nextDueKm = schedule.interval_km && lastServiceKm !== null
+        ? lastServiceKm + schedule.interval_km
+        : null;
+      const nextDueDate = schedule.interval_months && lastServiceDate
+        ? addMonths(new Date(lastServiceDate), schedule.interval_months)
+        : null;
+      const kmRemaining = nextDueKm !== null ? nextDueKm - (vehicle.odometer_km || 0) : null;
+      const daysRemaining = nextDueDate ? differenceInCalendarDays(nextDueDate, today) : null;
+
+      let status: MaintenanceStatus = 'ok';
+      if (kmRemaining === null && daysRemaining === null) {
+        status = 'no_history';
+      } else if ((kmRemaining !== null && kmRemaining <= 0) || (daysRemaining !== null && daysRemaining <= 0)) {
+        status = 'overdue';
+      } else if ((kmRemaining !== null && kmRemaining <= DUE_SOON_KM) || (daysRemaining !== null && daysRemaining <= DUE_SOON_DAYS)) {
+        status = 'due_soon';
+      }
+
+      items.push({
+        schedule,
+        vehicle,
+        status,
+        lastServiceDate,
+        lastServiceKm,
+        nextDueKm,
+        nextDueDate,
+        kmRemaining,
+        daysRemaining,
+      });
+    });
+  });
+
+  return items.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+    (a.kmRemaining ?? Infinity) - (b.kmRemaining ?? Infinity) ||
+    (a.daysRemaining ?? Infinity) - (b.daysRemaining ?? Infinity)
+  );
+};
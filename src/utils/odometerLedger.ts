@@ -0,0 +1,172 @@
+import { differenceInCalendarDays, format, startOfMonth, subDays } from 'date-fns';
+
+export const ODOMETER_SOURCES = ['inspection', 'expense', 'fuel', 'gps', 'manual'] as const;
+
+export type OdometerSource = typeof ODOMETER_SOURCES[number];
+
+export const ODOMETER_SOURCE_LABELS: Record<OdometerSource, string> = {
+  inspection: 'Inspection',
+  expense: 'Expense',
+  fuel: 'Fuel',
+  gps: 'GPS',
+  manual: 'Manual',
+};
+
+export const getOdometerSourceColor = (source: string) => {
+  switch (source) {
+    case 'inspection':
+      return 'bg-blue-500 text-white';
+    case 'expense':
+      return 'bg-purple-500 text-white';
+    case 'fuel':
+      return 'bg-amber-500 text-white';
+    case 'gps':
+      return 'bg-green-600 text-white';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+};
+
+export type OdometerAnomalyType = 'rollback' | 'jump' | 'source_gap';
+
+export const ODOMETER_ANOMALY_LABELS: Record<OdometerAnomalyType, string> = {
+  rollback: 'Rollback',
+  jump: 'Impossible jump',
+  source_gap: 'GPS mismatch',
+};
+
+// More than this many km per day between two readings is not a plausible day of driving
+export const MAX_KM_PER_DAY = 1500;
+
+// GPS distance and the odometer may drift apart by this much before it is worth a look
+const SOURCE_GAP_MIN_KM = 500;
+const SOURCE_GAP_RATIO = 0.2;
+
+export interface OdometerReading {
+  id: string;
+  reading_date: string;
+  source: string;
+  /** Set on readings of the odometer itself */
+  odometer_km: number | null;
+  /** Set on GPS readings, the distance driven */
+  distance_km: number | null;
+  excluded: boolean;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface OdometerHistoryPoint {
+  reading: OdometerReading;
+  /** The vehicle's odometer after this reading */
+  odometerKm: number;
+}
+
+export interface OdometerAnomaly {
+  readingId: string;
+  type: OdometerAnomalyType;
+  message: string;
+}
+
+const byDate = (a: OdometerReading, b: OdometerReading) =>
+  a.reading_date.localeCompare(b.reading_date) || a.created_at.localeCompare(b.created_at);
+
+const daysBetween = (from: string, to: string) =>
+  differenceInCalendarDays(new Date(`${to}T00:00:00`), new Date(`${from}T00:00:00`));
+
+const laterOf = (a: string, b: string | null) => (b !== null && b > a ? b : a);
+const earlierOf = (a: string, b: string) => (b < a ? b : a);
+
+/**
+ * The share of a GPS reading's distance driven after one date and up to
+ * another, like gps_distance_after in the database. A GPS reading covers its
+ * month up to the reading date, and the distance is spread evenly over the days.
+ * @param after - Last day not to count, e.g. the date of an odometer reading
+ * @param through - Last day to count (defaults to the reading date)
+ */
+function gpsDistanceBetween(reading: OdometerReading, after: string | null, through = reading.reading_date) {
+  const readingDate = new Date(`${reading.reading_date}T00:00:00`);
+  const dayBeforeMonth = format(subDays(startOfMonth(readingDate), 1), 'yyyy-MM-dd');
+  const spanDays = daysBetween(dayBeforeMonth, reading.reading_date);
+  const days = daysBetween(laterOf(dayBeforeMonth, after), earlierOf(reading.reading_date, through));
+  return days > 0 ? (Number(reading.distance_km) * days) / spanDays : 0;
+}
+
+/**
+ * Walk the readings oldest first the way the database derives vehicles.odometer_km:
+ * an odometer reading sets the odometer, GPS distance driven after it adds to it.
+ * Excluded readings are skipped.
+ */
+export function deriveOdometerHistory(readings: OdometerReading[]): OdometerHistoryPoint[] {
+  let odometerKm = 0;
+  let recordedOn: string | null = null;
+  return readings
+    .filter(reading => !reading.excluded)
+    .sort(byDate)
+    .map((reading) => {
+      if (reading.odometer_km !== null) {
+        odometerKm = Number(reading.odometer_km);
+        recordedOn = reading.reading_date;
+      } else {
+        odometerKm += gpsDistanceBetween(reading, recordedOn);
+      }
+      return { reading, odometerKm: Math.round(odometerKm) };
+    });
+}
+
+/**
+ * Flag odometer readings that do not fit the ones before them: a reading below
+ * the previous one, more distance than can be driven in the days between them,
+ * or a distance that disagrees with the GPS distance logged in between.
+ */
+export function detectOdometerAnomalies(readings: OdometerReading[]): OdometerAnomaly[] {
+  const anomalies: OdometerAnomaly[] = [];
+  const included = readings.filter(reading => !reading.excluded).sort(byDate);
+  const gpsReadings = included.filter(reading => reading.odometer_km === null);
+  let previous: OdometerReading | null = null;
+
+  included
+    .filter(reading => reading.odometer_km !== null)
+    .forEach((reading) => {
+      if (previous && previous.odometer_km !== null) {
+        // GPS months can straddle either reading, so only the days in between count
+        const after = previous.reading_date;
+        const overlapping = gpsReadings.filter(gps =>
+          reading.reading_date > after &&
+          gps.reading_date > after &&
+          gps.reading_date.slice(0, 7) <= reading.reading_date.slice(0, 7)
+        );
+        const hasGps = overlapping.length > 0;
+        const gpsDistance = overlapping.reduce((sum, gps) => sum + gpsDistanceBetween(gps, after, reading.reading_date), 0);
+
+        const distance = reading.odometer_km - previous.odometer_km;
+        const days = Math.max(daysBetween(previous.reading_date, reading.reading_date), 1);
+
+        if (distance < 0) {
+          anomalies.push({
+            readingId: reading.id,
+            type: 'rollback',
+            message: `${Math.abs(distance).toLocaleString()} km below the reading of ${previous.reading_date}`,
+          });
+        } else if (distance / days > MAX_KM_PER_DAY) {
+          anomalies.push({
+            readingId: reading.id,
+            type: 'jump',
+            message: `${distance.toLocaleString()} km in ${days} day${days === 1 ? '' : 's'} since ${previous.reading_date}`,
+          });
+        } else if (hasGps) {
+          const gap = Math.abs(distance - gpsDistance);
+          if (gap > Math.max(SOURCE_GAP_MIN_KM, distance * SOURCE_GAP_RATIO)) {
+            anomalies.push({
+              readingId: reading.id,
+              type: 'source_gap',
+              message: `${distance.toLocaleString()} km on the odometer but ${Math.round(gpsDistance).toLocaleString()} km by GPS since ${previous.reading_date}`,
+            });
+          }
+        }
+      }
+
+      previous = reading;
+    });
+
+  return anomalies;
+}
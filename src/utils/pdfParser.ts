@@ -1,127 +1,136 @@
-export const parsePDFWorkOrder = async (file: File): Promise<{ records: any[], errors: string[] }> => {
-  const records: any[] = [];
-  const errors: string[] = [];
+import { supabase } from '@/integrations/supabase/client';
+import { ParsedExpenseRecord } from '@/utils/csvParser';
+import { extractPDFPages } from '@/utils/pdfText';
+import {
+  WORK_ORDER_TEMPLATES,
+  WorkOrderFields,
+  WorkOrderTemplate,
+  extractWorkOrderFields,
+  findWorkOrderTemplate,
+  parseDocumentDate,
+} from '@/utils/workOrderTemplates';
 
-  try {
-    // Read file as text (for simple text-based PDFs)
-    const arrayBuffer = await file.arrayBuffer();
-    const text = new TextDecoder().decode(arrayBuffer);
-
-    // Extract common patterns from work orders
-    // Date patterns: DD/MM/YYYY, MM/DD/YYYY, YYYY-MM-DD
-    const datePattern = /(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}|\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})/g;
-    
-    // Amount patterns: $XXX.XX, XXX.XX, $XXX
-    const amountPattern = /\$?\s*(\d{1,}[,\d]*\.?\d{0,2})/g;
-    
-    // VIN pattern: 17 alphanumeric characters
-    const vinPattern = /\b[A-HJ-NPR-Z0-9]{17}\b/gi;
-    
-    // License plate patterns (various formats)
-    const platePattern = /\b[A-Z0-9]{2,8}\b/g;
-
-    const lines = text.split('\n');
-    let currentRecord: any = null;
-    let lineNumber = 0;
-
-    for (const line of lines) {
-      lineNumber++;
-      const trimmedLine = line.trim();
-      
-      if (!trimmedLine) continue;
-
-      // Look for key indicators that start a new work order
-      if (trimmedLine.toLowerCase().includes('work order') || 
-          trimmedLine.toLowerCase().includes('invoice') ||
-          trimmedLine.toLowerCase().includes('service')) {
-        
-        if (currentRecord && currentRecord.amount) {
-          records.push(currentRecord);
-        }
-        
-        currentRecord = {
-          date: null,
-          vehicle: null,
-          branch: null,
-          category: 'Work Order',
-          amount: 0,
-          description: '',
-          odometer: null,
-          source: file.name
-        };
-      }
+const MAX_DESCRIPTION_LENGTH = 500;
 
-      if (!currentRecord) {
-        currentRecord = {
-          date: null,
-          vehicle: null,
-          branch: null,
-          category: 'Work Order',
-          amount: 0,
-          description: '',
-          odometer: null,
-          source: file.name
-        };
-      }
+interface WorkOrderDocument {
+  firstPage: number;
+  lines: string[];
+}
 
-      // Extract date
-      const dateMatch = trimmedLine.match(datePattern);
-      if (dateMatch && !currentRecord.date) {
-        try {
-          const parsedDate = new Date(dateMatch[0]);
-          if (!isNaN(parsedDate.getTime())) {
-            currentRecord.date = parsedDate.toISOString().split('T')[0];
-          }
-        } catch (e) {
-          // Invalid date, skip
-        }
-      }
+/**
+ * Split a PDF into work orders. A page that shows a different invoice number
+ * from the page before starts a new work order; pages without one continue it.
+ */
+const splitDocuments = (pages: string[][], template: WorkOrderTemplate) => {
+  const documents: (WorkOrderDocument & { invoiceNumber: string | null })[] = [];
 
-      // Extract VIN
-      const vinMatch = trimmedLine.match(vinPattern);
-      if (vinMatch && !currentRecord.vehicle) {
-        currentRecord.vehicle = vinMatch[0];
-      }
+  pages.forEach((lines, index) => {
+    const invoiceNumber = extractWorkOrderFields(lines, { ...template, lineItem: undefined }).invoiceNumber;
+    const current = documents[documents.length - 1];
 
-      // Extract amounts
-      if (trimmedLine.toLowerCase().includes('total') || 
-          trimmedLine.toLowerCase().includes('amount') ||
-          trimmedLine.toLowerCase().includes('cost')) {
-        const amountMatch = trimmedLine.match(amountPattern);
-        if (amountMatch) {
-          const amount = parseFloat(amountMatch[0].replace(/[^0-9.]/g, ''));
-          if (amount > currentRecord.amount) {
-            currentRecord.amount = amount;
-          }
-        }
-      }
+    if (current && (!invoiceNumber || invoiceNumber === current.invoiceNumber)) {
+      current.lines.push(...lines);
+    } else {
+      documents.push({ firstPage: index + 1, lines: [...lines], invoiceNumber });
+    }
+  });
 
-      // Extract odometer
-      if (trimmedLine.toLowerCase().includes('odometer') || 
-          trimmedLine.toLowerCase().includes('mileage') ||
-          trimmedLine.toLowerCase().includes('km')) {
-        const odometerMatch = trimmedLine.match(/(\d{1,}[,\d]*)/);
-        if (odometerMatch) {
-          const odometer = parseInt(odometerMatch[0].replace(/,/g, ''));
-          if (odometer > 100 && odometer < 999999) {
-            currentRecord.odometer = odometer;
-          }
-        }
-      }
+  return documents;
+};
+
+const buildDescription = (parts: (string | null | undefined)[]) => {
+  const description = parts.filter(Boolean).join(' · ');
+  return description.length > MAX_DESCRIPTION_LENGTH
+    ? description.substring(0, MAX_DESCRIPTION_LENGTH) + '...'
+    : description;
+};
 
-      // Build description from relevant lines
-      if (trimmedLine.length > 10 && trimmedLine.length < 200) {
-        if (!trimmedLine.match(/^page\s+\d+/i) && 
-            !trimmedLine.toLowerCase().includes('invoice') &&
-            !trimmedLine.toLowerCase().includes('work order')) {
-          currentRecord.description += (currentRecord.description ? ' ' : '') + trimmedLine;
+const toRecord = (fields: WorkOrderFields, template: WorkOrderTemplate, lineNumber: number): ParsedExpenseRecord => ({
+  date: fields.date || '',
+  vehicle: fields.vin || fields.plate || '',
+  branch: '',
+  category: template.category || 'Work Order',
+  amount: fields.total ?? fields.lineItems.reduce((sum, item) => sum + item.amount, 0),
+  description: buildDescription([
+    template.vendorName,
+    fields.invoiceNumber && `Invoice ${fields.invoiceNumber}`,
+    fields.lineItems.map(item => item.description).join(', '),
+  ]),
+  odometer: fields.odometer,
+  lineNumber,
+});
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Send a PDF that no template recognises to the receipt scanner. Extracted
+ * text is sent when there is some, otherwise the file itself (scanned PDFs).
+ */
+const scanWithAI = async (file: File, text: string): Promise<ParsedExpenseRecord> => {
+  const { data, error } = await supabase.functions.invoke('scan-receipt', {
+    body: {
+      fileBase64: text ? '' : await readAsBase64(file),
+      mimeType: text ? 'text/plain' : 'application/pdf',
+      fileName: file.name,
+      textContent: text || undefined,
+    },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  // The scanner does not read vehicles, so look for a labelled VIN or plate
+  const labelled = extractWorkOrderFields(text.split('\n'), WORK_ORDER_TEMPLATES[0]);
+  const items: { description?: string }[] = data?.expense_items || [];
+
+  return {
+    date: parseDocumentDate(data?.date) || '',
+    vehicle: labelled.vin || labelled.plate || '',
+    branch: '',
+    category: 'Work Order',
+    amount: Number(data?.total) || 0,
+    description: buildDescription([data?.vendor_name, items.map(item => item.description).join(', ')]),
+    odometer: data?.odometer_reading ? Number(data.odometer_reading) : null,
+    lineNumber: 1,
+  };
+};
+
+/**
+ * Read work orders from a PDF. The text layer is matched against the known
+ * work order templates; PDFs no template recognises, including scans without
+ * text, go through the AI receipt scanner instead.
+ */
+export const parsePDFWorkOrder = async (file: File): Promise<{ records: ParsedExpenseRecord[], errors: string[] }> => {
+  const records: ParsedExpenseRecord[] = [];
+  const errors: string[] = [];
+
+  try {
+    const pages = await extractPDFPages(file);
+    const text = pages.map(lines => lines.join('\n')).join('\n');
+    const template = text ? findWorkOrderTemplate(text) : null;
+
+    if (template) {
+      splitDocuments(pages, template).forEach(document => {
+        const fields = extractWorkOrderFields(document.lines, template);
+        if (fields.total === null && fields.lineItems.length === 0) {
+          errors.push(`${file.name} page ${document.firstPage}: No total found`);
+          return;
         }
-      }
+        records.push(toRecord(fields, template, document.firstPage));
+      });
     }
 
-    // Add the last record
-    if (currentRecord && currentRecord.amount > 0) {
-      records.push(currentRecord);
+    if (records.length === 0) {
+      const scanned = await scanWithAI(file, text);
+      if (scanned.amount > 0) {
+        records.push(scanned);
+      }
     }
 
     // Validate records
@@ -135,12 +144,8 @@ export const parsePDFWorkOrder = async (file: File): Promise<{ records: any[], e
         if (!record.vehicle) {
           errors.push(`${file.name} Record ${idx + 1}: Vehicle VIN/Plate not found`);
         }
-        if (record.description.length > 500) {
-          record.description = record.description.substring(0, 500) + '...';
-        }
       });
     }
-
   } catch (error) {
     errors.push(`${file.name}: Failed to parse PDF - ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
@@ -0,0 +1,86 @@
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Join the text items of one visual line. Words are separated by a space and
+ * wider gaps (table columns) by at least two spaces, so templates can split
+ * columns on /\s{2,}/.
+ */
+const joinLine = (items: PositionedText[]) => {
+  let line = '';
+  let end = 0;
+
+  items.sort((a, b) => a.x - b.x).forEach((item, index) => {
+    const gap = item.x - end;
+    const size = item.height || 10;
+    if (index > 0) {
+      if (gap > size * 1.5) line += '  ';
+      else if (gap > size * 0.15 && !line.endsWith(' ')) line += ' ';
+    }
+    line += item.text;
+    end = item.x + item.width;
+  });
+
+  return line.trim();
+};
+
+/** Group text items into lines by their baseline, top of the page first */
+const toLines = (items: PositionedText[]) => {
+  const lines: PositionedText[][] = [];
+
+  [...items].sort((a, b) => b.y - a.y || a.x - b.x).forEach(item => {
+    const current = lines[lines.length - 1];
+    const tolerance = Math.max(2, (item.height || 10) * 0.5);
+    if (current && Math.abs(current[0].y - item.y) <= tolerance) {
+      current.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+
+  return lines.map(joinLine).filter(Boolean);
+};
+
+/**
+ * Extract the text of a PDF page by page, rebuilding lines from the position
+ * of each text run. Scanned PDFs without a text layer return empty pages.
+ */
+export async function extractPDFPages(file: Blob): Promise<string[][]> {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[][] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const items = content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height,
+        }));
+
+      pages.push(toLines(items));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+}
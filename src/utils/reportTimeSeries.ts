@@ -0,0 +1,86 @@
+import { addMonths, eachMonthOfInterval, eachQuarterOfInterval, endOfQuarter, format, isAfter, min, startOfMonth } from 'date-fns';
+
+export type ReportInterval = 'month' | 'quarter';
+
+export const REPORT_INTERVAL_LABELS: Record<ReportInterval, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+};
+
+/** Spend per calendar month, keyed by yyyy-MM */
+export type MonthlyTotals = Record<string, number>;
+
+export interface ExpenseTrendTotals {
+  /** The report range */
+  current: MonthlyTotals;
+  /** The same range one year earlier */
+  previousYear: MonthlyTotals;
+  /** The report range plus the 11 months before it, for rolling totals */
+  trailing: MonthlyTotals;
+}
+
+export interface TrendPoint {
+  period: string;
+  label: string;
+  amount: number;
+  previousYear: number;
+  /** Spend over the 12 months ending with the period */
+  rolling12: number;
+}
+
+export const EMPTY_TREND_TOTALS: ExpenseTrendTotals = { current: {}, previousYear: {}, trailing: {} };
+
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+export const toMonthlyTotals = (rows: { month: string; total: number }[]): MonthlyTotals =>
+  Object.fromEntries(rows.map(row => [row.month.substring(0, 7), Number(row.total)]));
+
+const sumMonths = (totals: MonthlyTotals, months: Date[]) =>
+  months.reduce((sum, month) => sum + (totals[monthKey(month)] || 0), 0);
+
+const rolling12At = (totals: MonthlyTotals, lastMonth: Date) =>
+  sumMonths(totals, eachMonthOfInterval({ start: addMonths(lastMonth, -11), end: lastMonth }));
+
+/**
+ * Build a monthly or quarterly series over the report range, with each period's spend a year
+ * earlier and the 12-month total ending with it. Periods are never folded across years.
+ */
+export const buildTrendSeries = (
+  totals: ExpenseTrendTotals,
+  start: Date,
+  end: Date,
+  interval: ReportInterval
+): TrendPoint[] => {
+  if (isAfter(start, end)) return [];
+
+  if (interval === 'month') {
+    return eachMonthOfInterval({ start, end }).map(month => ({
+      period: monthKey(month),
+      label: format(month, 'MMM yyyy'),
+      amount: totals.current[monthKey(month)] || 0,
+      previousYear: totals.previousYear[monthKey(addMonths(month, -12))] || 0,
+      rolling12: rolling12At(totals.trailing, month),
+    }));
+  }
+
+  return eachQuarterOfInterval({ start, end }).map(quarter => {
+    // The first and last quarters only cover the months inside the range
+    const months = eachMonthOfInterval({
+      start: isAfter(startOfMonth(start), quarter) ? startOfMonth(start) : quarter,
+      end: min([endOfQuarter(quarter), end]),
+    });
+    return {
+      period: format(quarter, "yyyy-'Q'Q"),
+      label: format(quarter, "'Q'Q yyyy"),
+      amount: sumMonths(totals.current, months),
+      previousYear: sumMonths(totals.previousYear, months.map(month => addMonths(month, -12))),
+      rolling12: rolling12At(totals.trailing, months[months.length - 1]),
+    };
+  });
+};
+
+/**
+ * Change from the previous amount as a percentage, or null when there is nothing to compare with.
+ */
+export const percentChange = (current: number, previous: number): number | null =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
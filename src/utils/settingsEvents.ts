@@ -0,0 +1,5 @@
+export const SETTINGS_CHANGED_EVENT = 'settings:changed';
+
+export function emitSettingsChanged() {
+  window.dispatchEvent(new Event(SETTINGS_CHANGED_EVENT));
+}
@@ -0,0 +1,212 @@
+export type TaxRegime = 'hst' | 'gst' | 'gst_pst' | 'gst_qst' | 'us_sales_tax';
+
+export type TaxComponent = 'gst' | 'pst' | 'hst' | 'qst' | 'us_sales_tax';
+
+export const TAX_REGIMES: TaxRegime[] = ['hst', 'gst', 'gst_pst', 'gst_qst', 'us_sales_tax'];
+
+export const TAX_REGIME_LABELS: Record<TaxRegime, string> = {
+  hst: 'HST',
+  gst: 'GST only',
+  gst_pst: 'GST + PST',
+  gst_qst: 'GST + QST',
+  us_sales_tax: 'US Sales Tax',
+};
+
+export const TAX_COMPONENTS: TaxComponent[] = ['gst', 'hst', 'qst', 'pst', 'us_sales_tax'];
+
+export const TAX_COMPONENT_LABELS: Record<TaxComponent, string> = {
+  gst: 'GST',
+  pst: 'PST',
+  hst: 'HST',
+  qst: 'QST',
+  us_sales_tax: 'US Sales Tax',
+};
+
+/** The tax components charged under each regime */
+export const REGIME_COMPONENTS: Record<TaxRegime, TaxComponent[]> = {
+  hst: ['hst'],
+  gst: ['gst'],
+  gst_pst: ['gst', 'pst'],
+  gst_qst: ['gst', 'qst'],
+  us_sales_tax: ['us_sales_tax'],
+};
+
+/** Components that can be claimed back as input tax credits (QST as input tax refunds) */
+export const RECOVERABLE_TAX_COMPONENTS: TaxComponent[] = ['gst', 'hst', 'qst'];
+
+/** A branch's tax settings as stored on the branches table, rates in percent */
+export interface BranchTaxSettings {
+  tax_regime: string;
+  gst_rate: number;
+  pst_rate: number;
+  hst_rate: number;
+  qst_rate: number;
+  us_sales_tax_rate: number;
+}
+
+export const BRANCH_TAX_COLUMNS = 'tax_regime, gst_rate, pst_rate, hst_rate, qst_rate, us_sales_tax_rate' as const;
+
+export type TaxRates = Record<TaxComponent, number>;
+
+// Rates for the provinces we operate in, as a starting point when setting up a branch
+export const TAX_RATE_PRESETS: { label: string; regime: TaxRegime; rates: Partial<TaxRates> }[] = [
+  { label: 'Ontario', regime: 'hst', rates: { hst: 13 } },
+  { label: 'New Brunswick / Newfoundland / PEI', regime: 'hst', rates: { hst: 15 } },
+  { label: 'Nova Scotia', regime: 'hst', rates: { hst: 14 } },
+  { label: 'Alberta / Territories', regime: 'gst', rates: { gst: 5 } },
+  { label: 'British Columbia', regime: 'gst_pst', rates: { gst: 5, pst: 7 } },
+  { label: 'Manitoba', regime: 'gst_pst', rates: { gst: 5, pst: 7 } },
+  { label: 'Saskatchewan', regime: 'gst_pst', rates: { gst: 5, pst: 6 } },
+  { label: 'Quebec', regime: 'gst_qst', rates: { gst: 5, qst: 9.975 } },
+  { label: 'United States', regime: 'us_sales_tax', rates: { us_sales_tax: 0 } },
+];
+
+export const getTaxRegime = (branch: BranchTaxSettings): TaxRegime =>
+  TAX_REGIMES.includes(branch.tax_regime as TaxRegime) ? (branch.tax_regime as TaxRegime) : 'hst';
+
+export const getTaxRates = (branch: BranchTaxSettings): TaxRates => ({
+  gst: Number(branch.gst_rate),
+  pst: Number(branch.pst_rate),
+  hst: Number(branch.hst_rate),
+  qst: Number(branch.qst_rate),
+  us_sales_tax: Number(branch.us_sales_tax_rate),
+});
+
+/**
+ * The regime with its rates, e.g. "GST 5% + PST 7%".
+ */
+export const describeTaxRegime = (branch: BranchTaxSettings) => {
+  const rates = getTaxRates(branch);
+  return REGIME_COMPONENTS[getTaxRegime(branch)]
+    .map(component => (rates[component] ? `${TAX_COMPONENT_LABELS[component]} ${rates[component]}%` : TAX_COMPONENT_LABELS[component]))
+    .join(' + ');
+};
+
+/**
+ * The components to enter for a record of the branch. Invoices from US suppliers carry
+ * US sales tax whatever the branch's regime.
+ */
+export const getActiveTaxComponents = (branch: BranchTaxSettings | null | undefined, usInvoice: boolean): TaxComponent[] => {
+  if (usInvoice) return ['us_sales_tax'];
+  return branch ? REGIME_COMPONENTS[getTaxRegime(branch)] : [];
+};
+
+/** Tax component amounts as entered, keyed by component */
+export type TaxComponentValues = Partial<Record<TaxComponent, string>>;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Split a tax total across the components in proportion to their rates, the way the database
+ * does for totals saved without components. The last component takes the rounding difference.
+ */
+export const splitTax = (taxAmount: number, components: TaxComponent[], rates: TaxRates): TaxComponentValues => {
+  if (components.length === 0) return {};
+  const rateTotal = components.reduce((sum, component) => sum + rates[component], 0);
+  const values: TaxComponentValues = {};
+  let allocated = 0;
+  components.forEach((component, index) => {
+    const amount = index === components.length - 1
+      ? roundCents(taxAmount - allocated)
+      : roundCents(rateTotal > 0 ? (taxAmount * rates[component]) / rateTotal : 0);
+    allocated += amount;
+    values[component] = amount.toFixed(2);
+  });
+  return values;
+};
+
+export const sumTaxComponents = (values: TaxComponentValues, components: TaxComponent[]) =>
+  roundCents(components.reduce((sum, component) => sum + (parseFloat(values[component] || '') || 0), 0));
+
+// Tax more than this far from the regime's rate is flagged for a second look
+const TAX_TOLERANCE_PERCENT = 0.5;
+const TAX_TOLERANCE_AMOUNT = 0.05;
+
+/**
+ * Check each component against the subtotal at the regime's rate. Returns a message for the
+ * first component that is off, or null when the amounts look right or cannot be checked.
+ * US sales tax varies by state and city, so it is only checked when the branch has a rate.
+ */
+export const checkTaxComponents = (
+  subtotal: number,
+  values: TaxComponentValues,
+  components: TaxComponent[],
+  rates: TaxRates
+): string | null => {
+  if (!(subtotal > 0)) return null;
+
+  for (const component of components) {
+    if (component === 'us_sales_tax' && !rates.us_sales_tax) continue;
+    const amount = parseFloat(values[component] || '') || 0;
+    const expected = (subtotal * rates[component]) / 100;
+    const tolerance = Math.max(TAX_TOLERANCE_AMOUNT, (subtotal * TAX_TOLERANCE_PERCENT) / 100);
+    if (Math.abs(amount - expected) > tolerance) {
+      return `${TAX_COMPONENT_LABELS[component]} at ${rates[component]}% of the subtotal would be $${expected.toFixed(2)}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * The component columns to save on an expense or fuel receipt. Components outside the list
+ * are cleared. With no components entered the split is left to the database.
+ */
+export const toTaxColumns = (values: TaxComponentValues, components: TaxComponent[]) => {
+  const amount = (component: TaxComponent) =>
+    components.includes(component) ? parseFloat(values[component] || '') || 0 : null;
+  if (components.every(component => !values[component])) return {};
+  return {
+    gst_amount: amount('gst'),
+    pst_amount: amount('pst'),
+    hst_amount: amount('hst'),
+    qst_amount: amount('qst'),
+    us_sales_tax_amount: amount('us_sales_tax'),
+  };
+};
+
+/**
+ * Read the component amounts saved on a record back into form values.
+ */
+export const fromTaxColumns = (record: Partial<Record<`${TaxComponent}_amount`, number | null>>): TaxComponentValues => {
+  const values: TaxComponentValues = {};
+  TAX_COMPONENTS.forEach(component => {
+    const amount = record[`${component}_amount`];
+    if (amount !== null && amount !== undefined) values[component] = Number(amount).toFixed(2);
+  });
+  return values;
+};
+
+/**
+ * Form values for the tax read off a scanned receipt. The scanned components are kept when they
+ * add up to the tax total; otherwise the total is split by the branch's regime.
+ */
+export const scannedTaxToValues = (
+  taxAmount: number | undefined,
+  scanned: Partial<Record<TaxComponent, number>> | undefined,
+  branch: BranchTaxSettings | null | undefined
+): { values: TaxComponentValues; usInvoice: boolean } => {
+  if (!branch) return { values: {}, usInvoice: false };
+
+  const usInvoice = getTaxRegime(branch) !== 'us_sales_tax' && (scanned?.us_sales_tax || 0) > 0;
+  const components = getActiveTaxComponents(branch, usInvoice);
+  const tax = taxAmount || 0;
+  const scannedTotal = roundCents(components.reduce((sum, component) => sum + (scanned?.[component] || 0), 0));
+
+  if (scannedTotal > 0 && Math.abs(scannedTotal - tax) < 0.01) {
+    const values: TaxComponentValues = {};
+    components.forEach(component => {
+      values[component] = (scanned?.[component] || 0).toFixed(2);
+    });
+    return { values, usInvoice };
+  }
+  return { values: tax > 0 ? splitTax(tax, components, getTaxRates(branch)) : {}, usInvoice };
+};
+
+/**
+ * The branch's tax settings as sent to the receipt scanner, so it reads and checks the
+ * components the branch is charged.
+ */
+export const getScanTaxContext = (branch: (BranchTaxSettings & { name: string }) | null | undefined) =>
+  branch
+    ? { branchName: branch.name, regime: getTaxRegime(branch), rates: getTaxRates(branch) }
+    : undefined;
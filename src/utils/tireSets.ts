@@ -0,0 +1,164 @@
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+
+export type TireType = 'summer' | 'winter' | 'all_season';
+
+export const TIRE_TYPE_LABELS: Record<TireType, string> = {
+  summer: 'Summer',
+  winter: 'Winter',
+  all_season: 'All Season',
+};
+
+// Tread depth at which a set is replaced; winter tires lose their grip in snow well
+// before the legal minimum
+export const REPLACEMENT_TREAD_MM: Record<TireType, number> = {
+  summer: 3,
+  winter: 4,
+  all_season: 3,
+};
+
+export interface TireSetMount {
+  id: string;
+  tire_set_id: string;
+  vehicle_id: string;
+  mounted_on: string;
+  mount_odometer_km: number | null;
+  mount_tread_mm: number | null;
+  dismounted_on: string | null;
+  dismount_odometer_km: number | null;
+  dismount_tread_mm: number | null;
+  notes: string | null;
+  /** The vehicle, with its current odometer for a set still on it */
+  vehicles: { plate: string; odometer_km: number } | null;
+}
+
+export interface TireSet {
+  id: string;
+  label: string;
+  brand: string;
+  model: string | null;
+  measurements: string;
+  tire_type: string;
+  purchase_date: string | null;
+  purchase_cost: number | null;
+  new_tread_mm: number | null;
+  branch_id: string | null;
+  storage_location: string | null;
+  retired_on: string | null;
+  notes: string | null;
+  branches: { name: string } | null;
+  /** Oldest first */
+  mounts: TireSetMount[];
+}
+
+export interface TireSetStats {
+  /** The mount still open, when the set is on a vehicle */
+  currentMount: TireSetMount | null;
+  kmDriven: number;
+  costPerKm: number | null;
+  latestTreadMm: number | null;
+  /** Tread worn per 1,000 km over the set's measurements */
+  wearPer1000Km: number | null;
+  predictedReplacementDate: string | null;
+}
+
+export interface BrandCostPerKm {
+  brand: string;
+  sets: number;
+  totalCost: number;
+  kmDriven: number;
+  costPerKm: number | null;
+}
+
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+export const getTireTypeLabel = (tireType: string) =>
+  TIRE_TYPE_LABELS[tireType as TireType] || tireType;
+
+export const getCurrentMount = (set: TireSet) =>
+  set.mounts.find(mount => mount.dismounted_on === null) || null;
+
+// Kilometers of one mount; a set still on the vehicle counts up to its current odometer
+const mountKm = (mount: TireSetMount) => {
+  const end = mount.dismounted_on === null ? mount.vehicles?.odometer_km : mount.dismount_odometer_km;
+  if (mount.mount_odometer_km === null || end === null || end === undefined) return 0;
+  return Math.max(Number(end) - Number(mount.mount_odometer_km), 0);
+};
+
+/**
+ * Kilometers driven on the set, cost per km and how fast its tread wears. The
+ * replacement date extrapolates the wear at the km per day the set has averaged
+ * since it was first mounted, so seasons in storage slow it down.
+ */
+export function computeTireSetStats(set: TireSet, today = new Date()): TireSetStats {
+  const currentMount = getCurrentMount(set);
+
+  // Tread depth against the km the set had driven when it was measured
+  const measurements: { km: number; treadMm: number }[] = [];
+  if (set.new_tread_mm !== null) {
+    measurements.push({ km: 0, treadMm: Number(set.new_tread_mm) });
+  }
+  let kmDriven = 0;
+  set.mounts.forEach((mount) => {
+    if (mount.mount_tread_mm !== null) {
+      measurements.push({ km: kmDriven, treadMm: Number(mount.mount_tread_mm) });
+    }
+    kmDriven += mountKm(mount);
+    if (mount.dismount_tread_mm !== null) {
+      measurements.push({ km: kmDriven, treadMm: Number(mount.dismount_tread_mm) });
+    }
+  });
+
+  const first = measurements[0];
+  const latest = measurements[measurements.length - 1];
+  const wornMm = first && latest ? first.treadMm - latest.treadMm : 0;
+  const measuredKm = first && latest ? latest.km - first.km : 0;
+  const wearPerKm = measuredKm > 0 && wornMm > 0 ? wornMm / measuredKm : null;
+
+  let predictedReplacementDate: string | null = null;
+  const firstMounted = set.mounts[0]?.mounted_on;
+  if (wearPerKm !== null && latest && firstMounted && !set.retired_on) {
+    const replacementTread = REPLACEMENT_TREAD_MM[set.tire_type as TireType] ?? REPLACEMENT_TREAD_MM.summer;
+    // Km left at the latest measurement, less what has been driven since
+    const kmLeft = (latest.treadMm - replacementTread) / wearPerKm - (kmDriven - latest.km);
+    const days = differenceInCalendarDays(today, toDate(firstMounted));
+    const kmPerDay = days > 0 ? kmDriven / days : 0;
+    if (kmLeft <= 0) {
+      predictedReplacementDate = format(today, 'yyyy-MM-dd');
+    } else if (kmPerDay > 0) {
+      predictedReplacementDate = format(addDays(today, Math.round(kmLeft / kmPerDay)), 'yyyy-MM-dd');
+    }
+  }
+
+  return {
+    currentMount,
+    kmDriven,
+    costPerKm: set.purchase_cost !== null && kmDriven > 0 ? Number(set.purchase_cost) / kmDriven : null,
+    latestTreadMm: latest ? latest.treadMm : null,
+    wearPer1000Km: wearPerKm !== null ? wearPerKm * 1000 : null,
+    predictedReplacementDate,
+  };
+}
+
+/**
+ * Purchase cost over kilometers driven per brand, cheapest per km first. Only sets
+ * with a cost and kilometers on them count.
+ */
+export function summarizeCostPerKmByBrand(sets: TireSet[]): BrandCostPerKm[] {
+  const byBrand = new Map<string, BrandCostPerKm>();
+
+  sets.forEach((set) => {
+    const { kmDriven } = computeTireSetStats(set);
+    if (set.purchase_cost === null || kmDriven <= 0) return;
+
+    const key = set.brand.trim().toLowerCase();
+    const brand = byBrand.get(key) || { brand: set.brand.trim(), sets: 0, totalCost: 0, kmDriven: 0, costPerKm: null };
+    brand.sets += 1;
+    brand.totalCost += Number(set.purchase_cost);
+    brand.kmDriven += kmDriven;
+    byBrand.set(key, brand);
+  });
+
+  return Array.from(byBrand.values())
+    .map(brand => ({ ...brand, costPerKm: brand.totalCost / brand.kmDriven }))
+    .sort((a, b) => (a.costPerKm ?? 0) - (b.costPerKm ?? 0));
+}
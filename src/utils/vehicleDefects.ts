@@ -0,0 +1,53 @@
+export type DefectSeverity = 'low' | 'medium' | 'critical';
+
+export const DEFECT_SEVERITIES: DefectSeverity[] = ['critical', 'medium', 'low'];
+
+export const DEFECT_SEVERITY_LABELS: Record<DefectSeverity, string> = {
+  critical: 'Critical',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export const DEFECT_RESOLUTION_LABELS: Record<string, string> = {
+  repair_approved: 'Repair approved',
+  passed_inspection: 'Passed a later inspection',
+  manual: 'Closed manually',
+};
+
+export const getDefectSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical':
+      return 'bg-destructive text-destructive-foreground';
+    case 'medium':
+      return 'bg-amber-500/20 text-amber-700 border-amber-500/30';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+};
+
+// Defects carry the label of the checklist item they were opened from
+export const getDefectLabel = (defect: { item_key: string; item_label: string | null }) =>
+  defect.item_label || defect.item_key;
+
+interface DefectLike {
+  vehicle_id: string;
+  severity: string;
+  status: string;
+}
+
+/**
+ * A vehicle with an open critical defect (brakes, tires, lights by default) is
+ * not roadworthy until the defect is repaired.
+ */
+export const isRoadworthy = (defects: DefectLike[]) =>
+  !defects.some(defect => defect.status === 'open' && defect.severity === 'critical');
+
+/**
+ * Ids of the vehicles that have at least one open critical defect.
+ */
+export const getUnroadworthyVehicleIds = (defects: DefectLike[]) =>
+  new Set(
+    defects
+      .filter(defect => defect.status === 'open' && defect.severity === 'critical')
+      .map(defect => defect.vehicle_id)
+  );
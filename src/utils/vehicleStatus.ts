@@ -0,0 +1,65 @@
+export type VehicleStatus =
+  | 'on_order'
+  | 'active'
+  | 'maintenance'
+  | 'loaner'
+  | 'pending_disposal'
+  | 'sold'
+  | 'written_off';
+
+// In lifecycle order; "active" and "maintenance" are the stored values for in service and in the shop
+export const VEHICLE_STATUSES: VehicleStatus[] = [
+  'on_order',
+  'active',
+  'maintenance',
+  'loaner',
+  'pending_disposal',
+  'sold',
+  'written_off',
+];
+
+export const VEHICLE_STATUS_LABELS: Record<VehicleStatus, string> = {
+  on_order: 'On Order',
+  active: 'In Service',
+  maintenance: 'In Shop / Out of Service',
+  loaner: 'Loaner',
+  pending_disposal: 'Pending Disposal',
+  sold: 'Sold',
+  written_off: 'Written Off',
+};
+
+/** Vehicles that have left the fleet for good */
+export const DISPOSED_STATUSES: VehicleStatus[] = ['sold', 'written_off'];
+
+/** Vehicles on the road and available to drive */
+export const AVAILABLE_STATUSES: VehicleStatus[] = ['active', 'loaner'];
+
+/** Statuses a vehicle can be added to the fleet with */
+export const NEW_VEHICLE_STATUSES: VehicleStatus[] = ['on_order', 'active', 'loaner', 'maintenance'];
+
+/** Vehicles counted in fleet availability: available or out of service */
+export const FLEET_STATUSES: VehicleStatus[] = ['active', 'maintenance', 'loaner'];
+
+export const isDisposedStatus = (status: string | null) => DISPOSED_STATUSES.includes(status as VehicleStatus);
+
+export const getVehicleStatusLabel = (status: string | null) =>
+  VEHICLE_STATUS_LABELS[status as VehicleStatus] || status || 'Unknown';
+
+export const getVehicleStatusColor = (status: string | null) => {
+  switch (status) {
+    case 'on_order':
+      return 'bg-primary/10 text-primary';
+    case 'active':
+    case 'loaner':
+      return 'bg-secondary text-secondary-foreground';
+    case 'maintenance':
+      return 'bg-accent text-accent-foreground';
+    case 'pending_disposal':
+      return 'bg-orange-100 text-orange-800';
+    case 'sold':
+    case 'written_off':
+      return 'bg-muted text-muted-foreground';
+    default:
+      return 'bg-muted';
+  }
+};
@@ -0,0 +1,191 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { isDisposedStatus } from '@/utils/vehicleStatus';
+
+export type CostBucket = 'acquisition' | 'maintenance' | 'repairs' | 'fuel' | 'tires' | 'other';
+
+export const COST_BUCKETS: CostBucket[] = ['acquisition', 'maintenance', 'repairs', 'fuel', 'tires', 'other'];
+
+export const COST_BUCKET_LABELS: Record<CostBucket, string> = {
+  acquisition: 'Acquisition',
+  maintenance: 'Maintenance',
+  repairs: 'Repairs',
+  fuel: 'Fuel',
+  tires: 'Tires',
+  other: 'Insurance & Other',
+};
+
+export interface TCOVehicle {
+  id: string;
+  plate: string;
+  make: string | null;
+  model: string | null;
+  status: string | null;
+  branch_id: string | null;
+  odometer_km: number | null;
+  created_at: string;
+  disposal_date: string | null;
+  sale_price: number | null;
+  final_odometer_km: number | null;
+}
+
+/** Lifetime spend of a vehicle in one expense category */
+export interface TCOCostTotal {
+  vehicle_id: string;
+  category: { name: string; type: string } | null;
+  total: number;
+  /** Earliest expense in the category */
+  first_date: string | null;
+}
+
+/** Fuel spend and distance records of a vehicle */
+export interface TCOVehicleUsage {
+  vehicle_id: string;
+  fuel_total: number;
+  gps_km: number;
+  /** Range of the odometer readings on expenses and fuel receipts */
+  min_odometer: number | null;
+  max_odometer: number | null;
+  reading_count: number;
+}
+
+export interface VehicleTCO {
+  vehicle: TCOVehicle;
+  costs: Record<CostBucket, number>;
+  /** Sale price of a sold vehicle, taken off the total */
+  saleProceeds: number;
+  /** Acquisition less sale price, once the vehicle is sold */
+  depreciation: number | null;
+  total: number;
+  /** Everything except acquisition */
+  runningCost: number;
+  kilometers: number;
+  /** Whether kilometres come from GPS uploads or the odometer readings on receipts */
+  kilometerSource: 'gps' | 'odometer' | null;
+  inServiceDate: Date;
+  /** Disposal date for vehicles that have left the fleet */
+  outOfServiceDate: Date | null;
+  monthsInService: number;
+  costPerMonth: number;
+  costPerKm: number | null;
+  runningCostPerKm: number | null;
+  /** Running cost per km is above the fleet median */
+  replaceCandidate: boolean;
+}
+
+const AVERAGE_DAYS_PER_MONTH = 365.25 / 12;
+
+/**
+ * Sort an expense into a TCO bucket. Categories are typed maintenance, repair
+ * or purchase, but fuel, tires and insurance are maintenance-typed categories
+ * told apart by name.
+ */
+export function classifyExpenseCategory(category: TCOCostTotal['category']): CostBucket {
+  if (!category) return 'other';
+  const name = category.name.toLowerCase();
+
+  if (category.type === 'purchase' || name.includes('vehicle purchase')) return 'acquisition';
+  if (name.includes('fuel')) return 'fuel';
+  if (name.includes('tire') || name.includes('tyre') || name.includes('rim')) return 'tires';
+  if (/insurance|registration|licens|parking|toll/.test(name)) return 'other';
+  if (category.type === 'repair') return 'repairs';
+  return 'maintenance';
+}
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const formatCostPerKm = (value: number | null) => (value === null ? '—' : `$${value.toFixed(3)}/km`);
+
+const emptyCosts = (): Record<CostBucket, number> =>
+  Object.fromEntries(COST_BUCKETS.map(bucket => [bucket, 0])) as Record<CostBucket, number>;
+
+/**
+ * Combine purchase, expense, fuel and GPS totals into lifetime cost of
+ * ownership per vehicle. Distance comes from GPS uploads when there are any,
+ * otherwise from the spread of odometer readings. Vehicles in service are
+ * compared against the fleet median running cost per km. Sold and written
+ * off vehicles close out at their disposal date, net of any sale price.
+ * @param today - End of the in-service period for vehicles still in the fleet (defaults to now)
+ */
+export function computeVehicleTCO(
+  vehicles: TCOVehicle[],
+  costTotals: TCOCostTotal[],
+  usage: TCOVehicleUsage[],
+  today: Date = new Date()
+): { items: VehicleTCO[]; fleetMedianRunningCostPerKm: number | null } {
+  const usageByVehicle = new Map(usage.map(u => [u.vehicle_id, u]));
+
+  const items = vehicles.map((vehicle) => {
+    const costs = emptyCosts();
+    let purchaseDate: string | null = null;
+
+    costTotals.filter(row => row.vehicle_id === vehicle.id).forEach(row => {
+      const bucket = classifyExpenseCategory(row.category);
+      costs[bucket] += Number(row.total);
+      if (bucket === 'acquisition' && row.first_date && (!purchaseDate || row.first_date < purchaseDate)) {
+        purchaseDate = row.first_date;
+      }
+    });
+
+    const vehicleUsage = usageByVehicle.get(vehicle.id);
+    costs.fuel += Number(vehicleUsage?.fuel_total) || 0;
+    const gpsKm = Number(vehicleUsage?.gps_km) || 0;
+
+    // Current (or final) odometer counts as the latest reading
+    const readings: number[] = [];
+    if (vehicleUsage && vehicleUsage.reading_count > 0) {
+      readings.push(Number(vehicleUsage.min_odometer), Number(vehicleUsage.max_odometer));
+      const lastOdometer = vehicle.final_odometer_km || vehicle.odometer_km;
+      if (lastOdometer) readings.push(lastOdometer);
+    }
+    const readingCount = (vehicleUsage?.reading_count || 0) + (readings.length > 2 ? 1 : 0);
+    const odometerKm = readingCount > 1 ? Math.max(...readings) - Math.min(...readings) : 0;
+
+    const kilometers = gpsKm > 0 ? gpsKm : odometerKm;
+    const saleProceeds = Number(vehicle.sale_price) || 0;
+    const total = COST_BUCKETS.reduce((sum, bucket) => sum + costs[bucket], 0) - saleProceeds;
+    const runningCost = total + saleProceeds - costs.acquisition;
+
+    const inServiceDate = purchaseDate ? new Date(`${purchaseDate}T00:00:00`) : new Date(vehicle.created_at);
+    const outOfServiceDate = isDisposedStatus(vehicle.status) && vehicle.disposal_date
+      ? new Date(`${vehicle.disposal_date}T00:00:00`)
+      : null;
+    const monthsInService = Math.max(
+      1,
+      differenceInCalendarDays(outOfServiceDate || today, inServiceDate) / AVERAGE_DAYS_PER_MONTH
+    );
+
+    return {
+      vehicle,
+      costs,
+      saleProceeds,
+      depreciation: vehicle.status === 'sold' && vehicle.sale_price !== null ? costs.acquisition - saleProceeds : null,
+      total,
+      runningCost,
+      kilometers,
+      kilometerSource: gpsKm > 0 ? 'gps' : odometerKm > 0 ? 'odometer' : null,
+      inServiceDate,
+      outOfServiceDate,
+      monthsInService,
+      costPerMonth: total / monthsInService,
+      costPerKm: kilometers > 0 ? total / kilometers : null,
+      runningCostPerKm: kilometers > 0 ? runningCost / kilometers : null,
+      replaceCandidate: false,
+    } as VehicleTCO;
+  });
+
+  const inService = items.filter(item => !isDisposedStatus(item.vehicle.status) && item.runningCostPerKm !== null);
+  const fleetMedianRunningCostPerKm = median(inService.map(item => item.runningCostPerKm!));
+
+  if (fleetMedianRunningCostPerKm !== null) {
+    inService.forEach(item => {
+      item.replaceCandidate = item.runningCostPerKm! > fleetMedianRunningCostPerKm;
+    });
+  }
+
+  return { items, fleetMedianRunningCostPerKm };
+}
@@ -0,0 +1,15 @@
+export const VEHICLE_TYPES = ['car', 'suv', 'pickup', 'van', 'cube_van', 'truck'] as const;
+
+export type VehicleType = typeof VEHICLE_TYPES[number];
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  car: 'Car',
+  suv: 'SUV',
+  pickup: 'Pickup',
+  van: 'Van',
+  cube_van: 'Cube Van',
+  truck: 'Truck',
+};
+
+export const getVehicleTypeLabel = (type: string | null) =>
+  type ? VEHICLE_TYPE_LABELS[type as VehicleType] || type : 'Unspecified';
@@ -0,0 +1,5 @@
+export const VEHICLES_CHANGED_EVENT = 'vehicles:changed';
+
+export function emitVehiclesChanged() {
+  window.dispatchEvent(new Event(VEHICLES_CHANGED_EVENT));
+}
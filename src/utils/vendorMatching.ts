@@ -0,0 +1,151 @@
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+export interface VendorNameUsage {
+  /** The most used spelling of the free-text name */
+  name: string;
+  /** Every stored spelling that differs from the name only in case or surrounding spaces */
+  spellings: string[];
+  expenses: number;
+  fuelReceipts: number;
+  total: number;
+}
+
+export interface VendorNameGroup {
+  key: string;
+  /** Most used spelling first */
+  names: VendorNameUsage[];
+  /** Known vendor the group most likely belongs to */
+  suggestedVendorId: string | null;
+  records: number;
+  total: number;
+}
+
+// Words that only say what kind of company it is
+const COMPANY_SUFFIXES = new Set(['inc', 'incorporated', 'ltd', 'limited', 'llc', 'corp', 'corporation', 'co', 'company', 'the']);
+
+/**
+ * Reduce a vendor name to the words that identify it: lowercase, without
+ * punctuation, store numbers ("#123", "Store 45") or company suffixes.
+ */
+export function cleanVendorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/#\s*\d+/g, ' ')
+    .replace(/\b(store|unit|location|loc|no)\.?\s*\d+\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !COMPANY_SUFFIXES.has(word) && !/^\d{3,}$/.test(word))
+    .join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score from 0 to 1 for how likely two vendor names are the same business.
+ * Names where every word of one appears in the other ("Canadian Tire" and
+ * "Canadian Tire Gas Bar") score 0.9, otherwise it is the edit distance ratio.
+ */
+export function vendorNameSimilarity(a: string, b: string): number {
+  const left = cleanVendorName(a);
+  const right = cleanVendorName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftWords = left.split(' ');
+  const rightWords = right.split(' ');
+  const [shorter, longer] = leftWords.length <= rightWords.length ? [leftWords, rightWords] : [rightWords, leftWords];
+  if (shorter.join('').length >= 4 && shorter.every(word => longer.includes(word))) return 0.9;
+
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Group free-text vendor names that look like spellings of the same business.
+ * Each name joins the closest group started by a more used name, and every
+ * group is matched to the closest known vendor when one scores above the threshold.
+ */
+export function groupVendorNames(
+  usages: VendorNameUsage[],
+  vendors: { id: string; name: string }[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): VendorNameGroup[] {
+  const groups: VendorNameUsage[][] = [];
+  const byUsage = [...usages].sort((a, b) =>
+    (b.expenses + b.fuelReceipts) - (a.expenses + a.fuelReceipts) || a.name.localeCompare(b.name)
+  );
+
+  for (const usage of byUsage) {
+    let bestGroup: VendorNameUsage[] | null = null;
+    let bestScore = threshold;
+    for (const group of groups) {
+      const score = vendorNameSimilarity(group[0].name, usage.name);
+      if (score >= bestScore) {
+        bestGroup = group;
+        bestScore = score;
+      }
+    }
+    if (bestGroup) {
+      bestGroup.push(usage);
+    } else {
+      groups.push([usage]);
+    }
+  }
+
+  return groups
+    .map(names => {
+      let suggestedVendorId: string | null = null;
+      let bestScore = threshold;
+      for (const vendor of vendors) {
+        const score = Math.max(...names.map(usage => vendorNameSimilarity(vendor.name, usage.name)));
+        if (score >= bestScore) {
+          bestScore = score;
+          suggestedVendorId = vendor.id;
+        }
+      }
+
+      return {
+        key: names.map(usage => usage.name).join('|'),
+        names,
+        suggestedVendorId,
+        records: names.reduce((sum, usage) => sum + usage.expenses + usage.fuelReceipts, 0),
+        total: names.reduce((sum, usage) => sum + usage.total, 0),
+      };
+    })
+    .sort((a, b) => b.names.length - a.names.length || b.records - a.records);
+}
+
+/**
+ * Sets of vendor records whose names look like the same business, for merging.
+ */
+export function findDuplicateVendors<T extends { id: string; name: string }>(
+  vendors: T[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): T[][] {
+  const groups: T[][] = [];
+
+  [...vendors].sort((a, b) => a.name.localeCompare(b.name)).forEach(vendor => {
+    const group = groups.find(g => g.some(other => vendorNameSimilarity(other.name, vendor.name) >= threshold));
+    if (group) {
+      group.push(vendor);
+    } else {
+      groups.push([vendor]);
+    }
+  });
+
+  return groups.filter(group => group.length > 1);
+}
@@ -0,0 +1,185 @@
+import { classifyExpenseCategory } from '@/utils/vehicleTco';
+
+export const DEFAULT_REPEAT_WINDOW_DAYS = 30;
+
+export interface RepeatJob {
+  id: string;
+  date: string;
+  vehiclePlate: string | null;
+  category: { name: string; type: string } | null;
+  amount: number;
+}
+
+/** A vendor's jobs in one category at one branch, summed by report_vendor_jobs */
+export interface VendorJobGroup {
+  /** vendor_id, or "name:<normalized name>" for vendors only known by name */
+  vendorKey: string;
+  vendorId: string | null;
+  vendorName: string;
+  categoryId: string | null;
+  category: { name: string; type: string } | null;
+  branchId: string | null;
+  branchName: string | null;
+  jobs: number;
+  total: number;
+  min: number;
+  max: number;
+  monthly: { month: string; jobs: number; total: number }[];
+  /** Jobs followed by another job on the same vehicle and category within the repeat window */
+  repeatJobs: Omit<RepeatJob, 'category'>[];
+}
+
+export interface CategoryAverage {
+  categoryId: string | null;
+  categoryName: string;
+  jobs: number;
+  total: number;
+  average: number;
+}
+
+export interface MonthlyPrice {
+  month: string;
+  jobs: number;
+  average: number;
+}
+
+export interface VendorScorecard {
+  /** vendor_id, or "name:<normalized name>" for vendors only known by name */
+  key: string;
+  vendorId: string | null;
+  vendorName: string;
+  totalSpend: number;
+  jobCount: number;
+  averageInvoice: number;
+  byCategory: CategoryAverage[];
+  /** Service jobs followed by another job on the same vehicle and category within the window */
+  repeatJobs: RepeatJob[];
+  repeatRate: number;
+  monthly: MonthlyPrice[];
+  /** Change in average invoice, the later half of the months with jobs against the earlier half */
+  priceTrendPercent: number | null;
+}
+
+export interface PriceBenchmark {
+  vendorKey: string;
+  vendorName: string;
+  branchId: string | null;
+  branchName: string | null;
+  jobs: number;
+  average: number;
+  min: number;
+  max: number;
+  /** Against the average for the category across all vendors */
+  differencePercent: number;
+}
+
+const average = (total: number, jobs: number) => (jobs > 0 ? total / jobs : 0);
+
+// Fuel, purchases and fees recur by nature, so only service work counts as a repeat
+const isServiceWork = (group: VendorJobGroup) =>
+  ['maintenance', 'repairs', 'tires'].includes(classifyExpenseCategory(group.category));
+
+const sumJobs = (groups: VendorJobGroup[]) => groups.reduce((sum, group) => sum + group.jobs, 0);
+const sumTotal = (groups: VendorJobGroup[]) => groups.reduce((sum, group) => sum + group.total, 0);
+
+/**
+ * Summarise spend, job count, average invoice by category, repeat repairs and
+ * price trend per vendor. Sorted by total spend, highest first.
+ */
+export function computeVendorScorecards(groups: VendorJobGroup[]): VendorScorecard[] {
+  const byVendor = new Map<string, VendorJobGroup[]>();
+
+  groups.forEach(group => {
+    byVendor.set(group.vendorKey, [...(byVendor.get(group.vendorKey) || []), group]);
+  });
+
+  return Array.from(byVendor.entries())
+    .map(([key, vendorGroups]) => {
+      const totalSpend = sumTotal(vendorGroups);
+      const jobCount = sumJobs(vendorGroups);
+
+      const categories = new Map<string, VendorJobGroup[]>();
+      vendorGroups.forEach(group => {
+        const categoryKey = group.categoryId || 'none';
+        categories.set(categoryKey, [...(categories.get(categoryKey) || []), group]);
+      });
+
+      const byCategory = Array.from(categories.values())
+        .map(categoryGroups => {
+          const total = sumTotal(categoryGroups);
+          const jobs = sumJobs(categoryGroups);
+          return {
+            categoryId: categoryGroups[0].categoryId,
+            categoryName: categoryGroups[0].category?.name || 'Uncategorized',
+            jobs,
+            total,
+            average: average(total, jobs),
+          };
+        })
+        .sort((a, b) => b.total - a.total);
+
+      const months = new Map<string, { jobs: number; total: number }>();
+      vendorGroups.forEach(group => group.monthly.forEach(({ month, jobs, total }) => {
+        const entry = months.get(month) || { jobs: 0, total: 0 };
+        months.set(month, { jobs: entry.jobs + jobs, total: entry.total + total });
+      }));
+      const monthTotals = Array.from(months.entries()).sort(([a], [b]) => a.localeCompare(b));
+      const monthly = monthTotals.map(([month, entry]) => ({ month, jobs: entry.jobs, average: average(entry.total, entry.jobs) }));
+
+      // Compare the average invoice in the later half of the months with the earlier half
+      const half = Math.floor(monthTotals.length / 2);
+      const averageOf = (entries: typeof monthTotals) => average(
+        entries.reduce((sum, [, entry]) => sum + entry.total, 0),
+        entries.reduce((sum, [, entry]) => sum + entry.jobs, 0)
+      );
+      const earlier = averageOf(monthTotals.slice(0, half));
+      const later = averageOf(monthTotals.slice(half));
+
+      const serviceGroups = vendorGroups.filter(isServiceWork);
+      const repeatJobs = serviceGroups
+        .flatMap(group => group.repeatJobs.map(job => ({ ...job, category: group.category })))
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const serviceJobs = sumJobs(serviceGroups);
+
+      return {
+        key,
+        vendorId: vendorGroups[0].vendorId,
+        vendorName: vendorGroups[0].vendorName,
+        totalSpend,
+        jobCount,
+        averageInvoice: average(totalSpend, jobCount),
+        byCategory,
+        repeatJobs,
+        repeatRate: serviceJobs ? (repeatJobs.length / serviceJobs) * 100 : 0,
+        monthly,
+        priceTrendPercent: half >= 1 && earlier > 0 ? ((later - earlier) / earlier) * 100 : null,
+      };
+    })
+    .sort((a, b) => b.totalSpend - a.totalSpend);
+}
+
+/**
+ * Compare what each vendor charges for one category of service, per branch,
+ * against the average across all vendors.
+ */
+export function computePriceBenchmarks(groups: VendorJobGroup[], categoryId: string): PriceBenchmark[] {
+  const categoryGroups = groups.filter(group => group.categoryId === categoryId);
+  const categoryAverage = average(sumTotal(categoryGroups), sumJobs(categoryGroups));
+
+  return categoryGroups
+    .map(group => {
+      const groupAverage = average(group.total, group.jobs);
+      return {
+        vendorKey: group.vendorKey,
+        vendorName: group.vendorName,
+        branchId: group.branchId,
+        branchName: group.branchName,
+        jobs: group.jobs,
+        average: groupAverage,
+        min: group.min,
+        max: group.max,
+        differencePercent: categoryAverage > 0 ? ((groupAverage - categoryAverage) / categoryAverage) * 100 : 0,
+      };
+    })
+    .sort((a, b) => a.average - b.average);
+}
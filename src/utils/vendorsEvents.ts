@@ -0,0 +1,5 @@
+export const VENDORS_CHANGED_EVENT = 'vendors:changed';
+
+export function emitVendorsChanged() {
+  window.dispatchEvent(new Event(VENDORS_CHANGED_EVENT));
+}
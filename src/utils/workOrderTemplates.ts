@@ -0,0 +1,181 @@
+export interface WorkOrderFields {
+  invoiceNumber: string | null;
+  date: string | null;
+  vin: string | null;
+  plate: string | null;
+  odometer: number | null;
+  total: number | null;
+  lineItems: { description: string; amount: number }[];
+}
+
+/**
+ * How to read one vendor's work orders. Each pattern runs against single
+ * lines of extracted text and captures the value in group 1. Columns on a
+ * line are separated by two or more spaces.
+ */
+export interface WorkOrderTemplate {
+  id: string;
+  name: string;
+  /** The vendor the documents come from, when the template is for one vendor */
+  vendorName?: string;
+  /** Matches the full document text when it comes from this vendor */
+  detect: RegExp;
+  invoiceNumber: RegExp[];
+  date: RegExp[];
+  vin: RegExp[];
+  plate: RegExp[];
+  odometer: RegExp[];
+  /** In priority order, e.g. grand total before total */
+  total: RegExp[];
+  /** Captures the description in group 1 and the line amount in group 2 */
+  lineItem?: RegExp;
+  /** Lines that look like line items but are not, such as tax and totals */
+  lineItemExclude?: RegExp;
+  category?: string;
+}
+
+const DATE_VALUE = '(\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}[/-]\\d{1,2}[/-]\\d{2,4}|[A-Z][a-z]{2,8}\\.? \\d{1,2},? \\d{4})';
+const AMOUNT_VALUE = '\\$?\\s*(-?[\\d,]+\\.\\d{2})';
+
+/** Labelled fields found on most shop invoices and work orders */
+const STANDARD_FIELDS: Omit<WorkOrderTemplate, 'id' | 'name' | 'detect'> = {
+  invoiceNumber: [
+    /\b(?:invoice|work\s*order|repair\s*order|w\/o|r\/o)\s*(?:#|no\.?|number)\s*:?\s*([A-Z0-9][A-Z0-9-]*)/i,
+  ],
+  date: [
+    new RegExp(`\\b(?:invoice|service|work\\s*order)\\s*date\\s*:?\\s*${DATE_VALUE}`, 'i'),
+    new RegExp(`\\bdate\\s*:?\\s*${DATE_VALUE}`, 'i'),
+  ],
+  vin: [/\bVIN\s*(?:#|no\.?)?\s*:?\s*([A-HJ-NPR-Z0-9]{17})\b/i],
+  plate: [/\b(?:licen[cs]e(?:\s*plate)?|plate|lic\.?)\s*(?:#|no\.?)?\s*:?\s*([A-Z0-9-]{2,8})\b/i],
+  odometer: [/\b(?:odometer|odo|mileage|km\s*in)\s*(?:in|reading)?\s*:?\s*([\d,]{3,9})\b/i],
+  total: [
+    new RegExp(`\\b(?:grand\\s*total|total\\s*due|amount\\s*due|invoice\\s*total|balance\\s*due)\\b\\s*:?\\s*${AMOUNT_VALUE}`, 'i'),
+    new RegExp(`^\\s*total\\b[^\\d$-]*${AMOUNT_VALUE}\\s*$`, 'i'),
+  ],
+  lineItem: new RegExp(`^([A-Za-z][^$]*?)\\s{2,}(?:.*\\s{2,})?${AMOUNT_VALUE}$`),
+  lineItemExclude: /\b(?:sub\s*-?total|total|tax|hst|gst|pst|balance|amount\s*due|deposit|paid)\b/i,
+};
+
+/**
+ * Known work order layouts, most specific first. Add a vendor by copying the
+ * standard fields and overriding the patterns its documents need.
+ */
+export const WORK_ORDER_TEMPLATES: WorkOrderTemplate[] = [
+  {
+    ...STANDARD_FIELDS,
+    id: 'canadian-tire-auto-service',
+    name: 'Canadian Tire Auto Service work order',
+    vendorName: 'Canadian Tire',
+    detect: /\bcanadian\s+tire\b/i,
+    // "W/O # 0123456" and "RO# 0123456" at the top, the store number is also labelled with a #
+    invoiceNumber: [/\b(?:w\/o|r\.?o\.?)\s*#\s*:?\s*(\d{5,})\b/i, ...STANDARD_FIELDS.invoiceNumber],
+    date: [new RegExp(`\\b(?:date\\s*in|promised|service\\s*date)\\s*:?\\s*${DATE_VALUE}`, 'i'), ...STANDARD_FIELDS.date],
+    odometer: [/\b(?:kms?\s*in|odo\s*in)\s*:?\s*([\d,]{3,9})\b/i, ...STANDARD_FIELDS.odometer],
+    total: [
+      new RegExp(`\\btotal\\s*(?:invoice|amount)\\b\\s*:?\\s*${AMOUNT_VALUE}`, 'i'),
+      ...STANDARD_FIELDS.total,
+    ],
+    // Environmental fees and shop supplies are charges, not the work done
+    lineItemExclude: /\b(?:sub\s*-?total|total|tax|hst|gst|pst|balance|amount\s*due|deposit|paid|eco\s*fee|enviro|shop\s*supplies)\b/i,
+  },
+  {
+    ...STANDARD_FIELDS,
+    id: 'mr-lube',
+    name: 'Mr. Lube invoice',
+    vendorName: 'Mr. Lube',
+    detect: /\bmr\.?\s*lube\b/i,
+    invoiceNumber: [/\b(?:invoice|ticket)\s*(?:#|no\.?)\s*:?\s*(\d{4,})\b/i, ...STANDARD_FIELDS.invoiceNumber],
+    // Odometer is printed as "Current KM" and the next service as "Next KM", which must not be taken
+    odometer: [/\b(?:current\s*km|km\s*today|odometer)\s*:?\s*([\d,]{3,9})\b/i],
+    category: 'Oil Change',
+  },
+  {
+    ...STANDARD_FIELDS,
+    id: 'jiffy-lube',
+    name: 'Jiffy Lube invoice',
+    vendorName: 'Jiffy Lube',
+    detect: /\bjiffy\s*lube\b/i,
+    invoiceNumber: [/\binvoice\s*(?:#|no\.?|number)\s*:?\s*([A-Z0-9-]{4,})\b/i, ...STANDARD_FIELDS.invoiceNumber],
+    // "Mileage In" is the odometer; "Next Service Mileage" is the reminder
+    odometer: [/\bmileage\s*in\s*:?\s*([\d,]{3,9})\b/i, /\bodometer\s*:?\s*([\d,]{3,9})\b/i],
+    category: 'Oil Change',
+  },
+  {
+    ...STANDARD_FIELDS,
+    id: 'costco-tire-centre',
+    name: 'Costco Tire Centre invoice',
+    vendorName: 'Costco Tire Centre',
+    detect: /\bcostco\b[\s\S]*\btire\s*(?:centre|center)\b/i,
+    // The membership number is also printed with a #, so only the order number is taken
+    invoiceNumber: [/\b(?:order|tire\s*centre\s*invoice|invoice)\s*(?:#|no\.?)\s*:?\s*(\d{5,})\b/i],
+    odometer: [/\b(?:mileage|odometer|km)\s*:?\s*([\d,]{3,9})\b/i],
+    total: [
+      new RegExp(`\\b(?:total\\s*due|amount\\s*due|grand\\s*total)\\b\\s*:?\\s*${AMOUNT_VALUE}`, 'i'),
+      new RegExp(`^\\s*total\\b[^\\d$-]*${AMOUNT_VALUE}\\s*$`, 'i'),
+    ],
+    lineItemExclude: /\b(?:sub\s*-?total|total|tax|hst|gst|pst|balance|amount\s*due|deposit|paid|tire\s*levy|member)\b/i,
+    category: 'Tire Replacement',
+  },
+  {
+    ...STANDARD_FIELDS,
+    id: 'standard-work-order',
+    name: 'Labelled work order or invoice',
+    detect: /\b(?:invoice|work\s*order|repair\s*order)\s*(?:#|no\.?|number)/i,
+  },
+];
+
+/** The first template whose detect pattern matches the document text */
+export const findWorkOrderTemplate = (text: string) =>
+  WORK_ORDER_TEMPLATES.find(template => template.detect.test(text)) || null;
+
+const firstMatch = (lines: string[], patterns: RegExp[]) => {
+  for (const pattern of patterns) {
+    for (const line of lines) {
+      const match = line.match(pattern);
+      if (match?.[1]) return match[1].trim();
+    }
+  }
+  return null;
+};
+
+const parseAmount = (value: string | null) => {
+  const amount = value ? parseFloat(value.replace(/[^0-9.-]/g, '')) : NaN;
+  return isNaN(amount) ? null : amount;
+};
+
+export const parseDocumentDate = (value: string | null) => {
+  if (!value) return null;
+  const date = /^\d{4}-\d{1,2}-\d{1,2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(`${value} UTC`);
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+};
+
+/** Read the fields of one work order from its lines of text */
+export function extractWorkOrderFields(lines: string[], template: WorkOrderTemplate): WorkOrderFields {
+  const plate = firstMatch(lines, template.plate);
+  const odometer = firstMatch(lines, template.odometer);
+  const parsedOdometer = odometer ? parseInt(odometer.replace(/,/g, '')) : NaN;
+
+  const lineItems: WorkOrderFields['lineItems'] = [];
+  if (template.lineItem) {
+    lines.forEach(line => {
+      if (template.lineItemExclude?.test(line)) return;
+      const match = line.match(template.lineItem!);
+      const amount = parseAmount(match?.[2] ?? null);
+      if (match && amount !== null) {
+        lineItems.push({ description: match[1].split(/\s{2,}/)[0].trim(), amount });
+      }
+    });
+  }
+
+  return {
+    invoiceNumber: firstMatch(lines, template.invoiceNumber),
+    date: parseDocumentDate(firstMatch(lines, template.date)),
+    vin: firstMatch(lines, template.vin)?.toUpperCase() || null,
+    // A plate must contain a digit so labels and words are not taken for one
+    plate: plate && /\d/.test(plate) ? plate.toUpperCase() : null,
+    odometer: parsedOdometer > 0 && parsedOdometer < 10000000 ? parsedOdometer : null,
+    total: parseAmount(firstMatch(lines, template.total)),
+    lineItems,
+  };
+}
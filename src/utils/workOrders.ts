@@ -0,0 +1,88 @@
+import { addMonths, differenceInMinutes, format, max, min, startOfMonth } from 'date-fns';
+
+export type WorkOrderStatus = 'opened' | 'in_progress' | 'waiting_for_parts' | 'completed';
+
+export const WORK_ORDER_STATUSES: WorkOrderStatus[] = ['opened', 'in_progress', 'waiting_for_parts', 'completed'];
+
+export const WORK_ORDER_STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  opened: 'Opened',
+  in_progress: 'In Progress',
+  waiting_for_parts: 'Waiting for Parts',
+  completed: 'Completed',
+};
+
+export const getWorkOrderStatusColor = (status: string) => {
+  switch (status) {
+    case 'opened':
+      return 'bg-primary/10 text-primary';
+    case 'in_progress':
+      return 'bg-accent text-accent-foreground';
+    case 'waiting_for_parts':
+      return 'bg-amber-500/20 text-amber-700 border-amber-500/30';
+    default:
+      return 'bg-green-500/20 text-green-700 border-green-500/30';
+  }
+};
+
+export const isOpenWorkOrder = (workOrder: { status: string }) => workOrder.status !== 'completed';
+
+export interface WorkOrderPeriod {
+  vehicle_id: string;
+  opened_at: string;
+  completed_at: string | null;
+}
+
+export interface MonthlyDowntime {
+  /** yyyy-MM */
+  month: string;
+  label: string;
+  downtimeDays: number;
+  workOrders: number;
+}
+
+const MINUTES_PER_DAY = 60 * 24;
+
+/**
+ * Time a vehicle spent at the shop, in days (fractional), from drop-off until
+ * pick-up or until now for work orders that are still open.
+ */
+export const workOrderDowntimeDays = (workOrder: WorkOrderPeriod, now: Date = new Date()) =>
+  Math.max(0, differenceInMinutes(workOrder.completed_at ? new Date(workOrder.completed_at) : now, new Date(workOrder.opened_at))) /
+  MINUTES_PER_DAY;
+
+/**
+ * Total shop downtime per calendar month for the last few months, splitting
+ * work orders that span a month boundary between the months.
+ * @param months - Number of months to include, ending with the current month
+ */
+export function computeMonthlyDowntime(
+  workOrders: WorkOrderPeriod[],
+  months: number,
+  now: Date = new Date()
+): MonthlyDowntime[] {
+  const firstMonth = startOfMonth(addMonths(now, -(months - 1)));
+
+  return Array.from({ length: months }, (_, index) => {
+    const monthStart = addMonths(firstMonth, index);
+    const monthEnd = min([addMonths(monthStart, 1), now]);
+    let minutes = 0;
+    let count = 0;
+
+    workOrders.forEach(workOrder => {
+      const start = max([new Date(workOrder.opened_at), monthStart]);
+      const end = min([workOrder.completed_at ? new Date(workOrder.completed_at) : now, monthEnd]);
+      const overlap = differenceInMinutes(end, start);
+      if (overlap > 0) {
+        minutes += overlap;
+        count += 1;
+      }
+    });
+
+    return {
+      month: format(monthStart, 'yyyy-MM'),
+      label: format(monthStart, 'MMM yyyy'),
+      downtimeDays: Math.round((minutes / MINUTES_PER_DAY) * 10) / 10,
+      workOrders: count,
+    };
+  });
+}
@@ -0,0 +1,204 @@
+import JSZip from 'jszip';
+import { CSVRow, ParsedCSV } from '@/utils/csvParser';
+
+export interface WorkbookSheet {
+  name: string;
+  /** Cell text by row; index 0 is spreadsheet row 1 */
+  rows: string[][];
+}
+
+export const EXCEL_EXTENSIONS = ['.xlsx', '.xlsm', '.xltx'];
+
+export const isExcelFile = (fileName: string) =>
+  EXCEL_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Built-in number formats that display a date
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const elements = (parent: Document | Element, tag: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', tag));
+
+const textOf = (element: Element) =>
+  elements(element, 't').map(t => t.textContent || '').join('');
+
+/** Whether a custom format code shows a date (ignoring quoted text and [color] sections) */
+const isDateFormatCode = (code: string) =>
+  /[dmy]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+/** Column index from a cell reference such as "C12" */
+const columnIndex = (ref: string) => {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/** Excel date serial (1900 date system) to yyyy-MM-dd */
+const serialToDate = (serial: number) => {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+  return date.toISOString().split('T')[0];
+};
+
+// Trim floating point noise such as 437.12000000000001
+const formatNumber = (value: string) => String(parseFloat(Number(value).toPrecision(15)));
+
+const resolvePath = (target: string) =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+/**
+ * Read every worksheet of an .xlsx workbook as rows of cell text. Dates are
+ * returned as yyyy-MM-dd and formulas as their cached values.
+ */
+export async function readWorkbook(file: Blob): Promise<WorkbookSheet[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('File is not a valid Excel workbook. Older .xls files must be saved as .xlsx or CSV.');
+  }
+
+  const readPart = async (path: string) => {
+    const part = zip.file(path);
+    return part ? parseXml(await part.async('string')) : null;
+  };
+
+  const workbook = await readPart('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('File is not a valid Excel workbook');
+  }
+
+  const [relationships, sharedStringsXml, styles] = await Promise.all([
+    readPart('xl/_rels/workbook.xml.rels'),
+    readPart('xl/sharedStrings.xml'),
+    readPart('xl/styles.xml'),
+  ]);
+
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(textOf) : [];
+
+  // Style index → whether the cell is formatted as a date
+  const dateStyles: boolean[] = [];
+  if (styles) {
+    const customDateFormats = new Set(
+      elements(styles, 'numFmt')
+        .filter(fmt => isDateFormatCode(fmt.getAttribute('formatCode') || ''))
+        .map(fmt => Number(fmt.getAttribute('numFmtId')))
+    );
+    const cellXfs = elements(styles, 'cellXfs')[0];
+    if (cellXfs) {
+      Array.from(cellXfs.children).forEach(xf => {
+        const formatId = Number(xf.getAttribute('numFmtId') || 0);
+        dateStyles.push(DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId));
+      });
+    }
+  }
+
+  const targets = new Map(
+    (relationships ? elements(relationships, 'Relationship') : []).map(rel => [
+      rel.getAttribute('Id'),
+      rel.getAttribute('Target') || '',
+    ])
+  );
+
+  const sheets: WorkbookSheet[] = [];
+
+  for (const sheet of elements(workbook, 'sheet')) {
+    const relId = sheet.getAttributeNS(RELATIONSHIPS_NS, 'id') || sheet.getAttribute('r:id');
+    const target = relId ? targets.get(relId) : undefined;
+    const xml = target ? await readPart(resolvePath(target)) : null;
+    if (!xml) continue;
+
+    const rows: string[][] = [];
+    elements(xml, 'row').forEach((row, position) => {
+      const rowIndex = Number(row.getAttribute('r') || position + 1) - 1;
+      const values: string[] = [];
+
+      elements(row, 'c').forEach((cell, cellPosition) => {
+        const ref = cell.getAttribute('r');
+        const col = ref ? columnIndex(ref) : cellPosition;
+        const type = cell.getAttribute('t');
+        const raw = elements(cell, 'v')[0]?.textContent ?? '';
+        let value = '';
+
+        if (type === 's') {
+          value = sharedStrings[Number(raw)] ?? '';
+        } else if (type === 'inlineStr') {
+          value = textOf(cell);
+        } else if (type === 'b') {
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+        } else if (type === 'str' || type === 'e') {
+          value = raw;
+        } else if (raw !== '') {
+          value = dateStyles[Number(cell.getAttribute('s') || 0)] ? serialToDate(Number(raw)) : formatNumber(raw);
+        }
+
+        values[col] = value.trim();
+      });
+
+      rows[rowIndex] = Array.from(values, value => value ?? '');
+    });
+
+    sheets.push({
+      name: sheet.getAttribute('name') || `Sheet ${sheets.length + 1}`,
+      rows: Array.from(rows, row => row ?? []),
+    });
+  }
+
+  if (sheets.length === 0) {
+    throw new Error('Workbook has no worksheets');
+  }
+
+  return sheets;
+}
+
+const filledCells = (row: string[] = []) => row.filter(value => value !== '');
+
+/**
+ * Find the header row among the first rows of a sheet, skipping report titles
+ * and date-range lines above it. A row containing all of the keywords wins;
+ * otherwise the first row of text labels that is as wide as the data below it.
+ * @param keywords - Lower-case text that only appears together in the header row
+ */
+export function detectHeaderRow(rows: string[][], keywords: string[] = []): number {
+  const candidates = rows.slice(0, 20);
+
+  if (keywords.length > 0) {
+    // A title such as "Mileage Report" can contain one keyword on its own
+    const match = candidates.findIndex(row =>
+      keywords.every(keyword => (row || []).some(value => value.toLowerCase().includes(keyword)))
+    );
+    if (match >= 0) return match;
+  }
+
+  const width = Math.max(0, ...rows.slice(0, 50).map(row => filledCells(row).length));
+  const header = candidates.findIndex(row => {
+    const cells = filledCells(row);
+    return cells.length >= Math.max(2, Math.ceil(width / 2)) && cells.every(value => isNaN(Number(value)));
+  });
+
+  return Math.max(header, rows.findIndex(row => filledCells(row).length > 0), 0);
+}
+
+/** Treat a sheet as CSV with the given header row; empty rows are skipped */
+export function sheetToParsedCSV(sheet: WorkbookSheet, headerRow: number): ParsedCSV {
+  const rows: CSVRow[] = [];
+  sheet.rows.slice(headerRow + 1).forEach((values, index) => {
+    if (filledCells(values).length > 0) {
+      rows.push({ line: headerRow + index + 2, values });
+    }
+  });
+
+  return {
+    headers: sheet.rows[headerRow] || [],
+    rows,
+    delimiter: ',',
+  };
+}
+
+/** Sheets that contain at least one filled cell */
+export const nonEmptySheets = (sheets: WorkbookSheet[]) =>
+  sheets.filter(sheet => sheet.rows.some(row => filledCells(row).length > 0));
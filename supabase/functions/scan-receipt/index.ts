@@ -22,6 +22,104 @@ const TEXT_MIME_TYPES = [
   'text/tab-separated-values',
 ];
 
+type TaxComponent = 'gst' | 'pst' | 'hst' | 'qst' | 'us_sales_tax';
+
+// Tax settings of the branch the receipt is entered against, rates in percent
+interface TaxContext {
+  branchName?: string;
+  regime: 'hst' | 'gst' | 'gst_pst' | 'gst_qst' | 'us_sales_tax';
+  rates: Record<TaxComponent, number>;
+}
+
+const TAX_COMPONENTS: TaxComponent[] = ['gst', 'pst', 'hst', 'qst', 'us_sales_tax'];
+
+const TAX_COMPONENT_LABELS: Record<TaxComponent, string> = {
+  gst: 'GST',
+  pst: 'PST',
+  hst: 'HST',
+  qst: 'QST',
+  us_sales_tax: 'US sales tax',
+};
+
+const REGIME_COMPONENTS: Record<TaxContext['regime'], TaxComponent[]> = {
+  hst: ['hst'],
+  gst: ['gst'],
+  gst_pst: ['gst', 'pst'],
+  gst_qst: ['gst', 'qst'],
+  us_sales_tax: ['us_sales_tax'],
+};
+
+const describeComponent = (component: TaxComponent, rates: Record<TaxComponent, number>) =>
+  rates[component] ? `${TAX_COMPONENT_LABELS[component]} ${rates[component]}%` : TAX_COMPONENT_LABELS[component];
+
+// The tax instructions for the prompt, specific to the branch's regime when it is known
+const buildTaxInstructions = (tax: TaxContext | undefined) => {
+  if (!tax || !REGIME_COMPONENTS[tax.regime]) {
+    return `CRITICAL TAX EXTRACTION:
+- ALWAYS look for and extract HST, GST, PST, QST, sales tax or any tax amounts shown on the invoice
+- Report each tax line separately in tax_components and their sum as tax_amount
+- If you see a subtotal and total but no explicit tax line, calculate: tax = total - subtotal
+- NEVER leave tax_amount as null/empty if there are amounts on the invoice`;
+  }
+
+  const components = REGIME_COMPONENTS[tax.regime];
+  const expected = components.map(component => describeComponent(component, tax.rates)).join(' + ');
+  const labels = components.map(component => `"${TAX_COMPONENT_LABELS[component]}"`).join(', ');
+  return `CRITICAL TAX EXTRACTION - This receipt is for ${tax.branchName || 'a branch'} where the tax charged is ${expected}:
+- ALWAYS look for and extract the tax amounts shown on the invoice
+- Common labels: ${labels}, "Tax", "GST/HST", "Sales Tax"
+- Report each tax line separately in tax_components (${components.join(', ')}) and their sum as tax_amount
+- If the invoice is from a US supplier and charges US sales tax, report it as us_sales_tax instead
+- If you see a subtotal and total but no explicit tax line, calculate: tax = total - subtotal
+- NEVER leave tax_amount as null/empty if there are amounts on the invoice`;
+};
+
+// Tolerance before scanned tax is flagged against the branch's rates
+const TAX_TOLERANCE_PERCENT = 0.5;
+const TAX_TOLERANCE_AMOUNT = 0.05;
+
+// A note for the reviewer when the scanned tax does not fit the branch's regime
+const checkScannedTax = (
+  tax: TaxContext | undefined,
+  subtotal: number | null,
+  components: Partial<Record<TaxComponent, number>> | null
+): string | null => {
+  if (!tax || !REGIME_COMPONENTS[tax.regime] || !components) return null;
+
+  const scanned = TAX_COMPONENTS.filter(component => (components[component] || 0) > 0);
+  if (scanned.length === 0) return null;
+  // US invoices carry US sales tax whatever the branch's regime
+  if (scanned.length === 1 && scanned[0] === 'us_sales_tax') return null;
+
+  const expected = REGIME_COMPONENTS[tax.regime];
+  const unexpected = scanned.filter(component => !expected.includes(component));
+  if (unexpected.length > 0) {
+    return `${unexpected.map(component => TAX_COMPONENT_LABELS[component]).join(', ')} found on a receipt for a branch charged ${expected.map(component => TAX_COMPONENT_LABELS[component]).join(' + ')}`;
+  }
+
+  if (!subtotal || subtotal <= 0) return null;
+  const tolerance = Math.max(TAX_TOLERANCE_AMOUNT, (subtotal * TAX_TOLERANCE_PERCENT) / 100);
+  for (const component of expected) {
+    if (!tax.rates[component]) continue;
+    const expectedAmount = (subtotal * tax.rates[component]) / 100;
+    if (Math.abs((components[component] || 0) - expectedAmount) > tolerance) {
+      return `${TAX_COMPONENT_LABELS[component]} does not match ${tax.rates[component]}% of the subtotal ($${expectedAmount.toFixed(2)})`;
+    }
+  }
+  return null;
+};
+
+// Keep only positive numeric components
+const toTaxComponents = (value: unknown): Partial<Record<TaxComponent, number>> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const components: Partial<Record<TaxComponent, number>> = {};
+  TAX_COMPONENTS.forEach(component => {
+    const amount = Number((value as Record<string, unknown>)[component]);
+    if (amount > 0) components[component] = amount;
+  });
+  return Object.keys(components).length > 0 ? components : null;
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -35,7 +133,13 @@ serve(async (req) => {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
 
-    const { fileBase64, mimeType, fileName, textContent } = await req.json();
+    const { fileBase64, mimeType, fileName, textContent, tax } = await req.json() as {
+      fileBase64?: string;
+      mimeType?: string;
+      fileName?: string;
+      textContent?: string;
+      tax?: TaxContext;
+    };
 
     if (!fileBase64 && !textContent) {
       console.error("No file or text content provided");
@@ -51,12 +155,7 @@ serve(async (req) => {
 
     const extractionPrompt = `Analyze this receipt/invoice document carefully. 
 
-CRITICAL TAX EXTRACTION - This is for Ontario, Canada where HST (Harmonized Sales Tax) is 13%:
-- ALWAYS look for and extract HST, GST, PST, or any tax amounts shown on the invoice
-- Common labels: "HST", "HST 13%", "Tax", "GST/HST", "Sales Tax"
-- The tax amount is typically 13% of the subtotal in Ontario
-- If you see a subtotal and total but no explicit tax line, calculate: tax = total - subtotal
-- NEVER leave tax_amount as null/empty if there are amounts on the invoice
+${buildTaxInstructions(tax)}
 
 IMPORTANT: This invoice may contain MULTIPLE distinct service categories or expense types. Common examples:
 - "Oil Change" or "Conventional Oil Change" = Maintenance
@@ -77,9 +176,15 @@ Extract all information including:
 - Vendor/business name
 - Date
 - SUBTOTAL (amount before tax)
-- TAX AMOUNT (HST/GST/PST - typically 13% in Ontario)
+- TAX AMOUNT (all taxes combined) and each tax component (GST, PST, HST, QST or US sales tax)
 - TOTAL (grand total including tax)
-- Each expense item with its category suggestion, subtotal, tax, and total amount`;
+- Each expense item with its category suggestion, subtotal, tax, and total amount
+
+FUEL RECEIPTS - If this is a gas station / pump receipt:
+- Extract the VOLUME dispensed in litres (labels: "Litres", "L", "Volume", "Qty")
+- Extract the PRICE PER LITRE (labels: "$/L", "Price/L", "Unit Price", often shown in cents like 152.9)
+- Extract the ODOMETER reading if it was entered at the pump or printed on the receipt
+- Return price per litre in dollars (e.g. 1.529, not 152.9)`;
 
     // If we have pre-extracted text content (for DOCX, CSV, etc.)
     if (textContent) {
@@ -184,7 +289,18 @@ ${decodedText}`
                   },
                   tax_amount: {
                     type: "number",
-                    description: "The total tax amount (HST is 13% in Ontario, Canada). Look for HST, GST, PST, Tax, or calculate as total - subtotal. This is REQUIRED - do not leave empty."
+                    description: "The total tax amount, the sum of all tax components. Look for HST, GST, PST, QST, Tax, or calculate as total - subtotal. This is REQUIRED - do not leave empty."
+                  },
+                  tax_components: {
+                    type: "object",
+                    description: "Each tax charged on the invoice as a separate amount. Only include the taxes shown on the invoice.",
+                    properties: {
+                      gst: { type: "number", description: "GST (Goods and Services Tax) amount" },
+                      pst: { type: "number", description: "PST (Provincial Sales Tax) amount" },
+                      hst: { type: "number", description: "HST (Harmonized Sales Tax) amount" },
+                      qst: { type: "number", description: "QST (Quebec Sales Tax) amount" },
+                      us_sales_tax: { type: "number", description: "US state and local sales tax amount" }
+                    }
                   },
                   total: {
                     type: "number",
@@ -210,7 +326,7 @@ ${decodedText}`
                         },
                         tax_amount: {
                           type: "number",
-                          description: "Proportional HST (13%) tax amount for this expense item. Calculate based on ratio to overall subtotal. Required for each item."
+                          description: "Proportional tax amount for this expense item, all taxes combined. Calculate based on ratio to overall subtotal. Required for each item."
                         },
                         amount: {
                           type: "number",
@@ -220,6 +336,18 @@ ${decodedText}`
                       required: ["category_suggestion", "description", "subtotal", "tax_amount", "amount"]
                     }
                   },
+                  fuel_litres: {
+                    type: "number",
+                    description: "For fuel receipts: volume of fuel dispensed in litres"
+                  },
+                  fuel_price_per_litre: {
+                    type: "number",
+                    description: "For fuel receipts: price per litre in dollars"
+                  },
+                  odometer_reading: {
+                    type: "number",
+                    description: "Vehicle odometer reading in km if shown on the receipt"
+                  },
                   raw_text: {
                     type: "string",
                     description: "Any additional relevant text found on the document"
@@ -265,10 +393,15 @@ ${decodedText}`
       vendor_address: null as string | null,
       subtotal: null as number | null,
       tax_amount: null as number | null,
+      tax_components: null as Partial<Record<TaxComponent, number>> | null,
+      tax_warning: null as string | null,
       total: null as number | null,
       date: null as string | null,
       description: null as string | null,
       expense_items: [] as any[],
+      fuel_litres: null as number | null,
+      fuel_price_per_litre: null as number | null,
+      odometer_reading: null as number | null,
     };
 
     // Check for tool call response
@@ -283,10 +416,15 @@ ${decodedText}`
           vendor_address: args.vendor_address || null,
           subtotal: args.subtotal || null,
           tax_amount: args.tax_amount || null,
+          tax_components: toTaxComponents(args.tax_components),
+          tax_warning: null,
           total: args.total || null,
           date: args.date || null,
           description: args.expense_items?.[0]?.description || null,
           expense_items: args.expense_items || [],
+          fuel_litres: args.fuel_litres || null,
+          fuel_price_per_litre: args.fuel_price_per_litre || null,
+          odometer_reading: args.odometer_reading || null,
         };
 
         // If no expense_items were returned but we have a total, create a single item
@@ -317,10 +455,15 @@ ${decodedText}`
               vendor_address: parsed.vendor_address || null,
               subtotal: parsed.subtotal || null,
               tax_amount: parsed.tax_amount || null,
+              tax_components: toTaxComponents(parsed.tax_components),
+              tax_warning: null,
               total: parsed.total || null,
               date: parsed.date || null,
               description: parsed.description || null,
               expense_items: parsed.expense_items || [],
+              fuel_litres: parsed.fuel_litres || null,
+              fuel_price_per_litre: parsed.fuel_price_per_litre || null,
+              odometer_reading: parsed.odometer_reading || null,
             };
           }
         } catch (parseError) {
@@ -329,6 +472,8 @@ ${decodedText}`
       }
     }
 
+    extractedData.tax_warning = checkScannedTax(tax, extractedData.subtotal, extractedData.tax_components);
+
     console.log("Final extracted data:", JSON.stringify(extractedData));
 
     return new Response(
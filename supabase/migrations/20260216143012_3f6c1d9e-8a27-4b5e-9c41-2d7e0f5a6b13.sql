@@ -0,0 +1,12 @@
+-- Add litres, unit price and odometer to fuel_receipts for fuel economy tracking
+ALTER TABLE public.fuel_receipts
+ADD COLUMN litres NUMERIC,
+ADD COLUMN price_per_litre NUMERIC,
+ADD COLUMN odometer_km INTEGER;
+
+-- Fuel economy is computed from consecutive fill-ups per vehicle
+CREATE INDEX idx_fuel_receipts_vehicle_date ON public.fuel_receipts(vehicle_id, date);
+
+COMMENT ON COLUMN public.fuel_receipts.litres IS 'Litres of fuel purchased';
+COMMENT ON COLUMN public.fuel_receipts.price_per_litre IS 'Pump price per litre';
+COMMENT ON COLUMN public.fuel_receipts.odometer_km IS 'Vehicle odometer reading at the time of fill-up';
@@ -0,0 +1,63 @@
+-- Populate audit_logs from row-level triggers so every change is recorded with its before/after data
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.audit_logs (table_name, record_id, action, old_data, new_data, user_id)
+    VALUES (TG_TABLE_NAME, NEW.id, 'INSERT', NULL, to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Skip updates that did not change anything
+    IF to_jsonb(OLD) = to_jsonb(NEW) THEN
+      RETURN NEW;
+    END IF;
+    INSERT INTO public.audit_logs (table_name, record_id, action, old_data, new_data, user_id)
+    VALUES (TG_TABLE_NAME, NEW.id, 'UPDATE', to_jsonb(OLD), to_jsonb(NEW), auth.uid());
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    INSERT INTO public.audit_logs (table_name, record_id, action, old_data, new_data, user_id)
+    VALUES (TG_TABLE_NAME, OLD.id, 'DELETE', to_jsonb(OLD), NULL, auth.uid());
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Audit triggers on the fleet, expense and configuration tables
+CREATE TRIGGER audit_vehicles AFTER INSERT OR UPDATE OR DELETE ON public.vehicles
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_expenses AFTER INSERT OR UPDATE OR DELETE ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_fuel_receipts AFTER INSERT OR UPDATE OR DELETE ON public.fuel_receipts
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_branches AFTER INSERT OR UPDATE OR DELETE ON public.branches
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_vendors AFTER INSERT OR UPDATE OR DELETE ON public.vendors
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_expense_categories AFTER INSERT OR UPDATE OR DELETE ON public.expense_categories
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_expense_preapproval_rules AFTER INSERT OR UPDATE OR DELETE ON public.expense_preapproval_rules
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_vehicle_inspections AFTER INSERT OR UPDATE OR DELETE ON public.vehicle_inspections
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_tire_changes AFTER INSERT OR UPDATE OR DELETE ON public.tire_changes
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_user_roles AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Indexes for the audit log viewer and per-record history
+CREATE INDEX IF NOT EXISTS idx_audit_logs_record ON public.audit_logs (table_name, record_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON public.audit_logs (created_at DESC);
@@ -0,0 +1,52 @@
+-- Preventive maintenance schedules: a service interval by km and/or months,
+-- scoped to one vehicle, a make/model, or the whole fleet
+CREATE TABLE public.maintenance_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  category_id UUID NOT NULL REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  make TEXT,
+  model TEXT,
+  interval_km INTEGER,
+  interval_months INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT maintenance_schedules_interval_check CHECK (
+    (interval_km IS NOT NULL AND interval_km > 0) OR (interval_months IS NOT NULL AND interval_months > 0)
+  )
+);
+
+-- Enable RLS
+ALTER TABLE public.maintenance_schedules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view maintenance schedules"
+ON public.maintenance_schedules
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Admins and managers can manage maintenance schedules"
+ON public.maintenance_schedules
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Require authentication for maintenance_schedules"
+ON public.maintenance_schedules
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_maintenance_schedules_updated_at
+BEFORE UPDATE ON public.maintenance_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record schedule changes in the audit log
+CREATE TRIGGER audit_maintenance_schedules AFTER INSERT OR UPDATE OR DELETE ON public.maintenance_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Speeds up finding the last service of a category for a vehicle
+CREATE INDEX IF NOT EXISTS idx_expenses_vehicle_category_date ON public.expenses (vehicle_id, category_id, date DESC);
@@ -0,0 +1,317 @@
+-- Multi-level approval chains: pending expenses are routed through ordered
+-- approval steps chosen by amount (and optionally branch)
+CREATE TABLE public.approval_chains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  branch_id UUID REFERENCES public.branches(id) ON DELETE CASCADE,
+  min_amount NUMERIC NOT NULL DEFAULT 0,
+  max_amount NUMERIC,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT approval_chains_amount_range_check CHECK (max_amount IS NULL OR max_amount > min_amount)
+);
+
+CREATE TABLE public.approval_chain_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chain_id UUID NOT NULL REFERENCES public.approval_chains(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  approver_role TEXT NOT NULL CHECK (approver_role IN ('manager', 'admin')),
+  approver_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (chain_id, step_order)
+);
+
+-- One row per step of an expense's approval; each step keeps its own approver, timestamp and comment
+CREATE TABLE public.expense_approval_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  chain_id UUID REFERENCES public.approval_chains(id) ON DELETE SET NULL,
+  step_order INTEGER NOT NULL,
+  approver_role TEXT NOT NULL CHECK (approver_role IN ('manager', 'admin')),
+  approver_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  acted_by UUID REFERENCES auth.users(id),
+  acted_at TIMESTAMP WITH TIME ZONE,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (expense_id, step_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_approval_steps_expense ON public.expense_approval_steps (expense_id, step_order);
+
+-- Enable RLS
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.expense_approval_steps ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view approval chains"
+ON public.approval_chains
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Admins can manage approval chains"
+ON public.approval_chains
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for approval_chains"
+ON public.approval_chains
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Approved users can view approval chain steps"
+ON public.approval_chain_steps
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Admins can manage approval chain steps"
+ON public.approval_chain_steps
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for approval_chain_steps"
+ON public.approval_chain_steps
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Steps are only written by the routing trigger and the approve/reject functions below
+CREATE POLICY "Approved users can view expense approval steps"
+ON public.expense_approval_steps
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Require authentication for expense_approval_steps"
+ON public.expense_approval_steps
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_approval_chains_updated_at
+BEFORE UPDATE ON public.approval_chains
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record approval configuration and decisions in the audit log
+CREATE TRIGGER audit_approval_chains AFTER INSERT OR UPDATE OR DELETE ON public.approval_chains
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_expense_approval_steps AFTER INSERT OR UPDATE OR DELETE ON public.expense_approval_steps
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Check whether a user may act on an approval step
+CREATE OR REPLACE FUNCTION public.can_act_on_approval_step(_user_id uuid, _approver_role text, _approver_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _approver_user_id IS NOT NULL THEN _approver_user_id = _user_id OR is_admin(_user_id)
+    WHEN _approver_role = 'admin' THEN is_admin(_user_id)
+    ELSE is_admin_or_manager(_user_id)
+  END
+$$;
+
+-- Build the approval steps for an expense when it enters (or re-enters) the pending state.
+-- Branch-specific chains win over chains for all branches.
+CREATE OR REPLACE FUNCTION public.route_expense_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _chain_id uuid;
+BEGIN
+  IF NEW.approval_status IS DISTINCT FROM 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.approval_status IS NOT DISTINCT FROM 'pending'
+     AND OLD.amount = NEW.amount
+     AND OLD.branch_id IS NOT DISTINCT FROM NEW.branch_id THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.expense_approval_steps WHERE expense_id = NEW.id;
+
+  SELECT c.id INTO _chain_id
+  FROM public.approval_chains c
+  WHERE c.is_active
+    AND (c.branch_id IS NULL OR c.branch_id = NEW.branch_id)
+    AND NEW.amount >= c.min_amount
+    AND (c.max_amount IS NULL OR NEW.amount < c.max_amount)
+  ORDER BY (c.branch_id IS NULL), c.min_amount DESC
+  LIMIT 1;
+
+  IF _chain_id IS NOT NULL THEN
+    INSERT INTO public.expense_approval_steps (expense_id, chain_id, step_order, approver_role, approver_user_id)
+    SELECT NEW.id, s.chain_id, s.step_order, s.approver_role, s.approver_user_id
+    FROM public.approval_chain_steps s
+    WHERE s.chain_id = _chain_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_expense_approval
+AFTER INSERT OR UPDATE OF approval_status, amount, branch_id ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.route_expense_approval();
+
+-- Stop expenses with outstanding approval steps from being approved directly
+CREATE OR REPLACE FUNCTION public.enforce_expense_approval_steps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.approval_status = 'pending'
+     AND NEW.approval_status = 'approved'
+     AND coalesce(current_setting('app.approval_step_action', true), '') <> 'on'
+     AND EXISTS (
+       SELECT 1 FROM public.expense_approval_steps
+       WHERE expense_id = NEW.id AND status = 'pending'
+     ) THEN
+    RAISE EXCEPTION 'This expense has outstanding approval steps and must be approved step by step';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_expense_approval_steps
+BEFORE UPDATE OF approval_status ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_expense_approval_steps();
+
+-- Approve the current step of a pending expense. The expense is approved once its last step is.
+-- Expenses without a matching chain keep the single-step behaviour: any admin or manager approves.
+CREATE OR REPLACE FUNCTION public.approve_expense_step(_expense_id uuid, _comment text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step public.expense_approval_steps%ROWTYPE;
+  _remaining integer;
+BEGIN
+  IF NOT is_user_approved(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.expenses WHERE id = _expense_id AND approval_status = 'pending') THEN
+    RAISE EXCEPTION 'Expense is not pending approval';
+  END IF;
+
+  SELECT * INTO _step
+  FROM public.expense_approval_steps
+  WHERE expense_id = _expense_id AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF _step.id IS NULL THEN
+    IF NOT is_admin_or_manager(auth.uid()) THEN
+      RAISE EXCEPTION 'Not authorized';
+    END IF;
+  ELSE
+    IF NOT can_act_on_approval_step(auth.uid(), _step.approver_role, _step.approver_user_id) THEN
+      RAISE EXCEPTION 'You are not the approver for the current step';
+    END IF;
+
+    UPDATE public.expense_approval_steps
+    SET status = 'approved', acted_by = auth.uid(), acted_at = now(), comment = _comment
+    WHERE id = _step.id;
+  END IF;
+
+  SELECT count(*) INTO _remaining
+  FROM public.expense_approval_steps
+  WHERE expense_id = _expense_id AND status = 'pending';
+
+  IF _remaining > 0 THEN
+    RETURN 'pending';
+  END IF;
+
+  PERFORM set_config('app.approval_step_action', 'on', true);
+  UPDATE public.expenses
+  SET approval_status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = _expense_id;
+
+  RETURN 'approved';
+END;
+$$;
+
+-- Reject a pending expense at its current step
+CREATE OR REPLACE FUNCTION public.reject_expense_step(_expense_id uuid, _comment text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step public.expense_approval_steps%ROWTYPE;
+BEGIN
+  IF NOT is_user_approved(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.expenses WHERE id = _expense_id AND approval_status = 'pending') THEN
+    RAISE EXCEPTION 'Expense is not pending approval';
+  END IF;
+
+  SELECT * INTO _step
+  FROM public.expense_approval_steps
+  WHERE expense_id = _expense_id AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF _step.id IS NULL THEN
+    IF NOT is_admin_or_manager(auth.uid()) THEN
+      RAISE EXCEPTION 'Not authorized';
+    END IF;
+  ELSE
+    IF NOT can_act_on_approval_step(auth.uid(), _step.approver_role, _step.approver_user_id) THEN
+      RAISE EXCEPTION 'You are not the approver for the current step';
+    END IF;
+
+    UPDATE public.expense_approval_steps
+    SET status = 'rejected', acted_by = auth.uid(), acted_at = now(), comment = _comment
+    WHERE id = _step.id;
+  END IF;
+
+  UPDATE public.expenses
+  SET approval_status = 'rejected', approved_by = auth.uid(), approved_at = now(), rejection_reason = _comment
+  WHERE id = _expense_id;
+
+  RETURN 'rejected';
+END;
+$$;
+
+-- Default chains: under $500 a branch manager, $500 – $5,000 a manager then an admin,
+-- over $5,000 an admin
+WITH chains AS (
+  INSERT INTO public.approval_chains (name, min_amount, max_amount)
+  VALUES
+    ('Under $500', 0, 500),
+    ('$500 – $5,000', 500, 5000),
+    ('Over $5,000', 5000, NULL)
+  RETURNING id, name
+)
+INSERT INTO public.approval_chain_steps (chain_id, step_order, approver_role)
+SELECT c.id, s.step_order, s.approver_role
+FROM chains c
+JOIN (VALUES
+  ('Under $500', 1, 'manager'),
+  ('$500 – $5,000', 1, 'manager'),
+  ('$500 – $5,000', 2, 'admin'),
+  ('Over $5,000', 1, 'admin')
+) AS s(chain_name, step_order, approver_role) ON s.chain_name = c.name;
@@ -0,0 +1,61 @@
+-- Spending budgets for a year or a single month, scoped by any combination of
+-- branch, expense category and vehicle (all empty = whole fleet)
+CREATE TABLE public.budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_type TEXT NOT NULL DEFAULT 'annual' CHECK (period_type IN ('annual', 'monthly')),
+  year INTEGER NOT NULL,
+  month INTEGER,
+  branch_id UUID REFERENCES public.branches(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  warning_threshold_percent NUMERIC NOT NULL DEFAULT 80 CHECK (warning_threshold_percent > 0 AND warning_threshold_percent <= 100),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT budgets_period_check CHECK (
+    (period_type = 'annual' AND month IS NULL) OR
+    (period_type = 'monthly' AND month BETWEEN 1 AND 12)
+  )
+);
+
+-- One budget per scope and period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_scope_period ON public.budgets (
+  period_type,
+  year,
+  coalesce(month, 0),
+  coalesce(branch_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  coalesce(category_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  coalesce(vehicle_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+-- Enable RLS
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view budgets"
+ON public.budgets
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Admins can manage budgets"
+ON public.budgets
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for budgets"
+ON public.budgets
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_budgets_updated_at
+BEFORE UPDATE ON public.budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record budget changes in the audit log
+CREATE TRIGGER audit_budgets AFTER INSERT OR UPDATE OR DELETE ON public.budgets
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
@@ -0,0 +1,128 @@
+-- Fingerprint uploaded documents so the same file can be recognised when it is uploaded again,
+-- and link fuel receipt uploads to their receipt (they were only linked through the file path)
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS file_hash TEXT,
+  ADD COLUMN IF NOT EXISTS fuel_receipt_id UUID REFERENCES public.fuel_receipts(id) ON DELETE CASCADE;
+
+UPDATE public.documents d
+SET fuel_receipt_id = f.id
+FROM public.fuel_receipts f
+WHERE d.fuel_receipt_id IS NULL
+  AND d.file_path LIKE 'fuel/%'
+  AND split_part(d.file_path, '/', 2) = f.id::text;
+
+CREATE INDEX IF NOT EXISTS idx_documents_file_hash ON public.documents (file_hash) WHERE file_hash IS NOT NULL;
+
+-- An expense that looks like a second copy of another expense or of a fuel receipt
+CREATE TABLE public.duplicate_flags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  match_expense_id UUID REFERENCES public.expenses(id) ON DELETE CASCADE,
+  match_fuel_receipt_id UUID REFERENCES public.fuel_receipts(id) ON DELETE CASCADE,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'merged')),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT duplicate_flags_one_match_check CHECK (
+    (match_expense_id IS NOT NULL) <> (match_fuel_receipt_id IS NOT NULL)
+  ),
+  CONSTRAINT duplicate_flags_not_self_check CHECK (match_expense_id IS DISTINCT FROM expense_id)
+);
+
+-- One flag per pair, whatever its status, so dismissed pairs are not flagged again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_duplicate_flags_pair ON public.duplicate_flags (
+  expense_id,
+  coalesce(match_expense_id, match_fuel_receipt_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_flags_open ON public.duplicate_flags (expense_id) WHERE status = 'open';
+
+-- Enable RLS
+ALTER TABLE public.duplicate_flags ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view duplicate flags"
+ON public.duplicate_flags
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+-- Staff flag their own submissions when they save past the duplicate warning
+CREATE POLICY "Approved users can create duplicate flags"
+ON public.duplicate_flags
+FOR INSERT
+WITH CHECK (is_user_approved(auth.uid()) AND status = 'open');
+
+CREATE POLICY "Approved admins and managers can resolve duplicate flags"
+ON public.duplicate_flags
+FOR UPDATE
+USING (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Require authentication for duplicate_flags"
+ON public.duplicate_flags
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Record duplicate decisions in the audit log
+CREATE TRIGGER audit_duplicate_flags AFTER INSERT OR UPDATE OR DELETE ON public.duplicate_flags
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Merge a flagged pair into one record. The removed expense is soft-deleted and its documents
+-- move to the record that is kept. A fuel receipt is always the record kept, since fuel
+-- economy is calculated from fuel receipts.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_expense(_flag_id uuid, _keep_flagged boolean DEFAULT false)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flag public.duplicate_flags%ROWTYPE;
+  _removed_id uuid;
+  _kept_id uuid;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO _flag FROM public.duplicate_flags WHERE id = _flag_id;
+
+  IF _flag.id IS NULL OR _flag.status <> 'open' THEN
+    RAISE EXCEPTION 'Duplicate flag is not open';
+  END IF;
+
+  IF _flag.match_fuel_receipt_id IS NOT NULL THEN
+    _removed_id := _flag.expense_id;
+
+    UPDATE public.documents
+    SET expense_id = NULL, fuel_receipt_id = _flag.match_fuel_receipt_id
+    WHERE expense_id = _removed_id;
+  ELSE
+    IF _keep_flagged THEN
+      _removed_id := _flag.match_expense_id;
+      _kept_id := _flag.expense_id;
+    ELSE
+      _removed_id := _flag.expense_id;
+      _kept_id := _flag.match_expense_id;
+    END IF;
+
+    UPDATE public.documents
+    SET expense_id = _kept_id
+    WHERE expense_id = _removed_id;
+  END IF;
+
+  UPDATE public.expenses
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE id = _removed_id AND deleted_at IS NULL;
+
+  -- Other open flags on the removed expense are settled by this merge too
+  UPDATE public.duplicate_flags
+  SET status = 'merged', resolved_by = auth.uid(), resolved_at = now()
+  WHERE status = 'open'
+    AND (id = _flag_id OR expense_id = _removed_id OR match_expense_id = _removed_id);
+
+  RETURN _removed_id;
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Saved CSV column mappings for bulk import, named per vendor or source system
+CREATE TABLE public.import_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  delimiter TEXT NOT NULL DEFAULT ',' CHECK (delimiter IN (',', ';', E'\t', '|')),
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view import profiles"
+ON public.import_profiles
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved users can create import profiles"
+ON public.import_profiles
+FOR INSERT
+WITH CHECK (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved users can update import profiles"
+ON public.import_profiles
+FOR UPDATE
+USING (is_user_approved(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins can delete import profiles"
+ON public.import_profiles
+FOR DELETE
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for import_profiles"
+ON public.import_profiles
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_import_profiles_updated_at
+BEFORE UPDATE ON public.import_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
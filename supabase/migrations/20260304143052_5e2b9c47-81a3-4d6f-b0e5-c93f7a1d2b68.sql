@@ -0,0 +1,141 @@
+-- Record of free-text vendor names linked to a vendor and of duplicate vendors merged into one
+CREATE TABLE public.vendor_reconciliations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  action TEXT NOT NULL CHECK (action IN ('link', 'merge')),
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  vendor_name TEXT NOT NULL,
+  -- Free-text names that were linked, or the names of the vendors merged away
+  source_names TEXT[] NOT NULL DEFAULT '{}',
+  source_vendor_ids UUID[] NOT NULL DEFAULT '{}',
+  expenses_updated INTEGER NOT NULL DEFAULT 0,
+  fuel_receipts_updated INTEGER NOT NULL DEFAULT 0,
+  performed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_reconciliations_created_at ON public.vendor_reconciliations (created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.vendor_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (rows are only written by the functions below)
+CREATE POLICY "Approved admins can view vendor reconciliations"
+ON public.vendor_reconciliations
+FOR SELECT
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for vendor_reconciliations"
+ON public.vendor_reconciliations
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER audit_vendor_reconciliations AFTER INSERT OR UPDATE OR DELETE ON public.vendor_reconciliations
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE INDEX IF NOT EXISTS idx_expenses_unlinked_vendor_name ON public.expenses (vendor_name) WHERE vendor_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_fuel_receipts_unlinked_vendor_name ON public.fuel_receipts (vendor_name) WHERE vendor_id IS NULL;
+
+-- Link every expense and fuel receipt carrying one of the free-text names to a vendor,
+-- and rename them to the vendor's name. The old spellings stay in the audit log.
+CREATE OR REPLACE FUNCTION public.link_vendor_names(_vendor_id uuid, _names text[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _vendor public.vendors%ROWTYPE;
+  _expenses integer;
+  _fuel_receipts integer;
+  _reconciliation_id uuid;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO _vendor FROM public.vendors WHERE id = _vendor_id;
+
+  IF _vendor.id IS NULL THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  UPDATE public.expenses
+  SET vendor_id = _vendor.id, vendor_name = _vendor.name
+  WHERE vendor_id IS NULL AND vendor_name = ANY(_names);
+  GET DIAGNOSTICS _expenses = ROW_COUNT;
+
+  UPDATE public.fuel_receipts
+  SET vendor_id = _vendor.id, vendor_name = _vendor.name
+  WHERE vendor_id IS NULL AND vendor_name = ANY(_names);
+  GET DIAGNOSTICS _fuel_receipts = ROW_COUNT;
+
+  INSERT INTO public.vendor_reconciliations
+    (action, vendor_id, vendor_name, source_names, expenses_updated, fuel_receipts_updated, performed_by)
+  VALUES
+    ('link', _vendor.id, _vendor.name, _names, _expenses, _fuel_receipts, auth.uid())
+  RETURNING id INTO _reconciliation_id;
+
+  RETURN _reconciliation_id;
+END;
+$$;
+
+-- Merge duplicate vendor records into one. Expenses, fuel receipts and import profiles
+-- move to the vendor that is kept, then the duplicates are deleted.
+CREATE OR REPLACE FUNCTION public.merge_vendors(_target_vendor_id uuid, _source_vendor_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target public.vendors%ROWTYPE;
+  _source_ids uuid[];
+  _source_names text[];
+  _expenses integer;
+  _fuel_receipts integer;
+  _reconciliation_id uuid;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO _target FROM public.vendors WHERE id = _target_vendor_id;
+
+  IF _target.id IS NULL THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  SELECT coalesce(array_agg(id), '{}'), coalesce(array_agg(name), '{}')
+  INTO _source_ids, _source_names
+  FROM public.vendors
+  WHERE id = ANY(_source_vendor_ids) AND id <> _target.id;
+
+  IF cardinality(_source_ids) = 0 THEN
+    RAISE EXCEPTION 'No vendors to merge';
+  END IF;
+
+  UPDATE public.expenses
+  SET vendor_id = _target.id, vendor_name = _target.name
+  WHERE vendor_id = ANY(_source_ids);
+  GET DIAGNOSTICS _expenses = ROW_COUNT;
+
+  UPDATE public.fuel_receipts
+  SET vendor_id = _target.id, vendor_name = _target.name
+  WHERE vendor_id = ANY(_source_ids);
+  GET DIAGNOSTICS _fuel_receipts = ROW_COUNT;
+
+  UPDATE public.import_profiles
+  SET vendor_id = _target.id
+  WHERE vendor_id = ANY(_source_ids);
+
+  DELETE FROM public.vendors WHERE id = ANY(_source_ids);
+
+  INSERT INTO public.vendor_reconciliations
+    (action, vendor_id, vendor_name, source_names, source_vendor_ids, expenses_updated, fuel_receipts_updated, performed_by)
+  VALUES
+    ('merge', _target.id, _target.name, _source_names, _source_ids, _expenses, _fuel_receipts, auth.uid())
+  RETURNING id INTO _reconciliation_id;
+
+  RETURN _reconciliation_id;
+END;
+$$;
@@ -0,0 +1,95 @@
+-- Vehicle lifecycle: ordered, in service, in the shop, on loan, awaiting disposal, sold or written off.
+-- "active" and "maintenance" keep their values (in service and in the shop). Retired vehicles
+-- have no sale on record, so they become written off.
+ALTER TABLE public.vehicles DROP CONSTRAINT IF EXISTS vehicles_status_check;
+
+UPDATE public.vehicles SET status = 'written_off' WHERE status = 'retired';
+
+ALTER TABLE public.vehicles
+  ADD CONSTRAINT vehicles_status_check CHECK (
+    status IN ('on_order', 'active', 'maintenance', 'loaner', 'pending_disposal', 'sold', 'written_off')
+  ),
+  ADD COLUMN IF NOT EXISTS status_changed_on DATE,
+  ADD COLUMN IF NOT EXISTS disposal_date DATE,
+  ADD COLUMN IF NOT EXISTS sale_price NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS buyer_name TEXT,
+  ADD COLUMN IF NOT EXISTS final_odometer_km INTEGER;
+
+UPDATE public.vehicles SET status_changed_on = created_at::date WHERE status_changed_on IS NULL;
+
+-- One row per status a vehicle has been in, dated from when it took effect
+CREATE TABLE public.vehicle_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  previous_status TEXT,
+  effective_date DATE NOT NULL,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_status_history_vehicle ON public.vehicle_status_history (vehicle_id, effective_date);
+
+INSERT INTO public.vehicle_status_history (vehicle_id, status, effective_date)
+SELECT id, status, status_changed_on FROM public.vehicles;
+
+-- Enable RLS
+ALTER TABLE public.vehicle_status_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (rows are only written by the trigger below)
+CREATE POLICY "Approved users can view vehicle status history"
+ON public.vehicle_status_history
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Require authentication for vehicle_status_history"
+ON public.vehicle_status_history
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- A status change saved without a date took effect today
+CREATE OR REPLACE FUNCTION public.date_vehicle_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status_changed_on := coalesce(NEW.status_changed_on, current_date);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status_changed_on IS NOT DISTINCT FROM OLD.status_changed_on THEN
+    NEW.status_changed_on := current_date;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_vehicle_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.vehicle_status_history (vehicle_id, status, previous_status, effective_date, changed_by)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status_changed_on,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER date_vehicle_status_change
+BEFORE INSERT OR UPDATE ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.date_vehicle_status_change();
+
+CREATE TRIGGER log_vehicle_status_change
+AFTER INSERT OR UPDATE OF status ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.log_vehicle_status_change();
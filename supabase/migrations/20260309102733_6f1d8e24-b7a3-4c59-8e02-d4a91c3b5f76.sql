@@ -0,0 +1,98 @@
+-- A shop visit for a vehicle, from drop-off to pick-up, with the expense that paid for it
+CREATE TABLE public.work_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  vendor_name TEXT,
+  status TEXT NOT NULL DEFAULT 'opened' CHECK (status IN ('opened', 'in_progress', 'waiting_for_parts', 'completed')),
+  description TEXT NOT NULL,
+  estimated_cost NUMERIC(12, 2),
+  actual_cost NUMERIC(12, 2),
+  odometer_km INTEGER,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT work_orders_completed_check CHECK ((status = 'completed') = (completed_at IS NOT NULL)),
+  CONSTRAINT work_orders_dates_check CHECK (completed_at IS NULL OR completed_at >= opened_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_vehicle ON public.work_orders (vehicle_id, opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_work_orders_open ON public.work_orders (vehicle_id) WHERE status <> 'completed';
+
+-- The expense (usually the shop's invoice) that settles a work order
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS work_order_id UUID REFERENCES public.work_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_work_order ON public.expenses (work_order_id) WHERE work_order_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.work_orders ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view work orders"
+ON public.work_orders
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved users can create work orders"
+ON public.work_orders
+FOR INSERT
+WITH CHECK (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved users can update work orders"
+ON public.work_orders
+FOR UPDATE
+USING (is_user_approved(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins and managers can delete work orders"
+ON public.work_orders
+FOR DELETE
+USING (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Require authentication for work_orders"
+ON public.work_orders
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_work_orders_updated_at
+BEFORE UPDATE ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_work_orders AFTER INSERT OR UPDATE OR DELETE ON public.work_orders
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Keep the vehicle's status in step with its work orders: a vehicle on the road goes into
+-- the shop when a work order opens, and comes back into service when its last one is completed
+CREATE OR REPLACE FUNCTION public.sync_vehicle_status_from_work_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'completed' THEN
+    UPDATE public.vehicles
+    SET status = 'maintenance', status_changed_on = NEW.opened_at::date
+    WHERE id = NEW.vehicle_id AND status IN ('active', 'loaner');
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.work_orders
+    WHERE vehicle_id = NEW.vehicle_id AND status <> 'completed' AND id <> NEW.id
+  ) THEN
+    UPDATE public.vehicles
+    SET status = 'active', status_changed_on = NEW.completed_at::date
+    WHERE id = NEW.vehicle_id AND status = 'maintenance';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_vehicle_status_from_work_order
+AFTER INSERT OR UPDATE OF status ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_vehicle_status_from_work_order();
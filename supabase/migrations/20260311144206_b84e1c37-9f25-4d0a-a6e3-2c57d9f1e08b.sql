@@ -0,0 +1,175 @@
+-- A problem found on a vehicle, opened from a failed inspection item and followed until it is repaired
+CREATE TABLE public.vehicle_defects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  inspection_id UUID REFERENCES public.vehicle_inspections(id) ON DELETE SET NULL,
+  item_key TEXT NOT NULL,
+  notes TEXT,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'critical')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  due_date DATE,
+  repair_expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES auth.users(id),
+  resolution TEXT CHECK (resolution IN ('repair_approved', 'passed_inspection', 'manual')),
+  closing_inspection_id UUID REFERENCES public.vehicle_inspections(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT vehicle_defects_closed_check CHECK ((status = 'closed') = (closed_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_defects_vehicle ON public.vehicle_defects (vehicle_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_defects_inspection ON public.vehicle_defects (inspection_id);
+CREATE INDEX IF NOT EXISTS idx_vehicle_defects_repair_expense ON public.vehicle_defects (repair_expense_id) WHERE repair_expense_id IS NOT NULL;
+-- Only one open defect per vehicle and inspection item; repeat failures keep the existing one open
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_defects_open_item ON public.vehicle_defects (vehicle_id, item_key) WHERE status = 'open';
+
+-- Enable RLS
+ALTER TABLE public.vehicle_defects ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view vehicle defects"
+ON public.vehicle_defects
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved users can update vehicle defects"
+ON public.vehicle_defects
+FOR UPDATE
+USING (is_user_approved(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins can delete vehicle defects"
+ON public.vehicle_defects
+FOR DELETE
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for vehicle_defects"
+ON public.vehicle_defects
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_vehicle_defects_updated_at
+BEFORE UPDATE ON public.vehicle_defects
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_vehicle_defects AFTER INSERT OR UPDATE OR DELETE ON public.vehicle_defects
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Severity and days to fix for each inspection item. Brakes, tires and lights are safety-critical:
+-- a vehicle with an open critical defect is not roadworthy.
+CREATE OR REPLACE FUNCTION public.inspection_defect_rules()
+RETURNS TABLE (item_key TEXT, severity TEXT, due_days INTEGER)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  VALUES
+    ('brakes', 'critical', 2),
+    ('engine', 'medium', 14),
+    ('transmission', 'medium', 14),
+    ('tires', 'critical', 2),
+    ('headlights', 'critical', 2),
+    ('signal_lights', 'critical', 2),
+    ('oil_level', 'low', 7),
+    ('windshield_fluid', 'low', 7),
+    ('wipers', 'medium', 7)
+$$;
+
+-- Open a defect for every failed item of a new inspection, and close the open defects of
+-- items that now pass
+CREATE OR REPLACE FUNCTION public.sync_defects_from_inspection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _inspection JSONB := to_jsonb(NEW);
+  _item RECORD;
+BEGIN
+  FOR _item IN SELECT * FROM public.inspection_defect_rules() LOOP
+    IF (_inspection ->> (_item.item_key || '_pass'))::boolean THEN
+      UPDATE public.vehicle_defects
+      SET status = 'closed', closed_at = now(), closed_by = NEW.completed_by,
+          resolution = 'passed_inspection', closing_inspection_id = NEW.id
+      WHERE vehicle_id = NEW.vehicle_id AND item_key = _item.item_key AND status = 'open';
+    ELSE
+      INSERT INTO public.vehicle_defects (vehicle_id, inspection_id, item_key, notes, severity, due_date)
+      VALUES (
+        NEW.vehicle_id, NEW.id, _item.item_key, _inspection ->> (_item.item_key || '_notes'),
+        _item.severity, NEW.inspection_date + _item.due_days
+      )
+      ON CONFLICT (vehicle_id, item_key) WHERE status = 'open' DO NOTHING;
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_defects_from_inspection
+AFTER INSERT ON public.vehicle_inspections
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_defects_from_inspection();
+
+-- Close a defect as soon as its linked repair expense is approved, whether the expense is
+-- linked after approval or approved after it was linked
+CREATE OR REPLACE FUNCTION public.close_defect_on_approved_repair()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'open' AND NEW.repair_expense_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.expenses
+    WHERE id = NEW.repair_expense_id AND approval_status = 'approved' AND deleted_at IS NULL
+  ) THEN
+    NEW.status := 'closed';
+    NEW.closed_at := now();
+    NEW.closed_by := auth.uid();
+    NEW.resolution := 'repair_approved';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER close_defect_on_approved_repair
+BEFORE INSERT OR UPDATE OF repair_expense_id ON public.vehicle_defects
+FOR EACH ROW
+EXECUTE FUNCTION public.close_defect_on_approved_repair();
+
+CREATE OR REPLACE FUNCTION public.close_defects_for_approved_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approval_status = 'approved' AND OLD.approval_status IS DISTINCT FROM 'approved' AND NEW.deleted_at IS NULL THEN
+    UPDATE public.vehicle_defects
+    SET status = 'closed', closed_at = now(), closed_by = auth.uid(), resolution = 'repair_approved'
+    WHERE repair_expense_id = NEW.id AND status = 'open';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER close_defects_for_approved_expense
+AFTER UPDATE OF approval_status ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.close_defects_for_approved_expense();
+
+-- Open defects for the items each vehicle failed on its most recent inspection
+INSERT INTO public.vehicle_defects (vehicle_id, inspection_id, item_key, notes, severity, due_date)
+SELECT latest.vehicle_id, latest.id, rules.item_key, to_jsonb(latest) ->> (rules.item_key || '_notes'),
+       rules.severity, latest.inspection_date + rules.due_days
+FROM (
+  SELECT DISTINCT ON (vehicle_id) *
+  FROM public.vehicle_inspections
+  ORDER BY vehicle_id, inspection_date DESC, created_at DESC
+) AS latest
+CROSS JOIN public.inspection_defect_rules() AS rules
+WHERE NOT (to_jsonb(latest) ->> (rules.item_key || '_pass'))::boolean;
@@ -0,0 +1,237 @@
+-- Body type of a vehicle (pickup, van, ...), used to pick its inspection checklist
+ALTER TABLE public.vehicles
+  ADD COLUMN IF NOT EXISTS vehicle_type TEXT;
+
+-- Admin-managed inspection checklists. A template applies to the whole fleet, a branch,
+-- a vehicle type, or a vehicle type at one branch; the most specific active template wins.
+CREATE TABLE public.inspection_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  branch_id UUID REFERENCES public.branches(id) ON DELETE CASCADE,
+  vehicle_type TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The ordered items of a template. Failing an item opens a defect with its severity, due in due_days.
+CREATE TABLE public.inspection_template_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.inspection_templates(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  item_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  item_type TEXT NOT NULL DEFAULT 'pass_fail' CHECK (item_type IN ('pass_fail', 'numeric', 'photo')),
+  hint TEXT,
+  unit TEXT,
+  min_value NUMERIC,
+  max_value NUMERIC,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'critical')),
+  due_days INTEGER NOT NULL DEFAULT 7 CHECK (due_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT inspection_template_items_key_unique UNIQUE (template_id, item_key),
+  CONSTRAINT inspection_template_items_range_check CHECK (min_value IS NULL OR max_value IS NULL OR min_value <= max_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inspection_template_items_template ON public.inspection_template_items (template_id, position);
+
+-- The template an inspection was recorded against
+ALTER TABLE public.vehicle_inspections
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.inspection_templates(id) ON DELETE SET NULL;
+
+-- One row per checklist item of an inspection. The label, type and unit are copied from the
+-- template item so past inspections read the same after the template is edited or deleted.
+CREATE TABLE public.inspection_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inspection_id UUID NOT NULL REFERENCES public.vehicle_inspections(id) ON DELETE CASCADE,
+  template_item_id UUID REFERENCES public.inspection_template_items(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  item_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  item_type TEXT NOT NULL DEFAULT 'pass_fail' CHECK (item_type IN ('pass_fail', 'numeric', 'photo')),
+  passed BOOLEAN NOT NULL DEFAULT true,
+  numeric_value NUMERIC,
+  unit TEXT,
+  notes TEXT,
+  photo_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT inspection_results_item_unique UNIQUE (inspection_id, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inspection_results_inspection ON public.inspection_results (inspection_id, position);
+
+-- Enable RLS
+ALTER TABLE public.inspection_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inspection_template_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inspection_results ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view inspection templates"
+ON public.inspection_templates
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins can manage inspection templates"
+ON public.inspection_templates
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for inspection_templates"
+ON public.inspection_templates
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Approved users can view inspection template items"
+ON public.inspection_template_items
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins can manage inspection template items"
+ON public.inspection_template_items
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for inspection_template_items"
+ON public.inspection_template_items
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Approved users can view inspection results"
+ON public.inspection_results
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved staff can record inspection results"
+ON public.inspection_results
+FOR INSERT
+WITH CHECK (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins and managers can update inspection results"
+ON public.inspection_results
+FOR UPDATE
+USING (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Approved admins can delete inspection results"
+ON public.inspection_results
+FOR DELETE
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for inspection_results"
+ON public.inspection_results
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Add updated_at triggers
+CREATE TRIGGER update_inspection_templates_updated_at
+BEFORE UPDATE ON public.inspection_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_inspection_template_items_updated_at
+BEFORE UPDATE ON public.inspection_template_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_inspection_templates AFTER INSERT OR UPDATE OR DELETE ON public.inspection_templates
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_inspection_template_items AFTER INSERT OR UPDATE OR DELETE ON public.inspection_template_items
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_inspection_results AFTER INSERT OR UPDATE OR DELETE ON public.inspection_results
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Defects now come from the result rows rather than the fixed columns
+DROP TRIGGER IF EXISTS sync_defects_from_inspection ON public.vehicle_inspections;
+DROP FUNCTION IF EXISTS public.sync_defects_from_inspection();
+
+ALTER TABLE public.vehicle_defects
+  ADD COLUMN IF NOT EXISTS item_label TEXT;
+
+-- The fleet-wide template with the original nine items, which every existing inspection used
+DO $$
+DECLARE
+  _template_id UUID;
+BEGIN
+  INSERT INTO public.inspection_templates (name, description)
+  VALUES ('Standard Monthly Inspection', 'The original nine-item monthly safety checklist')
+  RETURNING id INTO _template_id;
+
+  INSERT INTO public.inspection_template_items (template_id, position, item_key, label, hint, severity, due_days)
+  VALUES
+    (_template_id, 1, 'brakes', 'Brakes', 'Please state if the front, rear or both are the issue and if you believe pads or pads and rotors are required.', 'critical', 2),
+    (_template_id, 2, 'engine', 'Engine', NULL, 'medium', 14),
+    (_template_id, 3, 'transmission', 'Transmission', NULL, 'medium', 14),
+    (_template_id, 4, 'tires', 'Tires', NULL, 'critical', 2),
+    (_template_id, 5, 'headlights', 'Headlights', NULL, 'critical', 2),
+    (_template_id, 6, 'signal_lights', 'Signal Lights', NULL, 'critical', 2),
+    (_template_id, 7, 'oil_level', 'Oil Level', NULL, 'low', 7),
+    (_template_id, 8, 'windshield_fluid', 'Windshield Fluid', NULL, 'low', 7),
+    (_template_id, 9, 'wipers', 'Wipers', NULL, 'medium', 7);
+
+  -- Copy the fixed columns of past inspections into result rows
+  UPDATE public.vehicle_inspections SET template_id = _template_id WHERE template_id IS NULL;
+
+  INSERT INTO public.inspection_results (inspection_id, template_item_id, position, item_key, label, item_type, passed, notes, created_at)
+  SELECT inspection.id, item.id, item.position, item.item_key, item.label, 'pass_fail',
+         (to_jsonb(inspection) ->> (item.item_key || '_pass'))::boolean,
+         to_jsonb(inspection) ->> (item.item_key || '_notes'),
+         inspection.created_at
+  FROM public.vehicle_inspections AS inspection
+  CROSS JOIN public.inspection_template_items AS item
+  WHERE item.template_id = _template_id;
+END;
+$$;
+
+UPDATE public.vehicle_defects AS defect
+SET item_label = item.label
+FROM public.inspection_template_items AS item
+WHERE item.item_key = defect.item_key AND defect.item_label IS NULL;
+
+DROP FUNCTION IF EXISTS public.inspection_defect_rules();
+
+-- Open a defect when an inspection item fails, with the severity and due date set on the
+-- template item, and close the vehicle's open defect for the item when it passes
+CREATE OR REPLACE FUNCTION public.sync_defect_from_inspection_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _inspection public.vehicle_inspections;
+  _severity TEXT;
+  _due_days INTEGER;
+BEGIN
+  SELECT * INTO _inspection FROM public.vehicle_inspections WHERE id = NEW.inspection_id;
+
+  IF NEW.passed THEN
+    UPDATE public.vehicle_defects
+    SET status = 'closed', closed_at = now(), closed_by = _inspection.completed_by,
+        resolution = 'passed_inspection', closing_inspection_id = NEW.inspection_id
+    WHERE vehicle_id = _inspection.vehicle_id AND item_key = NEW.item_key AND status = 'open';
+  ELSE
+    SELECT severity, due_days INTO _severity, _due_days
+    FROM public.inspection_template_items
+    WHERE id = NEW.template_item_id;
+
+    INSERT INTO public.vehicle_defects (vehicle_id, inspection_id, item_key, item_label, notes, severity, due_date)
+    VALUES (
+      _inspection.vehicle_id, NEW.inspection_id, NEW.item_key, NEW.label, NEW.notes,
+      COALESCE(_severity, 'medium'), _inspection.inspection_date + COALESCE(_due_days, 7)
+    )
+    ON CONFLICT (vehicle_id, item_key) WHERE status = 'open' DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_defect_from_inspection_result
+AFTER INSERT ON public.inspection_results
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_defect_from_inspection_result();
@@ -0,0 +1,50 @@
+-- Photos taken during an inspection, stored in the vehicle-documents bucket. A photo belongs to one
+-- checklist item, or to the inspection as a whole when item_key is null.
+CREATE TABLE public.inspection_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inspection_id UUID NOT NULL REFERENCES public.vehicle_inspections(id) ON DELETE CASCADE,
+  item_key TEXT,
+  file_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size INTEGER,
+  annotated BOOLEAN NOT NULL DEFAULT false,
+  uploaded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inspection_photos_inspection ON public.inspection_photos (inspection_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.inspection_photos ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view inspection photos"
+ON public.inspection_photos
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved staff can add inspection photos"
+ON public.inspection_photos
+FOR INSERT
+WITH CHECK (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins can delete inspection photos"
+ON public.inspection_photos
+FOR DELETE
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for inspection_photos"
+ON public.inspection_photos
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER audit_inspection_photos AFTER INSERT OR UPDATE OR DELETE ON public.inspection_photos
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Photos of photo-required items move over from their result row
+INSERT INTO public.inspection_photos (inspection_id, item_key, file_path, file_name, created_at)
+SELECT inspection_id, item_key, photo_path, regexp_replace(photo_path, '^.*/', ''), created_at
+FROM public.inspection_results
+WHERE photo_path IS NOT NULL;
+
+ALTER TABLE public.inspection_results DROP COLUMN IF EXISTS photo_path;
@@ -0,0 +1,244 @@
+-- Every odometer reading of a vehicle with where it came from. Inspections, expenses, fuel
+-- receipts and manual entries record the odometer itself; GPS uploads record the distance
+-- driven. vehicles.odometer_km is derived from these readings and no longer written directly.
+CREATE TABLE public.odometer_readings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  reading_date DATE NOT NULL DEFAULT current_date,
+  source TEXT NOT NULL CHECK (source IN ('inspection', 'expense', 'fuel', 'gps', 'manual')),
+  odometer_km INTEGER CHECK (odometer_km >= 0),
+  distance_km NUMERIC CHECK (distance_km >= 0),
+  inspection_id UUID UNIQUE REFERENCES public.vehicle_inspections(id) ON DELETE CASCADE,
+  expense_id UUID UNIQUE REFERENCES public.expenses(id) ON DELETE CASCADE,
+  fuel_receipt_id UUID UNIQUE REFERENCES public.fuel_receipts(id) ON DELETE CASCADE,
+  gps_upload_id UUID UNIQUE REFERENCES public.gps_uploads(id) ON DELETE CASCADE,
+  -- Set on a reading found to be wrong so it no longer counts towards the current odometer
+  excluded BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT odometer_readings_value_check CHECK ((odometer_km IS NULL) <> (distance_km IS NULL)),
+  CONSTRAINT odometer_readings_gps_distance_check CHECK ((source = 'gps') = (distance_km IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_odometer_readings_vehicle ON public.odometer_readings (vehicle_id, reading_date, created_at);
+
+-- Enable RLS
+ALTER TABLE public.odometer_readings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (readings from other records are only written by the triggers below)
+CREATE POLICY "Approved users can view odometer readings"
+ON public.odometer_readings
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved users can add manual odometer readings"
+ON public.odometer_readings
+FOR INSERT
+WITH CHECK (is_user_approved(auth.uid()) AND source = 'manual');
+
+CREATE POLICY "Approved admins and managers can update odometer readings"
+ON public.odometer_readings
+FOR UPDATE
+USING (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Approved admins can delete manual odometer readings"
+ON public.odometer_readings
+FOR DELETE
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()) AND source = 'manual');
+
+CREATE POLICY "Require authentication for odometer_readings"
+ON public.odometer_readings
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER audit_odometer_readings AFTER INSERT OR UPDATE OR DELETE ON public.odometer_readings
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- The current odometer: the latest recorded reading plus the GPS distance logged after it
+CREATE OR REPLACE FUNCTION public.refresh_vehicle_odometer(_vehicle_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _km NUMERIC := 0;
+  _reading RECORD;
+BEGIN
+  FOR _reading IN
+    SELECT odometer_km, distance_km
+    FROM public.odometer_readings
+    WHERE vehicle_id = _vehicle_id AND NOT excluded
+    ORDER BY reading_date, created_at
+  LOOP
+    _km := COALESCE(_reading.odometer_km, _km + _reading.distance_km);
+  END LOOP;
+
+  UPDATE public.vehicles
+  SET odometer_km = round(_km)
+  WHERE id = _vehicle_id AND odometer_km IS DISTINCT FROM round(_km);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_odometer_on_reading_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_vehicle_odometer(OLD.vehicle_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.vehicle_id <> OLD.vehicle_id) THEN
+    PERFORM public.refresh_vehicle_odometer(NEW.vehicle_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_odometer_on_reading_change
+AFTER INSERT OR UPDATE OR DELETE ON public.odometer_readings
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_odometer_on_reading_change();
+
+-- Keep one reading per source record in step with the record
+CREATE OR REPLACE FUNCTION public.sync_inspection_odometer_reading()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.odometer_readings WHERE inspection_id = NEW.id;
+  IF NEW.kilometers > 0 THEN
+    INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, inspection_id, recorded_by)
+    VALUES (NEW.vehicle_id, NEW.inspection_date, 'inspection', NEW.kilometers, NEW.id, NEW.completed_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_inspection_odometer_reading
+AFTER INSERT OR UPDATE OF kilometers, inspection_date, vehicle_id ON public.vehicle_inspections
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_inspection_odometer_reading();
+
+CREATE OR REPLACE FUNCTION public.sync_expense_odometer_reading()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.odometer_readings WHERE expense_id = NEW.id;
+  IF NEW.odometer_reading > 0 AND NEW.vehicle_id IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, expense_id, recorded_by)
+    VALUES (NEW.vehicle_id, NEW.date, 'expense', NEW.odometer_reading, NEW.id, NEW.created_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_expense_odometer_reading
+AFTER INSERT OR UPDATE OF odometer_reading, date, vehicle_id, deleted_at ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_expense_odometer_reading();
+
+CREATE OR REPLACE FUNCTION public.sync_fuel_odometer_reading()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.odometer_readings WHERE fuel_receipt_id = NEW.id;
+  IF NEW.odometer_km > 0 THEN
+    INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, fuel_receipt_id, recorded_by)
+    VALUES (NEW.vehicle_id, NEW.date, 'fuel', NEW.odometer_km, NEW.id, NEW.created_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_fuel_odometer_reading
+AFTER INSERT OR UPDATE OF odometer_km, date, vehicle_id ON public.fuel_receipts
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_fuel_odometer_reading();
+
+-- GPS distance counts at the end of its month, or when uploaded if the month is not over yet
+CREATE OR REPLACE FUNCTION public.sync_gps_odometer_reading()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.odometer_readings WHERE gps_upload_id = NEW.id;
+  IF NEW.vehicle_id IS NOT NULL AND NEW.kilometers > 0 THEN
+    INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, distance_km, gps_upload_id, recorded_by)
+    VALUES (
+      NEW.vehicle_id,
+      LEAST((date_trunc('month', NEW.upload_month) + interval '1 month - 1 day')::date, NEW.created_at::date),
+      'gps', NEW.kilometers, NEW.id, NEW.uploaded_by
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_gps_odometer_reading
+AFTER INSERT OR UPDATE OF kilometers, upload_month, vehicle_id ON public.gps_uploads
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_gps_odometer_reading();
+
+-- The odometer a vehicle is added with is its first reading
+CREATE OR REPLACE FUNCTION public.record_initial_odometer_reading()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.odometer_km > 0 THEN
+    INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, notes, recorded_by)
+    VALUES (NEW.id, NEW.created_at::date, 'manual', NEW.odometer_km, 'Odometer when added to the fleet', auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_initial_odometer_reading
+AFTER INSERT ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.record_initial_odometer_reading();
+
+-- Backfill the ledger from the records that carry an odometer or GPS distance
+INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, inspection_id, recorded_by, created_at)
+SELECT vehicle_id, inspection_date, 'inspection', kilometers, id, completed_by, created_at
+FROM public.vehicle_inspections
+WHERE kilometers > 0;
+
+INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, expense_id, recorded_by, created_at)
+SELECT vehicle_id, date, 'expense', odometer_reading, id, created_by, created_at
+FROM public.expenses
+WHERE odometer_reading > 0 AND vehicle_id IS NOT NULL AND deleted_at IS NULL;
+
+INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, fuel_receipt_id, recorded_by, created_at)
+SELECT vehicle_id, date, 'fuel', odometer_km, id, created_by, created_at
+FROM public.fuel_receipts
+WHERE odometer_km > 0;
+
+INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, distance_km, gps_upload_id, recorded_by, created_at)
+SELECT vehicle_id,
+       LEAST((date_trunc('month', upload_month) + interval '1 month - 1 day')::date, created_at::date),
+       'gps', kilometers, id, uploaded_by, created_at
+FROM public.gps_uploads
+WHERE vehicle_id IS NOT NULL AND kilometers > 0;
+
+-- Today's odometer as a reading, so the derived value starts from what the fleet shows now
+INSERT INTO public.odometer_readings (vehicle_id, reading_date, source, odometer_km, notes)
+SELECT id, current_date, 'manual', odometer_km, 'Odometer when the reading history started'
+FROM public.vehicles
+WHERE odometer_km > 0;
@@ -0,0 +1,212 @@
+-- Tire sets: one physical set of tires followed across vehicles and seasons
+CREATE TABLE public.tire_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  label TEXT NOT NULL,
+  brand TEXT NOT NULL,
+  model TEXT,
+  measurements TEXT NOT NULL,
+  tire_type TEXT NOT NULL CHECK (tire_type IN ('summer', 'winter', 'all_season')),
+  purchase_date DATE,
+  purchase_cost NUMERIC CHECK (purchase_cost >= 0),
+  -- Tread depth when new, the starting point for wear predictions
+  new_tread_mm NUMERIC CHECK (new_tread_mm > 0),
+  branch_id UUID REFERENCES public.branches(id) ON DELETE SET NULL,
+  -- Where the set is kept while it is not on a vehicle
+  storage_location TEXT,
+  retired_on DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each time a set goes on a vehicle, with the odometer and tread depth at both ends
+CREATE TABLE public.tire_set_mounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tire_set_id UUID NOT NULL REFERENCES public.tire_sets(id) ON DELETE CASCADE,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  mounted_on DATE NOT NULL,
+  mount_odometer_km INTEGER CHECK (mount_odometer_km >= 0),
+  mount_tread_mm NUMERIC CHECK (mount_tread_mm >= 0),
+  dismounted_on DATE,
+  dismount_odometer_km INTEGER CHECK (dismount_odometer_km >= 0),
+  dismount_tread_mm NUMERIC CHECK (dismount_tread_mm >= 0),
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tire_set_mounts_dates_check CHECK (dismounted_on IS NULL OR dismounted_on >= mounted_on)
+);
+
+-- A set is on at most one vehicle, and a vehicle has at most one set on
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tire_set_mounts_open_set ON public.tire_set_mounts (tire_set_id) WHERE dismounted_on IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tire_set_mounts_open_vehicle ON public.tire_set_mounts (vehicle_id) WHERE dismounted_on IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tire_set_mounts_set ON public.tire_set_mounts (tire_set_id, mounted_on);
+
+-- Enable RLS
+ALTER TABLE public.tire_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tire_set_mounts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for tire_sets
+CREATE POLICY "Approved users can view tire sets"
+ON public.tire_sets
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins and managers can manage tire sets"
+ON public.tire_sets
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid()));
+
+CREATE POLICY "Require authentication for tire_sets"
+ON public.tire_sets
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- RLS Policies for tire_set_mounts (written through swap_tire_sets)
+CREATE POLICY "Approved users can view tire set mounts"
+ON public.tire_set_mounts
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins can manage tire set mounts"
+ON public.tire_set_mounts
+FOR ALL
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()))
+WITH CHECK (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for tire_set_mounts"
+ON public.tire_set_mounts
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_tire_sets_updated_at
+BEFORE UPDATE ON public.tire_sets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_tire_sets AFTER INSERT OR UPDATE OR DELETE ON public.tire_sets
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_tire_set_mounts AFTER INSERT OR UPDATE OR DELETE ON public.tire_set_mounts
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Take the set on a vehicle off into storage and put another set on, in one step. Without
+-- a set to mount the vehicle's set is only taken off. The swap is logged as a tire change.
+CREATE OR REPLACE FUNCTION public.swap_tire_sets(
+  _vehicle_id uuid,
+  _change_date date,
+  _odometer_km integer,
+  _mount_set_id uuid DEFAULT NULL,
+  _mount_tread_mm numeric DEFAULT NULL,
+  _dismount_tread_mm numeric DEFAULT NULL,
+  _storage_location text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _vehicle public.vehicles%ROWTYPE;
+  _mount_set public.tire_sets%ROWTYPE;
+  _dismounted_set_id uuid;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO _vehicle FROM public.vehicles WHERE id = _vehicle_id;
+  IF _vehicle.id IS NULL THEN
+    RAISE EXCEPTION 'Vehicle not found';
+  END IF;
+
+  IF _mount_set_id IS NOT NULL THEN
+    SELECT * INTO _mount_set FROM public.tire_sets WHERE id = _mount_set_id;
+    IF _mount_set.id IS NULL THEN
+      RAISE EXCEPTION 'Tire set not found';
+    END IF;
+    IF _mount_set.retired_on IS NOT NULL THEN
+      RAISE EXCEPTION 'Tire set % is retired', _mount_set.label;
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.tire_set_mounts
+      WHERE tire_set_id = _mount_set_id AND dismounted_on IS NULL AND vehicle_id <> _vehicle_id
+    ) THEN
+      RAISE EXCEPTION 'Tire set % is on another vehicle', _mount_set.label;
+    END IF;
+  END IF;
+
+  UPDATE public.tire_set_mounts
+  SET dismounted_on = _change_date,
+      dismount_odometer_km = _odometer_km,
+      dismount_tread_mm = _dismount_tread_mm
+  WHERE vehicle_id = _vehicle_id AND dismounted_on IS NULL
+  RETURNING tire_set_id INTO _dismounted_set_id;
+
+  IF _dismounted_set_id IS NOT NULL THEN
+    UPDATE public.tire_sets
+    SET storage_location = COALESCE(_storage_location, storage_location)
+    WHERE id = _dismounted_set_id;
+  END IF;
+
+  IF _mount_set_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.tire_set_mounts
+    (tire_set_id, vehicle_id, mounted_on, mount_odometer_km, mount_tread_mm, notes, recorded_by)
+  VALUES
+    (_mount_set_id, _vehicle_id, _change_date, _odometer_km, _mount_tread_mm, _notes, auth.uid());
+
+  UPDATE public.vehicles
+  SET current_tire_type = _mount_set.tire_type,
+      last_tire_change_date = _change_date
+  WHERE id = _vehicle_id;
+
+  INSERT INTO public.tire_changes
+    (vehicle_id, branch_id, tire_type, current_tire_type, change_date, notes, completed_by)
+  VALUES
+    (_vehicle_id, _vehicle.branch_id, _mount_set.tire_type, _mount_set.tire_type, _change_date,
+     concat_ws(' - ', 'Mounted ' || _mount_set.label, _notes), auth.uid());
+END;
+$$;
+
+-- Start from the tires recorded on each vehicle; the set of the current season is taken
+-- as on the vehicle since its last tire change
+DO $$
+DECLARE
+  _legacy RECORD;
+  _set_id uuid;
+BEGIN
+  FOR _legacy IN
+    SELECT v.id AS vehicle_id, v.plate, v.branch_id, season.tire_type, season.brand, season.measurements,
+           season.storage_location, season.condition, v.current_tire_type = season.tire_type AS mounted,
+           COALESCE(v.last_tire_change_date, v.created_at::date) AS mounted_on
+    FROM public.vehicles v
+    CROSS JOIN LATERAL (VALUES
+      ('summer', v.summer_tire_brand, v.summer_tire_measurements, v.summer_tire_location, v.summer_tire_condition),
+      ('winter', v.winter_tire_brand, v.winter_tire_measurements, v.winter_tire_location, v.winter_tire_condition)
+    ) AS season (tire_type, brand, measurements, storage_location, condition)
+    WHERE season.brand IS NOT NULL AND v.status NOT IN ('sold', 'written_off')
+  LOOP
+    INSERT INTO public.tire_sets (label, brand, measurements, tire_type, branch_id, storage_location, notes)
+    VALUES (
+      _legacy.plate || ' ' || initcap(_legacy.tire_type),
+      _legacy.brand,
+      COALESCE(_legacy.measurements, 'Unknown'),
+      _legacy.tire_type,
+      _legacy.branch_id,
+      CASE WHEN _legacy.mounted THEN NULL ELSE _legacy.storage_location END,
+      'Recorded from the vehicle''s tire details' || COALESCE(' (condition ' || _legacy.condition || ')', '')
+    )
+    RETURNING id INTO _set_id;
+
+    IF _legacy.mounted THEN
+      INSERT INTO public.tire_set_mounts (tire_set_id, vehicle_id, mounted_on, notes)
+      VALUES (_set_id, _legacy.vehicle_id, _legacy.mounted_on, 'On the vehicle when tire sets were introduced');
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,321 @@
+-- Report aggregations done in the database, so totals no longer depend on how many rows a
+-- select returns. Every function takes the report filters, all optional: a date range and a
+-- branch or a vehicle. They run as the caller, so RLS still applies.
+
+-- Expenses in the report filters, with the branch of their vehicle
+CREATE OR REPLACE FUNCTION public.report_expense_rows(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  expense_id uuid,
+  amount numeric,
+  date date,
+  approval_status text,
+  category_id uuid,
+  vehicle_id uuid,
+  branch_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.id, e.amount, e.date, COALESCE(e.approval_status, 'pending'), e.category_id, e.vehicle_id, v.branch_id
+  FROM public.expenses e
+  JOIN public.vehicles v ON v.id = e.vehicle_id
+  WHERE e.deleted_at IS NULL
+    AND (_date_from IS NULL OR e.date >= _date_from)
+    AND (_date_to IS NULL OR e.date <= _date_to)
+    AND (_branch_id IS NULL OR v.branch_id = _branch_id)
+    AND (_vehicle_id IS NULL OR e.vehicle_id = _vehicle_id);
+$$;
+
+-- Totals per approval status, rejected included
+CREATE OR REPLACE FUNCTION public.report_expenses_by_status(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (approval_status text, total numeric, expense_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.approval_status, SUM(r.amount), COUNT(*)
+  FROM public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+  GROUP BY r.approval_status;
+$$;
+
+-- The breakdowns below leave rejected expenses out
+CREATE OR REPLACE FUNCTION public.report_expenses_by_category(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (category_name text, category_type text, total numeric, expense_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(c.name, 'Uncategorized'), COALESCE(c.type, 'other'), SUM(r.amount), COUNT(*)
+  FROM public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+  LEFT JOIN public.expense_categories c ON c.id = r.category_id
+  WHERE r.approval_status <> 'rejected'
+  GROUP BY c.name, c.type
+  ORDER BY SUM(r.amount) DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_expenses_by_month(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (month date, total numeric, expense_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', r.date)::date, SUM(r.amount), COUNT(*)
+  FROM public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+  WHERE r.approval_status <> 'rejected'
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_expenses_by_branch(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (branch_id uuid, branch_name text, total numeric, expense_count bigint, vehicle_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.branch_id, COALESCE(b.name, 'Unassigned'), SUM(r.amount), COUNT(*), COUNT(DISTINCT r.vehicle_id)
+  FROM public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+  LEFT JOIN public.branches b ON b.id = r.branch_id
+  WHERE r.approval_status <> 'rejected'
+  GROUP BY r.branch_id, b.name
+  ORDER BY SUM(r.amount) DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_expenses_by_vehicle(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  vehicle_id uuid,
+  plate text,
+  make text,
+  model text,
+  branch_id uuid,
+  branch_name text,
+  total numeric,
+  expense_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.vehicle_id, v.plate, v.make, v.model, r.branch_id, COALESCE(b.name, 'Unassigned'), SUM(r.amount), COUNT(*)
+  FROM public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+  JOIN public.vehicles v ON v.id = r.vehicle_id
+  LEFT JOIN public.branches b ON b.id = r.branch_id
+  WHERE r.approval_status <> 'rejected'
+  GROUP BY r.vehicle_id, v.plate, v.make, v.model, r.branch_id, b.name
+  ORDER BY SUM(r.amount) DESC;
+$$;
+
+-- Fuel receipts in the report filters; a receipt without a branch counts for its vehicle's
+CREATE OR REPLACE FUNCTION public.report_fuel_rows(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  receipt_id uuid,
+  amount numeric,
+  date date,
+  litres numeric,
+  odometer_km integer,
+  staff_name text,
+  vehicle_id uuid,
+  branch_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.id, f.amount, f.date, f.litres, f.odometer_km, f.staff_name, f.vehicle_id, COALESCE(f.branch_id, v.branch_id)
+  FROM public.fuel_receipts f
+  LEFT JOIN public.vehicles v ON v.id = f.vehicle_id
+  WHERE (_date_from IS NULL OR f.date >= _date_from)
+    AND (_date_to IS NULL OR f.date <= _date_to)
+    AND (_branch_id IS NULL OR COALESCE(f.branch_id, v.branch_id) = _branch_id)
+    AND (_vehicle_id IS NULL OR f.vehicle_id = _vehicle_id);
+$$;
+
+-- Fuel economy by the full-tank method: the litres bought at a fill-up are the fuel burned
+-- since the previous fill-up of the vehicle. Fill-ups without litres or odometer are skipped,
+-- as are odometer rollbacks. The last three segments of each vehicle are its recent economy.
+CREATE OR REPLACE FUNCTION public.report_fuel_economy_segments(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (vehicle_id uuid, branch_id uuid, date date, litres numeric, distance_km integer, recent boolean)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH fills AS (
+    SELECT r.vehicle_id, r.branch_id, r.date, r.litres,
+           r.odometer_km - LAG(r.odometer_km) OVER (PARTITION BY r.vehicle_id ORDER BY r.date, r.odometer_km) AS distance_km
+    FROM public.report_fuel_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+    WHERE r.litres > 0 AND r.odometer_km > 0
+  ),
+  segments AS (
+    SELECT fills.*, ROW_NUMBER() OVER (PARTITION BY fills.vehicle_id ORDER BY fills.date DESC) AS from_last
+    FROM fills
+    WHERE fills.distance_km > 0
+  )
+  SELECT s.vehicle_id, s.branch_id, s.date, s.litres, s.distance_km, s.from_last <= 3
+  FROM segments s;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_fuel_by_branch(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  branch_id uuid,
+  branch_name text,
+  total numeric,
+  receipt_count bigint,
+  litres numeric,
+  economy_litres numeric,
+  economy_km bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH receipts AS (
+    SELECT r.branch_id, SUM(r.amount) AS total, COUNT(*) AS receipt_count, COALESCE(SUM(r.litres), 0) AS litres
+    FROM public.report_fuel_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+    GROUP BY r.branch_id
+  ),
+  economy AS (
+    SELECT s.branch_id, SUM(s.litres) AS litres, SUM(s.distance_km) AS distance_km
+    FROM public.report_fuel_economy_segments(_date_from, _date_to, _branch_id, _vehicle_id) s
+    GROUP BY s.branch_id
+  )
+  SELECT receipts.branch_id, COALESCE(b.name, 'Unassigned'), receipts.total, receipts.receipt_count, receipts.litres,
+         COALESCE(economy.litres, 0), COALESCE(economy.distance_km, 0)
+  FROM receipts
+  LEFT JOIN economy ON economy.branch_id IS NOT DISTINCT FROM receipts.branch_id
+  LEFT JOIN public.branches b ON b.id = receipts.branch_id
+  ORDER BY receipts.total DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_fuel_by_vehicle(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  vehicle_id uuid,
+  plate text,
+  make text,
+  model text,
+  branch_id uuid,
+  branch_name text,
+  total numeric,
+  receipt_count bigint,
+  litres numeric,
+  economy_litres numeric,
+  economy_km bigint,
+  segment_count bigint,
+  recent_litres numeric,
+  recent_km bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH receipts AS (
+    SELECT r.vehicle_id, SUM(r.amount) AS total, COUNT(*) AS receipt_count, COALESCE(SUM(r.litres), 0) AS litres
+    FROM public.report_fuel_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+    GROUP BY r.vehicle_id
+  ),
+  economy AS (
+    SELECT s.vehicle_id,
+           SUM(s.litres) AS litres,
+           SUM(s.distance_km) AS distance_km,
+           COUNT(*) AS segment_count,
+           SUM(s.litres) FILTER (WHERE s.recent) AS recent_litres,
+           SUM(s.distance_km) FILTER (WHERE s.recent) AS recent_km
+    FROM public.report_fuel_economy_segments(_date_from, _date_to, _branch_id, _vehicle_id) s
+    GROUP BY s.vehicle_id
+  )
+  SELECT receipts.vehicle_id, v.plate, v.make, v.model, v.branch_id, COALESCE(b.name, 'Unassigned'),
+         receipts.total, receipts.receipt_count, receipts.litres,
+         COALESCE(economy.litres, 0), COALESCE(economy.distance_km, 0), COALESCE(economy.segment_count, 0),
+         COALESCE(economy.recent_litres, 0), COALESCE(economy.recent_km, 0)
+  FROM receipts
+  JOIN public.vehicles v ON v.id = receipts.vehicle_id
+  LEFT JOIN public.branches b ON b.id = v.branch_id
+  LEFT JOIN economy ON economy.vehicle_id = receipts.vehicle_id
+  ORDER BY receipts.total DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_fuel_by_staff(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (staff_name text, total numeric, receipt_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(r.staff_name, 'Unknown'), SUM(r.amount), COUNT(*)
+  FROM public.report_fuel_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+  GROUP BY 1
+  ORDER BY SUM(r.amount) DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_fuel_economy_by_month(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (month date, litres numeric, distance_km bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', s.date)::date, SUM(s.litres), SUM(s.distance_km)
+  FROM public.report_fuel_economy_segments(_date_from, _date_to, _branch_id, _vehicle_id) s
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_date ON public.expenses (date) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_fuel_receipts_date ON public.fuel_receipts (date);
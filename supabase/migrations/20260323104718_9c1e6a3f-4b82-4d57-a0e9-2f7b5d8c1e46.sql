@@ -0,0 +1,346 @@
+-- Branch assignments of a vehicle as dated history, so spend, fuel and kilometres stay with the
+-- branch the vehicle belonged to at the time instead of following it when it is transferred.
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS branch_changed_on DATE;
+
+UPDATE public.vehicles SET branch_changed_on = created_at::date WHERE branch_changed_on IS NULL;
+
+-- One row per branch a vehicle has been at, dated from when the transfer took effect
+CREATE TABLE public.vehicle_branch_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.vehicles(id) ON DELETE CASCADE,
+  branch_id UUID REFERENCES public.branches(id) ON DELETE SET NULL,
+  previous_branch_id UUID REFERENCES public.branches(id) ON DELETE SET NULL,
+  effective_date DATE NOT NULL,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_branch_history_vehicle ON public.vehicle_branch_history (vehicle_id, effective_date);
+
+INSERT INTO public.vehicle_branch_history (vehicle_id, branch_id, effective_date)
+SELECT id, branch_id, branch_changed_on FROM public.vehicles;
+
+-- Enable RLS
+ALTER TABLE public.vehicle_branch_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (rows are only written by the trigger below)
+CREATE POLICY "Approved users can view vehicle branch history"
+ON public.vehicle_branch_history
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Require authentication for vehicle_branch_history"
+ON public.vehicle_branch_history
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- A transfer saved without a date took effect today
+CREATE OR REPLACE FUNCTION public.date_vehicle_branch_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.branch_changed_on := coalesce(NEW.branch_changed_on, current_date);
+  ELSIF NEW.branch_id IS DISTINCT FROM OLD.branch_id AND NEW.branch_changed_on IS NOT DISTINCT FROM OLD.branch_changed_on THEN
+    NEW.branch_changed_on := current_date;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_vehicle_branch_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.branch_id IS DISTINCT FROM OLD.branch_id THEN
+    INSERT INTO public.vehicle_branch_history (vehicle_id, branch_id, previous_branch_id, effective_date, changed_by)
+    VALUES (
+      NEW.id,
+      NEW.branch_id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.branch_id END,
+      NEW.branch_changed_on,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER date_vehicle_branch_change
+BEFORE INSERT OR UPDATE ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.date_vehicle_branch_change();
+
+CREATE TRIGGER log_vehicle_branch_change
+AFTER INSERT OR UPDATE OF branch_id ON public.vehicles
+FOR EACH ROW
+EXECUTE FUNCTION public.log_vehicle_branch_change();
+
+-- The branch a vehicle belonged to on a date: the latest transfer on or before it. Dates before
+-- the first recorded assignment belong to that first branch.
+CREATE OR REPLACE FUNCTION public.vehicle_branch_on(_vehicle_id uuid, _date date)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT assignment.branch_id
+  FROM (
+    SELECT h.branch_id, 0 AS fallback, h.effective_date <= _date AS started,
+           h.effective_date, h.created_at
+    FROM public.vehicle_branch_history h
+    WHERE h.vehicle_id = _vehicle_id
+    UNION ALL
+    -- Vehicles without history keep their current branch
+    SELECT v.branch_id, 1, true, NULL, NULL
+    FROM public.vehicles v
+    WHERE v.id = _vehicle_id
+  ) assignment
+  ORDER BY assignment.fallback,
+           assignment.started DESC,
+           CASE WHEN assignment.started THEN assignment.effective_date END DESC,
+           assignment.effective_date,
+           assignment.created_at DESC
+  LIMIT 1;
+$$;
+
+-- Reports attribute expenses and fuel to the vehicle's branch on the transaction date
+CREATE OR REPLACE FUNCTION public.report_expense_rows(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  expense_id uuid,
+  amount numeric,
+  date date,
+  approval_status text,
+  category_id uuid,
+  vehicle_id uuid,
+  branch_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT dated.*
+  FROM (
+    SELECT e.id, e.amount, e.date, COALESCE(e.approval_status, 'pending'), e.category_id, e.vehicle_id,
+           public.vehicle_branch_on(e.vehicle_id, e.date) AS branch_id
+    FROM public.expenses e
+    WHERE e.deleted_at IS NULL
+      AND (_date_from IS NULL OR e.date >= _date_from)
+      AND (_date_to IS NULL OR e.date <= _date_to)
+      AND (_vehicle_id IS NULL OR e.vehicle_id = _vehicle_id)
+  ) dated
+  WHERE _branch_id IS NULL OR dated.branch_id = _branch_id;
+$$;
+
+-- A vehicle's spend is listed once, under its current branch
+CREATE OR REPLACE FUNCTION public.report_expenses_by_vehicle(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  vehicle_id uuid,
+  plate text,
+  make text,
+  model text,
+  branch_id uuid,
+  branch_name text,
+  total numeric,
+  expense_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.vehicle_id, v.plate, v.make, v.model, v.branch_id, COALESCE(b.name, 'Unassigned'), SUM(r.amount), COUNT(*)
+  FROM public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+  JOIN public.vehicles v ON v.id = r.vehicle_id
+  LEFT JOIN public.branches b ON b.id = v.branch_id
+  WHERE r.approval_status <> 'rejected'
+  GROUP BY r.vehicle_id, v.plate, v.make, v.model, v.branch_id, b.name
+  ORDER BY SUM(r.amount) DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_fuel_rows(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  receipt_id uuid,
+  amount numeric,
+  date date,
+  litres numeric,
+  odometer_km integer,
+  staff_name text,
+  vehicle_id uuid,
+  branch_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT dated.*
+  FROM (
+    SELECT f.id, f.amount, f.date, f.litres, f.odometer_km, f.staff_name, f.vehicle_id,
+           public.vehicle_branch_on(f.vehicle_id, f.date) AS branch_id
+    FROM public.fuel_receipts f
+    WHERE (_date_from IS NULL OR f.date >= _date_from)
+      AND (_date_to IS NULL OR f.date <= _date_to)
+      AND (_vehicle_id IS NULL OR f.vehicle_id = _vehicle_id)
+  ) dated
+  WHERE _branch_id IS NULL OR dated.branch_id = _branch_id;
+$$;
+
+-- A vehicle that moved is listed under each branch it fuelled at, with that branch's share.
+-- Recent segments are still the vehicle's last three overall.
+CREATE OR REPLACE FUNCTION public.report_fuel_by_vehicle(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  vehicle_id uuid,
+  plate text,
+  make text,
+  model text,
+  branch_id uuid,
+  branch_name text,
+  total numeric,
+  receipt_count bigint,
+  litres numeric,
+  economy_litres numeric,
+  economy_km bigint,
+  segment_count bigint,
+  recent_litres numeric,
+  recent_km bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH receipts AS (
+    SELECT r.vehicle_id, r.branch_id, SUM(r.amount) AS total, COUNT(*) AS receipt_count, COALESCE(SUM(r.litres), 0) AS litres
+    FROM public.report_fuel_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+    GROUP BY r.vehicle_id, r.branch_id
+  ),
+  economy AS (
+    SELECT s.vehicle_id,
+           s.branch_id,
+           SUM(s.litres) AS litres,
+           SUM(s.distance_km) AS distance_km,
+           COUNT(*) AS segment_count,
+           SUM(s.litres) FILTER (WHERE s.recent) AS recent_litres,
+           SUM(s.distance_km) FILTER (WHERE s.recent) AS recent_km
+    FROM public.report_fuel_economy_segments(_date_from, _date_to, _branch_id, _vehicle_id) s
+    GROUP BY s.vehicle_id, s.branch_id
+  )
+  SELECT receipts.vehicle_id, v.plate, v.make, v.model, receipts.branch_id, COALESCE(b.name, 'Unassigned'),
+         receipts.total, receipts.receipt_count, receipts.litres,
+         COALESCE(economy.litres, 0), COALESCE(economy.distance_km, 0), COALESCE(economy.segment_count, 0),
+         COALESCE(economy.recent_litres, 0), COALESCE(economy.recent_km, 0)
+  FROM receipts
+  JOIN public.vehicles v ON v.id = receipts.vehicle_id
+  LEFT JOIN public.branches b ON b.id = receipts.branch_id
+  LEFT JOIN economy ON economy.vehicle_id = receipts.vehicle_id
+    AND economy.branch_id IS NOT DISTINCT FROM receipts.branch_id
+  ORDER BY receipts.total DESC;
+$$;
+
+-- Kilometres driven from the odometer ledger: each reading adds the distance since the previous
+-- one to the branch the vehicle was at on the reading date. Without a date range the totals add
+-- up to the vehicles' current odometers. Vehicles without readings are listed with 0 km.
+CREATE OR REPLACE FUNCTION public.report_fleet_km(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  vehicle_id uuid,
+  plate text,
+  make text,
+  model text,
+  branch_id uuid,
+  branch_name text,
+  kilometers bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT r.id, r.vehicle_id, r.reading_date, r.created_at, r.odometer_km, r.distance_km,
+           -- Each recorded odometer starts a group that the GPS distances after it add to
+           COUNT(r.odometer_km) OVER (PARTITION BY r.vehicle_id ORDER BY r.reading_date, r.created_at, r.id) AS anchor_group
+    FROM public.odometer_readings r
+    WHERE NOT r.excluded
+      AND (_vehicle_id IS NULL OR r.vehicle_id = _vehicle_id)
+  ),
+  running AS (
+    SELECT o.id, o.vehicle_id, o.reading_date, o.created_at,
+           COALESCE(MAX(o.odometer_km) OVER (PARTITION BY o.vehicle_id, o.anchor_group), 0)
+             + SUM(COALESCE(o.distance_km, 0)) OVER (
+                 PARTITION BY o.vehicle_id, o.anchor_group
+                 ORDER BY o.reading_date, o.created_at, o.id
+                 ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+               ) AS odometer_km
+    FROM ordered o
+  ),
+  driven AS (
+    SELECT r.vehicle_id, r.reading_date,
+           public.vehicle_branch_on(r.vehicle_id, r.reading_date) AS branch_id,
+           r.odometer_km - LAG(r.odometer_km, 1, 0::numeric) OVER (
+             PARTITION BY r.vehicle_id ORDER BY r.reading_date, r.created_at, r.id
+           ) AS km
+    FROM running r
+  ),
+  totals AS (
+    SELECT d.vehicle_id, d.branch_id, round(SUM(d.km))::bigint AS kilometers
+    FROM driven d
+    WHERE (_date_from IS NULL OR d.reading_date >= _date_from)
+      AND (_date_to IS NULL OR d.reading_date <= _date_to)
+    GROUP BY d.vehicle_id, d.branch_id
+    UNION ALL
+    SELECT v.id, v.branch_id, 0
+    FROM public.vehicles v
+    WHERE (_vehicle_id IS NULL OR v.id = _vehicle_id)
+      AND NOT EXISTS (SELECT 1 FROM driven d WHERE d.vehicle_id = v.id)
+  )
+  SELECT t.vehicle_id, v.plate, v.make, v.model, t.branch_id, COALESCE(b.name, 'Unassigned'), t.kilometers
+  FROM totals t
+  JOIN public.vehicles v ON v.id = t.vehicle_id
+  LEFT JOIN public.branches b ON b.id = t.branch_id
+  WHERE _branch_id IS NULL OR t.branch_id = _branch_id
+  ORDER BY t.kilometers DESC;
+$$;
+
+-- Expenses in the report filters as full rows, for lists that join their related records
+CREATE OR REPLACE FUNCTION public.filtered_expenses(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.expenses
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.*
+  FROM public.expenses e
+  JOIN public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r ON r.expense_id = e.id;
+$$;
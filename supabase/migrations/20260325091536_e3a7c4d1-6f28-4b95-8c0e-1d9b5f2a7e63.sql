@@ -0,0 +1,197 @@
+-- Organization-wide settings, kept in a single row
+CREATE TABLE public.organization_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Month the fiscal year starts in (1 = January)
+  fiscal_year_start_month INTEGER NOT NULL DEFAULT 1 CHECK (fiscal_year_start_month BETWEEN 1 AND 12),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_settings_single_row ON public.organization_settings ((true));
+
+INSERT INTO public.organization_settings (fiscal_year_start_month) VALUES (1);
+
+-- Enable RLS
+ALTER TABLE public.organization_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Approved users can view organization settings"
+ON public.organization_settings
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Approved admins can update organization settings"
+ON public.organization_settings
+FOR UPDATE
+USING (is_user_approved(auth.uid()) AND is_admin(auth.uid()));
+
+CREATE POLICY "Require authentication for organization_settings"
+ON public.organization_settings
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_organization_settings_updated_at
+BEFORE UPDATE ON public.organization_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_organization_settings AFTER INSERT OR UPDATE OR DELETE ON public.organization_settings
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Accounting periods, one row per month that has ever been closed. A closed month locks the
+-- expenses and fuel receipts dated in it; reopening keeps the row with who reopened it and why.
+CREATE TABLE public.accounting_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_month DATE NOT NULL UNIQUE CHECK (period_month = date_trunc('month', period_month)::date),
+  is_closed BOOLEAN NOT NULL DEFAULT true,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES auth.users(id),
+  reopened_at TIMESTAMP WITH TIME ZONE,
+  reopened_by UUID REFERENCES auth.users(id),
+  reopen_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.accounting_periods ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (rows are only written by the functions below)
+CREATE POLICY "Approved users can view accounting periods"
+ON public.accounting_periods
+FOR SELECT
+USING (is_user_approved(auth.uid()));
+
+CREATE POLICY "Require authentication for accounting_periods"
+ON public.accounting_periods
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_accounting_periods_updated_at
+BEFORE UPDATE ON public.accounting_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Closing and reopening are UPDATEs here, so the audit log records each one with its reason
+CREATE TRIGGER audit_accounting_periods AFTER INSERT OR UPDATE OR DELETE ON public.accounting_periods
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE OR REPLACE FUNCTION public.is_period_closed(_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.accounting_periods
+    WHERE period_month = date_trunc('month', _date)::date AND is_closed
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_accounting_period(_period_month date)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _month date := date_trunc('month', _period_month)::date;
+  _period_id uuid;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF _month >= date_trunc('month', current_date)::date THEN
+    RAISE EXCEPTION 'Only past months can be closed';
+  END IF;
+
+  INSERT INTO public.accounting_periods (period_month, is_closed, closed_at, closed_by)
+  VALUES (_month, true, now(), auth.uid())
+  ON CONFLICT (period_month) DO UPDATE
+  SET is_closed = true, closed_at = now(), closed_by = auth.uid()
+  WHERE NOT public.accounting_periods.is_closed
+  RETURNING id INTO _period_id;
+
+  IF _period_id IS NULL THEN
+    RAISE EXCEPTION 'Period is already closed';
+  END IF;
+
+  RETURN _period_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_accounting_period(_period_month date, _reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _period_id uuid;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a period';
+  END IF;
+
+  UPDATE public.accounting_periods
+  SET is_closed = false, reopened_at = now(), reopened_by = auth.uid(), reopen_reason = trim(_reason)
+  WHERE period_month = date_trunc('month', _period_month)::date AND is_closed
+  RETURNING id INTO _period_id;
+
+  IF _period_id IS NULL THEN
+    RAISE EXCEPTION 'Period is not closed';
+  END IF;
+
+  RETURN _period_id;
+END;
+$$;
+
+-- Reject writes to rows dated in a closed month, whether the row is in it now or would be moved
+-- into it. The trigger arguments name the columns that may still change on a locked row, such as
+-- approval decisions and vendor links, which do not alter what was booked.
+CREATE OR REPLACE FUNCTION public.enforce_closed_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _locked_date date;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND is_period_closed(OLD.date) THEN
+    _locked_date := OLD.date;
+  ELSIF TG_OP IN ('INSERT', 'UPDATE') AND is_period_closed(NEW.date) THEN
+    _locked_date := NEW.date;
+  END IF;
+
+  IF _locked_date IS NULL THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (to_jsonb(NEW) - TG_ARGV) = (to_jsonb(OLD) - TG_ARGV) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'The accounting period for % is closed', to_char(_locked_date, 'FMMonth YYYY')
+    USING HINT = 'An admin must reopen the period before this record can be changed.';
+END;
+$$;
+
+CREATE TRIGGER enforce_expenses_closed_period
+BEFORE INSERT OR UPDATE OR DELETE ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_closed_period(
+  'approval_status', 'approved_at', 'approved_by', 'rejection_reason', 'manager_approver_id',
+  'vendor_id', 'vendor_name', 'work_order_id', 'updated_at', 'modified_at', 'modified_by'
+);
+
+CREATE TRIGGER enforce_fuel_receipts_closed_period
+BEFORE INSERT OR UPDATE OR DELETE ON public.fuel_receipts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_closed_period('vendor_id', 'vendor_name', 'updated_at');
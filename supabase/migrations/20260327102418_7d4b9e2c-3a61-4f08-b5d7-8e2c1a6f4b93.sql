@@ -0,0 +1,172 @@
+-- Tax regime per branch. Rates are percentages; only the rates of the branch's regime apply:
+-- hst = HST, gst = GST only, gst_pst = GST + PST, gst_qst = GST + QST, us_sales_tax = US sales tax.
+-- Existing branches keep the Ontario 13% HST that was assumed until now.
+ALTER TABLE public.branches
+  ADD COLUMN IF NOT EXISTS tax_regime TEXT NOT NULL DEFAULT 'hst'
+    CHECK (tax_regime IN ('hst', 'gst', 'gst_pst', 'gst_qst', 'us_sales_tax')),
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(6, 3) NOT NULL DEFAULT 0 CHECK (gst_rate >= 0),
+  ADD COLUMN IF NOT EXISTS pst_rate NUMERIC(6, 3) NOT NULL DEFAULT 0 CHECK (pst_rate >= 0),
+  ADD COLUMN IF NOT EXISTS hst_rate NUMERIC(6, 3) NOT NULL DEFAULT 13 CHECK (hst_rate >= 0),
+  ADD COLUMN IF NOT EXISTS qst_rate NUMERIC(6, 3) NOT NULL DEFAULT 0 CHECK (qst_rate >= 0),
+  ADD COLUMN IF NOT EXISTS us_sales_tax_rate NUMERIC(6, 3) NOT NULL DEFAULT 0 CHECK (us_sales_tax_rate >= 0);
+
+-- Tax components on each expense and fuel receipt. tax_amount stays the total of the components.
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS gst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS pst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS hst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS qst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS us_sales_tax_amount NUMERIC(12, 2);
+
+ALTER TABLE public.fuel_receipts
+  ADD COLUMN IF NOT EXISTS gst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS pst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS hst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS qst_amount NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS us_sales_tax_amount NUMERIC(12, 2);
+
+-- Every tax recorded so far was entered as HST. The backfill skips the audit, updated_at and
+-- closed period triggers so it does not rewrite history or trip over closed months.
+ALTER TABLE public.expenses DISABLE TRIGGER USER;
+UPDATE public.expenses SET hst_amount = tax_amount WHERE tax_amount IS NOT NULL;
+ALTER TABLE public.expenses ENABLE TRIGGER USER;
+
+ALTER TABLE public.fuel_receipts DISABLE TRIGGER USER;
+UPDATE public.fuel_receipts SET hst_amount = tax_amount WHERE tax_amount IS NOT NULL;
+ALTER TABLE public.fuel_receipts ENABLE TRIGGER USER;
+
+-- Keep tax_amount and the components in step. Components that are saved set the total;
+-- a total saved on its own (bulk import, fuel receipts, multi-item scans) is split across the
+-- components of the branch's regime in proportion to their rates.
+CREATE OR REPLACE FUNCTION public.apply_tax_components()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _branch public.branches%ROWTYPE;
+  _components_changed boolean;
+  _rate_total numeric;
+  _allocated numeric := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _components_changed := (NEW.gst_amount, NEW.pst_amount, NEW.hst_amount, NEW.qst_amount, NEW.us_sales_tax_amount)
+      IS DISTINCT FROM (OLD.gst_amount, OLD.pst_amount, OLD.hst_amount, OLD.qst_amount, OLD.us_sales_tax_amount);
+  ELSE
+    _components_changed := num_nonnulls(NEW.gst_amount, NEW.pst_amount, NEW.hst_amount, NEW.qst_amount, NEW.us_sales_tax_amount) > 0;
+  END IF;
+
+  IF _components_changed AND num_nonnulls(NEW.gst_amount, NEW.pst_amount, NEW.hst_amount, NEW.qst_amount, NEW.us_sales_tax_amount) > 0 THEN
+    NEW.tax_amount := coalesce(NEW.gst_amount, 0) + coalesce(NEW.pst_amount, 0) + coalesce(NEW.hst_amount, 0)
+      + coalesce(NEW.qst_amount, 0) + coalesce(NEW.us_sales_tax_amount, 0);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT _components_changed AND NEW.tax_amount IS NOT DISTINCT FROM OLD.tax_amount THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.gst_amount := NULL;
+  NEW.pst_amount := NULL;
+  NEW.hst_amount := NULL;
+  NEW.qst_amount := NULL;
+  NEW.us_sales_tax_amount := NULL;
+
+  SELECT * INTO _branch FROM public.branches WHERE id = NEW.branch_id;
+  IF NEW.tax_amount IS NULL OR _branch.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  CASE _branch.tax_regime
+    WHEN 'hst' THEN
+      NEW.hst_amount := NEW.tax_amount;
+    WHEN 'gst' THEN
+      NEW.gst_amount := NEW.tax_amount;
+    WHEN 'us_sales_tax' THEN
+      NEW.us_sales_tax_amount := NEW.tax_amount;
+    WHEN 'gst_pst' THEN
+      _rate_total := _branch.gst_rate + _branch.pst_rate;
+      NEW.gst_amount := CASE WHEN _rate_total > 0 THEN round(NEW.tax_amount * _branch.gst_rate / _rate_total, 2) ELSE NEW.tax_amount END;
+      NEW.pst_amount := NEW.tax_amount - NEW.gst_amount;
+    WHEN 'gst_qst' THEN
+      _rate_total := _branch.gst_rate + _branch.qst_rate;
+      NEW.gst_amount := CASE WHEN _rate_total > 0 THEN round(NEW.tax_amount * _branch.gst_rate / _rate_total, 2) ELSE NEW.tax_amount END;
+      NEW.qst_amount := NEW.tax_amount - NEW.gst_amount;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_expense_tax_components
+BEFORE INSERT OR UPDATE ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_tax_components();
+
+CREATE TRIGGER apply_fuel_receipt_tax_components
+BEFORE INSERT OR UPDATE ON public.fuel_receipts
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_tax_components();
+
+-- Tax paid per component and month or quarter, on expenses (rejected excluded) and fuel
+-- receipts. GST, HST and QST can be claimed back as input tax credits; PST and US sales tax
+-- are a cost. Records count towards the branch they were entered against, whose regime
+-- decided their tax.
+CREATE OR REPLACE FUNCTION public.report_tax_credits(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL,
+  _interval text DEFAULT 'month'
+)
+RETURNS TABLE (
+  period date,
+  component text,
+  recoverable boolean,
+  expense_tax numeric,
+  fuel_tax numeric,
+  total numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH taxed AS (
+    SELECT e.date, 'expense' AS source, c.component, c.amount
+    FROM public.expenses e
+    CROSS JOIN LATERAL (VALUES
+      ('gst', e.gst_amount), ('pst', e.pst_amount), ('hst', e.hst_amount),
+      ('qst', e.qst_amount), ('us_sales_tax', e.us_sales_tax_amount)
+    ) AS c(component, amount)
+    WHERE e.deleted_at IS NULL
+      AND COALESCE(e.approval_status, 'pending') <> 'rejected'
+      AND c.amount IS NOT NULL
+      AND (_date_from IS NULL OR e.date >= _date_from)
+      AND (_date_to IS NULL OR e.date <= _date_to)
+      AND (_branch_id IS NULL OR e.branch_id = _branch_id)
+      AND (_vehicle_id IS NULL OR e.vehicle_id = _vehicle_id)
+    UNION ALL
+    SELECT f.date, 'fuel' AS source, c.component, c.amount
+    FROM public.fuel_receipts f
+    CROSS JOIN LATERAL (VALUES
+      ('gst', f.gst_amount), ('pst', f.pst_amount), ('hst', f.hst_amount),
+      ('qst', f.qst_amount), ('us_sales_tax', f.us_sales_tax_amount)
+    ) AS c(component, amount)
+    WHERE c.amount IS NOT NULL
+      AND (_date_from IS NULL OR f.date >= _date_from)
+      AND (_date_to IS NULL OR f.date <= _date_to)
+      AND (_branch_id IS NULL OR f.branch_id = _branch_id)
+      AND (_vehicle_id IS NULL OR f.vehicle_id = _vehicle_id)
+  )
+  SELECT
+    date_trunc(CASE WHEN _interval = 'quarter' THEN 'quarter' ELSE 'month' END, t.date)::date AS period,
+    t.component,
+    t.component IN ('gst', 'hst', 'qst') AS recoverable,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.source = 'expense'), 0) AS expense_tax,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.source = 'fuel'), 0) AS fuel_tax,
+    SUM(t.amount) AS total
+  FROM taxed t
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
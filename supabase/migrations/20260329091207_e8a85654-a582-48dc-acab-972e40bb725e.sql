@@ -0,0 +1,76 @@
+-- Lifetime cost of ownership aggregated per vehicle in the database, so the totals do not depend
+-- on how many expense and fuel rows a select returns. They run as the caller, so RLS still applies.
+
+-- Lifetime spend per vehicle and expense category, rejected expenses left out. The first date
+-- dates the purchase for acquisition categories.
+CREATE OR REPLACE FUNCTION public.report_vehicle_cost_totals()
+RETURNS TABLE (
+  vehicle_id uuid,
+  category_name text,
+  category_type text,
+  total numeric,
+  first_date date
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.vehicle_id, c.name, c.type, SUM(e.amount), MIN(e.date)
+  FROM public.expenses e
+  LEFT JOIN public.expense_categories c ON c.id = e.category_id
+  WHERE e.deleted_at IS NULL
+    AND COALESCE(e.approval_status, 'pending') <> 'rejected'
+  GROUP BY e.vehicle_id, c.name, c.type;
+$$;
+
+-- Fuel spend, GPS kilometres and the range of odometer readings on expenses and fuel receipts
+-- per vehicle
+CREATE OR REPLACE FUNCTION public.report_vehicle_usage()
+RETURNS TABLE (
+  vehicle_id uuid,
+  fuel_total numeric,
+  gps_km numeric,
+  min_odometer integer,
+  max_odometer integer,
+  reading_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH fuel AS (
+    SELECT f.vehicle_id, SUM(f.amount) AS total
+    FROM public.fuel_receipts f
+    GROUP BY f.vehicle_id
+  ),
+  gps AS (
+    SELECT g.vehicle_id, SUM(g.kilometers) AS km
+    FROM public.gps_uploads g
+    WHERE g.vehicle_id IS NOT NULL
+    GROUP BY g.vehicle_id
+  ),
+  readings AS (
+    SELECT e.vehicle_id, e.odometer_reading AS odometer_km
+    FROM public.expenses e
+    WHERE e.deleted_at IS NULL
+      AND COALESCE(e.approval_status, 'pending') <> 'rejected'
+      AND e.odometer_reading IS NOT NULL
+      AND e.odometer_reading > 0
+    UNION ALL
+    SELECT f.vehicle_id, f.odometer_km
+    FROM public.fuel_receipts f
+    WHERE f.odometer_km IS NOT NULL
+      AND f.odometer_km > 0
+  ),
+  odometer AS (
+    SELECT r.vehicle_id, MIN(r.odometer_km) AS min_km, MAX(r.odometer_km) AS max_km, COUNT(*) AS reading_count
+    FROM readings r
+    GROUP BY r.vehicle_id
+  )
+  SELECT v.id, COALESCE(fuel.total, 0), COALESCE(gps.km, 0), odometer.min_km, odometer.max_km,
+         COALESCE(odometer.reading_count, 0)
+  FROM public.vehicles v
+  LEFT JOIN fuel ON fuel.vehicle_id = v.id
+  LEFT JOIN gps ON gps.vehicle_id = v.id
+  LEFT JOIN odometer ON odometer.vehicle_id = v.id;
+$$;
@@ -0,0 +1,85 @@
+-- Scan all expenses and fuel receipts for likely duplicates in the database, so the scan covers
+-- every record instead of the first page a select returns, and flag the new pairs.
+
+-- Uses the same rules as getDuplicateReasons and isLikelyDuplicate in src/utils/duplicateReceipts.ts:
+-- the same document, or the same amount and date along with the same vendor or vehicle. The
+-- expense is flagged against a fuel receipt; between two expenses the later one is the copy.
+-- Pairs flagged before in either direction, including dismissed ones, are skipped. Returns the
+-- number of new flags.
+CREATE OR REPLACE FUNCTION public.flag_duplicate_expenses()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _flagged integer;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin_or_manager(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  WITH records AS (
+    SELECT 'expense' AS source, e.id, e.date, round(e.amount * 100) AS cents,
+           regexp_replace(lower(coalesce(e.vendor_name, '')), '[^a-z0-9]', '', 'g') AS vendor,
+           e.vehicle_id, e.created_at,
+           ARRAY(SELECT d.file_hash FROM public.documents d WHERE d.expense_id = e.id AND d.file_hash IS NOT NULL) AS hashes
+    FROM public.expenses e
+    WHERE e.deleted_at IS NULL
+    UNION ALL
+    SELECT 'fuel_receipt', f.id, f.date, round(f.amount * 100),
+           regexp_replace(lower(coalesce(f.vendor_name, '')), '[^a-z0-9]', '', 'g'),
+           f.vehicle_id, f.created_at,
+           ARRAY(SELECT d.file_hash FROM public.documents d WHERE d.fuel_receipt_id = f.id AND d.file_hash IS NOT NULL)
+    FROM public.fuel_receipts f
+  ),
+  -- Only records sharing an amount and date, or a document, can be duplicates
+  candidates AS (
+    SELECT a.source AS a_source, a.id AS a_id, b.source AS b_source, b.id AS b_id
+    FROM records a
+    JOIN records b ON b.cents = a.cents AND b.date = a.date
+    UNION
+    SELECT a.source, a.id, b.source, b.id
+    FROM (SELECT r.source, r.id, unnest(r.hashes) AS hash FROM records r) a
+    JOIN (SELECT r.source, r.id, unnest(r.hashes) AS hash FROM records r) b ON b.hash = a.hash
+  ),
+  pairs AS (
+    SELECT flagged.id AS expense_id, other.source AS match_source, other.id AS match_id,
+           array_remove(ARRAY[
+             CASE WHEN flagged.hashes && other.hashes THEN 'document' END,
+             CASE WHEN flagged.cents = other.cents THEN 'amount' END,
+             CASE WHEN flagged.date = other.date THEN 'date' END,
+             CASE WHEN flagged.vendor <> '' AND other.vendor <> ''
+                   AND (position(other.vendor IN flagged.vendor) > 0 OR position(flagged.vendor IN other.vendor) > 0)
+                  THEN 'vendor' END,
+             CASE WHEN flagged.vehicle_id = other.vehicle_id THEN 'vehicle' END
+           ], NULL) AS reasons
+    FROM candidates c
+    JOIN records flagged ON flagged.source = c.a_source AND flagged.id = c.a_id
+    JOIN records other ON other.source = c.b_source AND other.id = c.b_id
+    WHERE flagged.source = 'expense'
+      AND flagged.id <> other.id
+      AND (other.source = 'fuel_receipt'
+           OR flagged.created_at > other.created_at
+           OR (flagged.created_at = other.created_at AND flagged.id > other.id))
+  )
+  INSERT INTO public.duplicate_flags (expense_id, match_expense_id, match_fuel_receipt_id, reasons, created_by)
+  SELECT p.expense_id,
+         CASE WHEN p.match_source = 'expense' THEN p.match_id END,
+         CASE WHEN p.match_source = 'fuel_receipt' THEN p.match_id END,
+         p.reasons,
+         auth.uid()
+  FROM pairs p
+  WHERE ('document' = ANY (p.reasons)
+         OR ('amount' = ANY (p.reasons) AND 'date' = ANY (p.reasons)
+             AND ('vendor' = ANY (p.reasons) OR 'vehicle' = ANY (p.reasons))))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.duplicate_flags existing
+      WHERE existing.expense_id = p.match_id AND existing.match_expense_id = p.expense_id
+    )
+  ON CONFLICT (expense_id, coalesce(match_expense_id, match_fuel_receipt_id)) DO NOTHING;
+
+  GET DIAGNOSTICS _flagged = ROW_COUNT;
+  RETURN _flagged;
+END;
+$$;
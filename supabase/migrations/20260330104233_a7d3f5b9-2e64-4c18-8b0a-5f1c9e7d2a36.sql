@@ -0,0 +1,42 @@
+-- Record an inspection and its checklist results in one transaction, so a failed results insert
+-- does not leave an inspection without results. Runs as the caller, so the insert policies apply.
+-- _results is an array of inspection_results rows without inspection_id.
+CREATE OR REPLACE FUNCTION public.submit_inspection(
+  _vehicle_id uuid,
+  _branch_id uuid,
+  _kilometers integer,
+  _template_id uuid,
+  _general_notes text,
+  _results jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _inspection_id uuid;
+BEGIN
+  INSERT INTO public.vehicle_inspections (vehicle_id, branch_id, kilometers, completed_by, template_id, general_notes)
+  VALUES (_vehicle_id, _branch_id, _kilometers, auth.uid(), _template_id, _general_notes)
+  RETURNING id INTO _inspection_id;
+
+  INSERT INTO public.inspection_results (
+    inspection_id, template_item_id, position, item_key, label, item_type, passed, numeric_value, unit, notes
+  )
+  SELECT _inspection_id, r.template_item_id, r.position, r.item_key, r.label, r.item_type, r.passed,
+         r.numeric_value, r.unit, r.notes
+  FROM jsonb_to_recordset(_results) AS r(
+    template_item_id uuid,
+    position integer,
+    item_key text,
+    label text,
+    item_type text,
+    passed boolean,
+    numeric_value numeric,
+    unit text,
+    notes text
+  );
+
+  RETURN _inspection_id;
+END;
+$$;
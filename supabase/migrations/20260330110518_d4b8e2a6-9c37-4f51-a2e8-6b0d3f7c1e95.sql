@@ -0,0 +1,22 @@
+-- The latest service of each vehicle in each category, picked in the database so the due dates
+-- do not depend on how many expense rows a select returns. Rejected expenses are not a completed
+-- service. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.latest_service_records(_category_ids uuid[], _vehicle_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  vehicle_id uuid,
+  category_id uuid,
+  date date,
+  odometer_reading integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (e.vehicle_id, e.category_id) e.vehicle_id, e.category_id, e.date, e.odometer_reading
+  FROM public.expenses e
+  WHERE e.category_id = ANY (_category_ids)
+    AND e.deleted_at IS NULL
+    AND COALESCE(e.approval_status, 'pending') <> 'rejected'
+    AND (_vehicle_id IS NULL OR e.vehicle_id = _vehicle_id)
+  ORDER BY e.vehicle_id, e.category_id, e.date DESC, e.created_at DESC;
+$$;
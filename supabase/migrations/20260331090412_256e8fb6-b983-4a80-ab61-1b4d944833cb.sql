@@ -0,0 +1,89 @@
+-- Tighten who can approve an expense: approval only goes through approve_expense_step, the
+-- submitter cannot approve their own expense, and each step needs a different approver.
+
+-- Expenses are only approved through approve_expense_step, whatever state they come from.
+-- A rejected expense has to go back to pending so its steps are built again.
+CREATE OR REPLACE FUNCTION public.enforce_expense_approval_steps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approval_status = 'approved'
+     AND OLD.approval_status IS DISTINCT FROM 'approved'
+     AND coalesce(current_setting('app.approval_step_action', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Expenses must be approved through their approval steps';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Approve the current step of a pending expense. The expense is approved once its last step is.
+-- Expenses without a matching chain keep the single-step behaviour: any admin or manager approves.
+-- Nobody approves their own expense, and each step of a chain needs a different approver.
+CREATE OR REPLACE FUNCTION public.approve_expense_step(_expense_id uuid, _comment text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step public.expense_approval_steps%ROWTYPE;
+  _remaining integer;
+BEGIN
+  IF NOT is_user_approved(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.expenses WHERE id = _expense_id AND approval_status = 'pending') THEN
+    RAISE EXCEPTION 'Expense is not pending approval';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.expenses WHERE id = _expense_id AND created_by = auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot approve an expense you submitted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.expense_approval_steps
+    WHERE expense_id = _expense_id AND status = 'approved' AND acted_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You have already approved an earlier step of this expense';
+  END IF;
+
+  SELECT * INTO _step
+  FROM public.expense_approval_steps
+  WHERE expense_id = _expense_id AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF _step.id IS NULL THEN
+    IF NOT is_admin_or_manager(auth.uid()) THEN
+      RAISE EXCEPTION 'Not authorized';
+    END IF;
+  ELSE
+    IF NOT can_act_on_approval_step(auth.uid(), _step.approver_role, _step.approver_user_id) THEN
+      RAISE EXCEPTION 'You are not the approver for the current step';
+    END IF;
+
+    UPDATE public.expense_approval_steps
+    SET status = 'approved', acted_by = auth.uid(), acted_at = now(), comment = _comment
+    WHERE id = _step.id;
+  END IF;
+
+  SELECT count(*) INTO _remaining
+  FROM public.expense_approval_steps
+  WHERE expense_id = _expense_id AND status = 'pending';
+
+  IF _remaining > 0 THEN
+    RETURN 'pending';
+  END IF;
+
+  PERFORM set_config('app.approval_step_action', 'on', true);
+  UPDATE public.expenses
+  SET approval_status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = _expense_id;
+
+  RETURN 'approved';
+END;
+$$;
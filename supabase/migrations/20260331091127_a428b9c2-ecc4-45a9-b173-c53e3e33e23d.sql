@@ -0,0 +1,110 @@
+-- Deleting a vehicle's last open work order returns it to service, and merging vendors moves
+-- their work orders to the vendor that is kept.
+
+-- Keep the vehicle's status in step with its work orders: a vehicle on the road goes into
+-- the shop when a work order opens, and comes back into service when its last one is completed
+-- or deleted
+CREATE OR REPLACE FUNCTION public.sync_vehicle_status_from_work_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'completed' AND NOT EXISTS (
+      SELECT 1 FROM public.work_orders
+      WHERE vehicle_id = OLD.vehicle_id AND status <> 'completed'
+    ) THEN
+      UPDATE public.vehicles
+      SET status = 'active', status_changed_on = current_date
+      WHERE id = OLD.vehicle_id AND status = 'maintenance';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status <> 'completed' THEN
+    UPDATE public.vehicles
+    SET status = 'maintenance', status_changed_on = NEW.opened_at::date
+    WHERE id = NEW.vehicle_id AND status IN ('active', 'loaner');
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.work_orders
+    WHERE vehicle_id = NEW.vehicle_id AND status <> 'completed' AND id <> NEW.id
+  ) THEN
+    UPDATE public.vehicles
+    SET status = 'active', status_changed_on = NEW.completed_at::date
+    WHERE id = NEW.vehicle_id AND status = 'maintenance';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_vehicle_status_from_work_order ON public.work_orders;
+CREATE TRIGGER sync_vehicle_status_from_work_order
+AFTER INSERT OR UPDATE OF status OR DELETE ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_vehicle_status_from_work_order();
+
+-- Work orders now link to vendors too, so merging vendors moves them to the vendor that is kept
+CREATE OR REPLACE FUNCTION public.merge_vendors(_target_vendor_id uuid, _source_vendor_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target public.vendors%ROWTYPE;
+  _source_ids uuid[];
+  _source_names text[];
+  _expenses integer;
+  _fuel_receipts integer;
+  _reconciliation_id uuid;
+BEGIN
+  IF NOT (is_user_approved(auth.uid()) AND is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO _target FROM public.vendors WHERE id = _target_vendor_id;
+
+  IF _target.id IS NULL THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  SELECT coalesce(array_agg(id), '{}'), coalesce(array_agg(name), '{}')
+  INTO _source_ids, _source_names
+  FROM public.vendors
+  WHERE id = ANY(_source_vendor_ids) AND id <> _target.id;
+
+  IF cardinality(_source_ids) = 0 THEN
+    RAISE EXCEPTION 'No vendors to merge';
+  END IF;
+
+  UPDATE public.expenses
+  SET vendor_id = _target.id, vendor_name = _target.name
+  WHERE vendor_id = ANY(_source_ids);
+  GET DIAGNOSTICS _expenses = ROW_COUNT;
+
+  UPDATE public.fuel_receipts
+  SET vendor_id = _target.id, vendor_name = _target.name
+  WHERE vendor_id = ANY(_source_ids);
+  GET DIAGNOSTICS _fuel_receipts = ROW_COUNT;
+
+  UPDATE public.work_orders
+  SET vendor_id = _target.id, vendor_name = _target.name
+  WHERE vendor_id = ANY(_source_ids);
+
+  UPDATE public.import_profiles
+  SET vendor_id = _target.id
+  WHERE vendor_id = ANY(_source_ids);
+
+  DELETE FROM public.vendors WHERE id = ANY(_source_ids);
+
+  INSERT INTO public.vendor_reconciliations
+    (action, vendor_id, vendor_name, source_names, source_vendor_ids, expenses_updated, fuel_receipts_updated, performed_by)
+  VALUES
+    ('merge', _target.id, _target.name, _source_names, _source_ids, _expenses, _fuel_receipts, auth.uid())
+  RETURNING id INTO _reconciliation_id;
+
+  RETURN _reconciliation_id;
+END;
+$$;
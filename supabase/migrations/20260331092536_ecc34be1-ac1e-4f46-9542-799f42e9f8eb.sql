@@ -0,0 +1,122 @@
+-- GPS distance logged in the same month as an odometer reading only counts for the days after
+-- the reading, in the current odometer and in the kilometres report.
+
+-- A GPS reading covers its month up to the reading date. Only the share of those days after
+-- _after counts, so distance driven before an odometer reading in the same month is not added
+-- on top of it. The distance is spread evenly over the days.
+CREATE OR REPLACE FUNCTION public.gps_distance_after(_distance_km NUMERIC, _reading_date DATE, _after DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _distance_km
+         * GREATEST(_reading_date - GREATEST(_after, date_trunc('month', _reading_date)::date - 1), 0)
+         / (_reading_date - date_trunc('month', _reading_date)::date + 1);
+$$;
+
+-- The current odometer: the latest recorded reading plus the GPS distance logged after it
+CREATE OR REPLACE FUNCTION public.refresh_vehicle_odometer(_vehicle_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _km NUMERIC := 0;
+  _recorded_on DATE;
+  _reading RECORD;
+BEGIN
+  FOR _reading IN
+    SELECT reading_date, odometer_km, distance_km
+    FROM public.odometer_readings
+    WHERE vehicle_id = _vehicle_id AND NOT excluded
+    ORDER BY reading_date, created_at
+  LOOP
+    IF _reading.odometer_km IS NOT NULL THEN
+      _km := _reading.odometer_km;
+      _recorded_on := _reading.reading_date;
+    ELSE
+      _km := _km + public.gps_distance_after(_reading.distance_km, _reading.reading_date, _recorded_on);
+    END IF;
+  END LOOP;
+
+  UPDATE public.vehicles
+  SET odometer_km = round(_km)
+  WHERE id = _vehicle_id AND odometer_km IS DISTINCT FROM round(_km);
+END;
+$$;
+
+-- Recompute the current odometers with the new rule
+SELECT public.refresh_vehicle_odometer(id) FROM public.vehicles;
+
+-- Kilometres driven from the odometer ledger: each reading adds the distance since the previous
+-- one to the branch the vehicle was at on the reading date. Without a date range the totals add
+-- up to the vehicles' current odometers. Vehicles without readings are listed with 0 km.
+CREATE OR REPLACE FUNCTION public.report_fleet_km(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  vehicle_id uuid,
+  plate text,
+  make text,
+  model text,
+  branch_id uuid,
+  branch_name text,
+  kilometers bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT r.id, r.vehicle_id, r.reading_date, r.created_at, r.odometer_km, r.distance_km,
+           -- Each recorded odometer starts a group that the GPS distances after it add to
+           COUNT(r.odometer_km) OVER (PARTITION BY r.vehicle_id ORDER BY r.reading_date, r.created_at, r.id) AS anchor_group,
+           MAX(r.reading_date) FILTER (WHERE r.odometer_km IS NOT NULL) OVER (
+             PARTITION BY r.vehicle_id ORDER BY r.reading_date, r.created_at, r.id
+           ) AS anchor_date
+    FROM public.odometer_readings r
+    WHERE NOT r.excluded
+      AND (_vehicle_id IS NULL OR r.vehicle_id = _vehicle_id)
+  ),
+  running AS (
+    SELECT o.id, o.vehicle_id, o.reading_date, o.created_at,
+           COALESCE(MAX(o.odometer_km) OVER (PARTITION BY o.vehicle_id, o.anchor_group), 0)
+             + SUM(COALESCE(public.gps_distance_after(o.distance_km, o.reading_date, o.anchor_date), 0)) OVER (
+                 PARTITION BY o.vehicle_id, o.anchor_group
+                 ORDER BY o.reading_date, o.created_at, o.id
+                 ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+               ) AS odometer_km
+    FROM ordered o
+  ),
+  driven AS (
+    SELECT r.vehicle_id, r.reading_date,
+           public.vehicle_branch_on(r.vehicle_id, r.reading_date) AS branch_id,
+           r.odometer_km - LAG(r.odometer_km, 1, 0::numeric) OVER (
+             PARTITION BY r.vehicle_id ORDER BY r.reading_date, r.created_at, r.id
+           ) AS km
+    FROM running r
+  ),
+  totals AS (
+    SELECT d.vehicle_id, d.branch_id, round(SUM(d.km))::bigint AS kilometers
+    FROM driven d
+    WHERE (_date_from IS NULL OR d.reading_date >= _date_from)
+      AND (_date_to IS NULL OR d.reading_date <= _date_to)
+    GROUP BY d.vehicle_id, d.branch_id
+    UNION ALL
+    SELECT v.id, v.branch_id, 0
+    FROM public.vehicles v
+    WHERE (_vehicle_id IS NULL OR v.id = _vehicle_id)
+      AND NOT EXISTS (SELECT 1 FROM driven d WHERE d.vehicle_id = v.id)
+  )
+  SELECT t.vehicle_id, v.plate, v.make, v.model, t.branch_id, COALESCE(b.name, 'Unassigned'), t.kilometers
+  FROM totals t
+  JOIN public.vehicles v ON v.id = t.vehicle_id
+  LEFT JOIN public.branches b ON b.id = t.branch_id
+  WHERE _branch_id IS NULL OR t.branch_id = _branch_id
+  ORDER BY t.kilometers DESC;
+$$;
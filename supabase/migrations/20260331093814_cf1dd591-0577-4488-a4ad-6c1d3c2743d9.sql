@@ -0,0 +1,64 @@
+-- Tax credits count towards the vehicle's branch on the transaction date, like the other reports.
+
+-- Tax paid per component and month or quarter, on expenses (rejected excluded) and fuel
+-- receipts. GST, HST and QST can be claimed back as input tax credits; PST and US sales tax
+-- are a cost. Like the other reports, records count towards the vehicle's branch on the
+-- transaction date.
+CREATE OR REPLACE FUNCTION public.report_tax_credits(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL,
+  _interval text DEFAULT 'month'
+)
+RETURNS TABLE (
+  period date,
+  component text,
+  recoverable boolean,
+  expense_tax numeric,
+  fuel_tax numeric,
+  total numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH taxed AS (
+    SELECT e.date, 'expense' AS source, c.component, c.amount
+    FROM public.expenses e
+    CROSS JOIN LATERAL (VALUES
+      ('gst', e.gst_amount), ('pst', e.pst_amount), ('hst', e.hst_amount),
+      ('qst', e.qst_amount), ('us_sales_tax', e.us_sales_tax_amount)
+    ) AS c(component, amount)
+    WHERE e.deleted_at IS NULL
+      AND COALESCE(e.approval_status, 'pending') <> 'rejected'
+      AND c.amount IS NOT NULL
+      AND (_date_from IS NULL OR e.date >= _date_from)
+      AND (_date_to IS NULL OR e.date <= _date_to)
+      AND (_branch_id IS NULL OR public.vehicle_branch_on(e.vehicle_id, e.date) = _branch_id)
+      AND (_vehicle_id IS NULL OR e.vehicle_id = _vehicle_id)
+    UNION ALL
+    SELECT f.date, 'fuel' AS source, c.component, c.amount
+    FROM public.fuel_receipts f
+    CROSS JOIN LATERAL (VALUES
+      ('gst', f.gst_amount), ('pst', f.pst_amount), ('hst', f.hst_amount),
+      ('qst', f.qst_amount), ('us_sales_tax', f.us_sales_tax_amount)
+    ) AS c(component, amount)
+    WHERE c.amount IS NOT NULL
+      AND (_date_from IS NULL OR f.date >= _date_from)
+      AND (_date_to IS NULL OR f.date <= _date_to)
+      AND (_branch_id IS NULL OR public.vehicle_branch_on(f.vehicle_id, f.date) = _branch_id)
+      AND (_vehicle_id IS NULL OR f.vehicle_id = _vehicle_id)
+  )
+  SELECT
+    date_trunc(CASE WHEN _interval = 'quarter' THEN 'quarter' ELSE 'month' END, t.date)::date AS period,
+    t.component,
+    t.component IN ('gst', 'hst', 'qst') AS recoverable,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.source = 'expense'), 0) AS expense_tax,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.source = 'fuel'), 0) AS fuel_tax,
+    SUM(t.amount) AS total
+  FROM taxed t
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
@@ -0,0 +1,38 @@
+-- Approval decisions decide whether spend is booked at all, so expenses in a closed month can no
+-- longer be approved or rejected, and neither can their approval steps.
+
+DROP TRIGGER IF EXISTS enforce_expenses_closed_period ON public.expenses;
+CREATE TRIGGER enforce_expenses_closed_period
+BEFORE INSERT OR UPDATE OR DELETE ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_closed_period(
+  'vendor_id', 'vendor_name', 'work_order_id', 'updated_at', 'modified_at', 'modified_by'
+);
+
+-- Approval steps of an expense in a closed month cannot be acted on either, so an earlier step
+-- is not approved while the final decision is held back
+CREATE OR REPLACE FUNCTION public.enforce_approval_step_closed_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _expense_date date;
+BEGIN
+  SELECT date INTO _expense_date
+  FROM public.expenses
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.expense_id ELSE NEW.expense_id END;
+
+  IF _expense_date IS NOT NULL AND is_period_closed(_expense_date) THEN
+    RAISE EXCEPTION 'The accounting period for % is closed', to_char(_expense_date, 'FMMonth YYYY')
+      USING HINT = 'An admin must reopen the period before this expense can be approved or rejected.';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER enforce_approval_steps_closed_period
+BEFORE INSERT OR UPDATE OR DELETE ON public.expense_approval_steps
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_approval_step_closed_period();
@@ -0,0 +1,67 @@
+-- Expenses and fuel receipts saved without a branch split their tax by the regime of the vehicle's
+-- branch on the transaction date.
+
+-- Keep tax_amount and the components in step. Components that are saved set the total;
+-- a total saved on its own (bulk import, fuel receipts, multi-item scans) is split across the
+-- components of the branch's regime in proportion to their rates.
+CREATE OR REPLACE FUNCTION public.apply_tax_components()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _branch public.branches%ROWTYPE;
+  _components_changed boolean;
+  _rate_total numeric;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _components_changed := (NEW.gst_amount, NEW.pst_amount, NEW.hst_amount, NEW.qst_amount, NEW.us_sales_tax_amount)
+      IS DISTINCT FROM (OLD.gst_amount, OLD.pst_amount, OLD.hst_amount, OLD.qst_amount, OLD.us_sales_tax_amount);
+  ELSE
+    _components_changed := num_nonnulls(NEW.gst_amount, NEW.pst_amount, NEW.hst_amount, NEW.qst_amount, NEW.us_sales_tax_amount) > 0;
+  END IF;
+
+  IF _components_changed AND num_nonnulls(NEW.gst_amount, NEW.pst_amount, NEW.hst_amount, NEW.qst_amount, NEW.us_sales_tax_amount) > 0 THEN
+    NEW.tax_amount := coalesce(NEW.gst_amount, 0) + coalesce(NEW.pst_amount, 0) + coalesce(NEW.hst_amount, 0)
+      + coalesce(NEW.qst_amount, 0) + coalesce(NEW.us_sales_tax_amount, 0);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT _components_changed AND NEW.tax_amount IS NOT DISTINCT FROM OLD.tax_amount THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.gst_amount := NULL;
+  NEW.pst_amount := NULL;
+  NEW.hst_amount := NULL;
+  NEW.qst_amount := NULL;
+  NEW.us_sales_tax_amount := NULL;
+
+  -- Records saved without a branch use the vehicle's branch on the transaction date
+  SELECT * INTO _branch
+  FROM public.branches
+  WHERE id = coalesce(NEW.branch_id, public.vehicle_branch_on(NEW.vehicle_id, NEW.date));
+  IF NEW.tax_amount IS NULL OR _branch.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  CASE _branch.tax_regime
+    WHEN 'hst' THEN
+      NEW.hst_amount := NEW.tax_amount;
+    WHEN 'gst' THEN
+      NEW.gst_amount := NEW.tax_amount;
+    WHEN 'us_sales_tax' THEN
+      NEW.us_sales_tax_amount := NEW.tax_amount;
+    WHEN 'gst_pst' THEN
+      _rate_total := _branch.gst_rate + _branch.pst_rate;
+      NEW.gst_amount := CASE WHEN _rate_total > 0 THEN round(NEW.tax_amount * _branch.gst_rate / _rate_total, 2) ELSE NEW.tax_amount END;
+      NEW.pst_amount := NEW.tax_amount - NEW.gst_amount;
+    WHEN 'gst_qst' THEN
+      _rate_total := _branch.gst_rate + _branch.qst_rate;
+      NEW.gst_amount := CASE WHEN _rate_total > 0 THEN round(NEW.tax_amount * _branch.gst_rate / _rate_total, 2) ELSE NEW.tax_amount END;
+      NEW.qst_amount := NEW.tax_amount - NEW.gst_amount;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
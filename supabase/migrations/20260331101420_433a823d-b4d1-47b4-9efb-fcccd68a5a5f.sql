@@ -0,0 +1,122 @@
+-- Approval is decided on the server: expenses are inserted pending and approved only through
+-- approve_expense_step or a pre-approval rule, never by the status a client sends.
+
+-- Expenses are only approved through approve_expense_step, whatever state they come from, and
+-- are never inserted already approved. A rejected expense has to go back to pending so its steps
+-- are built again.
+CREATE OR REPLACE FUNCTION public.enforce_expense_approval_steps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.approval_status IS DISTINCT FROM 'approved'
+     OR coalesce(current_setting('app.approval_step_action', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.approval_status = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Expenses must be approved through their approval steps';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_expense_approval_steps ON public.expenses;
+CREATE TRIGGER enforce_expense_approval_steps
+BEFORE INSERT OR UPDATE OF approval_status ON public.expenses
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_expense_approval_steps();
+
+-- Build the approval steps for an expense when it enters (or re-enters) the pending state.
+-- Branch-specific chains win over chains for all branches. A new expense within the pre-approval
+-- rule for its category is approved straight away; a branch rule wins over the rule for all
+-- branches.
+CREATE OR REPLACE FUNCTION public.route_expense_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _chain_id uuid;
+  _preapproved_max numeric;
+BEGIN
+  IF NEW.approval_status IS DISTINCT FROM 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.approval_status IS NOT DISTINCT FROM 'pending'
+     AND OLD.amount = NEW.amount
+     AND OLD.branch_id IS NOT DISTINCT FROM NEW.branch_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT r.max_amount INTO _preapproved_max
+    FROM public.expense_preapproval_rules r
+    WHERE r.is_active
+      AND r.category_id = NEW.category_id
+      AND (r.branch_id IS NULL OR r.branch_id = NEW.branch_id)
+    ORDER BY (r.branch_id IS NULL)
+    LIMIT 1;
+
+    IF NEW.amount <= _preapproved_max THEN
+      PERFORM set_config('app.approval_step_action', 'on', true);
+      UPDATE public.expenses
+      SET approval_status = 'approved', approved_at = now()
+      WHERE id = NEW.id;
+      PERFORM set_config('app.approval_step_action', '', true);
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  DELETE FROM public.expense_approval_steps WHERE expense_id = NEW.id;
+
+  SELECT c.id INTO _chain_id
+  FROM public.approval_chains c
+  WHERE c.is_active
+    AND (c.branch_id IS NULL OR c.branch_id = NEW.branch_id)
+    AND NEW.amount >= c.min_amount
+    AND (c.max_amount IS NULL OR NEW.amount < c.max_amount)
+  ORDER BY (c.branch_id IS NULL), c.min_amount DESC
+  LIMIT 1;
+
+  IF _chain_id IS NOT NULL THEN
+    INSERT INTO public.expense_approval_steps (expense_id, chain_id, step_order, approver_role, approver_user_id)
+    SELECT NEW.id, s.chain_id, s.step_order, s.approver_role, s.approver_user_id
+    FROM public.approval_chain_steps s
+    WHERE s.chain_id = _chain_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Send a rejected expense back to pending and approve its first step in one transaction, so the
+-- expense is not left pending when the approval fails
+CREATE OR REPLACE FUNCTION public.approve_rejected_expense(_expense_id uuid, _comment text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_user_approved(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.expenses WHERE id = _expense_id AND approval_status = 'rejected') THEN
+    RAISE EXCEPTION 'Expense is not rejected';
+  END IF;
+
+  UPDATE public.expenses
+  SET approval_status = 'pending', approved_by = NULL, approved_at = NULL, rejection_reason = NULL
+  WHERE id = _expense_id;
+
+  RETURN public.approve_expense_step(_expense_id, _comment);
+END;
+$$;
@@ -0,0 +1,105 @@
+-- Vendor scorecards and price benchmarks summed in the database, so the totals and job counts do
+-- not depend on how many expense rows a select returns. Runs as the caller, so RLS still applies.
+
+-- Non-rejected expenses in the range that can be tied to a vendor, grouped by vendor, category
+-- and the branch on the transaction date. An expense belongs to its linked vendor, otherwise to
+-- the vendor whose name matches its free-text name, otherwise to the name alone. Names match
+-- ignoring case and punctuation. Each group lists its jobs per month, and the jobs that were
+-- followed by another job (at any vendor) on the same vehicle and category within
+-- _repeat_window_days.
+CREATE OR REPLACE FUNCTION public.report_vendor_jobs(
+  _date_from date,
+  _date_to date,
+  _repeat_window_days integer DEFAULT 30
+)
+RETURNS TABLE (
+  vendor_key text,
+  vendor_id uuid,
+  vendor_name text,
+  category_id uuid,
+  category_name text,
+  category_type text,
+  branch_id uuid,
+  branch_name text,
+  job_count bigint,
+  total numeric,
+  min_amount numeric,
+  max_amount numeric,
+  monthly jsonb,
+  repeat_jobs jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH vendor_names AS (
+    SELECT DISTINCT ON (n.normalized) v.id, v.name, n.normalized
+    FROM public.vendors v
+    CROSS JOIN LATERAL (SELECT btrim(regexp_replace(lower(v.name), '[^a-z0-9]+', ' ', 'g')) AS normalized) n
+    ORDER BY n.normalized, v.name
+  ),
+  resolved AS (
+    SELECT r.expense_id, r.amount, r.date, r.vehicle_id, r.category_id, r.branch_id,
+           COALESCE(e.vendor_id, named.id) AS vendor_id,
+           CASE
+             WHEN e.vendor_id IS NOT NULL THEN e.vendor_id::text
+             WHEN named.id IS NOT NULL THEN named.id::text
+             ELSE 'name:' || n.normalized
+           END AS vendor_key,
+           CASE
+             WHEN e.vendor_id IS NOT NULL THEN COALESCE(linked.name, e.vendor_name, 'Unknown vendor')
+             ELSE COALESCE(named.name, btrim(e.vendor_name))
+           END AS vendor_name
+    FROM public.report_expense_rows(_date_from, _date_to) r
+    JOIN public.expenses e ON e.id = r.expense_id
+    CROSS JOIN LATERAL (SELECT btrim(regexp_replace(lower(e.vendor_name), '[^a-z0-9]+', ' ', 'g')) AS normalized) n
+    LEFT JOIN public.vendors linked ON linked.id = e.vendor_id
+    LEFT JOIN vendor_names named ON e.vendor_id IS NULL AND named.normalized = n.normalized
+    WHERE r.approval_status <> 'rejected'
+      AND (e.vendor_id IS NOT NULL OR btrim(e.vendor_name) <> '')
+  ),
+  jobs AS (
+    SELECT j.*,
+           MIN(j.vendor_name) OVER (PARTITION BY j.vendor_key) AS display_name,
+           j.category_id IS NOT NULL AND j.vehicle_id IS NOT NULL
+             AND LEAD(j.date) OVER (PARTITION BY j.vehicle_id, j.category_id ORDER BY j.date, j.expense_id) - j.date
+               <= _repeat_window_days AS is_repeat
+    FROM resolved j
+  ),
+  vendor_groups AS (
+    SELECT j.vendor_key, j.vendor_id, j.display_name, j.category_id, j.branch_id,
+           COUNT(*) AS job_count, SUM(j.amount) AS total, MIN(j.amount) AS min_amount, MAX(j.amount) AS max_amount,
+           COALESCE(
+             jsonb_agg(
+               jsonb_build_object('id', j.expense_id, 'date', j.date, 'vehicle_plate', v.plate, 'amount', j.amount)
+               ORDER BY j.date
+             ) FILTER (WHERE j.is_repeat),
+             '[]'::jsonb
+           ) AS repeat_jobs
+    FROM jobs j
+    LEFT JOIN public.vehicles v ON v.id = j.vehicle_id
+    GROUP BY j.vendor_key, j.vendor_id, j.display_name, j.category_id, j.branch_id
+  ),
+  months AS (
+    SELECT j.vendor_key, j.category_id, j.branch_id, to_char(j.date, 'YYYY-MM') AS month,
+           COUNT(*) AS jobs, SUM(j.amount) AS total
+    FROM jobs j
+    GROUP BY j.vendor_key, j.category_id, j.branch_id, to_char(j.date, 'YYYY-MM')
+  ),
+  monthly AS (
+    SELECT m.vendor_key, m.category_id, m.branch_id,
+           jsonb_agg(jsonb_build_object('month', m.month, 'jobs', m.jobs, 'total', m.total) ORDER BY m.month) AS monthly
+    FROM months m
+    GROUP BY m.vendor_key, m.category_id, m.branch_id
+  )
+  SELECT g.vendor_key, g.vendor_id, g.display_name, g.category_id, c.name, c.type, g.branch_id, b.name,
+         g.job_count, g.total, g.min_amount, g.max_amount, m.monthly, g.repeat_jobs
+  FROM vendor_groups g
+  JOIN monthly m
+    ON m.vendor_key = g.vendor_key
+   AND m.category_id IS NOT DISTINCT FROM g.category_id
+   AND m.branch_id IS NOT DISTINCT FROM g.branch_id
+  LEFT JOIN public.expense_categories c ON c.id = g.category_id
+  LEFT JOIN public.branches b ON b.id = g.branch_id
+  ORDER BY g.total DESC;
+$$;
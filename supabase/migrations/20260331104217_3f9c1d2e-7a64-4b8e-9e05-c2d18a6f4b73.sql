@@ -0,0 +1,44 @@
+-- Free-text vendor names not linked to a vendor, summed in the database so the reconciliation list
+-- does not depend on how many expense and fuel receipt rows a select returns.
+
+-- One row per name ignoring case and surrounding spaces, with every stored spelling (most used
+-- first) so linking the row updates all of them. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.report_unlinked_vendor_names()
+RETURNS TABLE (
+  name text,
+  spellings text[],
+  expense_count bigint,
+  fuel_receipt_count bigint,
+  total numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH records AS (
+    SELECT e.vendor_name, e.amount, 1 AS expenses, 0 AS fuel_receipts
+    FROM public.expenses e
+    WHERE e.vendor_id IS NULL
+      AND e.deleted_at IS NULL
+      AND trim(e.vendor_name) <> ''
+    UNION ALL
+    SELECT f.vendor_name, f.amount, 0, 1
+    FROM public.fuel_receipts f
+    WHERE f.vendor_id IS NULL
+      AND trim(f.vendor_name) <> ''
+  ),
+  spellings AS (
+    SELECT lower(trim(r.vendor_name)) AS name_key, r.vendor_name, COUNT(*) AS uses,
+           SUM(r.expenses) AS expenses, SUM(r.fuel_receipts) AS fuel_receipts, SUM(r.amount) AS total
+    FROM records r
+    GROUP BY lower(trim(r.vendor_name)), r.vendor_name
+  )
+  SELECT (array_agg(trim(s.vendor_name) ORDER BY s.uses DESC, s.vendor_name))[1],
+         array_agg(s.vendor_name ORDER BY s.uses DESC, s.vendor_name),
+         SUM(s.expenses)::bigint,
+         SUM(s.fuel_receipts)::bigint,
+         SUM(s.total)
+  FROM spellings s
+  GROUP BY s.name_key
+  ORDER BY SUM(s.total) DESC;
+$$;
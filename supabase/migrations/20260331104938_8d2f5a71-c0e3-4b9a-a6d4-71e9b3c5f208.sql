@@ -0,0 +1,149 @@
+-- Expenses and fuel receipts entered against a branch keep that branch in reports; the vehicle's
+-- branch on the transaction date only fills in when none was entered. The branch on the date is
+-- looked up with a join on the branch history instead of calling vehicle_branch_on per row.
+
+CREATE OR REPLACE FUNCTION public.report_expense_rows(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  expense_id uuid,
+  amount numeric,
+  date date,
+  approval_status text,
+  category_id uuid,
+  vehicle_id uuid,
+  branch_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT dated.*
+  FROM (
+    SELECT e.id, e.amount, e.date, COALESCE(e.approval_status, 'pending'), e.category_id, e.vehicle_id,
+           COALESCE(
+             e.branch_id,
+             CASE WHEN assignment.vehicle_id IS NOT NULL THEN assignment.branch_id ELSE v.branch_id END
+           ) AS branch_id
+    FROM public.expenses e
+    LEFT JOIN public.vehicles v ON v.id = e.vehicle_id
+    -- Same order as vehicle_branch_on: the latest transfer on or before the date, otherwise the first
+    LEFT JOIN LATERAL (
+      SELECT h.vehicle_id, h.branch_id
+      FROM public.vehicle_branch_history h
+      WHERE h.vehicle_id = e.vehicle_id
+      ORDER BY h.effective_date <= e.date DESC,
+               CASE WHEN h.effective_date <= e.date THEN h.effective_date END DESC,
+               h.effective_date,
+               h.created_at DESC
+      LIMIT 1
+    ) assignment ON true
+    WHERE e.deleted_at IS NULL
+      AND (_date_from IS NULL OR e.date >= _date_from)
+      AND (_date_to IS NULL OR e.date <= _date_to)
+      AND (_vehicle_id IS NULL OR e.vehicle_id = _vehicle_id)
+  ) dated
+  WHERE _branch_id IS NULL OR dated.branch_id = _branch_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_fuel_rows(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  receipt_id uuid,
+  amount numeric,
+  date date,
+  litres numeric,
+  odometer_km integer,
+  staff_name text,
+  vehicle_id uuid,
+  branch_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT dated.*
+  FROM (
+    SELECT f.id, f.amount, f.date, f.litres, f.odometer_km, f.staff_name, f.vehicle_id,
+           COALESCE(
+             f.branch_id,
+             CASE WHEN assignment.vehicle_id IS NOT NULL THEN assignment.branch_id ELSE v.branch_id END
+           ) AS branch_id
+    FROM public.fuel_receipts f
+    LEFT JOIN public.vehicles v ON v.id = f.vehicle_id
+    LEFT JOIN LATERAL (
+      SELECT h.vehicle_id, h.branch_id
+      FROM public.vehicle_branch_history h
+      WHERE h.vehicle_id = f.vehicle_id
+      ORDER BY h.effective_date <= f.date DESC,
+               CASE WHEN h.effective_date <= f.date THEN h.effective_date END DESC,
+               h.effective_date,
+               h.created_at DESC
+      LIMIT 1
+    ) assignment ON true
+    WHERE (_date_from IS NULL OR f.date >= _date_from)
+      AND (_date_to IS NULL OR f.date <= _date_to)
+      AND (_vehicle_id IS NULL OR f.vehicle_id = _vehicle_id)
+  ) dated
+  WHERE _branch_id IS NULL OR dated.branch_id = _branch_id;
+$$;
+
+-- Tax credits filter on the same branch as the expense and fuel reports
+CREATE OR REPLACE FUNCTION public.report_tax_credits(
+  _date_from date DEFAULT NULL,
+  _date_to date DEFAULT NULL,
+  _branch_id uuid DEFAULT NULL,
+  _vehicle_id uuid DEFAULT NULL,
+  _interval text DEFAULT 'month'
+)
+RETURNS TABLE (
+  period date,
+  component text,
+  recoverable boolean,
+  expense_tax numeric,
+  fuel_tax numeric,
+  total numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH taxed AS (
+    SELECT r.date, 'expense' AS source, c.component, c.amount
+    FROM public.report_expense_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+    JOIN public.expenses e ON e.id = r.expense_id
+    CROSS JOIN LATERAL (VALUES
+      ('gst', e.gst_amount), ('pst', e.pst_amount), ('hst', e.hst_amount),
+      ('qst', e.qst_amount), ('us_sales_tax', e.us_sales_tax_amount)
+    ) AS c(component, amount)
+    WHERE r.approval_status <> 'rejected'
+      AND c.amount IS NOT NULL
+    UNION ALL
+    SELECT r.date, 'fuel' AS source, c.component, c.amount
+    FROM public.report_fuel_rows(_date_from, _date_to, _branch_id, _vehicle_id) r
+    JOIN public.fuel_receipts f ON f.id = r.receipt_id
+    CROSS JOIN LATERAL (VALUES
+      ('gst', f.gst_amount), ('pst', f.pst_amount), ('hst', f.hst_amount),
+      ('qst', f.qst_amount), ('us_sales_tax', f.us_sales_tax_amount)
+    ) AS c(component, amount)
+    WHERE c.amount IS NOT NULL
+  )
+  SELECT
+    date_trunc(CASE WHEN _interval = 'quarter' THEN 'quarter' ELSE 'month' END, t.date)::date AS period,
+    t.component,
+    t.component IN ('gst', 'hst', 'qst') AS recoverable,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.source = 'expense'), 0) AS expense_tax,
+    COALESCE(SUM(t.amount) FILTER (WHERE t.source = 'fuel'), 0) AS fuel_tax,
+    SUM(t.amount) AS total
+  FROM taxed t
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
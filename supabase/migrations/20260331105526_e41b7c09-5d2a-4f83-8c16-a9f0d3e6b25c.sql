@@ -0,0 +1,70 @@
+-- Inspection compliance counted in the database, so the matrix does not depend on how many
+-- inspection and status history rows a select returns. Runs as the caller, so RLS still applies.
+
+-- One row per vehicle that was in service or inspected in the months from _month_from to
+-- _month_to (both the first of a month), with its inspections per month. A vehicle is due for a
+-- month's inspection when it was active or a loaner on any day of the month, the statuses the
+-- inspection form offers.
+CREATE OR REPLACE FUNCTION public.report_inspection_compliance(_month_from date, _month_to date)
+RETURNS TABLE (
+  vehicle_id uuid,
+  plate text,
+  make text,
+  model text,
+  status text,
+  branch_id uuid,
+  branch_name text,
+  months jsonb,
+  last_inspection_date date
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH months AS (
+    SELECT generate_series(_month_from, _month_to, interval '1 month')::date AS month
+  ),
+  periods AS (
+    SELECT h.vehicle_id, h.status, h.effective_date AS starts_on,
+           LEAD(h.effective_date) OVER (PARTITION BY h.vehicle_id ORDER BY h.effective_date, h.created_at) AS ends_on
+    FROM public.vehicle_status_history h
+    WHERE h.effective_date <= (_month_to + interval '1 month - 1 day')::date
+  ),
+  in_service AS (
+    SELECT DISTINCT p.vehicle_id, m.month
+    FROM periods p
+    JOIN months m
+      ON p.starts_on < (m.month + interval '1 month')::date
+     AND (p.ends_on IS NULL OR p.ends_on > m.month)
+    WHERE p.status IN ('active', 'loaner')
+  ),
+  inspected AS (
+    SELECT i.vehicle_id, i.inspection_month AS month, COUNT(*) AS inspections,
+           bool_or(EXISTS (
+             SELECT 1 FROM public.inspection_results r WHERE r.inspection_id = i.id AND NOT r.passed
+           )) AS has_issues,
+           MAX(i.inspection_date) AS last_inspection_date
+    FROM public.vehicle_inspections i
+    WHERE i.inspection_month BETWEEN _month_from AND _month_to
+    GROUP BY i.vehicle_id, i.inspection_month
+  )
+  SELECT v.id, v.plate, v.make, v.model, v.status, v.branch_id, b.name,
+         jsonb_agg(
+           jsonb_build_object(
+             'month', m.month,
+             'inspections', COALESCE(i.inspections, 0),
+             'has_issues', COALESCE(i.has_issues, false),
+             'in_service', s.vehicle_id IS NOT NULL
+           )
+           ORDER BY m.month
+         ),
+         MAX(i.last_inspection_date)
+  FROM public.vehicles v
+  CROSS JOIN months m
+  LEFT JOIN inspected i ON i.vehicle_id = v.id AND i.month = m.month
+  LEFT JOIN in_service s ON s.vehicle_id = v.id AND s.month = m.month
+  LEFT JOIN public.branches b ON b.id = v.branch_id
+  GROUP BY v.id, v.plate, v.make, v.model, v.status, v.branch_id, b.name
+  HAVING bool_or(i.vehicle_id IS NOT NULL OR s.vehicle_id IS NOT NULL)
+  ORDER BY b.name, v.plate;
+$$;
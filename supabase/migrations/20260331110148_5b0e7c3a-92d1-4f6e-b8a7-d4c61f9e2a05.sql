@@ -0,0 +1,55 @@
+-- Status and branch history for a date range: the changes in the range plus, per vehicle, the
+-- last change before it, which says what the vehicle was on the first day. Older changes are not
+-- needed, so availability no longer loads every change ever made. Run as the caller, so RLS
+-- still applies.
+
+CREATE OR REPLACE FUNCTION public.vehicle_status_history_between(_date_from date, _date_to date)
+RETURNS TABLE (
+  vehicle_id uuid,
+  status text,
+  effective_date date,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT starting.vehicle_id, starting.status, starting.effective_date, starting.created_at
+  FROM (
+    SELECT DISTINCT ON (h.vehicle_id) h.vehicle_id, h.status, h.effective_date, h.created_at
+    FROM public.vehicle_status_history h
+    WHERE h.effective_date < _date_from
+    ORDER BY h.vehicle_id, h.effective_date DESC, h.created_at DESC
+  ) starting
+  UNION ALL
+  SELECT h.vehicle_id, h.status, h.effective_date, h.created_at
+  FROM public.vehicle_status_history h
+  WHERE h.effective_date BETWEEN _date_from AND _date_to;
+$$;
+
+CREATE OR REPLACE FUNCTION public.vehicle_branch_history_between(_date_from date, _date_to date)
+RETURNS TABLE (
+  vehicle_id uuid,
+  branch_id uuid,
+  branch_name text,
+  effective_date date,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT starting.vehicle_id, starting.branch_id, b.name, starting.effective_date, starting.created_at
+  FROM (
+    SELECT DISTINCT ON (h.vehicle_id) h.vehicle_id, h.branch_id, h.effective_date, h.created_at
+    FROM public.vehicle_branch_history h
+    WHERE h.effective_date < _date_from
+    ORDER BY h.vehicle_id, h.effective_date DESC, h.created_at DESC
+  ) starting
+  LEFT JOIN public.branches b ON b.id = starting.branch_id
+  UNION ALL
+  SELECT h.vehicle_id, h.branch_id, b.name, h.effective_date, h.created_at
+  FROM public.vehicle_branch_history h
+  LEFT JOIN public.branches b ON b.id = h.branch_id
+  WHERE h.effective_date BETWEEN _date_from AND _date_to;
+$$;
@@ -0,0 +1,47 @@
+-- A vehicle that goes into the shop returns to the status it had before, so a loaner comes back
+-- as a loaner instead of always becoming active.
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS status_before_work_order TEXT;
+
+-- Keep the vehicle's status in step with its work orders: a vehicle on the road goes into
+-- the shop when a work order opens, and goes back to the status it had when its last one is
+-- completed or deleted
+CREATE OR REPLACE FUNCTION public.sync_vehicle_status_from_work_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'completed' AND NOT EXISTS (
+      SELECT 1 FROM public.work_orders
+      WHERE vehicle_id = OLD.vehicle_id AND status <> 'completed'
+    ) THEN
+      UPDATE public.vehicles
+      SET status = coalesce(status_before_work_order, 'active'),
+          status_before_work_order = NULL,
+          status_changed_on = current_date
+      WHERE id = OLD.vehicle_id AND status = 'maintenance';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status <> 'completed' THEN
+    UPDATE public.vehicles
+    SET status_before_work_order = status,
+        status = 'maintenance',
+        status_changed_on = NEW.opened_at::date
+    WHERE id = NEW.vehicle_id AND status IN ('active', 'loaner');
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.work_orders
+    WHERE vehicle_id = NEW.vehicle_id AND status <> 'completed' AND id <> NEW.id
+  ) THEN
+    UPDATE public.vehicles
+    SET status = coalesce(status_before_work_order, 'active'),
+        status_before_work_order = NULL,
+        status_changed_on = NEW.completed_at::date
+    WHERE id = NEW.vehicle_id AND status = 'maintenance';
+  END IF;
+  RETURN NEW;
+END;
+$$;
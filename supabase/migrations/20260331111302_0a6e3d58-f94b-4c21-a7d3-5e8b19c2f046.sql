@@ -0,0 +1,68 @@
+-- Annual budgets cover the fiscal year that starts in the budget's year, following the fiscal
+-- year start month in the organization settings. Monthly budgets still cover the calendar month.
+
+-- Non-rejected expenses and fuel receipts in the budget's period and scope. The branch is the
+-- vehicle's branch on the transaction date. Fuel receipts carry no category, so they count
+-- towards budgets without one and budgets on the Fuel category.
+CREATE OR REPLACE FUNCTION public.report_budget_actuals(_year integer)
+RETURNS TABLE (
+  budget_id uuid,
+  actual numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH fiscal AS (
+    SELECT COALESCE((SELECT s.fiscal_year_start_month FROM public.organization_settings s LIMIT 1), 1) AS start_month
+  ),
+  periods AS (
+    SELECT b.id, b.branch_id, b.category_id, b.vehicle_id,
+           lower(c.name) = 'fuel' AS fuel_category,
+           CASE WHEN b.period_type = 'monthly' AND b.month IS NOT NULL
+                THEN make_date(b.year, b.month, 1)
+                ELSE make_date(b.year, fiscal.start_month, 1)
+           END AS period_start,
+           CASE WHEN b.period_type = 'monthly' AND b.month IS NOT NULL
+                THEN (make_date(b.year, b.month, 1) + interval '1 month' - interval '1 day')::date
+                ELSE (make_date(b.year, fiscal.start_month, 1) + interval '1 year' - interval '1 day')::date
+           END AS period_end
+    FROM public.budgets b
+    CROSS JOIN fiscal
+    LEFT JOIN public.expense_categories c ON c.id = b.category_id
+    WHERE b.year = _year
+  ),
+  bounds AS (
+    SELECT MIN(p.period_start) AS date_from, MAX(p.period_end) AS date_to
+    FROM periods p
+  ),
+  spend AS (
+    SELECT r.amount, r.date, r.category_id, r.vehicle_id, r.branch_id
+    FROM bounds
+    CROSS JOIN LATERAL public.report_expense_rows(bounds.date_from, bounds.date_to) r
+    WHERE r.approval_status <> 'rejected'
+  ),
+  fuel AS (
+    SELECT f.amount, f.date, f.vehicle_id, f.branch_id
+    FROM bounds
+    CROSS JOIN LATERAL public.report_fuel_rows(bounds.date_from, bounds.date_to) f
+  )
+  SELECT p.id,
+         COALESCE((
+           SELECT SUM(s.amount)
+           FROM spend s
+           WHERE s.date BETWEEN p.period_start AND p.period_end
+             AND (p.branch_id IS NULL OR s.branch_id = p.branch_id)
+             AND (p.category_id IS NULL OR s.category_id = p.category_id)
+             AND (p.vehicle_id IS NULL OR s.vehicle_id = p.vehicle_id)
+         ), 0)
+         + COALESCE((
+           SELECT SUM(f.amount)
+           FROM fuel f
+           WHERE f.date BETWEEN p.period_start AND p.period_end
+             AND (p.category_id IS NULL OR p.fuel_category)
+             AND (p.branch_id IS NULL OR f.branch_id = p.branch_id)
+             AND (p.vehicle_id IS NULL OR f.vehicle_id = p.vehicle_id)
+         ), 0)
+  FROM periods p;
+$$;